@@ -4,6 +4,8 @@ import { data } from "./data/resource.js";
 import { storage } from "./storage/resource.js";
 import { adminActions } from "./functions/admin-actions/resource.js";
 import { analyzeReport } from "./functions/analyze-report/resource.js";
+import { deletionWorker } from "./functions/deletion-worker/resource.js";
+import { reportPurge } from "./functions/report-purge/resource.js";
 
 const backend = defineBackend({
   auth,
@@ -11,6 +13,8 @@ const backend = defineBackend({
   storage,
   adminActions,
   analyzeReport,
+  deletionWorker,
+  reportPurge,
 });
 
 const { cfnUserPool } = backend.auth.resources.cfnResources;
@@ -42,8 +46,9 @@ backend.adminActions.resources.lambda.addToRolePolicy(
   })
 );
 
-// Grant the server-side (Compute) role permission to upload to S3
-// This is required for the public-to-server-to-S3 proxy in /api/upload/photos
+// Grant the server-side (Compute) role access to the storage bucket. /api/upload/photos signs public
+// form uploads with it, and homeowners' photos are read with it; in-process analysis with the mock
+// provider writes annotated copies with this role.
 const allNodes = backend.auth.resources.userPool.stack.node.root.node.findAll();
 const computeRole = allNodes.find((n: any) => {
   const id = n.node?.id;
@@ -55,11 +60,12 @@ const computeRole = allNodes.find((n: any) => {
 if (computeRole) {
   // If the found construct has a 'role' property, use that; otherwise use the construct itself
   const grantable = (computeRole as any).role || computeRole;
-  // Grant the server-side (Compute) role permission to upload to OUR storage bucket via Resource Policy
+  // Grant the server-side (Compute) role permission to upload to OUR storage bucket via Resource Policy.
+  // Delete is for the report deletion route, which also removes the archived PDFs no group can reach.
   const { PolicyStatement, ArnPrincipal } = await import("aws-cdk-lib/aws-iam");
   backend.storage.resources.bucket.addToResourcePolicy(
     new PolicyStatement({
-      actions: ["s3:PutObject", "s3:GetObject", "s3:ListBucket"],
+      actions: ["s3:PutObject", "s3:GetObject", "s3:DeleteObject", "s3:ListBucket"],
       resources: [
         backend.storage.resources.bucket.bucketArn,
         backend.storage.resources.bucket.arnForObjects("*"),
@@ -77,7 +83,12 @@ if (computeRole) {
     })
   );
 
-  console.log("✅ Successfully granted S3 write access and AI output read access to Compute role");
+  // API routes write the models that have no public write rule as the server (see runWithServerRole
+  // in lib/amplify-server-utils.ts); IAM callers other than the identity pool roles need this grant
+  backend.data.resources.graphqlApi.grantQuery(grantable);
+  backend.data.resources.graphqlApi.grantMutation(grantable);
+
+  console.log("✅ Successfully granted S3 write access, AI output read access and data API access to Compute role");
 } else {
   console.warn("⚠️ Could not find Compute role to grant S3 permissions. Available nodes:");
   allNodes.forEach((n: any) => {
@@ -118,6 +129,58 @@ for (const groupName of groups) {
   }
 }
 
+// Tenant-partitioned photo storage. Each signed-in user's `custom:companyId` becomes the `companyId`
+// principal tag on their identity pool session, and Admins and IncidentReporters may only reach
+// incident-photos/{companyId}/*: they view photos with signed GETs and remove them while editing.
+// They upload with presigned POSTs that /api/upload/photos signs with their own credentials for a
+// key it chose, so PutObject here is what authorizes those POSTs. Homeowners get nothing here, as a company prefix would cover claims that aren't theirs; they see
+// their reports' photos through /api/incident-reports/[id]/photos. SuperAdmin access is in
+// amplify/storage/resource.ts; guests have none.
+{
+  const { PolicyStatement, FederatedPrincipal } = await import("aws-cdk-lib/aws-iam");
+  const { CfnIdentityPoolPrincipalTag } = await import("aws-cdk-lib/aws-cognito");
+  const { cfnIdentityPool } = backend.auth.resources.cfnResources;
+
+  new CfnIdentityPoolPrincipalTag(backend.auth.stack, "CompanyPrincipalTag", {
+    identityPoolId: cfnIdentityPool.ref,
+    identityProviderName: backend.auth.resources.userPool.userPoolProviderName,
+    principalTags: { companyId: "custom:companyId" },
+    useDefaults: false,
+  });
+
+  const companyPhotos = backend.storage.resources.bucket.arnForObjects("incident-photos/${aws:PrincipalTag/companyId}/*");
+  const companyPhotoActions: Record<string, string[]> = {
+    Admin: ["s3:GetObject", "s3:PutObject", "s3:DeleteObject"],
+    IncidentReporter: ["s3:GetObject", "s3:PutObject", "s3:DeleteObject"],
+  };
+
+  for (const [groupName, actions] of Object.entries(companyPhotoActions)) {
+    const roleNode = allNodes.find((n: any) => n.node?.id === `${groupName}GroupRole`);
+    if (!roleNode) {
+      console.warn(`⚠️ Could not find IAM Role for group: ${groupName}; company photo access not granted`);
+      continue;
+    }
+
+    const role = (roleNode as any).role || roleNode;
+    // Session tags are only passed to roles that trust sts:TagSession
+    role.assumeRolePolicy?.addStatements(
+      new PolicyStatement({
+        actions: ["sts:TagSession"],
+        principals: [new FederatedPrincipal("cognito-identity.amazonaws.com")],
+        conditions: { StringEquals: { "cognito-identity.amazonaws.com:aud": cfnIdentityPool.ref } },
+      })
+    );
+    role.addToPrincipalPolicy(
+      new PolicyStatement({
+        sid: `AllowCompanyPhotosFor${groupName}`,
+        actions,
+        resources: [companyPhotos],
+      })
+    );
+    console.log(`✅ Granted company-scoped photo access to group role: ${groupName}`);
+  }
+}
+
 // NOTE: We do NOT grant Lambda invoke permission to group roles here because it creates circular dependencies.
 // Instead, we use a resource-based policy on the Lambda function itself (see below).
 
@@ -183,6 +246,30 @@ analyzeLambda.addEnvironment(
   backend.data.resources.cfnResources.cfnGraphqlApi.attrGraphQlUrl || ""
 );
 
+// The deletion worker retries queued report deletions: report photos, analyzed copies and PDFs in
+// our bucket, and related records (through its resource access to the data API)
+backend.storage.resources.bucket.grantDelete(backend.deletionWorker.resources.lambda, "incident-photos/*");
+backend.storage.resources.bucket.grantDelete(backend.deletionWorker.resources.lambda, "incident-reports/*");
+const deletionLambda = backend.deletionWorker.resources.lambda as any;
+deletionLambda.addEnvironment("STORAGE_BUCKET_NAME", backend.storage.resources.bucket.bucketName);
+deletionLambda.addEnvironment(
+  "AWS_APPSYNC_GRAPHQL_URL",
+  backend.data.resources.cfnResources.cfnGraphqlApi.attrGraphQlUrl || ""
+);
+
+// The retention job (trash purge, PII redaction) lists each report's PDFs and changes its row
+// straight in the table; the files and related records it hands to the deletion worker as DeletionTasks
+const incidentReportTable = backend.data.resources.tables["IncidentReport"];
+incidentReportTable.grantReadWriteData(backend.reportPurge.resources.lambda);
+backend.storage.resources.bucket.grantRead(backend.reportPurge.resources.lambda);
+const purgeLambda = backend.reportPurge.resources.lambda as any;
+purgeLambda.addEnvironment("INCIDENT_REPORT_TABLE_NAME", incidentReportTable.tableName);
+purgeLambda.addEnvironment("STORAGE_BUCKET_NAME", backend.storage.resources.bucket.bucketName);
+purgeLambda.addEnvironment(
+  "AWS_APPSYNC_GRAPHQL_URL",
+  backend.data.resources.cfnResources.cfnGraphqlApi.attrGraphQlUrl || ""
+);
+
 // Expose the function names and bucket ARN to the application via amplify_outputs.json
 backend.addOutput({
   custom: {
@@ -0,0 +1,136 @@
+/**
+ * Shape of `Company.settings`. The field is AWSJSON, so this module is the schema: the app
+ * validates writes against it (lib/companies/settings.ts), and the forms, the analysis pipeline
+ * and the retention job read their per-company behavior through `parseCompanySettings`.
+ * Self-contained so the Lambda bundles can import it.
+ *
+ * Bump COMPANY_SETTINGS_VERSION when the shape changes, and teach `parseCompanySettings` to
+ * migrate the previous version.
+ */
+
+export const COMPANY_SETTINGS_VERSION = 1;
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// Fields the incident form treats as optional, which a company can make required
+export const OPTIONAL_FORM_FIELDS = [
+  "apartment",
+  "shingleExposure",
+  "weatherHailSize",
+  "weatherDate",
+  "weatherDescription",
+  "photos",
+] as const;
+export type OptionalFormField = (typeof OPTIONAL_FORM_FIELDS)[number];
+
+export interface CompanySettings {
+  version: typeof COMPANY_SETTINGS_VERSION;
+  form: {
+    defaultShingleExposure: number | null; // Inches; prefilled on the form and assumed by the analysis when blank
+    requiredFields: OptionalFormField[];
+  };
+  workflow: {
+    allowedStatuses: string[] | null; // Report statuses the company uses; null allows all of them
+  };
+  branding: {
+    primaryColor: string | null; // #RRGGBB
+    accentColor: string | null;
+  };
+  notifications: {
+    recipients: string[]; // Email addresses
+  };
+  analysis: {
+    autoRunOnSubmit: boolean;
+  };
+  retention: {
+    trashRetentionDays: number;
+    piiPurgeYears: number | null; // Years after resolution before contact details are redacted; null keeps them
+    reportPurgeYears: number | null; // Years after resolution before the report goes to the Trash; null keeps it
+  };
+}
+
+export const DEFAULT_COMPANY_SETTINGS: CompanySettings = {
+  version: COMPANY_SETTINGS_VERSION,
+  form: { defaultShingleExposure: null, requiredFields: [] },
+  workflow: { allowedStatuses: null },
+  branding: { primaryColor: null, accentColor: null },
+  notifications: { recipients: [] },
+  analysis: { autoRunOnSubmit: true },
+  retention: { trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS, piiPurgeYears: null, reportPurgeYears: null },
+};
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const positiveNumber = (value: unknown): number | null => {
+  const n = typeof value === "number" || typeof value === "string" ? Number(value) : NaN;
+  return Number.isFinite(n) && n > 0 ? n : null;
+};
+
+const optionalYears = (value: unknown): number | null => {
+  const years = positiveNumber(value);
+  return years === null ? null : Math.floor(years);
+};
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+
+const color = (value: unknown): string | null => (typeof value === "string" && HEX_COLOR.test(value) ? value : null);
+
+/**
+ * Read stored settings, whatever their version, as the current shape. Lenient: a missing or
+ * invalid value falls back to its default instead of failing, so a bad write can't break a form.
+ *
+ * Version 0 (no `version`) only had the retention rules, at the top level.
+ */
+export function parseCompanySettings(raw: unknown): CompanySettings {
+  let value: unknown = raw;
+  if (typeof raw === "string") {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      value = null;
+    }
+  }
+  const stored = isObject(value) ? value : {};
+  const defaults = DEFAULT_COMPANY_SETTINGS;
+
+  const form = isObject(stored.form) ? stored.form : {};
+  const workflow = isObject(stored.workflow) ? stored.workflow : {};
+  const branding = isObject(stored.branding) ? stored.branding : {};
+  const notifications = isObject(stored.notifications) ? stored.notifications : {};
+  const analysis = isObject(stored.analysis) ? stored.analysis : {};
+  const retention = stored.version === undefined ? stored : isObject(stored.retention) ? stored.retention : {};
+
+  const trashDays = typeof retention.trashRetentionDays === "number" ? retention.trashRetentionDays : NaN;
+
+  return {
+    version: COMPANY_SETTINGS_VERSION,
+    form: {
+      defaultShingleExposure: positiveNumber(form.defaultShingleExposure),
+      requiredFields: stringList(form.requiredFields).filter((field): field is OptionalFormField =>
+        (OPTIONAL_FORM_FIELDS as readonly string[]).includes(field)
+      ),
+    },
+    workflow: {
+      allowedStatuses: Array.isArray(workflow.allowedStatuses) ? stringList(workflow.allowedStatuses) : null,
+    },
+    branding: {
+      primaryColor: color(branding.primaryColor),
+      accentColor: color(branding.accentColor),
+    },
+    notifications: {
+      recipients: stringList(notifications.recipients),
+    },
+    analysis: {
+      autoRunOnSubmit: typeof analysis.autoRunOnSubmit === "boolean" ? analysis.autoRunOnSubmit : defaults.analysis.autoRunOnSubmit,
+    },
+    retention: {
+      trashRetentionDays: Number.isFinite(trashDays) && trashDays >= 0 ? Math.floor(trashDays) : defaults.retention.trashRetentionDays,
+      piiPurgeYears: optionalYears(retention.piiPurgeYears),
+      reportPurgeYears: optionalYears(retention.reportPurgeYears),
+    },
+  };
+}
@@ -1,5 +1,7 @@
 import { type ClientSchema, a, defineData } from "@aws-amplify/backend";
 import { adminActions } from "../functions/admin-actions/resource.js";
+import { deletionWorker } from "../functions/deletion-worker/resource.js";
+import { reportPurge } from "../functions/report-purge/resource.js";
 
 /*=================================================================
 
@@ -46,6 +48,60 @@ const schema = a.schema({
       allow.publicApiKey().to(["read"]),
     ]),
 
+  CustomFieldType: a.enum(["text", "number", "date", "select", "boolean"]),
+
+  // Extra report fields a company asks for (policy number, roof age, ...). Values are stored on
+  // the report under `key` in IncidentReport.customFieldValues; see lib/companies/custom-fields.ts.
+  CustomField: a
+    .model({
+      companyId: a.id().required(),
+      key: a.string().required(), // Set once from the first label, so renaming keeps existing values
+      label: a.string().required(),
+      type: a.ref("CustomFieldType").required(),
+      required: a.boolean(),
+      helpText: a.string(),
+      options: a.string().array(), // Choices of a select field
+      min: a.float(), // Smallest number, or shortest text
+      max: a.float(), // Largest number, or longest text
+      pattern: a.string(), // Regular expression text values must match
+      position: a.integer().required(),
+    })
+    .secondaryIndexes((index) => [
+      index("companyId").sortKeys(["position"]).queryField("listCustomFieldsByCompany"),
+    ])
+    .authorization((allow) => [
+      allow.groups(["SuperAdmin", "Admin", "IncidentReporter", "HomeOwner"]).to(["read"]),
+      // Written by the API routes with the server role after checking the caller's company; read by the public form
+      allow.publicApiKey().to(["read"]),
+    ]),
+
+  // Claim workflow; allowed transitions are enforced by lib/reports/workflow.ts
+  ReportStatus: a.enum([
+    "submitted",
+    "triaged",
+    "inspection_scheduled",
+    "in_review",
+    "awaiting_homeowner",
+    "approved",
+    "denied",
+    "resolved",
+    "reopened",
+  ]),
+
+  // AI analysis lifecycle, kept apart from the claim workflow status
+  AnalysisStatus: a.enum(["queued", "running", "completed", "partial", "failed"]),
+
+  AnalysisRun: a.customType({
+    status: a.ref("AnalysisStatus").required(),
+    photosTotal: a.integer(),
+    photosProcessed: a.integer(), // Photos attempted so far (analyzed or failed)
+    photosFailed: a.integer(),
+    queuedAt: a.datetime(),
+    startedAt: a.datetime(),
+    completedAt: a.datetime(),
+    error: a.string(),
+  }),
+
   IncidentReport: a
     .model({
       claimNumber: a.string().required(),
@@ -65,14 +121,35 @@ const schema = a.schema({
       description: a.string().required(),
       shingleExposure: a.float(), // Shingle exposure in inches
       photoUrls: a.string().array(), // Store S3 URLs of uploaded photos
+      photoMetadata: a.json(), // Per-photo capture time, GPS and size from the upload pipeline, keyed by path
       aiAnalysis: a.json(), // Store the AI analysis result
+      analysisRun: a.ref("AnalysisRun"), // State of the latest AI analysis run
       weatherReport: a.json(), // Store weather information (hail size, date, description)
-      status: a.enum(["submitted", "in_review", "resolved"]),
+      customFieldValues: a.json(), // The company's custom fields, keyed by CustomField.key
+      status: a.ref("ReportStatus"),
       submittedAt: a.datetime(),
       submittedBy: a.string(),
+      deletedAt: a.datetime(), // Set while the report is in the Trash; purged after the company's retention
+      deletedBy: a.string(),
+      resolvedAt: a.datetime(), // Last move to resolved; company retention rules count from here
+      piiPurgedAt: a.datetime(), // Set once the retention job has redacted the homeowner's details
+      // Litigation hold: no edits, deletes or retention purges while set
+      legalHold: a.boolean(),
+      legalHoldReason: a.string(),
+      legalHoldBy: a.string(),
+      legalHoldAt: a.datetime(),
       createdAt: a.datetime(),
       updatedAt: a.datetime(),
     })
+    // Reports without a submittedAt are left out of the company/status indexes, so always set it on create
+    .secondaryIndexes((index) => [
+      // Per-company report list, newest first
+      index("companyId").sortKeys(["submittedAt"]).queryField("listIncidentReportsByCompany"),
+      // Per-status report list (e.g. everything in review)
+      index("status").sortKeys(["submittedAt"]).queryField("listIncidentReportsByStatus"),
+      // Claim number lookup, used to reject duplicate claims within a company
+      index("claimNumber").queryField("listIncidentReportsByClaimNumber"),
+    ])
     .authorization((allow) => [
       // SuperAdmins can do everything across all companies
       allow.group("SuperAdmin"),
@@ -89,6 +166,144 @@ const schema = a.schema({
       allow.publicApiKey().to(["create", "read", "update"]),
     ]),
 
+  // Audit trail of IncidentReport status changes (written by the API routes only)
+  ReportStatusEvent: a
+    .model({
+      reportId: a.id().required(),
+      companyId: a.id(),
+      fromStatus: a.ref("ReportStatus"), // Empty for the initial submission
+      toStatus: a.ref("ReportStatus").required(),
+      actor: a.string().required(), // Email or username of whoever made the change
+      actorRole: a.string(),
+      note: a.string(),
+      changedAt: a.datetime().required(),
+    })
+    .secondaryIndexes((index) => [
+      index("reportId").sortKeys(["changedAt"]).queryField("listStatusEventsByReport"),
+    ])
+    .authorization((allow) => [
+      // The API routes record events with the server role after checking the transition
+      allow.groups(["SuperAdmin", "Admin", "IncidentReporter", "HomeOwner"]).to(["read"]),
+    ]),
+
+  DetectionVerdict: a.enum(["confirmed", "false_positive", "mislabeled", "missed"]),
+
+  // Reviewer verdicts on AI detections. The AI output in IncidentReport.aiAnalysis is never changed;
+  // the latest entry per (photoPath, detectionIndex) is the current verdict.
+  DetectionFeedback: a
+    .model({
+      reportId: a.id().required(),
+      companyId: a.id(),
+      photoPath: a.string().required(), // Original upload the detection belongs to
+      detectionIndex: a.integer(), // Position in that photo's detections; empty for missed damage
+      detectionSet: a.string(), // analyzedAt of the photo's result the index refers to; every run renumbers
+      verdict: a.ref("DetectionVerdict").required(),
+      originalLabel: a.string(), // Model label at review time
+      originalConfidence: a.float(),
+      correctedLabel: a.string(), // Mislabeled and missed only
+      bbox: a.float().array(), // [x1, y1, x2, y2] in original photo pixels
+      reviewer: a.string().required(),
+      reviewerRole: a.string(),
+      reviewedAt: a.datetime().required(),
+    })
+    .secondaryIndexes((index) => [
+      index("reportId").sortKeys(["reviewedAt"]).queryField("listDetectionFeedbackByReport"),
+      index("companyId").sortKeys(["reviewedAt"]).queryField("listDetectionFeedbackByCompany"),
+    ])
+    .authorization((allow) => [
+      // The API routes read and write feedback with the server role after checking report access
+      allow.groups(["SuperAdmin", "Admin", "IncidentReporter"]).to(["read"]),
+    ]),
+
+  // Capture details read from each uploaded photo on the server, with the mismatch flags
+  // they raised against the report. Replaced as a whole each time the photos are checked.
+  PhotoEvidence: a
+    .model({
+      reportId: a.id().required(),
+      companyId: a.id(),
+      photoPath: a.string().required(),
+      source: a.string().required(), // "file" (EXIF in the stored object), "upload" (pipeline metadata) or "none"
+      declaredFields: a.string().array(), // Values taken from the pipeline metadata, which the client sent: unverified
+      capturedAt: a.string(), // Camera-local YYYY-MM-DDTHH:mm:ss, with UTC offset when known
+      latitude: a.float(),
+      longitude: a.float(),
+      altitude: a.float(),
+      cameraMake: a.string(),
+      cameraModel: a.string(),
+      distanceMeters: a.float(), // From the geocoded claim address; empty when either location is unknown
+      flags: a.string().array(), // PhotoEvidenceFlag codes, see lib/reports/photo-evidence.ts
+      perceptualHash: a.string(), // pHash of the stored object, computed by the server; compared across the company's reports
+      checkedAt: a.datetime().required(),
+    })
+    .secondaryIndexes((index) => [
+      index("reportId").sortKeys(["photoPath"]).queryField("listPhotoEvidenceByReport"),
+      index("companyId").sortKeys(["checkedAt"]).queryField("listPhotoEvidenceByCompany"),
+    ])
+    .authorization((allow) => [
+      // Written by the analyze and photo-evidence routes with the server role after checking report access
+      allow.groups(["SuperAdmin", "Admin", "IncidentReporter"]).to(["read"]),
+    ]),
+
+  DeletionTaskStatus: a.enum(["pending", "failed"]),
+
+  // Report artifacts that could not be deleted along with the report. The deletion worker retries
+  // pending tasks with backoff and removes them once done; "failed" ones have used up their attempts.
+  DeletionTask: a
+    .model({
+      reportId: a.id().required(),
+      companyId: a.id(),
+      resource: a.string().required(), // "s3" or the model name of a related record, e.g. "PhotoEvidence"
+      bucket: a.string(), // S3 only
+      key: a.string().required(), // Object key, or the related record's id
+      category: a.string(), // What the object is, e.g. "photo" or "pdf"; see lib/reports/deletion.ts
+      status: a.ref("DeletionTaskStatus").required(),
+      attempts: a.integer().required(),
+      lastError: a.string(),
+      nextAttemptAt: a.datetime().required(),
+      requestedBy: a.string(),
+    })
+    .secondaryIndexes((index) => [
+      index("status").sortKeys(["nextAttemptAt"]).queryField("listDeletionTasksByStatus"),
+      index("reportId").queryField("listDeletionTasksByReport"),
+    ])
+    .authorization((allow) => [
+      // Queued by the report delete route (as the server) and the retention job, worked off by the
+      // deletion worker; none of them through a public rule, as a task decides what gets deleted
+      allow.groups(["SuperAdmin", "Admin"]).to(["read"]),
+    ]),
+
+  // What one run of the retention job did for a company; written by the report-purge function.
+  // Each list holds { reportId, claimNumber } entries.
+  RetentionReport: a
+    .model({
+      companyId: a.id(), // Empty for reports without a company
+      ranAt: a.datetime().required(),
+      piiPurged: a.json(),
+      movedToTrash: a.json(),
+      purgedFromTrash: a.json(),
+      heldCount: a.integer(), // Reports due for a rule but kept for a legal hold
+      failedCount: a.integer(),
+    })
+    .secondaryIndexes((index) => [
+      index("companyId").sortKeys(["ranAt"]).queryField("listRetentionReportsByCompany"),
+    ])
+    .authorization((allow) => [
+      // Written by the report-purge function with its own role; Admins see their company's runs on the Retention page
+      allow.groups(["SuperAdmin", "Admin"]).to(["read"]),
+    ]),
+
+  // Server copy of a signed-in user's unfinished incident form, so it can be resumed on another
+  // device. Photos stay in the browser until a submit uploads them; uploaded ones are listed by path.
+  IncidentReportDraft: a
+    .model({
+      draftKey: a.string().required(), // One draft per form context, e.g. "dashboard:{email}"
+      companyId: a.id(),
+      values: a.json(), // Form values; dates as YYYY-MM-DD
+      uploadedPhotoPaths: a.string().array(),
+      savedAt: a.datetime().required(),
+    })
+    .authorization((allow) => [allow.owner()]),
+
   // User Type for the custom queries
   User: a.customType({
     username: a.string().required(),
@@ -150,7 +365,9 @@ const schema = a.schema({
       allow.owner(),
       allow.groups(["SuperAdmin", "Admin"]).to(["read"]), // Admins can view all properties
     ]),
-});
+})
+  // The deletion Lambdas call the API with their own role for the models that have no public write rule
+  .authorization((allow) => [allow.resource(deletionWorker), allow.resource(reportPurge)]);
 
 export type Schema = ClientSchema<typeof schema>;
 
@@ -0,0 +1,218 @@
+export interface ImageResult {
+    path: string;
+    status: "ok" | "failed" | "skipped";
+    reason?: string;
+    analyzedAt: string;
+    detections?: any[];
+    evidence_bullets?: string[];
+    fraud_signals?: string[];
+    final_assessment?: string;
+    peril_match?: any;
+    local_paths?: string[];
+}
+
+export type PerilMatch = "match" | "partial_match" | "no_match" | "unknown";
+export type SeverityLevel = "none" | "low" | "moderate" | "high" | "severe";
+
+export interface LabelSummary {
+    label: string;
+    count: number;
+    images: number; // Photos the label was found in
+    max_confidence: number;
+    mean_confidence: number;
+}
+
+/** Report-level summary computed from the per-image results. Stored as `aiAnalysis.rollup`. */
+export interface AnalysisRollup {
+    version: 1;
+    images_analyzed: number;
+    labels: LabelSummary[];
+    peril: {
+        reported_peril: string;
+        match: PerilMatch;
+        reason: string;
+        votes: Record<PerilMatch, number>;
+        confidence: number; // Share of the vote weight behind the chosen match, 0-1
+    };
+    severity: {
+        score: number; // 0-100
+        level: SeverityLevel;
+    };
+    assessment: {
+        label: string;
+        confidence: number; // Share of the evidence weight behind the label, 0-1
+        summary: string;
+        breakdown: { assessment: string, weight: number, images: number }[];
+    };
+}
+
+// How much one confident detection of each label contributes to the severity score
+const SEVERITY_WEIGHTS: Record<string, number> = {
+    missing_shingle: 4,
+    hail_impact: 3,
+    wind_crease: 3,
+    granule_loss: 2,
+    blistering: 1,
+};
+const DEFAULT_SEVERITY_WEIGHT = 2;
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+// Images without detections still carry a verdict, so give them a floor weight
+const imageWeight = (img: ImageResult) => {
+    const confidences = (img.detections || []).map((d) => Number(d.confidence) || 0);
+    if (confidences.length === 0) return 0.5;
+    return confidences.reduce((a, b) => a + b, 0) / confidences.length;
+};
+
+const summarizeLabels = (analyzed: ImageResult[]): LabelSummary[] => {
+    const byLabel = new Map<string, { confidences: number[], images: Set<string> }>();
+
+    for (const img of analyzed) {
+        for (const d of img.detections || []) {
+            const label = d.label || "unknown";
+            const entry = byLabel.get(label) || { confidences: [], images: new Set<string>() };
+            entry.confidences.push(Number(d.confidence) || 0);
+            entry.images.add(img.path);
+            byLabel.set(label, entry);
+        }
+    }
+
+    return Array.from(byLabel.entries())
+        .map(([label, { confidences, images }]) => ({
+            label,
+            count: confidences.length,
+            images: images.size,
+            max_confidence: round(Math.max(...confidences)),
+            mean_confidence: round(confidences.reduce((a, b) => a + b, 0) / confidences.length),
+        }))
+        .sort((a, b) => b.count - a.count || b.max_confidence - a.max_confidence);
+};
+
+const combinePeril = (analyzed: ImageResult[]): AnalysisRollup["peril"] => {
+    const votes: Record<PerilMatch, number> = { match: 0, partial_match: 0, no_match: 0, unknown: 0 };
+    const reasons: Record<PerilMatch, string[]> = { match: [], partial_match: [], no_match: [], unknown: [] };
+    let reportedPeril = "";
+
+    for (const img of analyzed) {
+        const peril = img.peril_match;
+        const match: PerilMatch = peril?.match in votes ? peril.match : "unknown";
+        votes[match] += imageWeight(img);
+        if (peril?.reason) reasons[match].push(peril.reason);
+        if (!reportedPeril && peril?.reported_peril) reportedPeril = peril.reported_peril;
+    }
+
+    const decided = (["match", "partial_match", "no_match"] as PerilMatch[]).filter((m) => votes[m] > 0);
+    const total = decided.reduce((sum, m) => sum + votes[m], 0);
+
+    if (total === 0) {
+        return { reported_peril: reportedPeril, match: "unknown", reason: "No photo gave a peril verdict", votes, confidence: 0 };
+    }
+
+    // Highest weight wins; a split between match and no_match reads as a partial match
+    let match = decided.reduce((best, m) => (votes[m] > votes[best] ? m : best), decided[0]);
+    const isSplit = votes.match > 0 && votes.no_match > 0 && Math.abs(votes.match - votes.no_match) / total < 0.2;
+    if (isSplit) match = "partial_match";
+
+    const count = (m: PerilMatch) => analyzed.filter((img) => (img.peril_match?.match || "unknown") === m).length;
+    const tally = decided.map((m) => `${count(m)} ${m.replace("_", " ")}`).join(", ");
+    const topReason = reasons[match][0] || reasons[decided[0]][0];
+
+    return {
+        reported_peril: reportedPeril,
+        match,
+        reason: `${tally} across ${analyzed.length} photo${analyzed.length === 1 ? "" : "s"}${topReason ? `. ${topReason}` : ""}`,
+        votes: Object.fromEntries(Object.entries(votes).map(([k, v]) => [k, round(v)])) as Record<PerilMatch, number>,
+        confidence: round(isSplit ? 0.5 : votes[match] / total),
+    };
+};
+
+const scoreSeverity = (analyzed: ImageResult[]): AnalysisRollup["severity"] => {
+    if (analyzed.length === 0) return { score: 0, level: "none" };
+
+    const damage = analyzed.reduce((sum, img) => sum + (img.detections || []).reduce((imgSum, d) =>
+        imgSum + (SEVERITY_WEIGHTS[d.label] ?? DEFAULT_SEVERITY_WEIGHT) * (Number(d.confidence) || 0), 0), 0);
+
+    // Average damage per photo, squashed into 0-100 so a few photos can't saturate it
+    const score = Math.round(100 * (1 - Math.exp(-(damage / analyzed.length) / 6)));
+    const level: SeverityLevel = score < 10 ? "none" : score < 30 ? "low" : score < 55 ? "moderate" : score < 80 ? "high" : "severe";
+
+    return { score, level };
+};
+
+const weighAssessments = (analyzed: ImageResult[]): AnalysisRollup["assessment"] => {
+    const byAssessment = new Map<string, { weight: number, images: number }>();
+
+    for (const img of analyzed) {
+        if (!img.final_assessment) continue;
+        const key = img.final_assessment.trim().toLowerCase();
+        const entry = byAssessment.get(key) || { weight: 0, images: 0 };
+        entry.weight += imageWeight(img);
+        entry.images += 1;
+        byAssessment.set(key, entry);
+    }
+
+    const breakdown = Array.from(byAssessment.entries())
+        .map(([assessment, { weight, images }]) => ({ assessment, weight: round(weight), images }))
+        .sort((a, b) => b.weight - a.weight);
+
+    const total = breakdown.reduce((sum, b) => sum + b.weight, 0);
+    if (breakdown.length === 0 || total === 0) {
+        return { label: "Assessment Incomplete", confidence: 0, summary: "No photo produced an assessment", breakdown };
+    }
+
+    const top = breakdown[0];
+    const confidence = round(top.weight / total);
+    const others = breakdown.slice(1).map((b) => `${b.assessment} (${b.images})`).join(", ");
+
+    return {
+        label: top.assessment,
+        confidence,
+        summary: `${top.assessment} in ${top.images} of ${analyzed.length} photos, ${Math.round(confidence * 100)}% of the confidence-weighted evidence${others ? `; also seen: ${others}` : ""}`,
+        breakdown,
+    };
+};
+
+export const buildRollup = (images: ImageResult[]): AnalysisRollup => {
+    const analyzed = images.filter((img) => img.status === "ok");
+
+    return {
+        version: 1,
+        images_analyzed: analyzed.length,
+        labels: summarizeLabels(analyzed),
+        peril: combinePeril(analyzed),
+        severity: scoreSeverity(analyzed),
+        assessment: weighAssessments(analyzed),
+    };
+};
+
+/**
+ * Build the stored `aiAnalysis` document from the per-image results: the raw results in
+ * `images`, the summary in `rollup`, and the flat fields older readers still use.
+ * Only images with status "ok" contribute.
+ */
+export const buildAnalysis = (images: ImageResult[]) => {
+    const analyzed = images.filter((img) => img.status === "ok");
+    const rollup = buildRollup(images);
+
+    const detections = analyzed.flatMap((img) => img.detections || []);
+    const evidenceBullets = analyzed.flatMap((img) => img.evidence_bullets || []);
+    const fraudSignals = analyzed.flatMap((img) => img.fraud_signals || []);
+
+    return {
+        detections,
+        // Remove duplicates from bullets/signals
+        evidence_bullets: Array.from(new Set(evidenceBullets)),
+        fraud_signals: Array.from(new Set(fraudSignals)),
+        final_assessment: rollup.assessment.label,
+        peril_match: {
+            reported_peril: rollup.peril.reported_peril,
+            match: rollup.peril.match,
+            reason: rollup.peril.reason,
+        },
+        all_local_paths: analyzed.flatMap((img) => img.local_paths || []),
+        total_images_analyzed: analyzed.length,
+        rollup,
+        images,
+    };
+};
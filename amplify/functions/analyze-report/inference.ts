@@ -0,0 +1,75 @@
+import { createMockInferenceProvider } from "./mock-provider.js";
+
+const DEFAULT_INFERENCE_URL = "https://xkhwrtjkwriyfonzpjdhuvmdky0ufdxf.lambda-url.us-east-1.on.aws/";
+
+/** One call to the roof-damage model. The worker sends a single image per request. */
+export interface InferenceRequest {
+    images: { s3_uri: string, format: string }[];
+    analysis_context: {
+        image_id: string;
+        reported_peril: string;
+        weather_summary: string;
+        notes: string;
+    };
+    shingle_size_inches: number;
+    weather_report?: {
+        reported_hail_size_inches: number;
+        weather_date: string;
+        weather_description: string;
+    };
+}
+
+export interface InferenceResult {
+    detections: any[];
+    evidence_bullets?: string[];
+    fraud_signals?: string[];
+    final_assessment?: string;
+    peril_match?: { reported_peril?: string, match: string, reason: string };
+}
+
+export interface InferenceProvider {
+    name: string;
+    /** Throws when the image could not be analyzed. */
+    analyze(request: InferenceRequest): Promise<InferenceResult>;
+}
+
+/** The hosted roof-inspection model behind a Lambda function URL. */
+export const createHttpInferenceProvider = (url: string): InferenceProvider => ({
+    name: "http",
+    analyze: async (request) => {
+        const aiResponse = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(request)
+        });
+
+        if (!aiResponse.ok) {
+            const errorText = await aiResponse.text();
+            throw new Error(`AI service returned ${aiResponse.status}: ${errorText}`);
+        }
+
+        const aiResult = await aiResponse.json();
+        const resultData = aiResult.result || aiResult;
+
+        if (resultData.error) {
+            throw new Error(`AI analysis error: ${resultData.error}`);
+        }
+
+        return resultData;
+    }
+});
+
+/**
+ * Pick the inference provider from configuration:
+ * - `AI_INFERENCE_PROVIDER=mock` → deterministic fixtures, no network calls
+ * - otherwise → the hosted model at `AI_INFERENCE_URL` (defaults to the production endpoint)
+ */
+export const createInferenceProvider = (env: Record<string, string | undefined> = process.env): InferenceProvider => {
+    if (env.AI_INFERENCE_PROVIDER === "mock") {
+        return createMockInferenceProvider();
+    }
+    return createHttpInferenceProvider(env.AI_INFERENCE_URL || DEFAULT_INFERENCE_URL);
+};
+
+export const isMockInference = (env: Record<string, string | undefined> = process.env) =>
+    env.AI_INFERENCE_PROVIDER === "mock";
@@ -0,0 +1,88 @@
+import type { InferenceProvider, InferenceRequest, InferenceResult } from "./inference.js";
+
+// Fixture detections, roughly matching what the hosted model returns. bbox is [x1, y1, x2, y2] in pixels.
+const FIXTURES: InferenceResult[] = [
+    {
+        detections: [
+            { label: "hail_impact", confidence: 0.91, bbox: [412, 288, 468, 341], notes: "Circular bruise with granule displacement" },
+            { label: "hail_impact", confidence: 0.84, bbox: [655, 402, 701, 449], notes: "Fractured mat visible at impact point" },
+            { label: "granule_loss", confidence: 0.77, bbox: [120, 510, 298, 622], notes: "Exposed asphalt across several tabs" },
+        ],
+        evidence_bullets: [
+            "Multiple randomly distributed impact marks consistent with hail",
+            "Impact diameter is in line with the reported hail size",
+        ],
+        fraud_signals: [],
+        final_assessment: "hail damage",
+        peril_match: { reported_peril: "hail", match: "match", reason: "Impact pattern and size are consistent with the reported hail event" },
+    },
+    {
+        detections: [
+            { label: "wind_crease", confidence: 0.82, bbox: [300, 140, 540, 196], notes: "Horizontal crease below the sealant strip" },
+            { label: "missing_shingle", confidence: 0.88, bbox: [610, 330, 790, 452], notes: "Tab missing, nail heads exposed" },
+        ],
+        evidence_bullets: [
+            "Creased and lifted tabs along the windward slope",
+            "No circular impact marks found",
+        ],
+        fraud_signals: [],
+        final_assessment: "wind damage",
+        peril_match: { reported_peril: "hail", match: "partial_match", reason: "Storm damage present, but the pattern points to wind rather than hail" },
+    },
+    {
+        detections: [
+            { label: "blistering", confidence: 0.69, bbox: [205, 250, 330, 318], notes: "Raised blisters typical of aging shingles" },
+        ],
+        evidence_bullets: [
+            "Uniform wear across the slope",
+            "Blistering is consistent with age rather than a storm",
+        ],
+        fraud_signals: ["Damage appears to predate the reported incident date"],
+        final_assessment: "wear and tear",
+        peril_match: { reported_peril: "hail", match: "no_match", reason: "No storm-related damage pattern was found" },
+    },
+];
+
+// Small stable string hash (FNV-1a) so the same photo always gets the same fixture
+const hash = (value: string) => {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        h ^= value.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+};
+
+/**
+ * Deterministic stand-in for the hosted model, for sandboxes, local development and tests.
+ *
+ * - The fixture is chosen from a hash of the image URI, so results are stable across runs.
+ * - A URI containing "mock-fail" throws, to exercise the failed-photo path.
+ * - `output_s3_uri` points back at the input image, so the annotated-image copy step runs
+ *   against the report's own bucket instead of the model's output bucket.
+ */
+export const createMockInferenceProvider = (): InferenceProvider => ({
+    name: "mock",
+    analyze: async (request: InferenceRequest) => {
+        const image = request.images[0];
+        if (!image) {
+            throw new Error("Mock inference: no image in request");
+        }
+        if (image.s3_uri.includes("mock-fail")) {
+            throw new Error("Mock inference: simulated failure");
+        }
+
+        const fixture = FIXTURES[hash(image.s3_uri) % FIXTURES.length];
+        const reportedPeril = request.analysis_context.reported_peril || fixture.peril_match?.reported_peril || "";
+
+        return {
+            ...fixture,
+            detections: fixture.detections.map((d) => ({
+                ...d,
+                image_reference: request.analysis_context.image_id,
+                output_s3_uri: image.s3_uri,
+            })),
+            peril_match: fixture.peril_match && { ...fixture.peril_match, reported_peril: reportedPeril },
+        };
+    }
+});
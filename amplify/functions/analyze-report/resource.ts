@@ -5,4 +5,9 @@ export const analyzeReport = defineFunction({
     entry: "./handler.ts",
     timeoutSeconds: 300, // 5 minutes for heavy AI analysis and image copying
     resourceGroupName: "data", // Assign to data stack (uses resource-based policy for permissions)
+    environment: {
+        // "mock" for sandboxes without access to the hosted model (see inference.ts)
+        AI_INFERENCE_PROVIDER: process.env.AI_INFERENCE_PROVIDER || "http",
+        ...(process.env.AI_INFERENCE_URL ? { AI_INFERENCE_URL: process.env.AI_INFERENCE_URL } : {}),
+    },
 });
@@ -0,0 +1,364 @@
+import { S3Client, GetObjectCommand } from "@aws-sdk/client-s3";
+import { Upload } from "@aws-sdk/lib-storage";
+import type { InferenceProvider, InferenceRequest } from "./inference.js";
+import { buildAnalysis, type ImageResult } from "./aggregate.js";
+import { parseCompanySettings } from "../../data/company-settings.js";
+
+// Stop starting new images once less than this is left before the Lambda timeout,
+// so the remaining photos are recorded as skipped instead of being lost mid-call
+const TIME_RESERVE_MS = 45 * 1000;
+
+const SUPPORTED_EXTENSIONS = ["jpg", "jpeg", "png", "webp", "gif"];
+
+export interface RunAnalysisOptions {
+    reportId: string;
+    retryFailed?: boolean;
+    bucket: string;
+    region: string;
+    apiEndpoint: string;
+    apiKey?: string;
+    provider: InferenceProvider;
+    // Lambda context clock; omitted when running in-process
+    getRemainingTimeInMillis?: () => number;
+}
+
+/**
+ * Analyze a report's photos with the given inference provider and save the results.
+ * Shared by the analyze Lambda and the API route (which runs it in-process with the mock provider).
+ *
+ * Results are saved after every photo. With `retryFailed`, photos that already
+ * have an "ok" result are kept and only the failed/skipped ones are analyzed again.
+ */
+export const runAnalysis = async (options: RunAnalysisOptions) => {
+    const { reportId, retryFailed, bucket, region, apiEndpoint, apiKey, provider } = options;
+
+    console.log(`Starting AI analysis for report: ${reportId} with ${provider.name} provider${retryFailed ? " (retrying failed photos)" : ""}`);
+
+    const updateReport = async (input: Record<string, any>) => {
+        const updateQuery = `
+            mutation UpdateIncidentReport($input: UpdateIncidentReportInput!) {
+                updateIncidentReport(input: $input) {
+                    id
+                }
+            }
+        `;
+
+        const updateResponse = await fetch(apiEndpoint, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(apiKey ? { 'x-api-key': apiKey } : {})
+            },
+            body: JSON.stringify({ query: updateQuery, variables: { input: { id: reportId, ...input } } })
+        });
+
+        if (!updateResponse.ok) {
+            const err = await updateResponse.text();
+            throw new Error(`Failed to update report: ${err}`);
+        }
+
+        const updateData = await updateResponse.json();
+        if (updateData.errors) {
+            throw new Error(`Failed to update report: ${JSON.stringify(updateData.errors)}`);
+        }
+        return updateData;
+    };
+
+    // Analysis lifecycle lives in `analysisRun`; the claim workflow `status` is never touched here
+    const analysisRun: Record<string, any> = {
+        status: "running",
+        photosProcessed: 0,
+        photosFailed: 0,
+        startedAt: new Date().toISOString(),
+    };
+
+    try {
+        // 1. Fetch report details
+        console.log("Fetching report data...");
+        const getReportQuery = `
+            query GetIncidentReport($id: ID!) {
+                getIncidentReport(id: $id) {
+                    id
+                    companyId
+                    incidentDate
+                    description
+                    photoUrls
+                    weatherReport
+                    shingleExposure
+                    aiAnalysis
+                    analysisRun {
+                        queuedAt
+                    }
+                }
+            }
+        `;
+
+        const response = await fetch(apiEndpoint, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(apiKey ? { 'x-api-key': apiKey } : {})
+            },
+            body: JSON.stringify({ query: getReportQuery, variables: { id: reportId } })
+        });
+
+        const reportData = await response.json();
+        console.log(`📥 Fetched report data response:`, JSON.stringify(reportData));
+        const report = reportData.data?.getIncidentReport;
+
+        if (!report) {
+            throw new Error(`Report ${reportId} not found`);
+        }
+
+        if (!report.photoUrls || report.photoUrls.length === 0) {
+            throw new Error("No photos to analyze");
+        }
+
+        const photoUrls: string[] = report.photoUrls;
+
+        // The company's default shingle exposure stands in when the report leaves it blank
+        let defaultShingleExposure: number | null = null;
+        if (report.companyId) {
+            try {
+                const companyResponse = await fetch(apiEndpoint, {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        ...(apiKey ? { 'x-api-key': apiKey } : {})
+                    },
+                    body: JSON.stringify({
+                        query: `query GetCompany($id: ID!) { getCompany(id: $id) { id settings } }`,
+                        variables: { id: report.companyId }
+                    })
+                });
+                const companyData = await companyResponse.json();
+                defaultShingleExposure = parseCompanySettings(companyData.data?.getCompany?.settings).form.defaultShingleExposure;
+            } catch (e) {
+                console.warn("Failed to load company settings, using the standard shingle exposure:", e);
+            }
+        }
+
+        // Results from the previous run, keyed by photo path (retry only)
+        const previousResults = new Map<string, ImageResult>();
+        if (retryFailed && report.aiAnalysis) {
+            try {
+                const previous = typeof report.aiAnalysis === 'string' ? JSON.parse(report.aiAnalysis) : report.aiAnalysis;
+                for (const img of (previous?.images || []) as ImageResult[]) {
+                    previousResults.set(img.path, img);
+                }
+            } catch (e) {
+                console.warn("Failed to parse previous analysis, analyzing all photos:", e);
+            }
+        }
+
+        const results = new Map<string, ImageResult>();
+        for (const path of photoUrls) {
+            const previous = previousResults.get(path);
+            if (previous?.status === "ok") {
+                results.set(path, previous);
+                analysisRun.photosProcessed++;
+            }
+        }
+
+        analysisRun.queuedAt = report.analysisRun?.queuedAt;
+        analysisRun.photosTotal = photoUrls.length;
+        await updateReport({ analysisRun });
+
+        // 2. Process images sequentially
+        const getMediaType = (path: string) => {
+            const ext = path.split('.').pop()?.toLowerCase();
+            if (ext === 'png') return 'image/png';
+            if (ext === 'webp') return 'image/webp';
+            if (ext === 'gif') return 'image/gif';
+            return 'image/jpeg';
+        };
+
+        // Parse weather report if it exists
+        let weatherReport = null;
+        try {
+            if (report.weatherReport) {
+                weatherReport = typeof report.weatherReport === 'string'
+                    ? JSON.parse(report.weatherReport)
+                    : report.weatherReport;
+            }
+        } catch (e) {
+            console.warn("Failed to parse weather report:", e);
+        }
+
+        const s3Client = new S3Client({ region });
+
+        // Copy the annotated images the AI service produced for one photo into our bucket
+        const copyAnalyzedImages = async (detections: any[]) => {
+            const uniqueOutputUris = new Set<string>();
+            detections.forEach((d: any) => {
+                if (d.output_s3_uri) uniqueOutputUris.add(d.output_s3_uri);
+            });
+
+            const uriToLocalKeyMap = new Map<string, string>();
+
+            for (const outputS3Uri of Array.from(uniqueOutputUris)) {
+                const uriParts = outputS3Uri.replace("s3://", "").split("/");
+                const sourceBucket = uriParts.shift();
+                const sourceKey = uriParts.join("/");
+
+                if (sourceBucket && sourceKey) {
+                    try {
+                        const sourceObj = await s3Client.send(new GetObjectCommand({
+                            Bucket: sourceBucket,
+                            Key: sourceKey
+                        }));
+
+                        const uniqueSuffix = Math.random().toString(36).substring(7);
+                        // Next to the report's photos, so the company's storage rules cover them too
+                        const targetKey = `incident-photos/${report.companyId || "unassigned"}/${report.id}/analyzed/${Date.now()}-${uniqueSuffix}.jpeg`;
+
+                        const upload = new Upload({
+                            client: s3Client,
+                            params: {
+                                Bucket: bucket,
+                                Key: targetKey,
+                                Body: sourceObj.Body,
+                                ContentType: "image/jpeg"
+                            }
+                        });
+
+                        await upload.done();
+                        uriToLocalKeyMap.set(outputS3Uri, targetKey);
+                    } catch (e) {
+                        console.error(`Failed to copy ${outputS3Uri}:`, e);
+                    }
+                }
+            }
+
+            return {
+                detections: detections.map((d: any) => ({
+                    ...d,
+                    local_output_path: d.output_s3_uri ? uriToLocalKeyMap.get(d.output_s3_uri) : undefined
+                })),
+                localPaths: Array.from(uriToLocalKeyMap.values())
+            };
+        };
+
+        const orderedResults = () => photoUrls
+            .map((path) => results.get(path))
+            .filter((img): img is ImageResult => !!img);
+
+        const toAnalyze = photoUrls.filter((path) => !results.has(path));
+        console.log(`Processing ${toAnalyze.length} of ${photoUrls.length} images...`);
+
+        for (const path of toAnalyze) {
+            const index = photoUrls.indexOf(path);
+            console.log(`Analyzing image ${index + 1}/${photoUrls.length}: ${path}`);
+
+            let result: ImageResult;
+            const ext = path.split('.').pop()?.toLowerCase() || "";
+            const remainingMs = options.getRemainingTimeInMillis?.();
+
+            if (!SUPPORTED_EXTENSIONS.includes(ext)) {
+                result = { path, status: "skipped", reason: `Unsupported file type: .${ext}`, analyzedAt: new Date().toISOString() };
+            } else if (remainingMs !== undefined && remainingMs < TIME_RESERVE_MS) {
+                result = { path, status: "skipped", reason: "Analysis time limit reached before this photo", analyzedAt: new Date().toISOString() };
+            } else {
+                const imagePayload = {
+                    s3_uri: `s3://${bucket}/${path}`,
+                    format: getMediaType(path)
+                };
+
+                const payload: InferenceRequest = {
+                    images: [imagePayload], // Send one image at a time
+                    analysis_context: {
+                        image_id: `${report.id}_${index}`, // Unique ID for this specific call
+                        reported_peril: "",
+                        weather_summary: weatherReport?.weather_description || `Analysis for incident on ${report.incidentDate}`,
+                        notes: report.description
+                    },
+                    shingle_size_inches: report.shingleExposure || defaultShingleExposure || 5.0,
+                    weather_report: weatherReport ? {
+                        reported_hail_size_inches: weatherReport.reported_hail_size_inches || 1.5,
+                        weather_date: weatherReport.weather_date || report.incidentDate,
+                        weather_description: weatherReport.weather_description || "Severe thunderstorm with hail reported in area"
+                    } : undefined
+                };
+
+                try {
+                    const resultData = await provider.analyze(payload);
+
+                    // 3. Copy Analyzed Images
+                    const { detections, localPaths } = await copyAnalyzedImages(resultData.detections || []);
+
+                    result = {
+                        path,
+                        status: "ok",
+                        analyzedAt: new Date().toISOString(),
+                        detections,
+                        evidence_bullets: resultData.evidence_bullets || [],
+                        fraud_signals: resultData.fraud_signals || [],
+                        final_assessment: resultData.final_assessment,
+                        peril_match: resultData.peril_match,
+                        local_paths: localPaths
+                    };
+                } catch (err: any) {
+                    // Record the failed image but continue with the others
+                    console.error(`Exception processing image ${path}:`, err);
+                    result = { path, status: "failed", reason: err?.message || "Unknown error", analyzedAt: new Date().toISOString() };
+                }
+            }
+
+            results.set(path, result);
+            analysisRun.photosProcessed++;
+            if (result.status !== "ok") analysisRun.photosFailed++;
+
+            // 4. Save progress after every image so a timeout doesn't lose finished work
+            try {
+                await updateReport({
+                    aiAnalysis: JSON.stringify(buildAnalysis(orderedResults())),
+                    analysisRun
+                });
+            } catch (progressErr) {
+                console.warn("Failed to save analysis progress:", progressErr);
+            }
+        }
+
+        // 5. Final save with the run outcome
+        const photosTotal = analysisRun.photosTotal;
+        if (analysisRun.photosFailed === 0) {
+            analysisRun.status = "completed";
+        } else if (analysisRun.photosFailed < photosTotal) {
+            analysisRun.status = "partial";
+            analysisRun.error = `${analysisRun.photosFailed} of ${photosTotal} photos could not be analyzed`;
+        } else {
+            analysisRun.status = "failed";
+            analysisRun.error = "None of the photos could be analyzed";
+        }
+        analysisRun.completedAt = new Date().toISOString();
+
+        console.log(`Saving results to report (${analysisRun.status})...`);
+        const updateData = await updateReport({
+            aiAnalysis: JSON.stringify(buildAnalysis(orderedResults())),
+            analysisRun
+        });
+        console.log(`✅ Update response data:`, JSON.stringify(updateData));
+
+        console.log("✅ AI Analysis complete!");
+        return { success: true };
+
+    } catch (error: any) {
+        console.error("❌ AI analysis failed:", error);
+
+        // Attempt to mark the run as failed in the DB
+        try {
+            await updateReport({
+                analysisRun: {
+                    ...analysisRun,
+                    status: "failed",
+                    completedAt: new Date().toISOString(),
+                    error: error.message
+                }
+            });
+        } catch (dbErr) {
+            console.error("Failed to even log the failure:", dbErr);
+        }
+
+        throw error;
+    }
+};
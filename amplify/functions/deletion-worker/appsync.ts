@@ -0,0 +1,49 @@
+import { Amplify } from "aws-amplify";
+import { generateClient } from "aws-amplify/api";
+
+/**
+ * Minimal AppSync caller for the deletion Lambdas. Requests are signed with the function's own
+ * role, which the schema lets in with `allow.resource`; the deletion queue and the related records
+ * these Lambdas remove have no public write rule.
+ */
+export function createGraphqlClient(apiEndpoint: string) {
+    Amplify.configure(
+        {
+            API: {
+                GraphQL: {
+                    endpoint: apiEndpoint,
+                    region: process.env.AWS_REGION || "us-east-1",
+                    defaultAuthMode: "iam",
+                },
+            },
+        },
+        {
+            Auth: {
+                credentialsProvider: {
+                    getCredentialsAndIdentityId: async () => ({
+                        credentials: {
+                            accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
+                            secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
+                            sessionToken: process.env.AWS_SESSION_TOKEN,
+                        },
+                    }),
+                    clearCredentialsAndIdentityId: () => {},
+                },
+            },
+        }
+    );
+    const client = generateClient();
+
+    return async (query: string, variables: Record<string, any>) => {
+        try {
+            const result = await client.graphql({ query, variables }) as { data: any };
+            return result.data;
+        } catch (error: any) {
+            // The client rejects with the GraphQL result rather than an Error
+            if (Array.isArray(error?.errors)) {
+                throw new Error(error.errors.map((e: any) => e.message).join("; "));
+            }
+            throw error;
+        }
+    };
+}
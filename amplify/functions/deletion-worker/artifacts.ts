@@ -0,0 +1,67 @@
+/**
+ * Where a report's files live, for whoever deletes them: the report delete route, the trash
+ * purge and the deletion worker. Self-contained so the Lambda bundles stay small.
+ */
+
+/** Storage prefix of a report's archived PDF versions. */
+export const reportPdfPrefix = (reportId: string) => `incident-reports/${reportId}/pdf/`;
+
+/**
+ * Storage prefix of a report's uploads and analyzed copies: incident-photos/{companyId}/{reportId}/,
+ * with "unassigned" for reports without a company, as the analyze worker writes them.
+ */
+export const reportObjectPrefix = (companyId: string | null | undefined, reportId: string) =>
+    `incident-photos/${companyId || "unassigned"}/${reportId}/`;
+
+/** True for keys under one of the report's own prefixes, the only objects ever deleted on its behalf. */
+export const isReportObjectKey = (key: string, companyId: string | null | undefined, reportId: string) =>
+    key.startsWith(reportObjectPrefix(companyId, reportId)) || key.startsWith(reportPdfPrefix(reportId));
+
+/**
+ * Keys of the analyzed copies the analyze worker wrote into our bucket. Paths elsewhere (the
+ * model's own output bucket) belong to the inference service and are not ours to delete.
+ */
+export function analyzedImageKeys(aiAnalysis: unknown): string[] {
+    if (!aiAnalysis) return [];
+
+    let analysis: any;
+    try {
+        analysis = typeof aiAnalysis === "string" ? JSON.parse(aiAnalysis) : aiAnalysis;
+    } catch {
+        return [];
+    }
+
+    const paths: unknown[] = [
+        analysis?.local_output_path,
+        ...(Array.isArray(analysis?.all_local_paths) ? analysis.all_local_paths : []),
+        ...(Array.isArray(analysis?.detections) ? analysis.detections.map((d: any) => d?.local_output_path) : []),
+        ...(Array.isArray(analysis?.images)
+            ? analysis.images.flatMap((img: any) => (Array.isArray(img?.detections) ? img.detections.map((d: any) => d?.local_output_path) : []))
+            : []),
+    ];
+    return Array.from(new Set(paths.filter((p): p is string => typeof p === "string" && p.startsWith("incident-photos/"))));
+}
+
+/**
+ * The photos and analyzed copies to delete with a report, from the keys listed under its
+ * reportObjectPrefix: uploads the report no longer (or never) referenced go too, such as replaced
+ * photos or those of an abandoned form. A key outside the prefix is skipped, as it belongs to
+ * another report, possibly another company's. aiAnalysis only tells analyzed copies apart.
+ */
+export function reportPhotoObjects(
+    report: { id: string; companyId?: string | null; aiAnalysis?: unknown },
+    listedKeys: string[]
+): Map<string, "photo" | "analyzed"> {
+    const prefix = reportObjectPrefix(report.companyId, report.id);
+    const analyzed = new Set(analyzedImageKeys(report.aiAnalysis));
+    const objects = new Map<string, "photo" | "analyzed">();
+
+    for (const key of listedKeys) {
+        if (!key.startsWith(prefix)) {
+            console.warn(`Not deleting ${key} with report ${report.id}: it is outside the report's storage prefix`);
+            continue;
+        }
+        objects.set(key, analyzed.has(key) || key.startsWith(`${prefix}analyzed/`) ? "analyzed" : "photo");
+    }
+    return objects;
+}
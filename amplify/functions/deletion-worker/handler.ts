@@ -0,0 +1,127 @@
+import { S3Client, DeleteObjectCommand } from "@aws-sdk/client-s3";
+import { createGraphqlClient } from "./appsync.js";
+import { isReportObjectKey } from "./artifacts.js";
+import { DELETION_RECORD_MODELS, MAX_DELETION_ATTEMPTS, isAlreadyDeleted, nextDeletionAttemptAt } from "./retry.js";
+
+// Leave the rest of a run's tasks for the next schedule instead of being cut off mid-delete
+const TIME_RESERVE_MS = 15 * 1000;
+
+interface DeletionTask {
+    id: string;
+    reportId: string;
+    companyId?: string | null;
+    resource: string;
+    bucket?: string | null;
+    key: string;
+    attempts: number;
+}
+
+const s3Client = new S3Client({ region: process.env.AWS_REGION || "us-east-1" });
+
+// A task naming anything but one of the report's own objects is never carried out, or retried
+class RefusedTaskError extends Error {}
+
+/**
+ * Scheduled worker for the report deletion queue. Deletes every pending DeletionTask that is due,
+ * removing the task on success and pushing it back with backoff on failure. Objects are only
+ * deleted from our bucket and under the task's report prefixes; any other task is marked failed.
+ */
+export const handler = async (
+    _event: unknown,
+    context?: { getRemainingTimeInMillis?: () => number }
+) => {
+    const apiEndpoint = process.env.AWS_APPSYNC_GRAPHQL_URL;
+    const bucket = process.env.STORAGE_BUCKET_NAME;
+    if (!apiEndpoint || !bucket) throw new Error("AWS_APPSYNC_GRAPHQL_URL and STORAGE_BUCKET_NAME must be set");
+
+    const graphql = createGraphqlClient(apiEndpoint);
+
+    const listDueTasks = async (nextToken?: string | null) => {
+        const data = await graphql(`
+            query ListDueDeletionTasks($nextAttemptAt: ModelStringKeyConditionInput, $nextToken: String) {
+                listDeletionTasksByStatus(status: pending, nextAttemptAt: $nextAttemptAt, limit: 100, nextToken: $nextToken) {
+                    items { id reportId companyId resource bucket key attempts }
+                    nextToken
+                }
+            }
+        `, { nextAttemptAt: { le: new Date().toISOString() }, nextToken });
+        return data.listDeletionTasksByStatus as { items: DeletionTask[]; nextToken?: string | null };
+    };
+
+    const deleteTarget = async (task: DeletionTask) => {
+        if (task.resource === "s3") {
+            if (task.bucket !== bucket) throw new RefusedTaskError(`Not our bucket: ${task.bucket}`);
+            if (!isReportObjectKey(task.key, task.companyId, task.reportId)) {
+                throw new RefusedTaskError(`Outside the storage prefix of report ${task.reportId}`);
+            }
+            await s3Client.send(new DeleteObjectCommand({ Bucket: task.bucket, Key: task.key }));
+            return;
+        }
+
+        // The model name goes into the mutation, so only the known ones
+        if (!(DELETION_RECORD_MODELS as readonly string[]).includes(task.resource)) {
+            throw new RefusedTaskError(`Unknown deletion resource: ${task.resource}`);
+        }
+
+        try {
+            await graphql(`
+                mutation DeleteRelatedRecord($input: Delete${task.resource}Input!) {
+                    delete${task.resource}(input: $input) { id }
+                }
+            `, { input: { id: task.key } });
+        } catch (error: any) {
+            if (!isAlreadyDeleted(error.message)) throw error;
+        }
+    };
+
+    const stats = { deleted: 0, retrying: 0, failed: 0 };
+    let nextToken: string | null | undefined = undefined;
+
+    do {
+        const page = await listDueTasks(nextToken);
+
+        for (const task of page.items) {
+            if (context?.getRemainingTimeInMillis && context.getRemainingTimeInMillis() < TIME_RESERVE_MS) {
+                console.log("Deletion worker out of time; remaining tasks wait for the next run", stats);
+                return stats;
+            }
+
+            const target = task.resource === "s3" ? `s3://${task.bucket}/${task.key}` : `${task.resource} ${task.key}`;
+            try {
+                await deleteTarget(task);
+                await graphql(`
+                    mutation DeleteDeletionTask($input: DeleteDeletionTaskInput!) {
+                        deleteDeletionTask(input: $input) { id }
+                    }
+                `, { input: { id: task.id } });
+                stats.deleted++;
+                console.log(`Deleted ${target} (report ${task.reportId})`);
+            } catch (error: any) {
+                const attempts = task.attempts + 1;
+                const exhausted = attempts >= MAX_DELETION_ATTEMPTS || error instanceof RefusedTaskError;
+                if (exhausted) stats.failed++;
+                else stats.retrying++;
+                console.error(`Failed to delete ${target} (attempt ${attempts}):`, error);
+
+                await graphql(`
+                    mutation UpdateDeletionTask($input: UpdateDeletionTaskInput!) {
+                        updateDeletionTask(input: $input) { id }
+                    }
+                `, {
+                    input: {
+                        id: task.id,
+                        attempts,
+                        status: exhausted ? "failed" : "pending",
+                        lastError: String(error?.message || error).slice(0, 1000),
+                        nextAttemptAt: nextDeletionAttemptAt(attempts),
+                    },
+                });
+            }
+        }
+
+        nextToken = page.nextToken;
+    } while (nextToken);
+
+    console.log("Deletion worker finished", stats);
+    return stats;
+};
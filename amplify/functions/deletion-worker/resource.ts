@@ -0,0 +1,9 @@
+import { defineFunction } from "@aws-amplify/backend";
+
+export const deletionWorker = defineFunction({
+    name: "deletionWorker",
+    entry: "./handler.ts",
+    schedule: "every 15m", // Retries queued DeletionTasks; see retry.ts for the backoff
+    timeoutSeconds: 120,
+    resourceGroupName: "data", // Has resource access to the data API (see amplify/data/resource.ts)
+});
@@ -0,0 +1,26 @@
+/**
+ * Retry policy for DeletionTasks, shared by the report delete route (which queues the first
+ * failure) and the deletion worker (which retries). Self-contained so the Lambda bundle stays small.
+ */
+
+// Related records deleted along with a report, besides objects in S3
+export const DELETION_RECORD_MODELS = ["DetectionFeedback", "PhotoEvidence", "ReportStatusEvent"] as const;
+export type DeletionRecordModel = (typeof DELETION_RECORD_MODELS)[number];
+export type DeletionResource = "s3" | DeletionRecordModel;
+
+// Roughly four days of attempts before a task is left as "failed" for someone to look at
+export const MAX_DELETION_ATTEMPTS = 8;
+
+const FIRST_RETRY_MS = 15 * 60 * 1000;
+const MAX_RETRY_MS = 24 * 60 * 60 * 1000;
+
+/** When to try again after `attempts` failed attempts: 15 minutes, doubling, at most a day. */
+export function nextDeletionAttemptAt(attempts: number, from = Date.now()): string {
+    const delay = Math.min(FIRST_RETRY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_MS);
+    return new Date(from + delay).toISOString();
+}
+
+/** AppSync answers deletes of records that are already gone with a failed condition check. */
+export function isAlreadyDeleted(message: string): boolean {
+    return /ConditionalCheckFailed|conditional request failed/i.test(message);
+}
@@ -0,0 +1,9 @@
+import { defineFunction } from "@aws-amplify/backend";
+
+export const reportPurge = defineFunction({
+    name: "reportPurge",
+    entry: "./handler.ts",
+    schedule: "every day", // Enforces company retention rules: Trash purge, PII redaction, expiry to the Trash
+    timeoutSeconds: 900, // Scans every report
+    resourceGroupName: "data", // Reads the IncidentReport table directly and has resource access to the data API
+});
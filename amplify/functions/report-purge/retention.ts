@@ -0,0 +1,36 @@
+import { parseCompanySettings, type CompanySettings } from "../../data/company-settings.js";
+
+/**
+ * Company retention rules: how long deleted reports stay in the Trash, and how long after a claim
+ * is resolved its homeowner details and the report itself are kept. Shared by the app, which shows
+ * and edits them, and the report-purge function, which enforces them. The rules live in the
+ * `retention` section of Company.settings (see amplify/data/company-settings.ts).
+ */
+
+export { DEFAULT_TRASH_RETENTION_DAYS } from "../../data/company-settings.js";
+
+export type RetentionPolicy = CompanySettings["retention"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** `trashRetentionDays` from Company.settings, else the default. */
+export function trashRetentionDays(settings: unknown): number {
+    return parseCompanySettings(settings).retention.trashRetentionDays;
+}
+
+/** All retention rules from Company.settings. Rules that are missing or invalid are off. */
+export function retentionPolicy(settings: unknown): RetentionPolicy {
+    return parseCompanySettings(settings).retention;
+}
+
+/** When a report deleted at `deletedAt` is purged. */
+export function trashPurgeAt(deletedAt: string, retentionDays: number): Date {
+    return new Date(new Date(deletedAt).getTime() + retentionDays * DAY_MS);
+}
+
+/** When a rule of `years` comes due for a claim resolved at `resolvedAt`. */
+export function retentionDueAt(resolvedAt: string, years: number): Date {
+    const due = new Date(resolvedAt);
+    due.setUTCFullYear(due.getUTCFullYear() + years);
+    return due;
+}
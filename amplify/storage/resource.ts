@@ -3,13 +3,16 @@ import { defineStorage } from "@aws-amplify/backend";
 export const storage = defineStorage({
   name: "incidentReportStorage",
   access: (allow) => ({
+    // Photos live under incident-photos/{companyId}/{reportId}/. Admin and IncidentReporter only
+    // reach their own company's prefix; that rule needs a principal tag, so it is granted in
+    // amplify/backend.ts rather than here. HomeOwners read their reports' photos through
+    // /api/incident-reports/[id]/photos.
+    // Archived report PDFs (incident-reports/{reportId}/pdf/) have no rule on purpose: they span
+    // companies, so only the server reads and writes them, through /api/incident-reports/[id]/pdf.
     "incident-photos/*": [
-      // All authenticated users can read, write, and delete
-      allow.authenticated.to(["read", "write", "delete"]),
-      // Explicitly grant access to all groups including SuperAdmin
-      allow.groups(["SuperAdmin", "Admin", "IncidentReporter", "HomeOwner"]).to(["read", "write", "delete"]),
-      // Allow guests (unauthenticated users) to upload public photos
-      allow.guest.to(["write"]),
+      // Guests have no rule: public form uploads go through presigned POSTs that /api/upload/photos
+      // signs with the server's credentials, for a key and size it chose
+      allow.groups(["SuperAdmin"]).to(["read", "write", "delete"]),
     ],
   }),
 });
\ No newline at end of file
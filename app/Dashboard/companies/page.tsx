@@ -7,6 +7,10 @@ import { useCompany } from "@/contexts/CompanyContext";
 import { Button } from "@/components/ui/Button";
 import { Input } from "@/components/ui/Input";
 import { Label } from "@/components/ui/Label";
+import { Textarea } from "@/components/ui/Textarea";
+import { Checkbox } from "@/components/ui/Checkbox";
+import { Switch } from "@/components/ui/Switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/Tabs";
 import {
   Dialog,
   DialogContent,
@@ -37,8 +41,19 @@ import {
   XCircle,
   Link as LinkIcon,
   Copy,
+  Settings,
 } from "@/components/Icons";
 import { useRouter } from "next/navigation";
+import {
+  COMPANY_SETTINGS_VERSION,
+  OPTIONAL_FORM_FIELDS,
+  OPTIONAL_FORM_FIELD_LABELS,
+  parseCompanySettings,
+  type CompanySettings,
+  type OptionalFormField,
+} from "@/lib/companies/settings";
+import { retentionRefs, type RetentionRun } from "@/lib/reports/retention";
+import { REPORT_STATUSES, REPORT_STATUS_LABELS } from "@/lib/reports/workflow";
 
 interface Company {
   id: string;
@@ -55,6 +70,53 @@ interface CompanyWithUserCount extends Company {
   userCount?: number;
 }
 
+type SettingsForm = ReturnType<typeof toSettingsForm>;
+
+const toSettingsForm = (settings: CompanySettings) => ({
+  defaultShingleExposure: settings.form.defaultShingleExposure?.toString() || "",
+  requiredFields: settings.form.requiredFields,
+  // Every status checked means the company has not narrowed the workflow
+  allowedStatuses: settings.workflow.allowedStatuses || [...REPORT_STATUSES],
+  primaryColor: settings.branding.primaryColor || "",
+  accentColor: settings.branding.accentColor || "",
+  recipients: settings.notifications.recipients.join("\n"),
+  autoRunOnSubmit: settings.analysis.autoRunOnSubmit,
+  trashRetentionDays: String(settings.retention.trashRetentionDays),
+  piiPurgeYears: settings.retention.piiPurgeYears?.toString() || "",
+  reportPurgeYears: settings.retention.reportPurgeYears?.toString() || "",
+});
+
+// The server validates the result, so values are passed through as typed
+const fromSettingsForm = (data: SettingsForm): CompanySettings => ({
+  version: COMPANY_SETTINGS_VERSION,
+  form: {
+    defaultShingleExposure: data.defaultShingleExposure ? parseFloat(data.defaultShingleExposure) : null,
+    requiredFields: data.requiredFields,
+  },
+  workflow: {
+    allowedStatuses: data.allowedStatuses.length === REPORT_STATUSES.length ? null : data.allowedStatuses,
+  },
+  branding: {
+    primaryColor: data.primaryColor.trim() || null,
+    accentColor: data.accentColor.trim() || null,
+  },
+  notifications: {
+    recipients: data.recipients.split(/[\s,]+/).filter(Boolean),
+  },
+  analysis: {
+    autoRunOnSubmit: data.autoRunOnSubmit,
+  },
+  retention: {
+    trashRetentionDays: parseInt(data.trashRetentionDays),
+    piiPurgeYears: data.piiPurgeYears ? parseInt(data.piiPurgeYears) : null,
+    reportPurgeYears: data.reportPurgeYears ? parseInt(data.reportPurgeYears) : null,
+  },
+});
+
+// Toggle an item in a list without changing the order of the rest
+const toggled = <T,>(list: T[], item: T, on: boolean) =>
+  on ? (list.includes(item) ? list : [...list, item]) : list.filter((i) => i !== item);
+
 export default function CompaniesPage() {
   const router = useRouter();
   const { isSuperAdmin, isLoading: roleLoading } = useUserRole();
@@ -64,6 +126,7 @@ export default function CompaniesPage() {
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [isSettingsDialogOpen, setIsSettingsDialogOpen] = useState(false);
   const [selectedCompany, setSelectedCompany] = useState<Company | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -76,6 +139,9 @@ export default function CompaniesPage() {
     domain: "",
     maxUsers: "",
   });
+  // Number fields are edited as text; empty optional ones mean "not set"
+  const [settingsData, setSettingsData] = useState(() => toSettingsForm(parseCompanySettings(null)));
+  const [retentionReports, setRetentionReports] = useState<RetentionRun[]>([]);
 
   // Redirect non-SuperAdmins
   useEffect(() => {
@@ -228,6 +294,61 @@ export default function CompaniesPage() {
     setIsEditDialogOpen(true);
   };
 
+  const openSettingsDialog = async (company: Company) => {
+    setSelectedCompany(company);
+    setError(null);
+    setSuccess(null);
+    setSettingsData(toSettingsForm(parseCompanySettings(company.settings)));
+    setRetentionReports([]);
+    setIsSettingsDialogOpen(true);
+
+    // Recent retention runs are shown on the Retention tab; the editor works without them
+    try {
+      const response = await fetch(`/api/admin/companies/${company.id}/retention`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load retention runs");
+      }
+
+      setRetentionReports(data.reports || []);
+    } catch (err) {
+      console.error("Error fetching retention runs:", err);
+    }
+  };
+
+  const handleSaveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedCompany) return;
+
+    setError(null);
+    setSuccess(null);
+    setLoading(true);
+
+    try {
+      const response = await fetch(`/api/admin/companies/${selectedCompany.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ settings: fromSettingsForm(settingsData) }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update settings");
+      }
+
+      setSuccess(`Settings for "${selectedCompany.name}" updated successfully!`);
+      setIsSettingsDialogOpen(false);
+      setSelectedCompany(null);
+      await refreshCompanies();
+    } catch (err: any) {
+      setError(err.message || "An error occurred while updating the settings");
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const openDeleteDialog = (company: Company) => {
     setSelectedCompany(company);
     setIsDeleteDialogOpen(true);
@@ -410,6 +531,15 @@ export default function CompaniesPage() {
                   <Edit className="h-4 w-4 mr-1" />
                   Edit
                 </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="flex-1"
+                  onClick={() => openSettingsDialog(company)}
+                >
+                  <Settings className="h-4 w-4 mr-1" />
+                  Settings
+                </Button>
                 <Button
                   variant="destructive"
                   size="sm"
@@ -571,6 +701,251 @@ export default function CompaniesPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Settings Dialog */}
+      <Dialog open={isSettingsDialogOpen} onOpenChange={setIsSettingsDialogOpen}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>Company Settings</DialogTitle>
+            <DialogDescription>
+              How the incident form, the claim workflow and background jobs behave for "{selectedCompany?.name}".
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSaveSettings}>
+            <Tabs defaultValue="form" className="w-full">
+              <TabsList className="grid w-full grid-cols-3 sm:grid-cols-6 h-auto gap-1">
+                <TabsTrigger value="form">Form</TabsTrigger>
+                <TabsTrigger value="workflow">Workflow</TabsTrigger>
+                <TabsTrigger value="branding">Branding</TabsTrigger>
+                <TabsTrigger value="notifications">Notify</TabsTrigger>
+                <TabsTrigger value="analysis">Analysis</TabsTrigger>
+                <TabsTrigger value="retention">Retention</TabsTrigger>
+              </TabsList>
+
+              {/* Form */}
+              <TabsContent value="form" className="grid gap-4 py-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="defaultShingleExposure">Default shingle exposure (inches)</Label>
+                  <Input
+                    id="defaultShingleExposure"
+                    type="number"
+                    step="0.25"
+                    min="0.25"
+                    max="100"
+                    placeholder="None"
+                    value={settingsData.defaultShingleExposure}
+                    onChange={(e) => setSettingsData({ ...settingsData, defaultShingleExposure: e.target.value })}
+                    disabled={loading}
+                  />
+                  <p className="text-xs text-gray-500">Used when a report leaves the shingle exposure blank</p>
+                </div>
+
+                <div className="grid gap-2">
+                  <Label>Required fields</Label>
+                  {OPTIONAL_FORM_FIELDS.map((field) => (
+                    <div key={field} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`required-${field}`}
+                        checked={settingsData.requiredFields.includes(field)}
+                        onCheckedChange={(checked) => setSettingsData({
+                          ...settingsData,
+                          requiredFields: toggled<OptionalFormField>(settingsData.requiredFields, field, checked === true),
+                        })}
+                        disabled={loading}
+                      />
+                      <Label htmlFor={`required-${field}`} className="font-normal">
+                        {OPTIONAL_FORM_FIELD_LABELS[field]}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </TabsContent>
+
+              {/* Workflow */}
+              <TabsContent value="workflow" className="grid gap-2 py-4">
+                <Label>Statuses this company uses</Label>
+                {REPORT_STATUSES.map((status) => (
+                  <div key={status} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`status-${status}`}
+                      checked={settingsData.allowedStatuses.includes(status)}
+                      onCheckedChange={(checked) => setSettingsData({
+                        ...settingsData,
+                        allowedStatuses: toggled<string>(settingsData.allowedStatuses, status, checked === true),
+                      })}
+                      disabled={loading || status === "submitted"}
+                    />
+                    <Label htmlFor={`status-${status}`} className="font-normal">
+                      {REPORT_STATUS_LABELS[status]}
+                    </Label>
+                  </div>
+                ))}
+                <p className="text-xs text-gray-500">
+                  Reports can't be moved into an unchecked status. Every report starts as Submitted.
+                </p>
+              </TabsContent>
+
+              {/* Branding */}
+              <TabsContent value="branding" className="grid gap-4 py-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="primaryColor">Primary color</Label>
+                  <Input
+                    id="primaryColor"
+                    placeholder="#1E3A8A"
+                    value={settingsData.primaryColor}
+                    onChange={(e) => setSettingsData({ ...settingsData, primaryColor: e.target.value })}
+                    disabled={loading}
+                  />
+                  <p className="text-xs text-gray-500">Used for the header of the public form</p>
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="accentColor">Accent color</Label>
+                  <Input
+                    id="accentColor"
+                    placeholder="#F59E0B"
+                    value={settingsData.accentColor}
+                    onChange={(e) => setSettingsData({ ...settingsData, accentColor: e.target.value })}
+                    disabled={loading}
+                  />
+                  <p className="text-xs text-gray-500">Used for the form&apos;s submit button</p>
+                </div>
+              </TabsContent>
+
+              {/* Notifications */}
+              <TabsContent value="notifications" className="grid gap-2 py-4">
+                <Label htmlFor="recipients">Notification recipients</Label>
+                <Textarea
+                  id="recipients"
+                  rows={4}
+                  placeholder="claims@example.com"
+                  value={settingsData.recipients}
+                  onChange={(e) => setSettingsData({ ...settingsData, recipients: e.target.value })}
+                  disabled={loading}
+                />
+                <p className="text-xs text-gray-500">One email address per line</p>
+              </TabsContent>
+
+              {/* Analysis */}
+              <TabsContent value="analysis" className="grid gap-2 py-4">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="autoRunOnSubmit"
+                    checked={settingsData.autoRunOnSubmit}
+                    onCheckedChange={(checked) => setSettingsData({ ...settingsData, autoRunOnSubmit: checked })}
+                    disabled={loading}
+                  />
+                  <Label htmlFor="autoRunOnSubmit" className="font-normal">
+                    Run AI analysis when a report is submitted
+                  </Label>
+                </div>
+                <p className="text-xs text-gray-500">When off, analysis is started from the reports list</p>
+              </TabsContent>
+
+              {/* Retention */}
+              <TabsContent value="retention" className="grid gap-4 py-4">
+                <p className="text-xs text-gray-500">
+                  Applied once a day. Claims count from when they were resolved. Reports on legal hold are
+                  never changed or purged.
+                </p>
+
+                <div className="grid gap-2">
+                  <Label htmlFor="trashRetentionDays">Days in Trash *</Label>
+                  <Input
+                    id="trashRetentionDays"
+                    type="number"
+                    min="1"
+                    max="365"
+                    value={settingsData.trashRetentionDays}
+                    onChange={(e) => setSettingsData({ ...settingsData, trashRetentionDays: e.target.value })}
+                    required
+                    disabled={loading}
+                  />
+                  <p className="text-xs text-gray-500">Deleted reports can be restored until they are purged</p>
+                </div>
+
+                <div className="grid gap-2">
+                  <Label htmlFor="piiPurgeYears">Remove homeowner details after (years)</Label>
+                  <Input
+                    id="piiPurgeYears"
+                    type="number"
+                    min="1"
+                    max="100"
+                    placeholder="Keep"
+                    value={settingsData.piiPurgeYears}
+                    onChange={(e) => setSettingsData({ ...settingsData, piiPurgeYears: e.target.value })}
+                    disabled={loading}
+                  />
+                  <p className="text-xs text-gray-500">
+                    Name, phone, email, address, description, text custom fields and photo locations are redacted; claim dates, photos and analysis stay
+                  </p>
+                </div>
+
+                <div className="grid gap-2">
+                  <Label htmlFor="reportPurgeYears">Delete reports after (years)</Label>
+                  <Input
+                    id="reportPurgeYears"
+                    type="number"
+                    min="1"
+                    max="100"
+                    placeholder="Keep"
+                    value={settingsData.reportPurgeYears}
+                    onChange={(e) => setSettingsData({ ...settingsData, reportPurgeYears: e.target.value })}
+                    disabled={loading}
+                  />
+                  <p className="text-xs text-gray-500">Reports are moved to the Trash, then purged with it</p>
+                </div>
+
+                {/* Recent runs */}
+                <div className="grid gap-2 pt-2 border-t border-gray-200 dark:border-gray-700">
+                  <Label>Recent Runs</Label>
+                  {retentionReports.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">Nothing has been purged yet</p>
+                  ) : (
+                    <ul className="space-y-2 max-h-48 overflow-y-auto">
+                      {retentionReports.map((run) => {
+                        const pii = retentionRefs(run.piiPurged);
+                        const trashed = retentionRefs(run.movedToTrash);
+                        const purged = retentionRefs(run.purgedFromTrash);
+                        return (
+                          <li key={run.id} className="text-xs">
+                            <p className="font-medium">{new Date(run.ranAt).toLocaleString()}</p>
+                            <p className="text-muted-foreground">
+                              {pii.length} redacted, {trashed.length} moved to Trash, {purged.length} purged
+                              {run.heldCount ? `, ${run.heldCount} kept for legal hold` : ""}
+                              {run.failedCount ? `, ${run.failedCount} failed` : ""}
+                            </p>
+                            {[...pii, ...trashed, ...purged].length > 0 && (
+                              <p className="text-muted-foreground font-mono truncate">
+                                {[...pii, ...trashed, ...purged].map((r) => r.claimNumber).join(", ")}
+                              </p>
+                            )}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+                </div>
+              </TabsContent>
+            </Tabs>
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setIsSettingsDialogOpen(false)}
+                disabled={loading}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading}>
+                {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {loading ? "Saving..." : "Save Settings"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Company Dialog */}
       <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <DialogContent className="sm:max-w-[425px]">
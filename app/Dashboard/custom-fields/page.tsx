@@ -0,0 +1,408 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import Heading from "@/components/ui/Heading";
+import { Button } from "@/components/ui/Button";
+import { Checkbox } from "@/components/ui/Checkbox";
+import { Input } from "@/components/ui/Input";
+import { Label } from "@/components/ui/Label";
+import { Textarea } from "@/components/ui/Textarea";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/Card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/Select";
+import { AlertCircle, CheckCircle, ChevronsDown, ChevronsUp, Loader2, Plus, Trash2 } from "@/components/Icons";
+import { useUserRole } from "@/lib/auth/useUserRole";
+import { useCompany } from "@/contexts/CompanyContext";
+import {
+  CUSTOM_FIELD_TYPES,
+  CUSTOM_FIELD_TYPE_LABELS,
+  MAX_CUSTOM_FIELDS,
+  MAX_PATTERN_LENGTH,
+  type CustomFieldDefinition,
+  type CustomFieldInput,
+  type CustomFieldType,
+} from "@/lib/companies/custom-fields";
+
+// Numbers and options are edited as text; options are one per line
+interface EditableField {
+  id?: string;
+  key?: string;
+  label: string;
+  type: CustomFieldType;
+  required: boolean;
+  helpText: string;
+  options: string;
+  min: string;
+  max: string;
+  pattern: string;
+}
+
+const toEditable = (field: CustomFieldDefinition): EditableField => ({
+  id: field.id,
+  key: field.key,
+  label: field.label,
+  type: field.type,
+  required: field.required,
+  helpText: field.helpText || "",
+  options: field.options.join("\n"),
+  min: field.min?.toString() || "",
+  max: field.max?.toString() || "",
+  pattern: field.pattern || "",
+});
+
+const toInput = (field: EditableField): CustomFieldInput => ({
+  id: field.id,
+  key: field.key,
+  label: field.label,
+  type: field.type,
+  required: field.required,
+  helpText: field.helpText.trim() || null,
+  options: field.options.split("\n").map((o) => o.trim()).filter(Boolean),
+  min: field.min !== "" ? Number(field.min) : null,
+  max: field.max !== "" ? Number(field.max) : null,
+  pattern: field.pattern.trim() || null,
+});
+
+const newField = (): EditableField => ({
+  label: "",
+  type: "text",
+  required: false,
+  helpText: "",
+  options: "",
+  min: "",
+  max: "",
+  pattern: "",
+});
+
+export default function CustomFieldsPage() {
+  const router = useRouter();
+  const { companyId: userCompanyId, isAdmin, isSuperAdmin, isLoading: roleLoading } = useUserRole();
+  const { companies } = useCompany();
+
+  const [selectedCompanyId, setSelectedCompanyId] = useState("");
+  const [fields, setFields] = useState<EditableField[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Admins manage their own company's fields; SuperAdmins pick a company
+  const companyId = isSuperAdmin ? selectedCompanyId : userCompanyId;
+
+  useEffect(() => {
+    if (!roleLoading && !isAdmin && !isSuperAdmin) {
+      router.push("/Dashboard");
+    }
+  }, [isAdmin, isSuperAdmin, roleLoading, router]);
+
+  useEffect(() => {
+    if (!companyId) {
+      setFields([]);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    setSuccess(null);
+    fetch(`/api/admin/companies/${companyId}/custom-fields`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || "Failed to load custom fields");
+        if (!cancelled) setFields((data.fields as CustomFieldDefinition[]).map(toEditable));
+      })
+      .catch((err) => !cancelled && setError(err.message || "Failed to load custom fields"))
+      .finally(() => !cancelled && setLoading(false));
+    return () => { cancelled = true; };
+  }, [companyId]);
+
+  const updateField = (index: number, changes: Partial<EditableField>) => {
+    setFields((prev) => prev.map((field, i) => (i === index ? { ...field, ...changes } : field)));
+  };
+
+  const moveField = (index: number, offset: number) => {
+    setFields((prev) => {
+      const next = [...prev];
+      const [field] = next.splice(index, 1);
+      next.splice(index + offset, 0, field);
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    if (!companyId) return;
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await fetch(`/api/admin/companies/${companyId}/custom-fields`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ fields: fields.map(toInput) }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save custom fields");
+      }
+
+      setFields((data.fields as CustomFieldDefinition[]).map(toEditable));
+      setSuccess("Custom fields saved. New reports will ask for them.");
+    } catch (err: any) {
+      setError(err.message || "An error occurred while saving the custom fields");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (roleLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <Heading size="sm" className="text-foreground">
+          Custom Fields
+        </Heading>
+        <Button onClick={handleSave} disabled={!companyId || loading || saving}>
+          {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {saving ? "Saving..." : "Save Fields"}
+        </Button>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Extra fields shown on the incident form, the public form and the edit dialog, and included in
+        exports and the PDF. Removing a field hides it; values already on reports are kept.
+      </p>
+
+      {error && (
+        <div className="flex items-center gap-2 text-sm text-red-600 bg-red-50 dark:bg-red-900/20 p-3 rounded-md">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          <p>{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="flex items-center gap-2 text-sm text-green-600 bg-green-50 dark:bg-green-900/20 p-3 rounded-md">
+          <CheckCircle className="h-4 w-4 flex-shrink-0" />
+          <p>{success}</p>
+        </div>
+      )}
+
+      {isSuperAdmin && (
+        <div className="grid gap-2 max-w-sm">
+          <Label htmlFor="customFieldsCompany">Company</Label>
+          <Select value={selectedCompanyId} onValueChange={setSelectedCompanyId}>
+            <SelectTrigger id="customFieldsCompany">
+              <SelectValue placeholder="Select a company" />
+            </SelectTrigger>
+            <SelectContent>
+              {companies.map((company) => (
+                <SelectItem key={company.id} value={company.id}>{company.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {!companyId ? (
+        <p className="text-sm text-muted-foreground">
+          {isSuperAdmin ? "Select a company to edit its fields." : "Your account is not assigned to a company."}
+        </p>
+      ) : loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {fields.length === 0 && (
+            <p className="text-sm text-muted-foreground">No custom fields yet.</p>
+          )}
+
+          {fields.map((field, index) => (
+            <Card key={field.id || `new-${index}`}>
+              <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                <div>
+                  <CardTitle className="text-base">{field.label || "New field"}</CardTitle>
+                  <CardDescription>
+                    {CUSTOM_FIELD_TYPE_LABELS[field.type]}
+                    {field.required ? ", required" : ""}
+                    {field.key ? ` · key: ${field.key}` : ""}
+                  </CardDescription>
+                </div>
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => moveField(index, -1)}
+                    disabled={index === 0 || saving}
+                    title="Move up"
+                  >
+                    <ChevronsUp className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => moveField(index, 1)}
+                    disabled={index === fields.length - 1 || saving}
+                    title="Move down"
+                  >
+                    <ChevronsDown className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-red-600 hover:text-red-700"
+                    onClick={() => setFields((prev) => prev.filter((_, i) => i !== index))}
+                    disabled={saving}
+                    title="Remove"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="grid gap-2">
+                  <Label htmlFor={`label-${index}`}>Label *</Label>
+                  <Input
+                    id={`label-${index}`}
+                    placeholder="e.g. Policy Number"
+                    maxLength={80}
+                    value={field.label}
+                    onChange={(e) => updateField(index, { label: e.target.value })}
+                    disabled={saving}
+                  />
+                </div>
+
+                <div className="grid gap-2">
+                  <Label htmlFor={`type-${index}`}>Type</Label>
+                  <Select
+                    value={field.type}
+                    onValueChange={(value) => updateField(index, { type: value as CustomFieldType })}
+                    disabled={saving}
+                  >
+                    <SelectTrigger id={`type-${index}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CUSTOM_FIELD_TYPES.map((type) => (
+                        <SelectItem key={type} value={type}>{CUSTOM_FIELD_TYPE_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="grid gap-2 md:col-span-2">
+                  <Label htmlFor={`help-${index}`}>Help text</Label>
+                  <Input
+                    id={`help-${index}`}
+                    placeholder="Shown under the field"
+                    maxLength={200}
+                    value={field.helpText}
+                    onChange={(e) => updateField(index, { helpText: e.target.value })}
+                    disabled={saving}
+                  />
+                </div>
+
+                {field.type === "select" && (
+                  <div className="grid gap-2 md:col-span-2">
+                    <Label htmlFor={`options-${index}`}>Options *</Label>
+                    <Textarea
+                      id={`options-${index}`}
+                      rows={4}
+                      placeholder={"One per line, e.g.\nOne story\nTwo stories"}
+                      value={field.options}
+                      onChange={(e) => updateField(index, { options: e.target.value })}
+                      disabled={saving}
+                    />
+                  </div>
+                )}
+
+                {(field.type === "text" || field.type === "number") && (
+                  <>
+                    <div className="grid gap-2">
+                      <Label htmlFor={`min-${index}`}>{field.type === "text" ? "Minimum length" : "Minimum"}</Label>
+                      <Input
+                        id={`min-${index}`}
+                        type="number"
+                        placeholder="None"
+                        value={field.min}
+                        onChange={(e) => updateField(index, { min: e.target.value })}
+                        disabled={saving}
+                      />
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor={`max-${index}`}>{field.type === "text" ? "Maximum length" : "Maximum"}</Label>
+                      <Input
+                        id={`max-${index}`}
+                        type="number"
+                        placeholder="None"
+                        value={field.max}
+                        onChange={(e) => updateField(index, { max: e.target.value })}
+                        disabled={saving}
+                      />
+                    </div>
+                  </>
+                )}
+
+                {field.type === "text" && (
+                  <div className="grid gap-2 md:col-span-2">
+                    <Label htmlFor={`pattern-${index}`}>Pattern</Label>
+                    <Input
+                      id={`pattern-${index}`}
+                      placeholder="Regular expression, e.g. ^[A-Z]{3}-\d{6}$"
+                      className="font-mono"
+                      maxLength={MAX_PATTERN_LENGTH}
+                      value={field.pattern}
+                      onChange={(e) => updateField(index, { pattern: e.target.value })}
+                      disabled={saving}
+                    />
+                  </div>
+                )}
+
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id={`required-${index}`}
+                    checked={field.required}
+                    onCheckedChange={(checked) => updateField(index, { required: checked === true })}
+                    disabled={saving}
+                  />
+                  <Label htmlFor={`required-${index}`} className="font-normal">
+                    Required
+                  </Label>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+
+          <Button
+            variant="outline"
+            onClick={() => setFields((prev) => [...prev, newField()])}
+            disabled={saving || fields.length >= MAX_CUSTOM_FIELDS}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Field
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -67,19 +67,30 @@ export default function HomeManagementPage() {
     useEffect(() => {
         const fetchReports = async () => {
             try {
-                const response = await fetch("/api/incident-reports");
-                const data = await response.json();
-                if (response.ok && data.reports) {
-                    setIncidentReports(data.reports.map((r: any) => ({
-                        id: r.id,
-                        claimNumber: r.claimNumber,
-                        address: r.address || "",
-                        city: r.city || "",
-                        state: r.state || "",
-                        zip: r.zip || "",
-                        status: r.status,
-                    })));
-                }
+                // The list endpoint is paginated, so walk every page before matching
+                const allReports: any[] = [];
+                let nextToken: string | null = null;
+                do {
+                    const params = new URLSearchParams({ limit: "1000" });
+                    if (nextToken) params.set("nextToken", nextToken);
+
+                    const response = await fetch(`/api/incident-reports?${params.toString()}`);
+                    const data = await response.json();
+                    if (!response.ok || !data.reports) break;
+
+                    allReports.push(...data.reports);
+                    nextToken = data.nextToken || null;
+                } while (nextToken);
+
+                setIncidentReports(allReports.map((r: any) => ({
+                    id: r.id,
+                    claimNumber: r.claimNumber,
+                    address: r.address || "",
+                    city: r.city || "",
+                    state: r.state || "",
+                    zip: r.zip || "",
+                    status: r.status,
+                })));
             } catch (err) {
                 console.error("Error fetching incident reports for matching:", err);
             }
@@ -0,0 +1,423 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import Heading from "@/components/ui/Heading";
+import { Button } from "@/components/ui/Button";
+import { Checkbox } from "@/components/ui/Checkbox";
+import { Label } from "@/components/ui/Label";
+import { Badge } from "@/components/ui/Badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/Card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/Select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/Table";
+import { AlertCircle, CheckCircle, Download, Loader2, Upload } from "@/components/Icons";
+import { useUserRole } from "@/lib/auth/useUserRole";
+import { useCompany } from "@/contexts/CompanyContext";
+import { parseCsv, toCsv } from "@/lib/export/csv";
+import {
+  IMPORT_FIELDS,
+  MAX_IMPORT_ROWS,
+  applyColumnMapping,
+  autoMapColumns,
+  type ColumnMapping,
+  type ImportFieldKey,
+  type ImportRowResult,
+  type ImportRowStatus,
+} from "@/lib/reports/import";
+
+type Step = "upload" | "map" | "review" | "done";
+
+interface ImportResponse {
+  dryRun: boolean;
+  companyName: string;
+  summary: Record<ImportRowStatus | "total", number>;
+  results: ImportRowResult[];
+}
+
+const UNMAPPED = "__none__";
+
+const STATUS_STYLES: Record<ImportRowStatus, string> = {
+  valid: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300",
+  created: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300",
+  invalid: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300",
+  failed: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300",
+  duplicate: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300",
+};
+
+export default function ImportClaimsPage() {
+  const router = useRouter();
+  const { isAdmin, isSuperAdmin, isLoading: roleLoading } = useUserRole();
+  const { companies } = useCompany();
+
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [companyId, setCompanyId] = useState("");
+  const [dryRun, setDryRun] = useState<ImportResponse | null>(null);
+  const [imported, setImported] = useState<ImportResponse | null>(null);
+  const [queueAnalysis, setQueueAnalysis] = useState(true);
+  const [analysisQueued, setAnalysisQueued] = useState({ done: 0, failed: 0, total: 0 });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Import is an Admin / SuperAdmin tool
+  useEffect(() => {
+    if (!roleLoading && !isAdmin && !isSuperAdmin) {
+      router.push("/Dashboard");
+    }
+  }, [isAdmin, isSuperAdmin, roleLoading, router]);
+
+  const reset = () => {
+    setStep("upload");
+    setFileName("");
+    setHeaders([]);
+    setDataRows([]);
+    setMapping(null);
+    setDryRun(null);
+    setImported(null);
+    setAnalysisQueued({ done: 0, failed: 0, total: 0 });
+    setError(null);
+  };
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    try {
+      const [headerRow, ...rows] = parseCsv(await file.text());
+      if (!headerRow || rows.length === 0) {
+        throw new Error("The file has no data rows");
+      }
+      if (rows.length > MAX_IMPORT_ROWS) {
+        throw new Error(`The file has ${rows.length} rows; split it into files of at most ${MAX_IMPORT_ROWS} rows`);
+      }
+
+      const trimmedHeaders = headerRow.map((h) => h.trim());
+      setFileName(file.name);
+      setHeaders(trimmedHeaders);
+      setDataRows(rows);
+      setMapping(autoMapColumns(trimmedHeaders));
+      setStep("map");
+    } catch (err: any) {
+      setError(err.message || "Failed to read the CSV file");
+    }
+  };
+
+  const submit = async (isDryRun: boolean) => {
+    if (!mapping) return;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/admin/incident-reports/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          rows: applyColumnMapping(headers, dataRows, mapping),
+          dryRun: isDryRun,
+          companyId: isSuperAdmin ? companyId : undefined,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Import failed");
+      }
+
+      if (isDryRun) {
+        setDryRun(data);
+        setStep("review");
+      } else {
+        setImported(data);
+        setStep("done");
+        if (queueAnalysis) await queueAnalysisRuns(data.results);
+      }
+    } catch (err: any) {
+      setError(err.message || "Import failed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Same endpoint the incident form calls after submitting; one at a time so the queue isn't flooded
+  const queueAnalysisRuns = async (results: ImportRowResult[]) => {
+    const withPhotos = results.filter((r) => r.status === "created" && r.reportId && r.photoCount > 0);
+    const progress = { done: 0, failed: 0, total: withPhotos.length };
+    setAnalysisQueued({ ...progress });
+
+    for (const result of withPhotos) {
+      try {
+        const response = await fetch(`/api/incident-reports/${result.reportId}/analyze`, { method: "POST" });
+        if (response.ok) progress.done++;
+        else progress.failed++;
+      } catch (err) {
+        console.error("Failed to queue analysis for imported report:", result.reportId, err);
+        progress.failed++;
+      }
+      setAnalysisQueued({ ...progress });
+    }
+  };
+
+  const downloadErrorReport = (results: ImportRowResult[]) => {
+    const rows = results
+      .filter((r) => r.errors.length > 0)
+      .map((r) => ({ line: r.row, claimNumber: r.claimNumber, status: r.status, errors: r.errors.join("; ") }));
+    const url = URL.createObjectURL(new Blob([toCsv(rows, ["line", "claimNumber", "status", "errors"])], { type: "text/csv" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${fileName.replace(/\.csv$/i, "") || "import"}-errors.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const missingRequired = mapping
+    ? IMPORT_FIELDS.filter((f) => f.required && !mapping[f.key]).map((f) => f.label)
+    : [];
+
+  const renderResults = (result: ImportResponse) => (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <Badge variant="outline">{result.summary.total} rows</Badge>
+        {(["created", "valid", "duplicate", "invalid", "failed"] as ImportRowStatus[])
+          .filter((status) => result.summary[status] > 0)
+          .map((status) => (
+            <Badge key={status} className={STATUS_STYLES[status]}>
+              {result.summary[status]} {status}
+            </Badge>
+          ))}
+      </div>
+
+      <div className="max-h-[480px] overflow-auto rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-16">Line</TableHead>
+              <TableHead>Claim #</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Photos</TableHead>
+              <TableHead>Errors</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {result.results.map((row) => (
+              <TableRow key={row.row}>
+                <TableCell>{row.row}</TableCell>
+                <TableCell className="font-mono text-xs">{row.claimNumber || "—"}</TableCell>
+                <TableCell>
+                  <Badge className={STATUS_STYLES[row.status]}>{row.status}</Badge>
+                </TableCell>
+                <TableCell>{row.photoCount}</TableCell>
+                <TableCell className="text-xs text-red-600 dark:text-red-400">
+                  {row.errors.map((message, i) => <div key={i}>{message}</div>)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {result.results.some((r) => r.errors.length > 0) && (
+        <Button variant="outline" size="sm" onClick={() => downloadErrorReport(result.results)}>
+          <Download className="w-4 h-4 mr-2" />
+          Download Error Report
+        </Button>
+      )}
+    </div>
+  );
+
+  if (roleLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <Heading size="sm" className="text-foreground">
+          Import Claims
+        </Heading>
+        {step !== "upload" && (
+          <Button variant="outline" size="sm" onClick={reset} disabled={loading}>
+            Start Over
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 text-sm text-red-600 bg-red-50 dark:bg-red-900/20 p-3 rounded-md">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          <p>{error}</p>
+        </div>
+      )}
+
+      {step === "upload" && (
+        <Card>
+          <CardHeader>
+            <CardTitle>1. Upload a CSV file</CardTitle>
+            <CardDescription>
+              One claim per row with a header row. Up to {MAX_IMPORT_ROWS} rows per file. Photo references are
+              storage paths separated by semicolons.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isSuperAdmin && (
+              <div className="grid gap-2 max-w-sm">
+                <Label htmlFor="importCompany">Import into company</Label>
+                <Select value={companyId} onValueChange={setCompanyId}>
+                  <SelectTrigger id="importCompany">
+                    <SelectValue placeholder="Select a company" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {companies.map((company) => (
+                      <SelectItem key={company.id} value={company.id}>{company.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <label className="flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-10 cursor-pointer hover:bg-accent">
+              <Upload className="w-8 h-8 text-muted-foreground" />
+              <span className="text-sm text-muted-foreground">Choose a .csv file</span>
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+              />
+            </label>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === "map" && mapping && (
+        <Card>
+          <CardHeader>
+            <CardTitle>2. Map columns</CardTitle>
+            <CardDescription>
+              {fileName}: {dataRows.length} rows. Match each report field to a column in your file.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {IMPORT_FIELDS.map((field) => (
+                <div key={field.key} className="grid grid-cols-2 items-center gap-2">
+                  <Label htmlFor={`map-${field.key}`}>
+                    {field.label}
+                    {field.required && <span className="text-red-500"> *</span>}
+                  </Label>
+                  <Select
+                    value={mapping[field.key] ?? UNMAPPED}
+                    onValueChange={(value) =>
+                      setMapping({ ...mapping, [field.key as ImportFieldKey]: value === UNMAPPED ? null : value })}
+                  >
+                    <SelectTrigger id={`map-${field.key}`} className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>— Not mapped —</SelectItem>
+                      {headers.filter(Boolean).map((header) => (
+                        <SelectItem key={header} value={header}>{header}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            {missingRequired.length > 0 && (
+              <p className="text-sm text-yellow-700 dark:text-yellow-400">
+                Required fields not mapped: {missingRequired.join(", ")}. Every row will fail validation until they are.
+              </p>
+            )}
+
+            <Button onClick={() => submit(true)} disabled={loading || (isSuperAdmin && !companyId)}>
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {loading ? "Validating..." : "Run Dry Run"}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === "review" && dryRun && (
+        <Card>
+          <CardHeader>
+            <CardTitle>3. Review</CardTitle>
+            <CardDescription>
+              Dry run against {dryRun.companyName}. Nothing has been saved yet; only valid rows will be imported.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {renderResults(dryRun)}
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="queueAnalysis"
+                checked={queueAnalysis}
+                onCheckedChange={(checked) => setQueueAnalysis(checked === true)}
+              />
+              <Label htmlFor="queueAnalysis" className="font-normal">
+                Queue AI analysis for imported rows that include photo references
+              </Label>
+            </div>
+
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setStep("map")} disabled={loading}>
+                Back to Mapping
+              </Button>
+              <Button onClick={() => submit(false)} disabled={loading || dryRun.summary.valid === 0}>
+                {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {loading ? "Importing..." : `Import ${dryRun.summary.valid} Valid Row${dryRun.summary.valid === 1 ? "" : "s"}`}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === "done" && imported && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CheckCircle className="w-5 h-5 text-green-600" />
+              Import complete
+            </CardTitle>
+            <CardDescription>
+              {imported.summary.created} report{imported.summary.created === 1 ? "" : "s"} created in {imported.companyName}.
+              {analysisQueued.total > 0 &&
+                ` AI analysis queued for ${analysisQueued.done} of ${analysisQueued.total}` +
+                (analysisQueued.failed > 0 ? ` (${analysisQueued.failed} failed to queue).` : ".")}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {renderResults(imported)}
+            <Button asChild variant="outline">
+              <Link href="/Dashboard/reports">View Reports</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { SidebarProvider } from "@/components/ui/Sidebar";
 import { AppSidebar } from "@/components/App-sidebar";
 import { CompanyProvider } from "@/contexts/CompanyContext";
 import { fetchAuthSession } from "aws-amplify/auth";
+import { registerServiceWorker } from "@/lib/offline/service-worker";
 
 export default function DashboardLayout({
   children,
@@ -34,7 +35,14 @@ export default function DashboardLayout({
         // Only set states if authenticated
         setIsAuthenticated(true);
         setCheckedAuth(true);
+        registerServiceWorker();
       } catch (error) {
+        // Offline the session can't be refreshed; keep field mode open; sync asks to sign in again
+        if (!navigator.onLine) {
+          setIsAuthenticated(true);
+          setCheckedAuth(true);
+          return;
+        }
         console.error("Auth check failed:", error);
         // Use replace for cleaner navigation history
         window.location.replace("/");
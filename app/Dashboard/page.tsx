@@ -4,6 +4,7 @@ import { useRouter } from "next/navigation";
 import { useEffect, useState } from "react";
 import Heading from "@/components/ui/Heading";
 import { useUserRole } from "@/lib/auth/useUserRole";
+import { isOpenStatus } from "@/lib/reports/workflow";
 import type { NextPage } from "next";
 
 const Dashboard: NextPage = () => {
@@ -32,17 +33,28 @@ const Dashboard: NextPage = () => {
 
   const fetchStats = async () => {
     try {
-      const response = await fetch("/api/incident-reports");
-      const data = await response.json();
+      // The list endpoint is paginated, so walk every page to get accurate totals
+      const counts = { total: 0, pending: 0, resolved: 0 };
+      let nextToken: string | null = null;
 
-      if (response.ok && data.reports) {
-        const reports = data.reports;
-        const total = reports.length;
-        const pending = reports.filter((r: any) => r.status === "in_review").length;
-        const resolved = reports.filter((r: any) => r.status === "resolved").length;
+      do {
+        const params = new URLSearchParams({ limit: "1000" });
+        if (nextToken) params.set("nextToken", nextToken);
 
-        setStats({ total, pending, resolved });
-      }
+        const response = await fetch(`/api/incident-reports?${params.toString()}`);
+        const data = await response.json();
+
+        if (!response.ok || !data.reports) {
+          throw new Error(data.error || "Failed to fetch reports");
+        }
+
+        counts.total += data.reports.length;
+        counts.pending += data.reports.filter((r: any) => isOpenStatus(r.status)).length;
+        counts.resolved += data.reports.filter((r: any) => r.status === "resolved").length;
+        nextToken = data.nextToken || null;
+      } while (nextToken);
+
+      setStats(counts);
     } catch (error) {
       console.error("Error fetching stats:", error);
     } finally {
@@ -2,16 +2,27 @@
 
 import { useState, useEffect } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
-import { getUrl, remove } from "aws-amplify/storage";
+import { useDebounce } from "use-debounce";
+import { getUrl } from "aws-amplify/storage";
 import { fetchAuthSession } from "aws-amplify/auth";
 import { generateClient } from "aws-amplify/data";
 import type { Schema } from "@/amplify/data/resource";
 import Heading from "@/components/ui/Heading";
 import { Button } from "@/components/ui/Button";
-import { RefreshCw, AlertCircle, CheckCircle, Clock, Edit, Trash2, Download, Zap, FileText } from "@/components/Icons";
+import { Input } from "@/components/ui/Input";
+import { RefreshCw, AlertCircle, CheckCircle, Clock, Edit, Trash2, Download, Zap, FileText, Lock } from "@/components/Icons";
 import { EditIncidentReportModal } from "@/components/forms/EditIncidentReportModal";
 import { AIAnalysisDisplay } from "@/components/AIAnalysisDisplay";
+import { ReportStatusTimeline } from "@/components/ReportStatusTimeline";
+import { DuplicatePhotoWarning } from "@/components/DuplicatePhotoWarning";
+import { ExportReportsDialog } from "@/components/ExportReportsDialog";
+import { isAnalysisActive, type AnalysisRun } from "@/lib/reports/analysis";
+import type { DeletionResult } from "@/lib/reports/deletion";
+import { trashPurgeAt, trashRetentionDays } from "@/lib/reports/trash";
+import { REPORT_STATUSES, REPORT_STATUS_LABELS, getAllowedTransitions, isReportStatus } from "@/lib/reports/workflow";
+import { parseCompanySettings } from "@/lib/companies/settings";
 import { useUserRole } from "@/lib/auth/useUserRole";
+import { useOutbox } from "@/lib/offline/useOutbox";
 import { useCompany } from "@/contexts/CompanyContext";
 import {
   Select,
@@ -20,6 +31,13 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/Select";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/Pagination";
 
 interface IncidentReport {
   id: string;
@@ -45,24 +63,55 @@ interface IncidentReport {
   companyName?: string | null;
   submittedBy?: string;
   aiAnalysis?: any;
+  analysisRun?: AnalysisRun | null;
   weatherReport?: any;
+  deletedAt?: string | null;
+  deletedBy?: string | null;
+  piiPurgedAt?: string | null;
+  legalHold?: boolean | null;
+  legalHoldReason?: string | null;
+  legalHoldBy?: string | null;
+  legalHoldAt?: string | null;
 }
 
 const client = generateClient<Schema>();
 
+const PAGE_SIZE = 25;
+
 export default function ReportsPage() {
   const searchParams = useSearchParams();
   const router = useRouter();
   const [reports, setReports] = useState<IncidentReport[]>([]);
-  const [filteredReports, setFilteredReports] = useState<IncidentReport[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [editingReport, setEditingReport] = useState<IncidentReport | null>(null);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [holdingId, setHoldingId] = useState<string | null>(null);
+  // Admins can switch the list to the Trash: deleted reports, with restore and permanent delete
+  const [showTrash, setShowTrash] = useState(false);
   const [analyzingId, setAnalyzingId] = useState<string | null>(null);
+  const [exportingId, setExportingId] = useState<string | null>(null);
+  const [showExportDialog, setShowExportDialog] = useState(false);
   const [photoUrlsMap, setPhotoUrlsMap] = useState<Record<string, string[]>>({});
   const [selectedCompanyFilter, setSelectedCompanyFilter] = useState<string>("all");
-  const { isAdmin, isIncidentReporter, isSuperAdmin, isHomeOwner, isLoading: roleLoading, companyId, userEmail } = useUserRole();
+  const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [analysisFilter, setAnalysisFilter] = useState<string>("all");
+  const [claimNumberFilter, setClaimNumberFilter] = useState("");
+  const [debouncedClaimNumber] = useDebounce(claimNumberFilter, 400);
+  const [incidentFrom, setIncidentFrom] = useState("");
+  const [incidentTo, setIncidentTo] = useState("");
+  const [sortOption, setSortOption] = useState("submittedAt:desc");
+  // Cursor pagination: pageTokens[i] is the nextToken that loads page i (page 0 has none)
+  const [pageTokens, setPageTokens] = useState<(string | null)[]>([null]);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [nextToken, setNextToken] = useState<string | null>(null);
+  // True when the sort has no index behind it, so it only orders the reports on the current page
+  const [sortedWithinPage, setSortedWithinPage] = useState(false);
+  // Bumped per report after a status change so its timeline reloads
+  const [statusEventVersions, setStatusEventVersions] = useState<Record<string, number>>({});
+  const { isAdmin, isIncidentReporter, isSuperAdmin, isHomeOwner, isLoading: roleLoading, userEmail } = useUserRole();
+  const outbox = useOutbox(userEmail);
   const { companies } = useCompany();
 
   // Address filter from URL query params (set when navigating from Home Management)
@@ -122,64 +171,66 @@ export default function ReportsPage() {
     }
   };
 
-  const fetchReports = async () => {
+  const buildReportQuery = (token: string | null) => {
+    const [sort, order] = sortOption.split(":");
+    const params = new URLSearchParams({ limit: String(PAGE_SIZE), sort, order });
+
+    if (token) params.set("nextToken", token);
+    if (showTrash) params.set("deleted", "true");
+    if (statusFilter !== "all") params.set("status", statusFilter);
+    if (selectedCompanyFilter !== "all") params.set("companyId", selectedCompanyFilter);
+    if (analysisFilter !== "all") params.set("hasAnalysis", String(analysisFilter === "analyzed"));
+    if (debouncedClaimNumber.trim()) params.set("claimNumber", debouncedClaimNumber.trim());
+    if (incidentFrom) params.set("incidentFrom", incidentFrom);
+    if (incidentTo) params.set("incidentTo", incidentTo);
+    // State and ZIP are exact values; the route matches street and city case-insensitively
+    if (addressFilter) params.set("address", addressFilter);
+    if (cityFilter) params.set("city", cityFilter);
+    if (stateFilter) params.set("state", stateFilter);
+    if (zipFilter) params.set("zip", zipFilter);
+
+    return params.toString();
+  };
+
+  const fetchReports = async (targetPage = pageIndex, tokens = pageTokens) => {
     setIsLoading(true);
     setError(null);
     try {
-      console.log("Fetching incident reports...");
+      console.log(`Fetching incident reports (page ${targetPage + 1})...`);
 
-      const response = await fetch("/api/incident-reports");
+      const response = await fetch(`/api/incident-reports?${buildReportQuery(tokens[targetPage])}`);
       const data = await response.json();
 
       if (!response.ok) {
         throw new Error(data.error || "Failed to fetch incident reports");
       }
 
-      let allReports = data.reports || [];
-
-      // Sort by most recent first (submittedAt or createdAt)
-      allReports.sort((a: IncidentReport, b: IncidentReport) => {
-        const dateA = new Date(a.submittedAt || a.createdAt).getTime();
-        const dateB = new Date(b.submittedAt || b.createdAt).getTime();
-        return dateB - dateA; // Descending order (newest first)
-      });
-
-      // Apply authorization filtering:
-      // - SuperAdmins: Can view all reports across all companies
-      // - Admins: Can view reports within their assigned company only
-      // - IncidentReporters: Can view reports within their assigned company OR reports they submitted
-      // - HomeOwners: Can ONLY view reports where the email matches their account email
-
-      if (!isSuperAdmin) {
-        allReports = allReports.filter((report: IncidentReport) => {
-          // 1. HomeOwner Rule: Strict email match (case-insensitive)
-          if (isHomeOwner) {
-            return userEmail && report.email?.toLowerCase() === userEmail.toLowerCase();
-          }
+      // Authorization scoping, filtering and sorting are applied by the API route
+      const pageReports: IncidentReport[] = data.reports || [];
+      setReports(pageReports);
+      setSortedWithinPage(!!data.sortedWithinPage);
+      setPageIndex(targetPage);
+      setNextToken(data.nextToken || null);
 
-          // 2. Admin/IncidentReporter Rule: Company match
-          if (companyId && report.companyId === companyId) return true;
-
-          // 3. Fallback: Creator match
-          if (userEmail && report.submittedBy === userEmail) return true;
-
-          return false;
-        });
+      // Remember the cursor for the following page so "Previous" can walk back
+      if (data.nextToken) {
+        setPageTokens([...tokens.slice(0, targetPage + 1), data.nextToken]);
+      } else {
+        setPageTokens(tokens.slice(0, targetPage + 1));
       }
 
-      setReports(allReports);
-      setFilteredReports(allReports);
-
-      // Get signed URLs for photos
+      // Get signed URLs for photos; homeowners have no storage access, so theirs come through the report's photo route
       const urlsMap: Record<string, string[]> = {};
-      for (const report of allReports) {
+      for (const report of pageReports) {
         if (report.photoUrls && report.photoUrls.length > 0) {
-          urlsMap[report.id] = await getSignedPhotoUrls(report.photoUrls);
+          urlsMap[report.id] = isHomeOwner
+            ? report.photoUrls.map((path) => `/api/incident-reports/${report.id}/photos?path=${encodeURIComponent(path)}`)
+            : await getSignedPhotoUrls(report.photoUrls);
         }
       }
       setPhotoUrlsMap(urlsMap);
 
-      console.log(`✅ Loaded ${allReports.length} incident reports`);
+      console.log(`✅ Loaded ${pageReports.length} incident reports`);
     } catch (err: any) {
       console.error("Error fetching reports:", err);
       setError(err?.message || "Failed to load incident reports");
@@ -188,77 +239,96 @@ export default function ReportsPage() {
     }
   };
 
+  const refreshFirstPage = () => fetchReports(0, [null]);
+
   useEffect(() => {
-    // Only fetch reports once role is loaded
+    // Only fetch reports once role is loaded; any filter change starts again from the first page
     if (!roleLoading) {
-      fetchReports();
+      refreshFirstPage();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [roleLoading, isAdmin, isIncidentReporter]);
-
-  // Apply company filter AND address filter
-  useEffect(() => {
-    let filtered = reports;
+  }, [roleLoading, isAdmin, isIncidentReporter, statusFilter, selectedCompanyFilter, analysisFilter, debouncedClaimNumber, incidentFrom, incidentTo, sortOption, addressFilter, cityFilter, stateFilter, zipFilter, showTrash]);
+
+  const hasActiveFilters = statusFilter !== "all" || analysisFilter !== "all" || selectedCompanyFilter !== "all" ||
+    !!claimNumberFilter || !!incidentFrom || !!incidentTo;
+
+  const clearFilters = () => {
+    setStatusFilter("all");
+    setAnalysisFilter("all");
+    setSelectedCompanyFilter("all");
+    setClaimNumberFilter("");
+    setIncidentFrom("");
+    setIncidentTo("");
+  };
 
-    // Company filter
-    if (selectedCompanyFilter !== "all") {
-      filtered = filtered.filter(report => report.companyId === selectedCompanyFilter);
+  const handleDelete = async (id: string) => {
+    if (!confirm("Move this incident report to the Trash? An admin can restore it until it is purged.")) {
+      return;
     }
 
-    // Address filter from URL query params
-    if (hasAddressFilter) {
-      filtered = filtered.filter(report => {
-        const matchAddress = !addressFilter || report.address?.toLowerCase() === addressFilter.toLowerCase();
-        const matchCity = !cityFilter || report.city?.toLowerCase() === cityFilter.toLowerCase();
-        const matchState = !stateFilter || report.state?.toLowerCase() === stateFilter.toLowerCase();
-        const matchZip = !zipFilter || report.zip?.toLowerCase() === zipFilter.toLowerCase();
-        return matchAddress && matchCity && matchState && matchZip;
+    setDeletingId(id);
+    try {
+      const response = await fetch(`/api/incident-reports/${id}`, {
+        method: "DELETE",
       });
-    }
 
-    setFilteredReports(filtered);
-  }, [selectedCompanyFilter, reports, hasAddressFilter, addressFilter, cityFilter, stateFilter, zipFilter]);
+      const data = await response.json();
 
-  const handleDelete = async (id: string) => {
-    if (!confirm("Are you sure you want to delete this incident report? This action cannot be undone.")) {
-      return;
+      if (response.ok) {
+        console.log("✅ Moved incident report to the Trash");
+        // Remove from local state
+        setReports(reports.filter(report => report.id !== id));
+      } else {
+        console.error("❌ Error deleting report:", data.error);
+        alert(`Failed to delete report: ${data.error}`);
+      }
+    } catch (error: any) {
+      console.error("Error deleting report:", error);
+      alert(`Error deleting report: ${error?.message || "Unknown error"}`);
+    } finally {
+      setDeletingId(null);
     }
+  };
 
+  const handlePermanentDelete = async (id: string) => {
     setDeletingId(id);
     try {
-      console.log(`Deleting incident report with ID: ${id}`);
-
-      // Find the report to get photo URLs
-      const reportToDelete = reports.find(report => report.id === id);
-
-      // Delete photos from S3 first
-      if (reportToDelete?.photoUrls && reportToDelete.photoUrls.length > 0) {
-        console.log(`Deleting ${reportToDelete.photoUrls.length} photos from S3...`);
-        const deletePromises = reportToDelete.photoUrls.map(async (photoPath) => {
-          try {
-            await remove({ path: photoPath });
-            console.log(`✅ Deleted photo: ${photoPath}`);
-          } catch (error) {
-            console.error(`Failed to delete photo ${photoPath}:`, error);
-          }
-        });
-        await Promise.all(deletePromises);
-        console.log("✅ All photos deleted from S3");
+      // List what goes with the report first, so the confirmation can say what will be removed
+      const planResponse = await fetch(`/api/incident-reports/${id}?permanent=true&dryRun=true`, { method: "DELETE" });
+      const plan = await planResponse.json();
+      if (!planResponse.ok) {
+        alert(`Failed to delete report: ${plan.error}`);
+        return;
       }
 
-      // AI Image deletion is now handled by the backend API to ensure correct bucket access.
+      const counts = (plan.results as DeletionResult[]).reduce<Record<string, number>>((acc, r) => {
+        acc[r.category] = (acc[r.category] || 0) + 1;
+        return acc;
+      }, {});
+      const parts = [
+        counts.photo && `${counts.photo} photo(s)`,
+        counts.analyzed && `${counts.analyzed} analyzed image(s)`,
+        counts.pdf && `${counts.pdf} archived PDF(s)`,
+        counts.record && `${counts.record} review and history record(s)`,
+      ].filter(Boolean);
+      const also = parts.length > 0 ? `\n\nThis also deletes ${parts.join(", ")}.` : "";
+      if (!confirm(`Permanently delete this incident report? This action cannot be undone.${also}`)) {
+        return;
+      }
 
-      // Delete the report from DynamoDB via API
-      const response = await fetch(`/api/incident-reports/${id}`, {
+      const response = await fetch(`/api/incident-reports/${id}?permanent=true`, {
         method: "DELETE",
       });
 
       const data = await response.json();
 
       if (response.ok) {
-        console.log("✅ Successfully deleted incident report from database");
-        // Remove from local state
+        console.log("✅ Permanently deleted incident report", data.summary);
         setReports(reports.filter(report => report.id !== id));
+        const pending = data.summary.queued + data.summary.failed;
+        if (pending > 0) {
+          alert(`The report was deleted, but ${pending} file(s) or record(s) could not be removed yet. They will be retried automatically.`);
+        }
       } else {
         console.error("❌ Error deleting report:", data.error);
         alert(`Failed to delete report: ${data.error}`);
@@ -271,6 +341,38 @@ export default function ReportsPage() {
     }
   };
 
+  const handleRestore = async (id: string) => {
+    setRestoringId(id);
+    try {
+      const response = await fetch(`/api/incident-reports/${id}/restore`, { method: "POST" });
+      const data = await response.json();
+
+      if (response.ok) {
+        setReports(reports.filter(report => report.id !== id));
+      } else {
+        alert(`Failed to restore report: ${data.error}`);
+      }
+    } catch (error: any) {
+      console.error("Error restoring report:", error);
+      alert(`Error restoring report: ${error?.message || "Unknown error"}`);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  // When a report in the Trash is purged, from its company's retention setting
+  const purgeDate = (report: IncidentReport) => {
+    if (!report.deletedAt) return null;
+    const company = companies.find((c) => c.id === report.companyId);
+    return trashPurgeAt(report.deletedAt, trashRetentionDays(company?.settings));
+  };
+
+  // Statuses the report's company uses; the rest are left out of the status dropdown
+  const allowedStatuses = (report: IncidentReport) => {
+    const company = companies.find((c) => c.id === report.companyId);
+    return parseCompanySettings(company?.settings).workflow.allowedStatuses;
+  };
+
   const handleAnalyze = async (id: string) => {
     setAnalyzingId(id);
     try {
@@ -282,57 +384,12 @@ export default function ReportsPage() {
       const data = await response.json();
 
       if (response.ok) {
-        console.log("✅ AI Analysis triggered successfully. Starting polling...");
-
-        // Polling logic: check the report every 5 seconds for up to 5 minutes
-        const client = generateClient<Schema>();
-        let attempts = 0;
-        const maxAttempts = 60; // 5 minutes (5s * 60)
-
-        const poll = async () => {
-          if (attempts >= maxAttempts) {
-            console.error("❌ Polling timed out after 5 minutes");
-            setAnalyzingId(null);
-            return;
-          }
-
-          attempts++;
-          try {
-            const { data: updatedReport } = await client.models.IncidentReport.get({ id });
-
-            if (updatedReport?.aiAnalysis) {
-              const analysis = typeof updatedReport.aiAnalysis === 'string'
-                ? JSON.parse(updatedReport.aiAnalysis)
-                : updatedReport.aiAnalysis;
-
-              if (analysis.status === "analyzing") {
-                console.log(`Still analyzing... attempt ${attempts}`);
-                setTimeout(poll, 5000);
-              } else if (analysis.status === "failed") {
-                console.error("❌ AI Analysis reported failure:", analysis.error);
-                alert(`AI Analysis failed: ${analysis.error}`);
-                setAnalyzingId(null);
-              } else {
-                console.log("✅ AI Analysis completed and data received");
-                // Update the local state with the completed analysis
-                setReports(prev => prev.map(report =>
-                  report.id === id ? { ...report, aiAnalysis: updatedReport.aiAnalysis } : report
-                ));
-                setAnalyzingId(null);
-              }
-            } else {
-              // This shouldn't happen if the API set it to 'analyzing', but safe to stay in loop
-              setTimeout(poll, 5000);
-            }
-          } catch (pollError) {
-            console.error("Error during polling:", pollError);
-            setTimeout(poll, 5000);
-          }
-        };
-
-        // Start polling
-        poll();
-
+        // AIAnalysisDisplay polls the queued run and reports back through handleAnalysisUpdate
+        console.log("✅ AI Analysis queued");
+        setReports(prev => prev.map(report =>
+          report.id === id ? { ...report, aiAnalysis: null, analysisRun: data.analysisRun } : report
+        ));
+        setAnalyzingId(null);
       } else {
         console.error("❌ AI Analysis failed to start:", data.error);
         alert(`AI Analysis failed to start: ${data.error}`);
@@ -343,503 +400,49 @@ export default function ReportsPage() {
       alert(`Error: ${error.message}`);
       setAnalyzingId(null);
     }
-    // Note: setAnalyzingId(null) is handled inside the polling/error logic now
   };
 
-  const handleExportPDF = async (report: IncidentReport) => {
-    // 1. Resolve all necessary photo URLs (Original + AI)
-    const resolvedUrls: Record<string, string> = {};
-
-    // Resolve Original Photos
-    if (report.photoUrls && report.photoUrls.length > 0) {
-      const urls = await getSignedPhotoUrls(report.photoUrls);
-      report.photoUrls.forEach((path, i) => {
-        if (urls[i]) resolvedUrls[`original_${i}`] = urls[i];
-      });
+  const handleAnalysisUpdate = (id: string, update: { aiAnalysis: any; analysisRun: AnalysisRun | null }) => {
+    setReports(prev => prev.map(report =>
+      report.id === id ? { ...report, ...update } : report
+    ));
+    if (update.analysisRun?.status === "failed") {
+      alert(`AI Analysis failed: ${update.analysisRun.error || "Unknown error"}`);
     }
+  };
 
-    // Resolve AI Photos
-    let aiData: any = null;
-    if (report.aiAnalysis) {
-      try {
-        aiData = typeof report.aiAnalysis === 'string' ? JSON.parse(report.aiAnalysis) : report.aiAnalysis;
-        if (aiData?.detections) {
-          const uniquePaths = Array.from(new Set(aiData.detections.map((d: any) => d.local_output_path).filter(Boolean))) as string[];
-          if (uniquePaths.length === 0 && aiData.local_output_path) uniquePaths.push(aiData.local_output_path);
-
-          await Promise.all(uniquePaths.map(async (path) => {
-            try {
-              const res = await getUrl({ path });
-              resolvedUrls[`ai_${path}`] = res.url.toString();
-            } catch (err) {
-              console.error("Error resolving AI photo for PDF:", path, err);
-            }
-          }));
-        }
-      } catch (e) {
-        console.error("Failed to parse AI analysis for PDF", e);
-      }
-    }
-
-    // Helper to format date
-    const formatDateOnly = (dateStr: string) => {
-      if (!dateStr) return 'N/A';
-      return new Date(dateStr).toLocaleDateString();
-    };
-
-    // Parse weather report for PDF
-    let weatherData: any = null;
+  const handleExportPDF = async (report: IncidentReport) => {
+    setExportingId(report.id);
     try {
-      if (report.weatherReport) {
-        weatherData = typeof report.weatherReport === 'string'
-          ? JSON.parse(report.weatherReport)
-          : report.weatherReport;
+      // The server renders the PDF and archives a copy of this version in storage
+      const response = await fetch(`/api/incident-reports/${report.id}/pdf?download=1`);
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        alert(`Failed to export report: ${data.error || response.statusText}`);
+        return;
       }
-    } catch (e) {
-      console.error("Failed to parse weather report for PDF", e);
-    }
-
-    // Helper to format technical assessment per image for the PDF
-    const getAnalyzedImagesHtml = () => {
-      if (!aiData || !aiData.detections) return '';
-      const uniquePaths = Array.from(new Set(aiData.detections.map((d: any) => d.local_output_path).filter(Boolean))) as string[];
-      if (uniquePaths.length === 0 && aiData.local_output_path) uniquePaths.push(aiData.local_output_path);
-
-      return `
-        <div class="report-section">
-          <h3 class="section-title">Visual Evidence Analysis</h3>
-          <div class="photo-grid">
-            ${uniquePaths.map((path: any, idx) => {
-        const detections = aiData.detections.filter((d: any) => d.local_output_path === path);
-        return `
-                <div class="evidence-item">
-                  <div class="evidence-img-container">
-                    <img src="${resolvedUrls[`ai_${path}`] || ''}" crossorigin="anonymous" />
-                  </div>
-                  <div class="evidence-details">
-                    <p class="evidence-label">EXHIBIT ${idx + 1}</p>
-                    <div class="detection-list">
-                      ${detections.length > 0 ? detections.map((d: any) => `
-                        <div class="detection-entry" style="flex-direction: column; align-items: flex-start;">
-                          <div style="display: flex; justify-content: space-between; width: 100%;">
-                            <span class="detection-tag">${d.label}</span>
-                            <span class="detection-conf">${Math.round(d.confidence * 100)}%</span>
-                          </div>
-                          ${d.notes ? `<div class="detection-notes" style="font-size: 7px; color: #666; font-style: italic; margin-top: 2px;">Note: ${d.notes}</div>` : ''}
-                        </div>
-                      `).join('') : '<p class="no-data">No technical labels applied.</p>'}
-                    </div>
-                  </div>
-                </div>
-              `;
-      }).join('')}
-          </div>
-        </div>
-      `;
-    };
-
-    const styles = `
-      <style>
-        @import url('https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700&display=swap');
-        
-        @page { size: A4; margin: 0; }
-        * { box-sizing: border-box; }
-        
-        body { 
-          font-family: 'Inter', sans-serif; 
-          color: #1a1a1a; 
-          line-height: 1.4;
-          background: #fff;
-          margin: 0;
-          margin: 0;
-          padding: 8mm;
-          font-size: 11px;
-        }
-
-        /* Report Header */
-        .report-header {
-          border-bottom: 2px solid #000;
-          padding-bottom: 5px;
-          margin-bottom: 20px;
-          text-align: left;
-        }
-        .report-title {
-          font-size: 18px;
-          font-weight: 700;
-          text-transform: uppercase;
-          letter-spacing: 0.5px;
-          margin: 0;
-        }
-        .report-id {
-          font-size: 10px;
-          color: #666;
-          font-family: monospace;
-        }
-
-        /* Section Titles */
-        .section-title {
-          font-size: 12px;
-          font-weight: 700;
-          text-transform: uppercase;
-          border-bottom: 1px solid #eee;
-          padding-bottom: 3px;
-          margin: 15px 0 10px 0;
-          color: #333;
-        }
 
-        /* Info Grids - 3 Columns for density */
-        .info-grid {
-          display: grid;
-          grid-template-columns: repeat(3, 1fr);
-          gap: 20px;
-          margin-bottom: 10px;
-        }
-        .info-group {
-          margin-bottom: 8px;
-        }
-        .info-label {
-          font-size: 9px;
-          font-weight: 700;
-          color: #888;
-          text-transform: uppercase;
-          margin-bottom: 1px;
-        }
-        .info-value {
-          font-size: 11px;
-          font-weight: 500;
-        }
-
-        /* Assessment Summary & Findings */
-        .assessment-summary {
-          background: #f8fafc;
-          border: 1px solid #e2e8f0;
-          padding: 12px 15px;
-          border-radius: 4px;
-          margin-bottom: 15px;
-        }
-        .findings-container {
-          margin-bottom: 15px;
-        }
-        .findings-col {
-          margin-bottom: 15px;
-        }
-        .verdict-box {
-          display: flex;
-          justify-content: space-between;
-          align-items: center;
-          margin-bottom: 8px;
-        }
-        .verdict-main {
-          font-size: 15px;
-          font-weight: 700;
-          color: #2563eb;
-        }
-        .match-indicator {
-          font-size: 9px;
-          font-weight: 700;
-          padding: 2px 8px;
-          border-radius: 3px;
-          background: #fff;
-          border: 1px solid #e2e8f0;
-        }
-
-        /* Photo Grids - Centered Flex (2-column look for multiples) */
-        .photo-grid {
-          display: flex;
-          flex-wrap: wrap;
-          justify-content: center;
-          gap: 15px;
-        }
-        .photo-box {
-          border: 1px solid #eee;
-          padding: 5px;
-          background: #fff;
-          page-break-inside: avoid;
-          width: 48%; /* Simulates 2-column look */
-          min-width: 250px;
-        }
-        .photo-box img {
-          width: 100%;
-          aspect-ratio: 4/3;
-          object-fit: cover;
-          display: block;
-        }
-        .photo-caption {
-          font-size: 8px;
-          text-align: center;
-          margin-top: 3px;
-          color: #666;
-        }
-
-        /* Technical Evidence Items (2-column layout) */
-        .evidence-item {
-          border: 1px solid #eee;
-          padding: 5px;
-          background: #fff;
-          page-break-inside: avoid;
-          display: flex;
-          flex-direction: column;
-          width: 48%; /* Simulates 2-column look */
-          min-width: 250px;
-        }
-        .evidence-img-container img {
-          width: 100%;
-          aspect-ratio: 4/3;
-          object-fit: cover;
-          border: 1px solid #ddd;
-        }
-        .evidence-details {
-          padding-top: 5px;
-        }
-        .evidence-label {
-          font-size: 9px;
-          font-weight: 700;
-          margin: 0 0 3px 0;
-          color: #2563eb;
-        }
-        .detection-entry {
-          font-size: 8px;
-          margin-bottom: 2px;
-          padding-bottom: 2px;
-          border-bottom: 1px dashed #eee;
-          display: flex;
-          justify-content: space-between;
-        }
-        .detection-tag {
-          font-weight: 700;
-          margin-right: 10px;
-        }
-        .detection-conf {
-          color: #888;
-        }
-        .detection-desc {
-          font-style: italic;
-          color: #555;
-          margin: 2px 0 0 10px;
-        }
-
-        /* Bullet Points */
-        .findings-list {
-          font-size: 10px;
-          margin: 0;
-          padding-left: 15px;
-        }
-        .findings-list li {
-          margin-bottom: 3px;
-        }
-
-        /* Footer */
-        .report-footer {
-          margin-top: 30px;
-          padding-top: 8px;
-          border-top: 1px solid #eee;
-          text-align: center;
-          font-size: 9px;
-          color: #999;
-        }
-
-        @media print {
-          body { -webkit-print-color-adjust: exact; }
-          /* .assessment-summary { page-break-inside: avoid; } */
-          .evidence-item { page-break-inside: avoid; }
-          .info-group { page-break-inside: avoid; }
-          .report-header { page-break-after: avoid; }
-          .section-title { page-break-after: avoid; }
-        }
-      </style>
-    `;
-
-    const aiSectionHtml = aiData && aiData.status !== 'pending' ? `
-      <div class="report-section">
-        <h3 class="section-title">Technical Damage Assessment</h3>
-        <div class="assessment-summary">
-          <div class="verdict-box">
-            <div>
-              <div class="info-label">Automated Findings Verdict</div>
-              <div class="verdict-main">${aiData.final_assessment}</div>
-            </div>
-            <div class="match-indicator">
-              ${(aiData.peril_match?.match || 'UNKNOWN').toUpperCase()} MATCH
-            </div>
-          </div>
-          <p class="info-value" style="color: #444;">
-            Based on computer vision analysis, the primary damage type is identified as <strong>${aiData.final_assessment}</strong>. 
-            Peril matching indicates a ${aiData.peril_match?.match === 'match' ? 'consistent' : 'partial'} alignment with reported details: 
-            <em>"${aiData.peril_match?.reason || 'Internal assessment logic applied.'}"</em>
-          </p>
-        </div>
-
-        <div class="findings-container">
-          <div class="findings-col">
-            <div class="info-label">Key Evidence Findings</div>
-            <ul class="findings-list">
-              ${aiData.evidence_bullets?.map((bullet: string) => `<li>${bullet}</li>`).join('') || '<li>No specific evidence points flagged.</li>'}
-            </ul>
-          </div>
-          <div class="findings-col">
-            <div class="info-label">Risk Consistency Indicators</div>
-            <ul class="findings-list" style="color: #b91c1c;">
-              ${aiData.fraud_signals?.map((signal: string) => `<li>${signal}</li>`).join('') || '<li style="color: #166534;">No risk indicators identified.</li>'}
-            </ul>
-          </div>
-        </div>
-
-        ${getAnalyzedImagesHtml()}
-      </div>
-    ` : '';
-
-    const html = `
-      <!DOCTYPE html>
-      <html>
-        <head>
-          <title>Investigation Report - ${report.firstName} ${report.lastName}</title>
-          ${styles}
-        </head>
-        <body>
-          <div class="report-header">
-            <div style="display: flex; align-items: center; gap: 20px;">
-              <img src="/ClaimVerifAI.png" alt="ClaimVerifAI" style="height: 50px; width: auto; object-fit: contain;" />
-              <h1 class="report-title" style="margin: 6px 0 0 0; line-height: 1;">Incident Investigation Report</h1>
-            </div>
-          </div>
-
-          <div class="report-section" style="margin-top: 0;">
-            <div class="info-grid">
-              <div class="info-group">
-                <div class="info-label">Home Owner Information</div>
-                <div class="info-value" style="font-weight: 700; font-size: 13px;">${report.firstName} ${report.lastName}</div>
-                <div class="info-value"><span style="color: #666; font-size: 9px; font-weight: 700;">EMAIL:</span> ${report.email}</div>
-                <div class="info-value"><span style="color: #666; font-size: 9px; font-weight: 700;">PHONE:</span> ${report.phone}</div>
-              </div>
-              <div class="info-group">
-                <div class="info-label">Loss & Claim Information</div>
-                <div class="info-value"><span style="color: #666; font-size: 9px; font-weight: 700;">DATE OF LOSS:</span> ${formatDateOnly(report.incidentDate)}</div>
-                <div class="info-value"><span style="color: #666; font-size: 9px; font-weight: 700;">CLAIM #:</span> ${report.claimNumber}</div>
-                <div class="info-value"><span style="color: #666; font-size: 9px; font-weight: 700;">CASE ID:</span> <span style="font-family: monospace;">${report.id.slice(0, 8).toUpperCase()}</span></div>
-              </div>
-              <div class="info-group">
-                <div class="info-label">Site Address</div>
-                <div class="info-value">${report.address}${report.apartment ? `, Apt ${report.apartment}` : ''}</div>
-                <div class="info-value">${report.city}, ${report.state} ${report.zip}</div>
-                <div class="info-value" style="margin-top: 5px;"><span style="color: #666; font-size: 9px; font-weight: 700;">STATUS:</span> <span style="text-transform: uppercase; font-weight: 700; color: #2563eb;">${(report.status || 'SUBMITTED').replace('_', ' ')}</span></div>
-              </div>
-            </div>
-            
-            <div class="info-grid" style="border-top: 1px solid #eee; padding-top: 10px;">
-              <div class="info-group">
-                <div class="info-label">Reporting Organization</div>
-                <div class="info-value">${report.companyName || 'Predictif AI Systems'}</div>
-              </div>
-              <div class="info-group">
-                <div class="info-label">Date Submitted</div>
-                <div class="info-value">${report.createdAt ? new Date(report.createdAt).toLocaleDateString() : 'N/A'} ${report.createdAt ? new Date(report.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : ''}</div>
-              </div>
-              <div class="info-group">
-                <div class="info-label">Document Verity</div>
-                <div class="info-value" style="color: #10b981;">&check; Electronically Signed & Validated</div>
-              </div>
-            </div>
-          </div>
-
-          ${weatherData ? `
-          <div class="report-section">
-            <h3 class="section-title">Weather Information</h3>
-            <div class="info-grid">
-               <div class="info-group">
-                  <div class="info-label">Hail Size (Reported)</div>
-                  <div class="info-value">${weatherData.reported_hail_size_inches || 'N/A'} inches</div>
-               </div>
-               <div class="info-group">
-                  <div class="info-label">Weather Date</div>
-                  <div class="info-value">${weatherData.weather_date ? formatDateOnly(weatherData.weather_date) : 'N/A'}</div>
-               </div>
-               <div class="info-group" style="grid-column: span 1;">
-                 <div class="info-label">Weather Description</div>
-                 <div class="info-value" style="font-style: italic;">"${weatherData.weather_description || 'No description'}"</div>
-               </div>
-            </div>
-          </div>
-          ` : ''}
-
-          <div class="report-section">
-            <h3 class="section-title">Incident Description</h3>
-            <p class="info-value" style="white-space: pre-wrap; color: #444;">${report.description}</p>
-            ${report.shingleExposure ? `
-              <div class="info-group" style="margin-top: 15px;">
-                <div class="info-label">Shingle Exposure Measurement</div>
-                <div class="info-value">${report.shingleExposure} inches</div>
-              </div>
-            ` : ''}
-          </div>
-
-          <div class="report-section">
-            <h3 class="section-title">On-Site Documentation</h3>
-            <div class="photo-grid">
-              ${(report.photoUrls || []).map((_, i) => `
-                <div class="photo-box">
-                  <img src="${resolvedUrls[`original_${i}`] || ''}" crossorigin="anonymous" />
-                  <div class="photo-caption">Figure ${i + 1}</div>
-                </div>
-              `).join('')}
-            </div>
-          </div>
-
-          ${aiSectionHtml}
-          
-          <div class="report-footer">
-            Confidential Document &bull; Investigated by Predictif AI Systems &bull; Page 1 of 1
-          </div>
-
-          <script>
-            window.onload = async () => {
-              const imgs = Array.from(document.getElementsByTagName('img'));
-              const loadPromises = imgs.filter(img => img.src).map(img => {
-                if (img.complete) return Promise.resolve();
-                return new Promise(resolve => {
-                  img.onload = resolve;
-                  img.onerror = resolve;
-                });
-              });
-              await Promise.all(loadPromises);
-              setTimeout(() => { 
-                window.print();
-                window.parent.postMessage('print_done', '*');
-              }, 1000);
-            }
-          </script>
-        </body>
-      </html>
-    `;
-
-    const iframe = document.createElement('iframe');
-    iframe.style.position = 'fixed';
-    iframe.style.right = '0';
-    iframe.style.bottom = '0';
-    iframe.style.width = '0';
-    iframe.style.height = '0';
-    iframe.style.border = '0';
-    document.body.appendChild(iframe);
-
-    const cleanup = () => {
-      document.body.removeChild(iframe);
-      window.removeEventListener('message', handleMessage);
-    };
-
-    const handleMessage = (event: MessageEvent) => {
-      if (event.data === 'print_done') cleanup();
-    };
-
-    window.addEventListener('message', handleMessage);
-
-    const doc = iframe.contentWindow?.document || iframe.contentDocument;
-    if (doc) {
-      doc.open();
-      doc.write(html);
-      doc.close();
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `claim-report-${report.claimNumber || report.id}.pdf`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      console.error("Error exporting report PDF:", error);
+      alert(`Error exporting report: ${error?.message || "Unknown error"}`);
+    } finally {
+      setExportingId(null);
     }
   };
 
   const handleStatusChange = async (id: string, newStatus: string) => {
+    const label = isReportStatus(newStatus) ? REPORT_STATUS_LABELS[newStatus] : newStatus;
+    const statusNote = prompt(`Optional note for moving this report to "${label}":`, "");
+    if (statusNote === null) return; // Cancelled
+
     try {
       console.log(`Updating status for report ${id} to ${newStatus}`);
       const response = await fetch(`/api/incident-reports/${id}`, {
@@ -847,7 +450,7 @@ export default function ReportsPage() {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ status: newStatus }),
+        body: JSON.stringify({ status: newStatus, statusNote }),
       });
 
       if (response.ok) {
@@ -855,6 +458,7 @@ export default function ReportsPage() {
         setReports(prev => prev.map(report =>
           report.id === id ? { ...report, status: newStatus } : report
         ));
+        setStatusEventVersions(prev => ({ ...prev, [id]: (prev[id] || 0) + 1 }));
         console.log("✅ Status updated successfully");
       } else {
         const data = await response.json();
@@ -867,6 +471,43 @@ export default function ReportsPage() {
     }
   };
 
+  const handleLegalHold = async (report: IncidentReport) => {
+    let reason = "";
+    if (report.legalHold) {
+      if (!confirm("Lift the legal hold? The report can then be edited, deleted and purged under the retention rules again.")) {
+        return;
+      }
+    } else {
+      const entered = prompt("Reason for the legal hold (e.g. the case number). While held, the report cannot be edited or deleted.", "");
+      if (!entered?.trim()) return;
+      reason = entered.trim();
+    }
+
+    setHoldingId(report.id);
+    try {
+      const response = await fetch(`/api/incident-reports/${report.id}/legal-hold`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ legalHold: !report.legalHold, reason }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        const { legalHold, legalHoldReason, legalHoldBy, legalHoldAt } = data.report;
+        setReports(prev => prev.map(r =>
+          r.id === report.id ? { ...r, legalHold, legalHoldReason, legalHoldBy, legalHoldAt } : r
+        ));
+      } else {
+        alert(`Failed to update legal hold: ${data.error}`);
+      }
+    } catch (error: any) {
+      console.error("Error updating legal hold:", error);
+      alert(`Error updating legal hold: ${error?.message || "Unknown error"}`);
+    } finally {
+      setHoldingId(null);
+    }
+  };
+
   const handleEdit = (report: IncidentReport) => {
     setEditingReport(report);
   };
@@ -884,18 +525,25 @@ export default function ReportsPage() {
     if (!status) return null;
 
     const statusConfig = {
-      submitted: { icon: Clock, color: "bg-blue-100 text-blue-800", label: "Submitted" },
-      in_review: { icon: AlertCircle, color: "bg-yellow-100 text-yellow-800", label: "In Review" },
-      resolved: { icon: CheckCircle, color: "bg-green-100 text-green-800", label: "Resolved" },
+      submitted: { icon: Clock, color: "bg-blue-100 text-blue-800" },
+      triaged: { icon: Clock, color: "bg-indigo-100 text-indigo-800" },
+      inspection_scheduled: { icon: Clock, color: "bg-purple-100 text-purple-800" },
+      in_review: { icon: AlertCircle, color: "bg-yellow-100 text-yellow-800" },
+      awaiting_homeowner: { icon: AlertCircle, color: "bg-orange-100 text-orange-800" },
+      approved: { icon: CheckCircle, color: "bg-green-100 text-green-800" },
+      denied: { icon: AlertCircle, color: "bg-red-100 text-red-800" },
+      resolved: { icon: CheckCircle, color: "bg-green-100 text-green-800" },
+      reopened: { icon: RefreshCw, color: "bg-yellow-100 text-yellow-800" },
     };
 
-    const config = statusConfig[status as keyof typeof statusConfig] || statusConfig.submitted;
+    const key = isReportStatus(status) ? status : "submitted";
+    const config = statusConfig[key];
     const Icon = config.icon;
 
     return (
       <span className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium ${config.color}`}>
         <Icon className="w-3 h-3" />
-        {config.label}
+        {REPORT_STATUS_LABELS[key]}
       </span>
     );
   };
@@ -946,7 +594,7 @@ export default function ReportsPage() {
     );
   }
 
-  if (isLoading || roleLoading) {
+  if (roleLoading) {
     return (
       <div className="p-6">
         <div className="flex items-center justify-center min-h-[400px]">
@@ -963,7 +611,7 @@ export default function ReportsPage() {
     <div className="p-6">
       <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 mb-6">
         <Heading size="sm" className="text-foreground">
-          Incident Reports
+          {showTrash ? "Trash" : "Incident Reports"}
         </Heading>
         <div className="flex items-center gap-3">
           {/* Company Filter for SuperAdmin */}
@@ -982,13 +630,119 @@ export default function ReportsPage() {
               </SelectContent>
             </Select>
           )}
-          <Button onClick={fetchReports} variant="outline" size="sm">
+          {(isAdmin || isSuperAdmin) && (
+            <Button asChild variant="outline" size="sm">
+              <a
+                href={`/api/admin/detection-feedback?format=csv${isSuperAdmin && selectedCompanyFilter !== "all" ? `&companyId=${selectedCompanyFilter}` : ""}`}
+                download
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Export Labels
+              </a>
+            </Button>
+          )}
+          {isAdmin && (
+            <Button
+              onClick={() => setShowTrash(!showTrash)}
+              variant={showTrash ? "default" : "outline"}
+              size="sm"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              {showTrash ? "Back to Reports" : "Trash"}
+            </Button>
+          )}
+          {!isHomeOwner && (
+            <Button onClick={() => setShowExportDialog(true)} variant="outline" size="sm">
+              <Download className="w-4 h-4 mr-2" />
+              Export Reports
+            </Button>
+          )}
+          <Button onClick={() => fetchReports()} variant="outline" size="sm">
             <RefreshCw className="w-4 h-4 mr-2" />
             Refresh
           </Button>
         </div>
       </div>
 
+      {/* Field mode: the list below may be the last copy fetched, and new reports may still be queued */}
+      {(!outbox.online || outbox.entries.length > 0) && (
+        <div className="mb-4 flex items-start gap-2 rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900">
+          <Clock className="w-4 h-4 mt-0.5 shrink-0" />
+          <span>
+            {!outbox.online && "You're offline; showing the reports last loaded on this device. "}
+            {outbox.entries.length > 0 &&
+              `${outbox.entries.length} report(s) submitted on this device haven't reached the server yet.`}
+          </span>
+        </div>
+      )}
+
+      {/* Server-side filters and sort */}
+      <div className="mb-4 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-3">
+        <Input
+          placeholder="Claim # starts with..."
+          value={claimNumberFilter}
+          onChange={(e) => setClaimNumberFilter(e.target.value)}
+          className="h-9 lg:col-span-2"
+          aria-label="Filter by claim number prefix"
+        />
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="h-9" aria-label="Filter by status">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Statuses</SelectItem>
+            {REPORT_STATUSES.map((status) => (
+              <SelectItem key={status} value={status}>{REPORT_STATUS_LABELS[status]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={analysisFilter} onValueChange={setAnalysisFilter}>
+          <SelectTrigger className="h-9" aria-label="Filter by AI analysis">
+            <SelectValue placeholder="AI Analysis" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any AI Analysis</SelectItem>
+            <SelectItem value="analyzed">Analyzed</SelectItem>
+            <SelectItem value="not_analyzed">Not Analyzed</SelectItem>
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-2 lg:col-span-2">
+          <Input
+            type="date"
+            value={incidentFrom}
+            onChange={(e) => setIncidentFrom(e.target.value)}
+            className="h-9"
+            aria-label="Incident date from"
+          />
+          <span className="text-xs text-muted-foreground">to</span>
+          <Input
+            type="date"
+            value={incidentTo}
+            onChange={(e) => setIncidentTo(e.target.value)}
+            className="h-9"
+            aria-label="Incident date to"
+          />
+        </div>
+        <Select value={sortOption} onValueChange={setSortOption}>
+          <SelectTrigger className="h-9" aria-label="Sort reports">
+            <SelectValue placeholder="Sort" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="submittedAt:desc">Newest Submitted</SelectItem>
+            <SelectItem value="submittedAt:asc">Oldest Submitted</SelectItem>
+            <SelectItem value="incidentDate:desc">Incident Date (Newest)</SelectItem>
+            <SelectItem value="incidentDate:asc">Incident Date (Oldest)</SelectItem>
+            <SelectItem value="claimNumber:asc">Claim # (A-Z)</SelectItem>
+            <SelectItem value="lastName:asc">Last Name (A-Z)</SelectItem>
+          </SelectContent>
+        </Select>
+        {hasActiveFilters && (
+          <Button onClick={clearFilters} variant="ghost" size="sm" className="h-9 justify-self-start">
+            ✕ Clear filters
+          </Button>
+        )}
+      </div>
+
       {/* Address filter banner (from Home Management navigation) */}
       {hasAddressFilter && (
         <div className="mb-4 px-4 py-3 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg flex items-center justify-between">
@@ -1024,16 +778,27 @@ export default function ReportsPage() {
         </div>
       )}
 
-      {filteredReports.length === 0 && !error && (
+      {isLoading && (
+        <div className="flex items-center justify-center py-12">
+          <div className="text-center">
+            <RefreshCw className="w-8 h-8 animate-spin mx-auto mb-4 text-gray-400" />
+            <p className="text-gray-600">Loading incident reports...</p>
+          </div>
+        </div>
+      )}
+
+      {!isLoading && reports.length === 0 && !error && (
         <div className="text-center py-12 bg-card border border-gray-200 dark:border-gray-700 rounded-lg">
           <AlertCircle className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
           <p className="text-foreground font-medium mb-1">No incident reports found</p>
           <p className="text-sm text-muted-foreground">
             {hasAddressFilter
               ? "No reports found for this property address."
-              : selectedCompanyFilter !== "all"
-                ? "No reports found for the selected company."
-                : "Submit an incident report to see it here."}
+              : hasActiveFilters
+                ? "No reports on this page match the current filters."
+                : showTrash
+                  ? "The Trash is empty."
+                  : "Submit an incident report to see it here."}
           </p>
           {hasAddressFilter && (
             <button
@@ -1055,9 +820,17 @@ export default function ReportsPage() {
         />
       )}
 
-      {filteredReports.length > 0 && (
+      {!isHomeOwner && (
+        <ExportReportsDialog
+          open={showExportDialog}
+          onOpenChange={setShowExportDialog}
+          filterQuery={buildReportQuery(null)}
+        />
+      )}
+
+      {!isLoading && reports.length > 0 && (
         <div className="space-y-4">
-          {filteredReports.map((report) => (
+          {reports.map((report) => (
             <div
               key={report.id}
               className="bg-card text-card-foreground border border-gray-200 dark:border-gray-700 rounded-lg p-6 shadow-sm hover:shadow-md transition-shadow"
@@ -1079,80 +852,151 @@ export default function ReportsPage() {
                       Company: {report.companyName}
                     </p>
                   )}
+                  {report.legalHold && (
+                    <p className="text-sm text-amber-700 dark:text-amber-400 font-medium mt-1 flex items-center gap-1">
+                      <Lock className="w-3 h-3" />
+                      Legal hold{report.legalHoldReason ? `: ${report.legalHoldReason}` : ""}
+                      {report.legalHoldBy && (
+                        <span className="font-normal text-muted-foreground">
+                          {" "}({report.legalHoldBy}{report.legalHoldAt ? `, ${new Date(report.legalHoldAt).toLocaleDateString()}` : ""})
+                        </span>
+                      )}
+                    </p>
+                  )}
+                  {report.piiPurgedAt && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Homeowner details removed {new Date(report.piiPurgedAt).toLocaleDateString()} under the retention rules
+                    </p>
+                  )}
+                  {showTrash && report.deletedAt && (
+                    <p className="text-sm text-red-600 dark:text-red-400 mt-1">
+                      Deleted {new Date(report.deletedAt).toLocaleDateString()}
+                      {report.deletedBy ? ` by ${report.deletedBy}` : ""}
+                      {" · "}purged on {purgeDate(report)?.toLocaleDateString()}
+                    </p>
+                  )}
                 </div>
                 <div className="flex items-center gap-2">
-                  {/* Status Dropdown for Admins/Reporters, Badge for others */}
-                  {(isAdmin || isIncidentReporter || isSuperAdmin) ? (
-                    <Select
-                      value={report.status || "submitted"}
-                      onValueChange={(value) => handleStatusChange(report.id, value)}
-                    >
-                      <SelectTrigger className="w-[140px] h-8 text-xs">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="submitted">Submitted</SelectItem>
-                        <SelectItem value="in_review">In Review</SelectItem>
-                        <SelectItem value="resolved">Resolved</SelectItem>
-                      </SelectContent>
-                    </Select>
+                  {showTrash ? (
+                    <>
+                      <Button
+                        onClick={() => handleRestore(report.id)}
+                        variant="outline"
+                        size="sm"
+                        className="flex items-center gap-1 text-foreground hover:bg-accent hover:text-accent-foreground"
+                        disabled={restoringId === report.id || deletingId === report.id}
+                      >
+                        <RefreshCw className={`w-4 h-4 ${restoringId === report.id ? "animate-spin" : ""}`} />
+                        {restoringId === report.id ? "Restoring..." : "Restore"}
+                      </Button>
+                      <Button
+                        onClick={() => handlePermanentDelete(report.id)}
+                        variant="outline"
+                        size="sm"
+                        className="flex items-center gap-1 text-red-600 dark:text-red-400 border-red-200 dark:border-red-900/50 hover:bg-red-50 dark:hover:bg-red-900/20 hover:text-red-700 dark:hover:text-red-300"
+                        disabled={deletingId === report.id || restoringId === report.id}
+                      >
+                        {deletingId === report.id ? (
+                          <RefreshCw className="w-4 h-4 animate-spin" />
+                        ) : (
+                          <Trash2 className="w-4 h-4" />
+                        )}
+                        {deletingId === report.id ? "Deleting..." : "Delete Forever"}
+                      </Button>
+                    </>
                   ) : (
-                    getStatusBadge(report.status)
-                  )}
-                  {/* Only admins and incident reporters can edit their reports */}
-                  {(isAdmin || isIncidentReporter || isSuperAdmin) && (
-                    <Button
-                      onClick={() => handleAnalyze(report.id)}
-                      variant="outline"
-                      size="sm"
-                      className="flex items-center gap-1 border-blue-200 dark:border-blue-800 text-blue-700 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20"
-                      disabled={analyzingId === report.id}
-                    >
-                      {analyzingId === report.id ? (
-                        <RefreshCw className="w-4 h-4 animate-spin" />
+                    <>
+                      {/* Status Dropdown for Admins/Reporters, Badge for others */}
+                      {(isAdmin || isIncidentReporter || isSuperAdmin) ? (
+                        <Select
+                          value={report.status || "submitted"}
+                          onValueChange={(value) => handleStatusChange(report.id, value)}
+                          disabled={!!report.legalHold}
+                        >
+                          <SelectTrigger className="w-[180px] h-8 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {/* Only the current status and the moves the workflow allows from it */}
+                            {[report.status || "submitted", ...getAllowedTransitions(report.status, allowedStatuses(report))].map((status) => (
+                              <SelectItem key={status} value={status}>
+                                {isReportStatus(status) ? REPORT_STATUS_LABELS[status] : status}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
                       ) : (
-                        <Zap className="w-4 h-4 fill-blue-600 dark:fill-blue-400" />
+                        getStatusBadge(report.status)
                       )}
-                      {analyzingId === report.id ? "Analyzing..." : "Analyze with AI"}
-                    </Button>
-                  )}
-                  {/* Export to PDF Button */}
-                  <Button
-                    onClick={() => handleExportPDF(report)}
-                    variant="outline"
-                    size="sm"
-                    className="flex items-center gap-1 text-foreground hover:bg-accent hover:text-accent-foreground"
-                  >
-                    <FileText className="w-4 h-4" />
-                    Export
-                  </Button>
-                  {(isAdmin || isIncidentReporter) && (
-                    <Button
-                      onClick={() => handleEdit(report)}
-                      variant="outline"
-                      size="sm"
-                      className="flex items-center gap-1 text-foreground hover:bg-accent hover:text-accent-foreground"
-                    >
-                      <Edit className="w-4 h-4" />
-                      Edit
-                    </Button>
-                  )}
-                  {/* Only admins and incident reporters can delete their reports */}
-                  {(isAdmin || isIncidentReporter) && (
-                    <Button
-                      onClick={() => handleDelete(report.id)}
-                      variant="outline"
-                      size="sm"
-                      className="flex items-center gap-1 text-red-600 dark:text-red-400 border-red-200 dark:border-red-900/50 hover:bg-red-50 dark:hover:bg-red-900/20 hover:text-red-700 dark:hover:text-red-300"
-                      disabled={deletingId === report.id}
-                    >
-                      {deletingId === report.id ? (
-                        <RefreshCw className="w-4 h-4 animate-spin" />
-                      ) : (
-                        <Trash2 className="w-4 h-4" />
+                      {/* Only admins and incident reporters can edit their reports, and nobody while on legal hold */}
+                      {(isAdmin || isIncidentReporter || isSuperAdmin) && !report.legalHold && (
+                        <Button
+                          onClick={() => handleAnalyze(report.id)}
+                          variant="outline"
+                          size="sm"
+                          className="flex items-center gap-1 border-blue-200 dark:border-blue-800 text-blue-700 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20"
+                          disabled={analyzingId === report.id || isAnalysisActive(report.analysisRun)}
+                        >
+                          {analyzingId === report.id || isAnalysisActive(report.analysisRun) ? (
+                            <RefreshCw className="w-4 h-4 animate-spin" />
+                          ) : (
+                            <Zap className="w-4 h-4 fill-blue-600 dark:fill-blue-400" />
+                          )}
+                          {analyzingId === report.id || isAnalysisActive(report.analysisRun) ? "Analyzing..." : "Analyze with AI"}
+                        </Button>
+                      )}
+                      {/* Export to PDF Button */}
+                      <Button
+                        onClick={() => handleExportPDF(report)}
+                        disabled={exportingId === report.id}
+                        variant="outline"
+                        size="sm"
+                        className="flex items-center gap-1 text-foreground hover:bg-accent hover:text-accent-foreground"
+                      >
+                        <FileText className="w-4 h-4" />
+                        {exportingId === report.id ? "Exporting..." : "Export"}
+                      </Button>
+                      {(isAdmin || isIncidentReporter) && !report.legalHold && (
+                        <Button
+                          onClick={() => handleEdit(report)}
+                          variant="outline"
+                          size="sm"
+                          className="flex items-center gap-1 text-foreground hover:bg-accent hover:text-accent-foreground"
+                        >
+                          <Edit className="w-4 h-4" />
+                          Edit
+                        </Button>
+                      )}
+                      {isAdmin && (
+                        <Button
+                          onClick={() => handleLegalHold(report)}
+                          variant="outline"
+                          size="sm"
+                          className="flex items-center gap-1 text-foreground hover:bg-accent hover:text-accent-foreground"
+                          disabled={holdingId === report.id}
+                        >
+                          <Lock className="w-4 h-4" />
+                          {report.legalHold ? "Lift Hold" : "Legal Hold"}
+                        </Button>
+                      )}
+                      {/* Only admins and incident reporters can delete their reports */}
+                      {(isAdmin || isIncidentReporter) && !report.legalHold && (
+                        <Button
+                          onClick={() => handleDelete(report.id)}
+                          variant="outline"
+                          size="sm"
+                          className="flex items-center gap-1 text-red-600 dark:text-red-400 border-red-200 dark:border-red-900/50 hover:bg-red-50 dark:hover:bg-red-900/20 hover:text-red-700 dark:hover:text-red-300"
+                          disabled={deletingId === report.id}
+                        >
+                          {deletingId === report.id ? (
+                            <RefreshCw className="w-4 h-4 animate-spin" />
+                          ) : (
+                            <Trash2 className="w-4 h-4" />
+                          )}
+                          {deletingId === report.id ? "Deleting..." : "Delete"}
+                        </Button>
                       )}
-                      {deletingId === report.id ? "Deleting..." : "Delete"}
-                    </Button>
+                    </>
                   )}
                 </div>
               </div>
@@ -1237,6 +1081,12 @@ export default function ReportsPage() {
                 }
               })()}
 
+              <ReportStatusTimeline reportId={report.id} refreshKey={statusEventVersions[report.id]} />
+
+              {!isHomeOwner && (report.photoUrls?.length ?? 0) > 0 && (
+                <DuplicatePhotoWarning reportId={report.id} photoUrls={report.photoUrls} canSearchAllCompanies={isSuperAdmin} />
+              )}
+
               {photoUrlsMap[report.id] && photoUrlsMap[report.id].length > 0 && (
                 <div>
                   <p className="text-xs font-medium text-muted-foreground uppercase mb-2">Photos</p>
@@ -1266,14 +1116,50 @@ export default function ReportsPage() {
               )}
 
               {/* AI Analysis Section - Hidden for HomeOwners */}
-              {!isHomeOwner && report.aiAnalysis && (
-                <AIAnalysisDisplay analysis={report.aiAnalysis} />
+              {!isHomeOwner && (report.aiAnalysis || report.analysisRun) && (
+                <AIAnalysisDisplay
+                  analysis={report.aiAnalysis}
+                  analysisRun={report.analysisRun}
+                  reportId={report.id}
+                  photoUrls={report.photoUrls}
+                  incidentDate={report.incidentDate}
+                  onAnalysisUpdate={(update) => handleAnalysisUpdate(report.id, update)}
+                />
               )}
             </div>
           ))}
         </div>
       )}
+
+      {!isLoading && (pageIndex > 0 || nextToken) && (
+        <Pagination className="mt-6">
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious
+                disabled={pageIndex === 0}
+                onClick={(e) => {
+                  e.preventDefault();
+                  fetchReports(pageIndex - 1);
+                }}
+              />
+            </PaginationItem>
+            <PaginationItem>
+              <span className="px-3 text-sm text-muted-foreground">
+                Page {pageIndex + 1}{sortedWithinPage && " · sorted within this page"}
+              </span>
+            </PaginationItem>
+            <PaginationItem>
+              <PaginationNext
+                disabled={!nextToken}
+                onClick={(e) => {
+                  e.preventDefault();
+                  fetchReports(pageIndex + 1);
+                }}
+              />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      )}
     </div>
   );
 }
-
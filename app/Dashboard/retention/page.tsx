@@ -0,0 +1,309 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import Heading from "@/components/ui/Heading";
+import { Badge } from "@/components/ui/Badge";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Label } from "@/components/ui/Label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/Card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/Select";
+import { AlertCircle, CheckCircle, Loader2 } from "@/components/Icons";
+import { useUserRole } from "@/lib/auth/useUserRole";
+import { useCompany } from "@/contexts/CompanyContext";
+import { MAX_RETENTION_YEARS, MAX_TRASH_RETENTION_DAYS } from "@/lib/companies/settings";
+import { retentionRefs, type LegalHold, type RetentionPolicy, type RetentionRun } from "@/lib/reports/retention";
+
+// Numbers are edited as text; an empty year field turns the rule off
+interface PolicyForm {
+  trashRetentionDays: string;
+  piiPurgeYears: string;
+  reportPurgeYears: string;
+}
+
+const toForm = (policy: RetentionPolicy): PolicyForm => ({
+  trashRetentionDays: String(policy.trashRetentionDays),
+  piiPurgeYears: policy.piiPurgeYears?.toString() || "",
+  reportPurgeYears: policy.reportPurgeYears?.toString() || "",
+});
+
+// The server validates the result, so values are passed through as typed
+const fromForm = (form: PolicyForm): RetentionPolicy => ({
+  trashRetentionDays: parseInt(form.trashRetentionDays),
+  piiPurgeYears: form.piiPurgeYears ? parseInt(form.piiPurgeYears) : null,
+  reportPurgeYears: form.reportPurgeYears ? parseInt(form.reportPurgeYears) : null,
+});
+
+export default function RetentionPage() {
+  const router = useRouter();
+  const { companyId: userCompanyId, isAdmin, isSuperAdmin, isLoading: roleLoading } = useUserRole();
+  const { companies } = useCompany();
+
+  const [selectedCompanyId, setSelectedCompanyId] = useState("");
+  const [form, setForm] = useState<PolicyForm | null>(null);
+  const [legalHolds, setLegalHolds] = useState<LegalHold[]>([]);
+  const [runs, setRuns] = useState<RetentionRun[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Admins manage their own company's retention; SuperAdmins pick a company
+  const companyId = isSuperAdmin ? selectedCompanyId : userCompanyId;
+
+  useEffect(() => {
+    if (!roleLoading && !isAdmin && !isSuperAdmin) {
+      router.push("/Dashboard");
+    }
+  }, [isAdmin, isSuperAdmin, roleLoading, router]);
+
+  useEffect(() => {
+    if (!companyId) {
+      setForm(null);
+      setLegalHolds([]);
+      setRuns([]);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    setSuccess(null);
+    fetch(`/api/admin/companies/${companyId}/retention`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || "Failed to load retention rules");
+        if (cancelled) return;
+        setForm(toForm(data.policy));
+        setLegalHolds(data.legalHolds || []);
+        setRuns(data.reports || []);
+      })
+      .catch((err) => !cancelled && setError(err.message || "Failed to load retention rules"))
+      .finally(() => !cancelled && setLoading(false));
+    return () => { cancelled = true; };
+  }, [companyId]);
+
+  const handleSave = async () => {
+    if (!companyId || !form) return;
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await fetch(`/api/admin/companies/${companyId}/retention`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ policy: fromForm(form) }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save retention rules");
+      }
+
+      setForm(toForm(data.policy));
+      setSuccess("Retention rules saved. They apply from the next daily run.");
+    } catch (err: any) {
+      setError(err.message || "An error occurred while saving the retention rules");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (roleLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <Heading size="sm" className="text-foreground">
+          Retention
+        </Heading>
+        <Button onClick={handleSave} disabled={!form || loading || saving}>
+          {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {saving ? "Saving..." : "Save Rules"}
+        </Button>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Applied once a day. Claims count from when they were resolved. Reports on legal hold are
+        never changed or purged; holds are placed and lifted from the reports list.
+      </p>
+
+      {error && (
+        <div className="flex items-center gap-2 text-sm text-red-600 bg-red-50 dark:bg-red-900/20 p-3 rounded-md">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          <p>{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="flex items-center gap-2 text-sm text-green-600 bg-green-50 dark:bg-green-900/20 p-3 rounded-md">
+          <CheckCircle className="h-4 w-4 flex-shrink-0" />
+          <p>{success}</p>
+        </div>
+      )}
+
+      {isSuperAdmin && (
+        <div className="grid gap-2 max-w-sm">
+          <Label htmlFor="retentionCompany">Company</Label>
+          <Select value={selectedCompanyId} onValueChange={setSelectedCompanyId}>
+            <SelectTrigger id="retentionCompany">
+              <SelectValue placeholder="Select a company" />
+            </SelectTrigger>
+            <SelectContent>
+              {companies.map((company) => (
+                <SelectItem key={company.id} value={company.id}>{company.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {!companyId ? (
+        <p className="text-sm text-muted-foreground">
+          {isSuperAdmin ? "Select a company to see its retention rules." : "Your account is not assigned to a company."}
+        </p>
+      ) : loading || !form ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Rules</CardTitle>
+            </CardHeader>
+            <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="trashRetentionDays">Days in Trash *</Label>
+                <Input
+                  id="trashRetentionDays"
+                  type="number"
+                  min="1"
+                  max={MAX_TRASH_RETENTION_DAYS}
+                  value={form.trashRetentionDays}
+                  onChange={(e) => setForm({ ...form, trashRetentionDays: e.target.value })}
+                  disabled={saving}
+                />
+                <p className="text-xs text-muted-foreground">Deleted reports can be restored until they are purged</p>
+              </div>
+
+              <div className="grid gap-2">
+                <Label htmlFor="piiPurgeYears">Remove homeowner details after (years)</Label>
+                <Input
+                  id="piiPurgeYears"
+                  type="number"
+                  min="1"
+                  max={MAX_RETENTION_YEARS}
+                  placeholder="Keep"
+                  value={form.piiPurgeYears}
+                  onChange={(e) => setForm({ ...form, piiPurgeYears: e.target.value })}
+                  disabled={saving}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Name, phone, email, address and photo locations are redacted; claim details and photos stay
+                </p>
+              </div>
+
+              <div className="grid gap-2">
+                <Label htmlFor="reportPurgeYears">Delete reports after (years)</Label>
+                <Input
+                  id="reportPurgeYears"
+                  type="number"
+                  min="1"
+                  max={MAX_RETENTION_YEARS}
+                  placeholder="Keep"
+                  value={form.reportPurgeYears}
+                  onChange={(e) => setForm({ ...form, reportPurgeYears: e.target.value })}
+                  disabled={saving}
+                />
+                <p className="text-xs text-muted-foreground">Reports are moved to the Trash, then purged with it</p>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Legal Holds</CardTitle>
+              <CardDescription>Reports the retention job skips until the hold is lifted</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {legalHolds.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No reports are on legal hold</p>
+              ) : (
+                <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {legalHolds.map((hold) => (
+                    <li key={hold.id} className="py-2 text-sm">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium font-mono">{hold.claimNumber || hold.id}</span>
+                        {hold.deletedAt && <Badge variant="secondary">In Trash</Badge>}
+                      </div>
+                      <p className="text-muted-foreground">
+                        {hold.legalHoldReason || "No reason given"}
+                        {hold.legalHoldBy ? ` · ${hold.legalHoldBy}` : ""}
+                        {hold.legalHoldAt ? ` · ${new Date(hold.legalHoldAt).toLocaleDateString()}` : ""}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Recent Runs</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {runs.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nothing has been purged yet</p>
+              ) : (
+                <ul className="space-y-2">
+                  {runs.map((run) => {
+                    const pii = retentionRefs(run.piiPurged);
+                    const trashed = retentionRefs(run.movedToTrash);
+                    const purged = retentionRefs(run.purgedFromTrash);
+                    return (
+                      <li key={run.id} className="text-sm">
+                        <p className="font-medium">{new Date(run.ranAt).toLocaleString()}</p>
+                        <p className="text-muted-foreground">
+                          {pii.length} redacted, {trashed.length} moved to Trash, {purged.length} purged
+                          {run.heldCount ? `, ${run.heldCount} kept for legal hold` : ""}
+                          {run.failedCount ? `, ${run.failedCount} failed` : ""}
+                        </p>
+                        {[...pii, ...trashed, ...purged].length > 0 && (
+                          <p className="text-muted-foreground font-mono truncate">
+                            {[...pii, ...trashed, ...purged].map((r) => r.claimNumber).join(", ")}
+                          </p>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runWithAmplifyServerContext, createApiClient, runWithServerRole } from "@/lib/amplify-server-utils";
+import { getServerCaller, type ServerCaller } from "@/lib/auth/server-caller";
+import { listCustomFields, saveCustomFields, validateCustomFieldDefinitions } from "@/lib/companies/custom-fields";
+
+// Admins manage their own company's fields, SuperAdmins any company's
+const canManageCustomFields = (caller: ServerCaller, companyId: string) =>
+  caller.role === "SuperAdmin" || (caller.role === "Admin" && caller.companyId === companyId);
+
+/** A company's custom report fields, in form order. */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const response = NextResponse.next();
+  return await runWithAmplifyServerContext({
+    nextServerContext: { request, response },
+    operation: async (contextSpec) => {
+      try {
+        const { id } = await params;
+
+        const caller = await getServerCaller(contextSpec);
+        if (!caller) {
+          return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        if (!canManageCustomFields(caller, id)) {
+          return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+        }
+
+        const fields = await listCustomFields(createApiClient(contextSpec, 'apiKey'), contextSpec, id);
+        return NextResponse.json({ fields });
+      } catch (error: any) {
+        console.error("Error fetching custom fields:", error);
+        return NextResponse.json(
+          { error: "Failed to fetch custom fields", details: error.message },
+          { status: 500 }
+        );
+      }
+    },
+  });
+}
+
+/**
+ * Replace a company's custom fields. Body: `{ fields: [...] }` in form order; fields sent with
+ * their `id` are updated, fields without one are added and fields left out are removed.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const response = NextResponse.next();
+  return await runWithAmplifyServerContext({
+    nextServerContext: { request, response },
+    operation: async (contextSpec) => {
+      try {
+        const { id } = await params;
+        const body = await request.json();
+
+        const caller = await getServerCaller(contextSpec);
+        if (!caller) {
+          return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        if (!canManageCustomFields(caller, id)) {
+          return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+        }
+
+        const { fields, error } = validateCustomFieldDefinitions(body.fields);
+        if (!fields) {
+          return NextResponse.json({ error }, { status: 400 });
+        }
+
+        const { data: company } = await createApiClient(contextSpec).models.Company.get(contextSpec, { id }, {
+          selectionSet: ["id"],
+        });
+        if (!company) {
+          return NextResponse.json({ error: "Company not found" }, { status: 404 });
+        }
+
+        // CustomField has no public write rule; access was checked above
+        const saved = await runWithServerRole((serverSpec) =>
+          saveCustomFields(createApiClient(serverSpec, 'iam'), serverSpec, id, fields)
+        );
+
+        console.log(`Custom fields for company ${id} updated by ${caller.email || caller.username}: ${saved.length} field(s)`);
+        return NextResponse.json({ fields: saved });
+      } catch (error: any) {
+        console.error("Error updating custom fields:", error);
+        return NextResponse.json(
+          { error: "Failed to update custom fields", details: error.message },
+          { status: 500 }
+        );
+      }
+    },
+  });
+}
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runWithAmplifyServerContext, createApiClient, runWithServerRole } from "@/lib/amplify-server-utils";
+import { getServerCaller, type ServerCaller } from "@/lib/auth/server-caller";
+import { companySettingsSchema, parseCompanySettings } from "@/lib/companies/settings";
+import { listLegalHolds, retentionPolicy } from "@/lib/reports/retention";
+
+// Recent runs of the retention job shown next to the rules
+const RECENT_REPORTS = 10;
+
+// Admins manage their own company's retention; SuperAdmins any company's
+const canManageRetention = (caller: ServerCaller, companyId: string) =>
+  caller.role === "SuperAdmin" || (caller.role === "Admin" && caller.companyId === companyId);
+
+/**
+ * A company's retention rules, the reports it has on legal hold and what the retention job
+ * recently did under the rules.
+ *
+ * - Admin: their own company
+ * - SuperAdmin: any company
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const response = NextResponse.next();
+  return await runWithAmplifyServerContext({
+    nextServerContext: { request, response },
+    operation: async (contextSpec) => {
+      try {
+        const { id } = await params;
+
+        const caller = await getServerCaller(contextSpec);
+        if (!caller) {
+          return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        if (!canManageRetention(caller, id)) {
+          return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+        }
+
+        const client = createApiClient(contextSpec);
+        const { data: company, errors } = await client.models.Company.get(contextSpec, { id }, {
+          selectionSet: ["id", "settings"],
+        });
+
+        if (errors) {
+          console.error("Errors fetching company:", errors);
+          return NextResponse.json(
+            { error: "Failed to fetch company", details: errors },
+            { status: 500 }
+          );
+        }
+
+        if (!company) {
+          return NextResponse.json({ error: "Company not found" }, { status: 404 });
+        }
+
+        const { data: reports, errors: reportErrors } = await client.models.RetentionReport.listRetentionReportsByCompany(
+          contextSpec,
+          { companyId: id },
+          { sortDirection: "DESC", limit: RECENT_REPORTS }
+        );
+
+        if (reportErrors) {
+          console.error("Errors fetching retention reports:", reportErrors);
+        }
+
+        // API key auth reads across owners; the company is what limits the list
+        const legalHolds = await listLegalHolds(createApiClient(contextSpec, 'apiKey'), contextSpec, id);
+
+        return NextResponse.json({ policy: retentionPolicy(company.settings), legalHolds, reports: reports || [] });
+      } catch (error: any) {
+        console.error("Error fetching retention rules:", error);
+        return NextResponse.json(
+          { error: "Failed to fetch retention rules", details: error.message },
+          { status: 500 }
+        );
+      }
+    },
+  });
+}
+
+/**
+ * Replace the company's retention rules; the rest of its settings are left as they are.
+ *
+ * Body: `{ policy: { trashRetentionDays, piiPurgeYears, reportPurgeYears } }`
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const response = NextResponse.next();
+  return await runWithAmplifyServerContext({
+    nextServerContext: { request, response },
+    operation: async (contextSpec) => {
+      try {
+        const { id } = await params;
+        const body = await request.json();
+
+        const caller = await getServerCaller(contextSpec);
+        if (!caller) {
+          return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        if (!canManageRetention(caller, id)) {
+          return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+        }
+
+        const result = companySettingsSchema.shape.retention.safeParse(body.policy);
+        if (!result.success) {
+          const issue = result.error.issues[0];
+          return NextResponse.json({ error: `policy.${issue.path.join(".")}: ${issue.message}` }, { status: 400 });
+        }
+
+        // Company writes are SuperAdmin-only in the data rules, so the change is made with the
+        // server role once the caller's company has been checked above
+        const { company, errors } = await runWithServerRole(async (serverSpec) => {
+          const client = createApiClient(serverSpec, 'iam');
+          const { data: current } = await client.models.Company.get(serverSpec, { id }, { selectionSet: ["id", "settings"] });
+          if (!current) return { company: null };
+
+          const settings = { ...parseCompanySettings(current.settings), retention: result.data };
+          const { data: company, errors } = await client.models.Company.update(serverSpec, {
+            id,
+            settings: JSON.stringify(settings),
+          }, { selectionSet: ["id", "settings"] });
+          return { company, errors };
+        });
+
+        if (errors) {
+          console.error("Errors updating retention rules:", errors);
+          return NextResponse.json(
+            { error: "Failed to update retention rules", details: errors },
+            { status: 500 }
+          );
+        }
+
+        if (!company) {
+          return NextResponse.json({ error: "Company not found" }, { status: 404 });
+        }
+
+        return NextResponse.json({ policy: retentionPolicy(company.settings) });
+      } catch (error: any) {
+        console.error("Error updating retention rules:", error);
+        return NextResponse.json(
+          { error: "Failed to update retention rules", details: error.message },
+          { status: 500 }
+        );
+      }
+    },
+  });
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { runWithAmplifyServerContext, createApiClient } from "@/lib/amplify-server-utils";
+import { validateCompanySettings } from "@/lib/companies/settings";
 
 export async function GET(
   request: NextRequest,
@@ -65,6 +66,15 @@ export async function PATCH(
         // Remove id from body if present
         const { id: _, ...updateData } = body;
 
+        // Settings are replaced as a whole and must match the current schema
+        if (updateData.settings !== undefined) {
+          const { settings, error } = validateCompanySettings(updateData.settings);
+          if (error) {
+            return NextResponse.json({ error }, { status: 400 });
+          }
+          updateData.settings = JSON.stringify(settings);
+        }
+
         const { data: company, errors } = await client.models.Company.update(contextSpec, {
           id,
           ...updateData,
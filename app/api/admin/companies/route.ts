@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { runWithAmplifyServerContext, createApiClient } from "@/lib/amplify-server-utils";
+import { DEFAULT_COMPANY_SETTINGS, validateCompanySettings } from "@/lib/companies/settings";
 
 export async function GET(request: NextRequest) {
   const response = NextResponse.next();
@@ -54,6 +55,13 @@ export async function POST(request: NextRequest) {
           );
         }
 
+        const { settings: validSettings, error: settingsError } = settings
+          ? validateCompanySettings(settings)
+          : { settings: DEFAULT_COMPANY_SETTINGS, error: undefined };
+        if (settingsError) {
+          return NextResponse.json({ error: settingsError }, { status: 400 });
+        }
+
         console.log("Creating Amplify client...");
         const client = createApiClient(contextSpec);
         console.log("Client created successfully");
@@ -62,7 +70,7 @@ export async function POST(request: NextRequest) {
           name,
           domain: domain || undefined,
           logoUrl: logoUrl || undefined,
-          settings: settings || undefined,
+          settings: JSON.stringify(validSettings),
           maxUsers: maxUsers || undefined,
           isActive: true,
           createdAt: new Date().toISOString(),
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runWithAmplifyServerContext, createApiClient } from "@/lib/amplify-server-utils";
+import { getServerCaller } from "@/lib/auth/server-caller";
+import { toCsv } from "@/lib/export/csv";
+import { detectionSetsByPhoto } from "@/lib/reports/analysis";
+import {
+  currentFeedback,
+  feedbackForCurrentRun,
+  listCompanyDetectionFeedback,
+  summarizePrecision,
+  toLabeledRows,
+  type DetectionFeedbackEntry,
+} from "@/lib/reports/detection-feedback";
+
+/**
+ * Export the reviewer-labeled detection set with per-company precision.
+ *
+ * - Admin: their own company
+ * - SuperAdmin: every company, or one with `?companyId=`
+ *
+ * `?format=csv` returns the labeled rows as a CSV download; the default is JSON with the summary.
+ * Only verdicts on each report's current detections are included; `?runs=all` adds the latest
+ * verdicts on detections of earlier analysis runs, e.g. for retraining.
+ */
+export async function GET(request: NextRequest) {
+  const response = NextResponse.next();
+  return await runWithAmplifyServerContext({
+    nextServerContext: { request, response },
+    operation: async (contextSpec) => {
+      try {
+        const caller = await getServerCaller(contextSpec);
+        if (!caller) {
+          return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        if (caller.role !== "SuperAdmin" && caller.role !== "Admin") {
+          return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+        }
+
+        const searchParams = request.nextUrl.searchParams;
+        const format = searchParams.get("format") || "json";
+        if (format !== "json" && format !== "csv") {
+          return NextResponse.json({ error: `Unknown format: ${format}` }, { status: 400 });
+        }
+
+        const runs = searchParams.get("runs") || "current";
+        if (runs !== "current" && runs !== "all") {
+          return NextResponse.json({ error: "runs must be 'current' or 'all'" }, { status: 400 });
+        }
+
+        const companyId = caller.role === "SuperAdmin"
+          ? searchParams.get("companyId") || undefined
+          : caller.companyId;
+        if (caller.role === "Admin" && !companyId) {
+          return NextResponse.json({ error: "Your account is not linked to a company" }, { status: 403 });
+        }
+
+        // Admins and SuperAdmins may read feedback themselves; companyId is what scopes an Admin
+        const client = createApiClient(contextSpec);
+        const entries = await listCompanyDetectionFeedback(client, contextSpec, companyId || undefined) as DetectionFeedbackEntry[];
+
+        const byReport = new Map<string, DetectionFeedbackEntry[]>();
+        entries.forEach((entry) => byReport.set(entry.reportId, [...(byReport.get(entry.reportId) || []), entry]));
+
+        // Detection sets of each report's current analysis; feedback of reports that are gone is left out
+        const detectionSets = new Map<string, Map<string, string>>();
+        if (runs === "current") {
+          await Promise.all(Array.from(byReport.keys()).map(async (reportId) => {
+            const { data: report } = await client.models.IncidentReport.get(contextSpec, { id: reportId }, {
+              selectionSet: ["id", "aiAnalysis"],
+            });
+            if (report) detectionSets.set(reportId, detectionSetsByPhoto(report.aiAnalysis));
+          }));
+        }
+
+        // Only the latest verdict per detection counts. Detection keys are per report and, since every
+        // run renumbers them, per detection set.
+        const current = Array.from(byReport.entries()).flatMap(([reportId, reportEntries]) => {
+          const sets = detectionSets.get(reportId);
+          if (runs === "current" && !sets) return [];
+          const included = sets ? feedbackForCurrentRun(reportEntries, sets) : reportEntries;
+
+          const bySet = new Map<string, DetectionFeedbackEntry[]>();
+          included.forEach((entry) => {
+            const set = entry.detectionSet || "";
+            bySet.set(set, [...(bySet.get(set) || []), entry]);
+          });
+          return Array.from(bySet.values()).flatMap((setEntries) => {
+            const { byDetection, missed } = currentFeedback(setEntries);
+            return [...Array.from(byDetection.values()), ...missed];
+          });
+        });
+
+        const rows = toLabeledRows(current);
+
+        if (format === "csv") {
+          return new NextResponse(toCsv(rows), {
+            headers: {
+              "Content-Type": "text/csv; charset=utf-8",
+              "Content-Disposition": `attachment; filename="detection-feedback-${new Date().toISOString().slice(0, 10)}.csv"`,
+            },
+          });
+        }
+
+        return NextResponse.json({ summary: summarizePrecision(current), rows });
+      } catch (error: any) {
+        console.error("Error exporting detection feedback:", error);
+        return NextResponse.json(
+          { error: "Failed to export detection feedback", details: error.message },
+          { status: 500 }
+        );
+      }
+    },
+  });
+}
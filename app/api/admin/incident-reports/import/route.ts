@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runWithAmplifyServerContext, createApiClient } from "@/lib/amplify-server-utils";
+import { getServerCaller } from "@/lib/auth/server-caller";
+import { claimNumberExists } from "@/lib/reports/list";
+import { companyPhotoPrefix } from "@/lib/reports/photos";
+import { verifySavedReportPhotos } from "@/lib/reports/photo-verification";
+import { recordStatusEvent } from "@/lib/reports/status-events";
+import { MAX_IMPORT_ROWS, toReportInput, validateImportRows, type MappedRow } from "@/lib/reports/import";
+
+/**
+ * Import historical claims from already-mapped CSV rows.
+ *
+ * Body: `{ rows, dryRun, companyId? }`. Rows are validated with the incident form rules and
+ * checked for claim numbers repeated in the file or already on file for the company.
+ * With `dryRun: true` nothing is written. Otherwise valid rows are created under the
+ * importer's company (SuperAdmins pick one with `companyId`) and invalid rows are skipped.
+ */
+export async function POST(request: NextRequest) {
+  const response = NextResponse.next();
+  return await runWithAmplifyServerContext({
+    nextServerContext: { request, response },
+    operation: async (contextSpec) => {
+      try {
+        const caller = await getServerCaller(contextSpec);
+        if (!caller) {
+          return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        if (caller.role !== "SuperAdmin" && caller.role !== "Admin") {
+          return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+        }
+
+        const body = await request.json();
+        const rows: MappedRow[] = Array.isArray(body.rows) ? body.rows : [];
+        const dryRun = body.dryRun !== false;
+
+        if (rows.length === 0) {
+          return NextResponse.json({ error: "No rows to import" }, { status: 400 });
+        }
+        if (rows.length > MAX_IMPORT_ROWS) {
+          return NextResponse.json({ error: `Import at most ${MAX_IMPORT_ROWS} rows per request` }, { status: 400 });
+        }
+
+        const companyId = caller.role === "SuperAdmin" ? body.companyId : caller.companyId;
+        if (!companyId) {
+          return NextResponse.json(
+            { error: caller.role === "SuperAdmin" ? "Select a company to import into" : "Your account is not linked to a company" },
+            { status: caller.role === "SuperAdmin" ? 400 : 403 }
+          );
+        }
+
+        const apiKeyClient = createApiClient(contextSpec, 'apiKey');
+        const { data: company } = await apiKeyClient.models.Company.get(contextSpec, { id: companyId }, {
+          selectionSet: ["id", "name"],
+        });
+        if (!company) {
+          return NextResponse.json({ error: "Company not found" }, { status: 404 });
+        }
+
+        // Photos live under the company's folder; references elsewhere would expose another tenant's files
+        const photoPrefix = companyPhotoPrefix(companyId);
+        const validated = validateImportRows(rows);
+
+        for (const { result, values } of validated) {
+          if (!values) continue;
+          const foreign = values.photoUrls.filter((path) => !path.startsWith(photoPrefix));
+          if (foreign.length > 0) {
+            result.status = "invalid";
+            result.errors.push(`Photo References: ${foreign.length} path(s) are outside ${photoPrefix}`);
+            continue;
+          }
+          if (await claimNumberExists(apiKeyClient, contextSpec, values.claimNumber, companyId)) {
+            result.status = "duplicate";
+            result.errors.push(`A report with claim number ${values.claimNumber} already exists for this company`);
+          }
+        }
+
+        if (!dryRun) {
+          const client = createApiClient(contextSpec);
+          const submittedBy = caller.email || caller.username || "unknown";
+
+          for (const { result, values } of validated) {
+            if (!values || result.status !== "valid") continue;
+
+            const input = toReportInput(values);
+            const { data: report, errors } = await client.models.IncidentReport.create(contextSpec, {
+              ...input,
+              companyId,
+              companyName: company.name,
+              submittedBy,
+              submittedAt: new Date().toISOString(),
+            });
+
+            if (errors || !report) {
+              console.error(`Errors importing claim ${values.claimNumber}:`, errors);
+              result.status = "failed";
+              result.errors.push(errors?.[0]?.message || "Failed to create report");
+              continue;
+            }
+
+            result.status = "created";
+            result.reportId = report.id;
+
+            try {
+              await recordStatusEvent({
+                reportId: report.id,
+                companyId,
+                toStatus: input.status,
+                actor: submittedBy,
+                actorRole: caller.role,
+                note: "Imported from CSV",
+              });
+            } catch (eventError) {
+              console.error("Failed to record status event:", eventError);
+            }
+            await verifySavedReportPhotos(report);
+          }
+        }
+
+        const results = validated.map((v) => v.result);
+        const summary = { total: results.length, valid: 0, invalid: 0, duplicate: 0, created: 0, failed: 0 };
+        results.forEach((r) => summary[r.status]++);
+
+        console.log(`CSV import (${dryRun ? "dry run" : "write"}) by ${caller.email} into ${company.name}:`, summary);
+        return NextResponse.json({ dryRun, companyId, companyName: company.name, summary, results });
+      } catch (error: any) {
+        console.error("Error importing incident reports:", error);
+        return NextResponse.json(
+          { error: "Failed to import incident reports", details: error.message },
+          { status: 500 }
+        );
+      }
+    },
+  });
+}
@@ -1,11 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
-import { runWithAmplifyServerContext, createApiClient } from "@/lib/amplify-server-utils";
+import { runWithAmplifyServerContext, createApiClient, runWithServerRole } from "@/lib/amplify-server-utils";
 import { fetchAuthSession } from "aws-amplify/auth/server";
+import { getServerCaller } from "@/lib/auth/server-caller";
 import outputs from "@/amplify_outputs.json";
-import { S3Client, GetObjectCommand } from "@aws-sdk/client-s3";
-import { Upload } from "@aws-sdk/lib-storage";
-
-const AI_LAMBDA_URL = "https://xkhwrtjkwriyfonzpjdhuvmdky0ufdxf.lambda-url.us-east-1.on.aws/";
+import { countPhotosToRetry, isAnalysisActive } from "@/lib/reports/analysis";
+import { createInferenceProvider, isMockInference } from "@/amplify/functions/analyze-report/inference";
+import { runAnalysis } from "@/amplify/functions/analyze-report/run-analysis";
+import { verifyReportPhotos } from "@/lib/reports/photo-verification";
+import { legalHoldError } from "@/lib/reports/retention";
+import { canReadReport, getReportScope } from "@/lib/reports/scope";
+import { getCompanySettings } from "@/lib/companies/settings";
+import { createServerS3Client } from "@/lib/storage/server-s3";
 
 export async function POST(
     request: NextRequest,
@@ -18,6 +23,17 @@ export async function POST(
             try {
                 const { id } = await params;
                 console.log(`🔍 Starting AI analysis for report: ${id}`);
+
+                const caller = await getServerCaller(contextSpec);
+                if (!caller) {
+                    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+                }
+
+                // Homeowners can read their reports but not start runs (their role can't invoke the worker)
+                if (caller.role === "HomeOwner") {
+                    return NextResponse.json({ error: "You are not allowed to run analysis" }, { status: 403 });
+                }
+
                 const client = createApiClient(contextSpec);
 
                 // 1. Fetch the report to check if it exists and has photos
@@ -29,6 +45,19 @@ export async function POST(
                     return NextResponse.json({ error: "Report not found" }, { status: 404 });
                 }
 
+                if (!canReadReport(await getReportScope(contextSpec, caller), report)) {
+                    return NextResponse.json({ error: "Report not found" }, { status: 404 });
+                }
+
+                if (report.deletedAt) {
+                    return NextResponse.json({ error: "This report is in the Trash" }, { status: 409 });
+                }
+
+                const holdError = legalHoldError(report, "analyzed");
+                if (holdError) {
+                    return NextResponse.json({ error: holdError }, { status: 409 });
+                }
+
                 if (!report.photoUrls || report.photoUrls.length === 0) {
                     console.error("❌ No photos to analyze");
                     return NextResponse.json({ error: "No photos to analyze" }, { status: 400 });
@@ -36,24 +65,78 @@ export async function POST(
                 console.log(`✅ Report found with ${report.photoUrls.length} photos`);
 
 
-                // 2. Clear previous analysis and set status to 'analyzing'
-                console.log(`Setting status to 'analyzing' for report: ${id}`);
-                const updateQuery = `
-                    mutation UpdateIncidentReport($input: UpdateIncidentReportInput!) {
-                        updateIncidentReport(input: $input) { id }
+                if (isAnalysisActive(report.analysisRun)) {
+                    return NextResponse.json({ error: "Analysis is already running for this report" }, { status: 409 });
+                }
+
+                // `{ retryFailed: true }` re-runs only the photos that failed or were skipped last time
+                const body = await request.json().catch(() => ({}));
+                const retryFailed = body?.retryFailed === true;
+
+                // The form sends `{ trigger: "submit" }` for its automatic run, which companies can turn off
+                if (body?.trigger === "submit") {
+                    const settings = await getCompanySettings(client, contextSpec, report.companyId);
+                    if (!settings.analysis.autoRunOnSubmit) {
+                        return NextResponse.json({ success: true, skipped: true, message: "Automatic analysis is turned off for this company" });
                     }
-                `;
+                }
+                if (retryFailed && countPhotosToRetry(report.aiAnalysis, report.photoUrls) === 0) {
+                    return NextResponse.json({ error: "There are no failed photos to retry" }, { status: 400 });
+                }
 
-                const updateResult = await client.graphql(contextSpec, {
-                    query: updateQuery,
-                    variables: {
-                        input: {
-                            id,
-                            aiAnalysis: JSON.stringify({ status: "analyzing", startTime: new Date().toISOString() })
-                        }
+                // Check capture time and location of the photos so the flags sit alongside the new analysis.
+                // A failure here (e.g. storage unreachable) must not hold up the analysis itself.
+                if (!retryFailed) {
+                    try {
+                        const s3Client = await createServerS3Client(contextSpec);
+                        await runWithServerRole((serverSpec) =>
+                            verifyReportPhotos(createApiClient(serverSpec, 'iam'), s3Client, serverSpec, report)
+                        );
+                    } catch (error) {
+                        console.error("⚠️ Photo evidence check failed:", error);
                     }
+                }
+
+                // 2. Queue a new run, clearing the previous analysis unless retrying (the workflow status is left alone)
+                console.log(`Queueing ${retryFailed ? "retry" : "analysis"} run for report: ${id}`);
+                const analysisRun = {
+                    status: "queued" as const,
+                    photosTotal: report.photoUrls.length,
+                    photosProcessed: 0,
+                    photosFailed: 0,
+                    queuedAt: new Date().toISOString(),
+                };
+
+                const { errors: queueErrors } = await client.models.IncidentReport.update(contextSpec, {
+                    id,
+                    ...(retryFailed ? {} : { aiAnalysis: null }),
+                    analysisRun,
                 });
-                console.log(`✅ Status updated to 'analyzing'`);
+                if (queueErrors) {
+                    throw new Error(`Failed to queue analysis: ${queueErrors[0].message}`);
+                }
+                console.log(`✅ Analysis run queued`);
+
+                // With the mock provider (sandbox / offline), run the same worker code in-process
+                // instead of invoking the Lambda. Not awaited: the client polls the run like usual.
+                if (isMockInference()) {
+                    console.log(`🧪 Running analysis in-process with the mock inference provider`);
+                    runAnalysis({
+                        reportId: id,
+                        retryFailed,
+                        bucket: outputs.storage.bucket_name,
+                        region: outputs.storage.aws_region,
+                        apiEndpoint: outputs.data.url,
+                        apiKey: outputs.data.api_key,
+                        provider: createInferenceProvider(),
+                    }).catch((err) => console.error("❌ In-process analysis failed:", err));
+
+                    return NextResponse.json({
+                        success: true,
+                        message: "Analysis started with the mock inference provider",
+                        analysisRun
+                    });
+                }
 
 
                 // 3. Invoke the background Analyze Function
@@ -96,6 +179,7 @@ export async function POST(
 
                 const payload = {
                     reportId: id,
+                    retryFailed,
                     bucket: outputs.storage.bucket_name,
                     region,
                     apiEndpoint: (outputs as any).data?.url
@@ -112,12 +196,34 @@ export async function POST(
 
                 return NextResponse.json({
                     success: true,
-                    message: "Analysis started in background"
+                    message: "Analysis started in background",
+                    analysisRun
                 });
 
             } catch (error: any) {
                 console.error("❌ Error triggering AI analysis:", error);
                 console.error("Error stack:", error.stack);
+
+                // Don't leave a queued run behind that no worker will ever pick up
+                try {
+                    const { id } = await params;
+                    const { data: current } = await createApiClient(contextSpec).models.IncidentReport.get(contextSpec, { id }, {
+                        selectionSet: ["id", "analysisRun.*"],
+                    });
+                    if (current?.analysisRun?.status === "queued") {
+                        await createApiClient(contextSpec).models.IncidentReport.update(contextSpec, {
+                            id,
+                            analysisRun: {
+                                ...current.analysisRun,
+                                status: "failed",
+                                completedAt: new Date().toISOString(),
+                                error: error.message || "Failed to start analysis",
+                            },
+                        });
+                    }
+                } catch (markError) {
+                    console.error("Failed to mark analysis run as failed:", markError);
+                }
                 console.error("Error details:", {
                     message: error.message,
                     name: error.name,
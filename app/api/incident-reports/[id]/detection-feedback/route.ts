@@ -0,0 +1,237 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runWithAmplifyServerContext, createApiClient, runWithServerRole } from "@/lib/amplify-server-utils";
+import { getServerCaller, type ServerCaller } from "@/lib/auth/server-caller";
+import { detectionSetsByPhoto, groupDetectionsByPhoto } from "@/lib/reports/analysis";
+import {
+  feedbackForCurrentRun,
+  isDetectionVerdict,
+  listDetectionFeedback,
+  recordDetectionFeedback,
+} from "@/lib/reports/detection-feedback";
+import { canReadReport, getReportScope } from "@/lib/reports/scope";
+
+const REPORT_FIELDS = ["id", "companyId", "address", "city", "state", "zip", "photoUrls", "aiAnalysis"] as const;
+
+// Load the report with the API key client and confirm the caller may see it; null when not found or out of scope
+async function loadReport(contextSpec: any, caller: ServerCaller, id: string) {
+  const client = createApiClient(contextSpec, 'apiKey');
+  const { data: report, errors } = await client.models.IncidentReport.get(contextSpec, { id }, {
+    selectionSet: REPORT_FIELDS,
+  });
+
+  if (errors) {
+    throw new Error(`Failed to fetch incident report: ${errors[0].message}`);
+  }
+
+  if (!report || !canReadReport(await getReportScope(contextSpec, caller), report)) return null;
+  return report;
+}
+
+const isBbox = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.length === 4 && value.every((n) => typeof n === "number" && Number.isFinite(n) && n >= 0);
+
+/** The report's feedback on its current detections; verdicts on earlier runs are kept but not returned. */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const response = NextResponse.next();
+  return await runWithAmplifyServerContext({
+    nextServerContext: { request, response },
+    operation: async (contextSpec) => {
+      try {
+        const { id } = await params;
+
+        const caller = await getServerCaller(contextSpec);
+        if (!caller) {
+          return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const report = await loadReport(contextSpec, caller, id);
+        if (!report) {
+          return NextResponse.json({ error: "Incident report not found" }, { status: 404 });
+        }
+
+        // Feedback is read and written with the server role once report access is checked
+        const feedback = await runWithServerRole((serverSpec) =>
+          listDetectionFeedback(createApiClient(serverSpec, 'iam'), serverSpec, id)
+        );
+        return NextResponse.json({ feedback: feedbackForCurrentRun(feedback, detectionSetsByPhoto(report.aiAnalysis)) });
+      } catch (error: any) {
+        console.error("Error fetching detection feedback:", error);
+        return NextResponse.json(
+          { error: "Failed to fetch detection feedback", details: error.message },
+          { status: 500 }
+        );
+      }
+    },
+  });
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const response = NextResponse.next();
+  return await runWithAmplifyServerContext({
+    nextServerContext: { request, response },
+    operation: async (contextSpec) => {
+      try {
+        const { id } = await params;
+        const body = await request.json();
+
+        const caller = await getServerCaller(contextSpec);
+        if (!caller) {
+          return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        if (caller.role === "HomeOwner") {
+          return NextResponse.json({ error: "You are not allowed to review detections" }, { status: 403 });
+        }
+
+        const report = await loadReport(contextSpec, caller, id);
+        if (!report) {
+          return NextResponse.json({ error: "Incident report not found" }, { status: 404 });
+        }
+
+        const { photoPath, detectionIndex, verdict, bbox } = body;
+        const correctedLabel = typeof body.correctedLabel === "string" ? body.correctedLabel.trim() : "";
+
+        if (!isDetectionVerdict(verdict)) {
+          return NextResponse.json({ error: `Unknown verdict: ${verdict}` }, { status: 400 });
+        }
+
+        const detectionsByPhoto = groupDetectionsByPhoto(report.aiAnalysis, report.photoUrls);
+        if (typeof photoPath !== "string" || !report.photoUrls?.includes(photoPath)) {
+          return NextResponse.json({ error: "photoPath is not one of this report's photos" }, { status: 400 });
+        }
+
+        if (verdict === "missed") {
+          if (!isBbox(bbox)) {
+            return NextResponse.json({ error: "Missed damage needs a bbox of [x1, y1, x2, y2]" }, { status: 400 });
+          }
+          if (!correctedLabel) {
+            return NextResponse.json({ error: "Missed damage needs a label" }, { status: 400 });
+          }
+
+          const feedback = await runWithServerRole((serverSpec) =>
+            recordDetectionFeedback(createApiClient(serverSpec, 'iam'), serverSpec, {
+              reportId: id,
+              companyId: report.companyId,
+              photoPath,
+              verdict,
+              correctedLabel,
+              bbox,
+              reviewer: caller.email || caller.username || "unknown",
+              reviewerRole: caller.role,
+            })
+          );
+          return NextResponse.json({ feedback }, { status: 201 });
+        }
+
+        // Verdicts on model detections refer to a detection by its position in the photo's list
+        const detection = Number.isInteger(detectionIndex)
+          ? detectionsByPhoto.get(photoPath)?.[detectionIndex]
+          : undefined;
+        if (!detection) {
+          return NextResponse.json({ error: "Detection not found for this photo" }, { status: 400 });
+        }
+
+        if (verdict === "mislabeled" && (!correctedLabel || correctedLabel === detection.label)) {
+          return NextResponse.json({ error: "Mislabeled detections need a corrected label" }, { status: 400 });
+        }
+
+        const feedback = await runWithServerRole((serverSpec) =>
+          recordDetectionFeedback(createApiClient(serverSpec, 'iam'), serverSpec, {
+            reportId: id,
+            companyId: report.companyId,
+            photoPath,
+            detectionIndex,
+            detectionSet: detectionSetsByPhoto(report.aiAnalysis).get(photoPath),
+            verdict,
+            originalLabel: detection.label,
+            originalConfidence: detection.confidence,
+            correctedLabel: verdict === "mislabeled" ? correctedLabel : null,
+            bbox: isBbox(detection.bbox) ? detection.bbox : null,
+            reviewer: caller.email || caller.username || "unknown",
+            reviewerRole: caller.role,
+          })
+        );
+        return NextResponse.json({ feedback }, { status: 201 });
+      } catch (error: any) {
+        console.error("Error recording detection feedback:", error);
+        return NextResponse.json(
+          { error: "Failed to record detection feedback", details: error.message },
+          { status: 500 }
+        );
+      }
+    },
+  });
+}
+
+/** Remove a missed-damage box. Verdicts on model detections are superseded, not deleted. */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const response = NextResponse.next();
+  return await runWithAmplifyServerContext({
+    nextServerContext: { request, response },
+    operation: async (contextSpec) => {
+      try {
+        const { id } = await params;
+        const feedbackId = request.nextUrl.searchParams.get("feedbackId");
+
+        const caller = await getServerCaller(contextSpec);
+        if (!caller) {
+          return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        if (caller.role === "HomeOwner") {
+          return NextResponse.json({ error: "You are not allowed to review detections" }, { status: 403 });
+        }
+
+        if (!feedbackId) {
+          return NextResponse.json({ error: "feedbackId is required" }, { status: 400 });
+        }
+
+        if (!(await loadReport(contextSpec, caller, id))) {
+          return NextResponse.json({ error: "Incident report not found" }, { status: 404 });
+        }
+
+        const { entry, errors } = await runWithServerRole(async (serverSpec) => {
+          const client = createApiClient(serverSpec, 'iam');
+          const { data: entry } = await client.models.DetectionFeedback.get(serverSpec, { id: feedbackId });
+          if (!entry || entry.reportId !== id || entry.verdict !== "missed") return { entry };
+
+          const { errors } = await client.models.DetectionFeedback.delete(serverSpec, { id: feedbackId });
+          return { entry, errors };
+        });
+
+        if (!entry || entry.reportId !== id) {
+          return NextResponse.json({ error: "Feedback not found" }, { status: 404 });
+        }
+
+        if (entry.verdict !== "missed") {
+          return NextResponse.json({ error: "Only missed-damage boxes can be removed" }, { status: 400 });
+        }
+
+        if (errors) {
+          console.error("Errors deleting detection feedback:", errors);
+          return NextResponse.json(
+            { error: "Failed to delete detection feedback", details: errors },
+            { status: 500 }
+          );
+        }
+
+        return NextResponse.json({ success: true });
+      } catch (error: any) {
+        console.error("Error deleting detection feedback:", error);
+        return NextResponse.json(
+          { error: "Failed to delete detection feedback", details: error.message },
+          { status: 500 }
+        );
+      }
+    },
+  });
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runWithAmplifyServerContext, createApiClient } from "@/lib/amplify-server-utils";
+import { getServerCaller } from "@/lib/auth/server-caller";
+import { canReadReport, getReportScope } from "@/lib/reports/scope";
+import { canManageLegalHold } from "@/lib/reports/retention";
+
+/**
+ * Place or lift a legal hold. While held, a report cannot be edited, analyzed, deleted or
+ * purged by the retention job.
+ *
+ * Body: `{ legalHold: boolean, reason?: string }`; a reason is required to place a hold.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const response = NextResponse.next();
+  return await runWithAmplifyServerContext({
+    nextServerContext: { request, response },
+    operation: async (contextSpec) => {
+      try {
+        const { id } = await params;
+        const body = await request.json();
+
+        const caller = await getServerCaller(contextSpec);
+        if (!caller) {
+          return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        if (!canManageLegalHold(caller.role)) {
+          return NextResponse.json({ error: "You are not allowed to manage legal holds" }, { status: 403 });
+        }
+
+        if (typeof body.legalHold !== "boolean") {
+          return NextResponse.json({ error: "legalHold must be true or false" }, { status: 400 });
+        }
+
+        const reason = typeof body.reason === "string" ? body.reason.trim() : "";
+        if (body.legalHold && !reason) {
+          return NextResponse.json({ error: "A reason is required to place a legal hold" }, { status: 400 });
+        }
+
+        const client = createApiClient(contextSpec);
+        const { data: report, errors: fetchErrors } = await client.models.IncidentReport.get(contextSpec, { id }, {
+          selectionSet: ["id", "companyId", "address", "city", "state", "zip", "deletedAt", "legalHold"],
+        });
+
+        if (fetchErrors) {
+          console.error("Errors fetching incident report:", fetchErrors);
+          return NextResponse.json(
+            { error: "Failed to fetch incident report", details: fetchErrors },
+            { status: 500 }
+          );
+        }
+
+        if (!report || !canReadReport(await getReportScope(contextSpec, caller), report)) {
+          return NextResponse.json({ error: "Incident report not found" }, { status: 404 });
+        }
+
+        if (body.legalHold && report.deletedAt) {
+          return NextResponse.json({ error: "This report is in the Trash; restore it before placing a legal hold" }, { status: 409 });
+        }
+
+        const { data: updated, errors } = await client.models.IncidentReport.update(contextSpec, body.legalHold
+          ? {
+            id,
+            legalHold: true,
+            legalHoldReason: reason,
+            legalHoldBy: caller.email || caller.username || "unknown",
+            legalHoldAt: new Date().toISOString(),
+          }
+          : { id, legalHold: false, legalHoldReason: null, legalHoldBy: null, legalHoldAt: null });
+
+        if (errors) {
+          console.error("Errors updating legal hold:", errors);
+          return NextResponse.json(
+            { error: "Failed to update legal hold", details: errors },
+            { status: 500 }
+          );
+        }
+
+        console.log(
+          `Legal hold on incident report ${id} ${body.legalHold ? "placed" : "lifted"} by ${caller.email || caller.username}` +
+            (reason ? `: ${reason}` : "")
+        );
+        return NextResponse.json({ report: updated });
+      } catch (error: any) {
+        console.error("Error updating legal hold:", error);
+        return NextResponse.json(
+          { error: "Failed to update legal hold", details: error.message },
+          { status: 500 }
+        );
+      }
+    },
+  });
+}
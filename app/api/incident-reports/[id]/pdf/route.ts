@@ -0,0 +1,218 @@
+import { NextRequest, NextResponse } from "next/server";
+import { readFile } from "fs/promises";
+import path from "path";
+import { runWithAmplifyServerContext, createApiClient, runWithServerRole } from "@/lib/amplify-server-utils";
+import { getServerCaller } from "@/lib/auth/server-caller";
+import { listCustomFields } from "@/lib/companies/custom-fields";
+import { loadPdfImage } from "@/lib/pdf/images";
+import type { AIDetection } from "@/lib/reports/analysis";
+import { renderReportPdf, reportPdfPrefix } from "@/lib/reports/pdf";
+import { duplicatePhotoSignals, listPhotoEvidence, photoEvidenceSignals } from "@/lib/reports/photo-evidence";
+import { findDuplicatePhotos } from "@/lib/reports/photo-verification";
+import { canReadReport, getReportScope } from "@/lib/reports/scope";
+import { listStatusEvents } from "@/lib/reports/status-events";
+import {
+  STORAGE_BUCKET,
+  STORAGE_REGION,
+  createServerS3Client,
+  createServiceS3Client,
+  getObjectBytes,
+  getObjectPrefix,
+  putObjectBytes,
+} from "@/lib/storage/server-s3";
+
+const DEFAULT_LOGO = "ClaimVerifAI.png";
+
+const LOGO_MAX_BYTES = 2 * 1024 * 1024;
+// Hosts other than the app bucket that company logos may be fetched from, e.g. "cdn.example.com,assets.example.com"
+const LOGO_HOSTS = (process.env.PDF_LOGO_HOSTS || "").split(",").map((host) => host.trim().toLowerCase()).filter(Boolean);
+
+const parseUrl = (value: string) => {
+  try {
+    return new URL(value);
+  } catch {
+    return null;
+  }
+};
+
+// The object key when a logo URL points into the app bucket
+function bucketKey(url: URL) {
+  const hosts = [`${STORAGE_BUCKET}.s3.${STORAGE_REGION}.amazonaws.com`, `${STORAGE_BUCKET}.s3.amazonaws.com`];
+  return url.protocol === "https:" && hosts.includes(url.hostname.toLowerCase())
+    ? decodeURIComponent(url.pathname.slice(1))
+    : null;
+}
+
+// Reads at most LOGO_MAX_BYTES from an allowlisted host; null when larger or unreachable
+async function fetchLogo(url: URL) {
+  const res = await fetch(url, { signal: AbortSignal.timeout(5000), redirect: "error" });
+  if (!res.ok || !res.body || Number(res.headers.get("content-length")) > LOGO_MAX_BYTES) return null;
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = res.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > LOGO_MAX_BYTES) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+// Company logos are stored as absolute URLs or paths under public/; fall back to the product logo.
+// URLs are only followed into the app bucket or to an allowlisted host, never to arbitrary addresses.
+async function loadLogo(logoUrl?: string | null) {
+  try {
+    const url = logoUrl ? parseUrl(logoUrl) : null;
+    const key = url && bucketKey(url);
+    let bytes: Buffer | null = null;
+    if (key) {
+      bytes = await getObjectPrefix(createServiceS3Client(), key, LOGO_MAX_BYTES + 1);
+      if (bytes && bytes.length > LOGO_MAX_BYTES) bytes = null;
+    } else if (url?.protocol === "https:" && LOGO_HOSTS.includes(url.hostname.toLowerCase())) {
+      bytes = await fetchLogo(url);
+    }
+    const image = bytes && loadPdfImage(bytes);
+    if (image) return image;
+
+    const publicDir = path.join(process.cwd(), "public");
+    let file = path.join(publicDir, DEFAULT_LOGO);
+    if (logoUrl?.startsWith("/")) {
+      const local = path.join(publicDir, logoUrl);
+      if (local.startsWith(publicDir + path.sep)) file = local;
+    }
+    return loadPdfImage(await readFile(file));
+  } catch (error) {
+    console.warn("Failed to load logo for PDF:", error);
+    return null;
+  }
+}
+
+// One archived copy per report version: regenerating an unchanged report overwrites the same key
+const pdfArchiveKey = (reportId: string, updatedAt?: string | null) =>
+  `${reportPdfPrefix(reportId)}${(updatedAt || new Date().toISOString()).replace(/[^0-9A-Za-z]/g, "")}.pdf`;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const response = NextResponse.next();
+  return await runWithAmplifyServerContext({
+    nextServerContext: { request, response },
+    operation: async (contextSpec) => {
+      try {
+        const { id } = await params;
+
+        const caller = await getServerCaller(contextSpec);
+        if (!caller) {
+          return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const client = createApiClient(contextSpec, 'apiKey');
+        const { data: report, errors } = await client.models.IncidentReport.get(contextSpec, { id });
+
+        if (errors) {
+          console.error("Errors fetching incident report:", errors);
+          return NextResponse.json(
+            { error: "Failed to fetch incident report", details: errors },
+            { status: 500 }
+          );
+        }
+
+        if (!report || !canReadReport(await getReportScope(contextSpec, caller), report)) {
+          return NextResponse.json({ error: "Incident report not found" }, { status: 404 });
+        }
+
+        const company = report.companyId
+          ? (await client.models.Company.get(contextSpec, { id: report.companyId }, {
+            selectionSet: ["id", "name", "logoUrl"],
+          })).data
+          : null;
+
+        // Homeowners have no storage access; their access to the report was checked above
+        const s3Client = caller.role === "HomeOwner" ? createServiceS3Client() : await createServerS3Client(contextSpec);
+        const loadPhoto = async (key: string) => {
+          const bytes = await getObjectBytes(s3Client, key);
+          return { path: key, image: bytes ? loadPdfImage(bytes) : null };
+        };
+
+        const photoPaths = (report.photoUrls || []).filter((p): p is string => !!p);
+
+        // Annotated copies, grouped the same way the old print view did
+        let annotatedPaths: { path: string, detections: AIDetection[] }[] = [];
+        try {
+          const analysis = typeof report.aiAnalysis === "string" ? JSON.parse(report.aiAnalysis) : report.aiAnalysis;
+          const detections: AIDetection[] = Array.isArray(analysis?.detections) ? analysis.detections : [];
+          const paths = Array.from(new Set(detections.map((d) => d.local_output_path).filter((p): p is string => !!p)));
+          if (paths.length === 0 && analysis?.local_output_path) paths.push(analysis.local_output_path);
+          annotatedPaths = paths.map((p) => ({ path: p, detections: detections.filter((d) => d.local_output_path === p) }));
+        } catch (error) {
+          console.error("Failed to parse AI analysis for PDF:", error);
+        }
+
+        const [logo, customFields, photos, annotated, events, evidence] = await Promise.all([
+          loadLogo(company?.logoUrl),
+          listCustomFields(client, contextSpec, report.companyId),
+          Promise.all(photoPaths.map(loadPhoto)),
+          Promise.all(annotatedPaths.map(async (a) => ({ ...(await loadPhoto(a.path)), detections: a.detections }))),
+          // The timeline is only readable by the server and photo evidence not by homeowners; access was checked above
+          runWithServerRole((serverSpec) => listStatusEvents(createApiClient(serverSpec, 'iam'), serverSpec, id)),
+          runWithServerRole((serverSpec) => listPhotoEvidence(createApiClient(serverSpec, 'iam'), serverSpec, id)),
+        ]);
+
+        // Same rule as the report view: duplicates within the report's company, never for homeowners
+        const duplicates = caller.role !== "HomeOwner" && report.companyId
+          ? await runWithServerRole((serverSpec) =>
+            findDuplicatePhotos(createApiClient(serverSpec, 'iam'), serverSpec, id, evidence, report.companyId!)
+          )
+          : [];
+
+        const generatedAt = new Date().toISOString();
+        const pdf = renderReportPdf({
+          report,
+          companyName: company?.name || report.companyName,
+          logo,
+          customFields,
+          photos,
+          annotated,
+          photoSignals: [...photoEvidenceSignals(evidence, report.incidentDate), ...duplicatePhotoSignals(duplicates)],
+          events,
+          generatedAt,
+          generatedBy: caller.email || caller.username || "unknown",
+        });
+
+        // Archives are written by the server only; no group has direct access to them
+        const key = pdfArchiveKey(id, report.updatedAt);
+        let archived = true;
+        try {
+          await putObjectBytes(createServiceS3Client(), key, pdf, "application/pdf");
+        } catch (error) {
+          // The caller still gets their PDF; the archive copy is written again on the next export
+          archived = false;
+          console.error("Failed to archive report PDF:", key, error);
+        }
+
+        const filename = `claim-report-${report.claimNumber || id}.pdf`.replace(/[^\w.-]/g, "_");
+        return new NextResponse(new Uint8Array(pdf), {
+          headers: {
+            "Content-Type": "application/pdf",
+            "Content-Disposition": `${request.nextUrl.searchParams.get("download") ? "attachment" : "inline"}; filename="${filename}"`,
+            "Cache-Control": "private, no-store",
+            ...(archived ? { "X-Report-Pdf-Key": key } : {}),
+          },
+        });
+      } catch (error: any) {
+        console.error("Error generating report PDF:", error);
+        return NextResponse.json(
+          { error: "Failed to generate report PDF", details: error.message },
+          { status: 500 }
+        );
+      }
+    },
+  });
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runWithAmplifyServerContext, createApiClient, runWithServerRole } from "@/lib/amplify-server-utils";
+import { getServerCaller, type ServerCaller } from "@/lib/auth/server-caller";
+import { listPhotoEvidence, type PhotoDuplicate } from "@/lib/reports/photo-evidence";
+import { findDuplicatePhotos, verifyReportPhotos } from "@/lib/reports/photo-verification";
+import { canReadReport, getReportScope } from "@/lib/reports/scope";
+import { createServerS3Client } from "@/lib/storage/server-s3";
+
+const REPORT_FIELDS = [
+  "id", "companyId", "address", "city", "state", "zip", "incidentDate", "photoUrls", "photoMetadata", "piiPurgedAt",
+] as const;
+
+// Load the report with the API key client and confirm the caller may see it; null when not found or out of scope
+async function loadReport(contextSpec: any, caller: ServerCaller, id: string) {
+  const client = createApiClient(contextSpec, 'apiKey');
+  const { data: report, errors } = await client.models.IncidentReport.get(contextSpec, { id }, {
+    selectionSet: REPORT_FIELDS,
+  });
+
+  if (errors) {
+    throw new Error(`Failed to fetch incident report: ${errors[0].message}`);
+  }
+
+  if (!report || !canReadReport(await getReportScope(contextSpec, caller), report)) return null;
+  return report;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const response = NextResponse.next();
+  return await runWithAmplifyServerContext({
+    nextServerContext: { request, response },
+    operation: async (contextSpec) => {
+      try {
+        const { id } = await params;
+
+        const caller = await getServerCaller(contextSpec);
+        if (!caller) {
+          return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const report = await loadReport(contextSpec, caller, id);
+        if (!report) {
+          return NextResponse.json({ error: "Incident report not found" }, { status: 404 });
+        }
+
+        // Matches name other claims, so homeowners don't see them. `?allCompanies=true` widens
+        // the search past the report's company, for SuperAdmin only.
+        const allCompanies = caller.role === "SuperAdmin" && request.nextUrl.searchParams.get("allCompanies") === "true";
+        const matchDuplicates = caller.role !== "HomeOwner" && (allCompanies || !!report.companyId);
+
+        // Read with the server role: homeowners can't read photo evidence and matches span other
+        // reports; access was checked above
+        const { evidence, duplicates } = await runWithServerRole(async (serverSpec) => {
+          const client = createApiClient(serverSpec, 'iam');
+          const evidence = await listPhotoEvidence(client, serverSpec, id);
+          const duplicates: PhotoDuplicate[] = matchDuplicates
+            ? await findDuplicatePhotos(client, serverSpec, id, evidence, allCompanies ? null : report.companyId!)
+            : [];
+          return { evidence, duplicates };
+        });
+
+        return NextResponse.json({ evidence, duplicates });
+      } catch (error: any) {
+        console.error("Error fetching photo evidence:", error);
+        return NextResponse.json(
+          { error: "Failed to fetch photo evidence", details: error.message },
+          { status: 500 }
+        );
+      }
+    },
+  });
+}
+
+/** Re-check the report's photos on demand. Creating the report, changing its photos and analysis runs also do this. */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const response = NextResponse.next();
+  return await runWithAmplifyServerContext({
+    nextServerContext: { request, response },
+    operation: async (contextSpec) => {
+      try {
+        const { id } = await params;
+
+        const caller = await getServerCaller(contextSpec);
+        if (!caller) {
+          return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        if (caller.role === "HomeOwner") {
+          return NextResponse.json({ error: "You are not allowed to check photos" }, { status: 403 });
+        }
+
+        const report = await loadReport(contextSpec, caller, id);
+        if (!report) {
+          return NextResponse.json({ error: "Incident report not found" }, { status: 404 });
+        }
+
+        const s3Client = await createServerS3Client(contextSpec);
+        const result = await runWithServerRole((serverSpec) =>
+          verifyReportPhotos(createApiClient(serverSpec, 'iam'), s3Client, serverSpec, report)
+        );
+        return NextResponse.json({ evidence: result.entries, addressLocated: result.addressLocated });
+      } catch (error: any) {
+        console.error("Error checking photo evidence:", error);
+        return NextResponse.json(
+          { error: "Failed to check photo evidence", details: error.message },
+          { status: 500 }
+        );
+      }
+    },
+  });
+}
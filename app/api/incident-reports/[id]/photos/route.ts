@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runWithAmplifyServerContext, createApiClient } from "@/lib/amplify-server-utils";
+import { getServerCaller } from "@/lib/auth/server-caller";
+import { PHOTO_UPLOAD_EXTENSIONS } from "@/lib/reports/photos";
+import { canReadReport, getReportScope } from "@/lib/reports/scope";
+import { createServiceS3Client, getObjectBytes } from "@/lib/storage/server-s3";
+
+const CONTENT_TYPES: Record<string, string> = {
+  ...Object.fromEntries(Object.entries(PHOTO_UPLOAD_EXTENSIONS).map(([type, ext]) => [ext, type])),
+  jpeg: "image/jpeg",
+};
+
+/**
+ * One of the report's photos, `?path=` being its storage key. Homeowners have no storage access
+ * of their own, so their photos are served here, read with the server's credentials once the
+ * caller may see the report. Only keys listed in the report's photoUrls are served.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const response = NextResponse.next();
+  return await runWithAmplifyServerContext({
+    nextServerContext: { request, response },
+    operation: async (contextSpec) => {
+      try {
+        const { id } = await params;
+
+        const caller = await getServerCaller(contextSpec);
+        if (!caller) {
+          return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const client = createApiClient(contextSpec, 'apiKey');
+        const { data: report, errors } = await client.models.IncidentReport.get(contextSpec, { id }, {
+          selectionSet: ["id", "companyId", "address", "city", "state", "zip", "photoUrls"],
+        });
+
+        if (errors) {
+          console.error("Errors fetching incident report:", errors);
+          return NextResponse.json(
+            { error: "Failed to fetch incident report", details: errors },
+            { status: 500 }
+          );
+        }
+
+        if (!report || !canReadReport(await getReportScope(contextSpec, caller), report)) {
+          return NextResponse.json({ error: "Incident report not found" }, { status: 404 });
+        }
+
+        const path = request.nextUrl.searchParams.get("path");
+        if (!path || !(report.photoUrls || []).includes(path)) {
+          return NextResponse.json({ error: "Photo not found" }, { status: 404 });
+        }
+
+        const bytes = await getObjectBytes(createServiceS3Client(), path);
+        if (!bytes) {
+          return NextResponse.json({ error: "Photo not found" }, { status: 404 });
+        }
+
+        const ext = path.split(".").pop()?.toLowerCase() || "";
+        return new NextResponse(new Uint8Array(bytes), {
+          headers: {
+            "Content-Type": CONTENT_TYPES[ext] || "application/octet-stream",
+            "Cache-Control": "private, max-age=300",
+          },
+        });
+      } catch (error: any) {
+        console.error("Error fetching report photo:", error);
+        return NextResponse.json(
+          { error: "Failed to fetch photo", details: error.message },
+          { status: 500 }
+        );
+      }
+    },
+  });
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runWithAmplifyServerContext, createApiClient } from "@/lib/amplify-server-utils";
+import { getServerCaller } from "@/lib/auth/server-caller";
+import { canReadReport, getReportScope } from "@/lib/reports/scope";
+import { canManageTrash } from "@/lib/reports/trash";
+
+/** Take a report out of the Trash, back into the lists as it was. */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const response = NextResponse.next();
+  return await runWithAmplifyServerContext({
+    nextServerContext: { request, response },
+    operation: async (contextSpec) => {
+      try {
+        const { id } = await params;
+
+        const caller = await getServerCaller(contextSpec);
+        if (!caller) {
+          return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        if (!canManageTrash(caller.role)) {
+          return NextResponse.json({ error: "You are not allowed to restore reports" }, { status: 403 });
+        }
+
+        const client = createApiClient(contextSpec);
+        const { data: report, errors: fetchErrors } = await client.models.IncidentReport.get(contextSpec, { id }, {
+          selectionSet: ["id", "companyId", "address", "city", "state", "zip", "deletedAt"],
+        });
+
+        if (fetchErrors) {
+          console.error("Errors fetching incident report:", fetchErrors);
+          return NextResponse.json(
+            { error: "Failed to fetch incident report", details: fetchErrors },
+            { status: 500 }
+          );
+        }
+
+        if (!report || !canReadReport(await getReportScope(contextSpec, caller), report)) {
+          return NextResponse.json({ error: "Incident report not found" }, { status: 404 });
+        }
+
+        if (!report.deletedAt) {
+          return NextResponse.json({ error: "This report is not in the Trash" }, { status: 409 });
+        }
+
+        const { data: restored, errors } = await client.models.IncidentReport.update(contextSpec, {
+          id,
+          deletedAt: null,
+          deletedBy: null,
+        });
+
+        if (errors) {
+          console.error("Errors restoring incident report:", errors);
+          return NextResponse.json(
+            { error: "Failed to restore incident report", details: errors },
+            { status: 500 }
+          );
+        }
+
+        console.log(`Incident report ${id} restored from the Trash by ${caller.email || caller.username}`);
+        return NextResponse.json({ report: restored });
+      } catch (error: any) {
+        console.error("Error restoring incident report:", error);
+        return NextResponse.json(
+          { error: "Failed to restore incident report", details: error.message },
+          { status: 500 }
+        );
+      }
+    },
+  });
+}
@@ -1,5 +1,40 @@
 import { NextRequest, NextResponse } from "next/server";
-import { runWithAmplifyServerContext, createApiClient } from "@/lib/amplify-server-utils";
+import { runWithAmplifyServerContext, createApiClient, runWithServerRole } from "@/lib/amplify-server-utils";
+import { getServerCaller } from "@/lib/auth/server-caller";
+import { listCustomFields, parseCustomFieldValues } from "@/lib/companies/custom-fields";
+import { getCompanySettings } from "@/lib/companies/settings";
+import { isAnalysisActive } from "@/lib/reports/analysis";
+import { executeReportDeletion, planReportDeletion, summarizeDeletion, type DeletionResult } from "@/lib/reports/deletion";
+import { photosBelongToReport } from "@/lib/reports/photos";
+import { verifySavedReportPhotos } from "@/lib/reports/photo-verification";
+import { canReadReport, getReportScope } from "@/lib/reports/scope";
+import { legalHoldError } from "@/lib/reports/retention";
+import { recordStatusEvent } from "@/lib/reports/status-events";
+import { canManageTrash, canTrashReports } from "@/lib/reports/trash";
+import { canTransition, getAllowedTransitions, isReportStatus, REPORT_STATUS_LABELS, type ReportStatus } from "@/lib/reports/workflow";
+import { createServiceS3Client } from "@/lib/storage/server-s3";
+
+// Report fields PATCH may change
+const EDITABLE_FIELDS = [
+  "claimNumber",
+  "firstName",
+  "lastName",
+  "phone",
+  "email",
+  "address",
+  "apartment",
+  "city",
+  "state",
+  "zip",
+  "incidentDate",
+  "description",
+  "shingleExposure",
+  "weatherReport",
+  "photoUrls",
+  "photoMetadata",
+  "customFieldValues",
+  "status",
+] as const;
 
 export async function GET(
   request: NextRequest,
@@ -12,6 +47,11 @@ export async function GET(
       try {
         const { id } = await params;
 
+        const caller = await getServerCaller(contextSpec);
+        if (!caller) {
+          return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
         const client = createApiClient(contextSpec);
         const { data: report, errors } = await client.models.IncidentReport.get(contextSpec, { id });
 
@@ -23,7 +63,8 @@ export async function GET(
           );
         }
 
-        if (!report) {
+        // Out-of-scope reports look the same as missing ones
+        if (!report || !canReadReport(await getReportScope(contextSpec, caller), report)) {
           return NextResponse.json({ error: "Incident report not found" }, { status: 404 });
         }
 
@@ -51,7 +92,21 @@ export async function PATCH(
         const { id } = await params;
         const body = await request.json();
 
-        if (Object.keys(body).filter(key => key !== "id").length === 0) {
+        const caller = await getServerCaller(contextSpec);
+        if (!caller) {
+          return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        // Only the fields the edit form and the status change send; the company, AI results, Trash,
+        // legal hold and retention fields change through their own routes, the analysis and the retention job.
+        // statusNote goes on the status event, not the report.
+        const { statusNote } = body;
+        const updateData: Record<string, any> = {};
+        for (const field of EDITABLE_FIELDS) {
+          if (body[field] !== undefined) updateData[field] = body[field];
+        }
+
+        if (Object.keys(updateData).length === 0) {
           return NextResponse.json(
             { error: "No fields to update" },
             { status: 400 }
@@ -60,8 +115,92 @@ export async function PATCH(
 
         const client = createApiClient(contextSpec);
 
-        // Remove id from body if present
-        const { id: _, ...updateData } = body;
+        const { data: current, errors: fetchErrors } = await client.models.IncidentReport.get(contextSpec, { id }, {
+          selectionSet: [
+            "id", "status", "companyId", "address", "city", "state", "zip", "deletedAt", "legalHold", "customFieldValues", "photoUrls",
+          ],
+        });
+
+        if (fetchErrors) {
+          console.error("Errors fetching incident report:", fetchErrors);
+          return NextResponse.json(
+            { error: "Failed to fetch incident report", details: fetchErrors },
+            { status: 500 }
+          );
+        }
+
+        if (!current || !canReadReport(await getReportScope(contextSpec, caller), current)) {
+          return NextResponse.json({ error: "Incident report not found" }, { status: 404 });
+        }
+
+        if (current.deletedAt) {
+          return NextResponse.json({ error: "This report is in the Trash; restore it before editing" }, { status: 409 });
+        }
+
+        const holdError = legalHoldError(current, "edited");
+        if (holdError) {
+          return NextResponse.json({ error: holdError }, { status: 409 });
+        }
+
+        // Status changes must follow the claim workflow and are recorded on the timeline
+        let statusChange: { from: ReportStatus; to: ReportStatus } | null = null;
+        const requestedStatus: unknown = updateData.status;
+        if (requestedStatus !== undefined) {
+          if (!isReportStatus(requestedStatus)) {
+            return NextResponse.json({ error: `Unknown status: ${requestedStatus}` }, { status: 400 });
+          }
+
+          if (caller.role === "HomeOwner") {
+            return NextResponse.json({ error: "You are not allowed to change the report status" }, { status: 403 });
+          }
+
+          const currentStatus = current.status || "submitted";
+          // The company may have switched some statuses off
+          const { allowedStatuses } = (await getCompanySettings(client, contextSpec, current.companyId)).workflow;
+          if (requestedStatus === current.status) {
+            delete updateData.status;
+          } else if (!canTransition(current.status, requestedStatus, allowedStatuses)) {
+            return NextResponse.json(
+              {
+                error: `Cannot move a report from ${REPORT_STATUS_LABELS[currentStatus]} to ${REPORT_STATUS_LABELS[requestedStatus]}`,
+                allowedStatuses: getAllowedTransitions(current.status, allowedStatuses),
+              },
+              { status: 409 }
+            );
+          } else {
+            statusChange = { from: currentStatus, to: requestedStatus };
+            // Retention rules count from the last resolution
+            if (requestedStatus === "resolved") updateData.resolvedAt = new Date().toISOString();
+            else if (currentStatus === "resolved") updateData.resolvedAt = null;
+          }
+        }
+
+        // Photos may be kept or removed; new ones must come from /api/upload/photos for this report
+        if (updateData.photoUrls !== undefined) {
+          const photoUrls: unknown = updateData.photoUrls;
+          const existing = new Set(current.photoUrls || []);
+          const valid = Array.isArray(photoUrls) && photoUrls.every((path) =>
+            typeof path === "string" && (existing.has(path) || (!!current.companyId && photosBelongToReport([path], current.companyId, id))));
+          if (!valid) {
+            return NextResponse.json(
+              { error: "Photos must be uploaded through /api/upload/photos for this report" },
+              { status: 400 }
+            );
+          }
+        }
+
+        // Replaced as a set and checked against the company's current fields
+        if (updateData.customFieldValues !== undefined) {
+          const { values, error } = parseCustomFieldValues(
+            await listCustomFields(client, contextSpec, current.companyId),
+            updateData.customFieldValues,
+            current.customFieldValues
+          );
+          if (error) {
+            return NextResponse.json({ error }, { status: 400 });
+          }
+          updateData.customFieldValues = JSON.stringify(values);
+        }
 
         const { data: report, errors } = await client.models.IncidentReport.update(contextSpec, {
           id,
@@ -76,6 +215,30 @@ export async function PATCH(
           );
         }
 
+        if (statusChange) {
+          try {
+            await recordStatusEvent({
+              reportId: id,
+              companyId: current.companyId,
+              fromStatus: statusChange.from,
+              toStatus: statusChange.to,
+              actor: caller.email || caller.username || "unknown",
+              actorRole: caller.role,
+              note: typeof statusNote === "string" ? statusNote.trim() : null,
+            });
+          } catch (eventError) {
+            // The status itself was saved; don't fail the request over the audit entry
+            console.error("Failed to record status event:", eventError);
+          }
+        }
+
+        // New or removed photos get their evidence and duplicate hashes redone
+        const photosChanged = updateData.photoUrls !== undefined && (
+          updateData.photoUrls.length !== (current.photoUrls || []).length
+          || updateData.photoUrls.some((path: string) => !(current.photoUrls || []).includes(path))
+        );
+        if (report && photosChanged) await verifySavedReportPhotos(report);
+
         return NextResponse.json({ report });
       } catch (error: any) {
         console.error("Error updating incident report:", error);
@@ -88,12 +251,15 @@ export async function PATCH(
   });
 }
 
-import { S3Client, DeleteObjectCommand } from "@aws-sdk/client-s3";
-
-// Initialize S3 Client. Note: The bucket 'roof-inspection-poc-output' is likely in us-east-2 or us-east-1.
-// We should preferably use the region from the environment or a safe default.
-const s3Client = new S3Client({ region: process.env.AWS_REGION || "us-east-1" });
-
+/**
+ * Move a report to the Trash. It drops out of every list and can be restored by an admin until
+ * the trash purge removes it after the company's retention. Reports on legal hold cannot be deleted.
+ *
+ * `?permanent=true` deletes a report that is already in the Trash for good, together with its
+ * photos, analyzed copies, archived PDFs and related records (see lib/reports/deletion.ts).
+ * That responds with the outcome per object; anything that could not be deleted right away is
+ * queued for the deletion worker. Add `dryRun=true` to only list what would go.
+ */
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -104,78 +270,97 @@ export async function DELETE(
     operation: async (contextSpec) => {
       try {
         const { id } = await params;
+        const permanent = request.nextUrl.searchParams.get("permanent") === "true";
+        const dryRun = request.nextUrl.searchParams.get("dryRun") === "true";
+
+        const caller = await getServerCaller(contextSpec);
+        if (!caller) {
+          return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        if (!canTrashReports(caller.role) || (permanent && !canManageTrash(caller.role))) {
+          return NextResponse.json({ error: "You are not allowed to delete reports" }, { status: 403 });
+        }
+
+        if (dryRun && !permanent) {
+          return NextResponse.json({ error: "dryRun only applies to permanent deletes" }, { status: 400 });
+        }
+
         const client = createApiClient(contextSpec);
+        const { data: report, errors: fetchErrors } = await client.models.IncidentReport.get(contextSpec, { id }, {
+          selectionSet: [
+            "id", "companyId", "address", "city", "state", "zip", "photoUrls", "aiAnalysis", "analysisRun.*", "deletedAt",
+            "legalHold",
+          ],
+        });
 
-        // 1. Fetch the report first to get AI analysis data
-        const { data: reportToDelete, errors: fetchErrors } = await client.models.IncidentReport.get(contextSpec, { id });
+        if (fetchErrors) {
+          console.error("Errors fetching incident report:", fetchErrors);
+          return NextResponse.json(
+            { error: "Failed to fetch incident report", details: fetchErrors },
+            { status: 500 }
+          );
+        }
 
-        if (fetchErrors || !reportToDelete) {
-          console.error("Error fetching report for deletion:", fetchErrors);
-          // Proceed to delete user record anyway if not found? 
-          // If report is not found, we can't delete associated files, but technically redundant.
-          // We'll proceed to try deleting the DB record just in case.
+        if (!report || !canReadReport(await getReportScope(contextSpec, caller), report)) {
+          return NextResponse.json({ error: "Incident report not found" }, { status: 404 });
         }
 
-        // 2. Cascading Deletion for AI S3 Images
-        if (reportToDelete?.aiAnalysis) {
-          try {
-            const aiData = JSON.parse(reportToDelete.aiAnalysis as string);
-            const aiPathsToDelete = new Set<string>();
-            const bucketName = "roof-inspection-poc-output"; // Hardcoded specific bucket
-
-            // Legacy single path
-            if (aiData.local_output_path) aiPathsToDelete.add(aiData.local_output_path);
-
-            // Summary list
-            if (Array.isArray(aiData.all_local_paths)) {
-              aiData.all_local_paths.forEach((p: string) => aiPathsToDelete.add(p));
-            }
-
-            // Detections
-            if (Array.isArray(aiData.detections)) {
-              aiData.detections.forEach((d: any) => {
-                if (d.local_output_path) aiPathsToDelete.add(d.local_output_path);
-              });
-            }
-            if (aiPathsToDelete.size > 0) {
-              console.log(`Backend: Deleting ${aiPathsToDelete.size} AI images from bucket '${bucketName}'...`);
-
-              const deletePromises = Array.from(aiPathsToDelete).map(async (pathKey) => {
-                // Clean up key if it's a full URL or s3:// URI
-                // The storage logic usually saves relative paths like "incident-photos/..."
-                // But just in case, let's strip prefixes if found.
-                let key = pathKey;
-                if (key.startsWith("s3://")) key = key.replace("s3://" + bucketName + "/", "");
-                if (key.startsWith("http")) {
-                  try {
-                    const url = new URL(key);
-                    key = url.pathname.substring(1); // Remove leading slash
-                  } catch (e) {
-                    // fallback
-                  }
-                }
-
-                try {
-                  const params = {
-                    Bucket: bucketName,
-                    Key: key
-                  };
-                  const command = new DeleteObjectCommand(params);
-                  await s3Client.send(command);
-                } catch (s3Err: any) {
-                  console.error(`Failed to delete S3 Object ${key}:`, s3Err);
-                }
-              });
-
-              await Promise.all(deletePromises);
-              console.log("✅ AI analyzed images deleted successfully.");
-            }
-          } catch (parseErr) {
-            console.error("Backend: Error parsing AI analysis for S3 deletion:", parseErr);
+        const holdError = legalHoldError(report, "deleted");
+        if (holdError) {
+          return NextResponse.json({ error: holdError }, { status: 409 });
+        }
+
+        if (!permanent) {
+          if (report.deletedAt) {
+            return NextResponse.json({ error: "This report is already in the Trash" }, { status: 409 });
+          }
+
+          const deletedBy = caller.email || caller.username || "unknown";
+          const { errors } = await client.models.IncidentReport.update(contextSpec, {
+            id,
+            deletedAt: new Date().toISOString(),
+            deletedBy,
+          }, { selectionSet: ['id'] });
+
+          if (errors) {
+            console.error("Errors moving incident report to the Trash:", errors);
+            return NextResponse.json(
+              { error: "Failed to delete incident report", details: errors },
+              { status: 500 }
+            );
           }
+
+          console.log(`Incident report ${id} moved to the Trash by ${deletedBy}`);
+          return NextResponse.json({ success: true, message: "Incident report moved to the Trash" });
+        }
+
+        // Only reports already in the Trash are deleted for good, so there is always a restore window
+        if (!report.deletedAt) {
+          return NextResponse.json({ error: "Move the report to the Trash before deleting it permanently" }, { status: 409 });
+        }
+
+        // A running analysis would keep writing analyzed copies after they were cleaned up
+        if (isAnalysisActive(report.analysisRun)) {
+          return NextResponse.json(
+            { error: "AI analysis is still running for this report; delete it once the analysis has finished" },
+            { status: 409 }
+          );
         }
 
-        // 3. Delete from DynamoDB
+        // Related records, the deletion queue and the archived PDFs are the server's to change;
+        // access was checked above
+        const s3Client = createServiceS3Client();
+        const targets = await runWithServerRole((serverSpec) =>
+          planReportDeletion(createApiClient(serverSpec, 'iam'), s3Client, serverSpec, report)
+        );
+
+        if (dryRun) {
+          const results: DeletionResult[] = targets.map((target) => ({ ...target, status: "planned" }));
+          return NextResponse.json({ dryRun, results, summary: summarizeDeletion(results) });
+        }
+
+        // The report goes first, with the caller's own client, so the data rules decide who may delete it
         const { errors } = await client.models.IncidentReport.delete(contextSpec, { id }, { selectionSet: ['id'] });
 
         if (errors) {
@@ -186,7 +371,20 @@ export async function DELETE(
           );
         }
 
-        return NextResponse.json({ success: true, message: "Incident report deleted successfully" });
+        const results = await runWithServerRole((serverSpec) =>
+          executeReportDeletion(
+            createApiClient(serverSpec, 'iam'),
+            s3Client,
+            serverSpec,
+            report,
+            targets,
+            caller.email || caller.username || "unknown"
+          )
+        );
+        const summary = summarizeDeletion(results);
+        console.log(`Deleted incident report ${id}:`, summary);
+
+        return NextResponse.json({ success: true, dryRun, results, summary, message: "Incident report deleted successfully" });
       } catch (error: any) {
         console.error("Error deleting incident report:", error);
         return NextResponse.json(
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runWithAmplifyServerContext, createApiClient, runWithServerRole } from "@/lib/amplify-server-utils";
+import { getServerCaller } from "@/lib/auth/server-caller";
+import { canReadReport, getReportScope } from "@/lib/reports/scope";
+import { listStatusEvents } from "@/lib/reports/status-events";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const response = NextResponse.next();
+  return await runWithAmplifyServerContext({
+    nextServerContext: { request, response },
+    operation: async (contextSpec) => {
+      try {
+        const { id } = await params;
+
+        const caller = await getServerCaller(contextSpec);
+        if (!caller) {
+          return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const client = createApiClient(contextSpec, 'apiKey');
+        const { data: report, errors } = await client.models.IncidentReport.get(contextSpec, { id }, {
+          selectionSet: ["id", "companyId", "address", "city", "state", "zip"],
+        });
+
+        if (errors) {
+          console.error("Errors fetching incident report:", errors);
+          return NextResponse.json(
+            { error: "Failed to fetch incident report", details: errors },
+            { status: 500 }
+          );
+        }
+
+        if (!report || !canReadReport(await getReportScope(contextSpec, caller), report)) {
+          return NextResponse.json({ error: "Incident report not found" }, { status: 404 });
+        }
+
+        // The timeline is read with the server role; access was checked above
+        const events = await runWithServerRole((serverSpec) =>
+          listStatusEvents(createApiClient(serverSpec, 'iam'), serverSpec, id)
+        );
+        return NextResponse.json({ events });
+      } catch (error: any) {
+        console.error("Error fetching status events:", error);
+        return NextResponse.json(
+          { error: "Failed to fetch status events", details: error.message },
+          { status: 500 }
+        );
+      }
+    },
+  });
+}
@@ -0,0 +1,247 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUrl } from "aws-amplify/storage/server";
+import { runWithAmplifyServerContext, createApiClient } from "@/lib/amplify-server-utils";
+import { getServerCaller } from "@/lib/auth/server-caller";
+import { toCsv } from "@/lib/export/csv";
+import { toXlsx } from "@/lib/export/xlsx";
+import { getReportScope, type ReportScope } from "@/lib/reports/scope";
+import { parseReportListQuery, sortReports, type ReportListQuery } from "@/lib/reports/query";
+import { canManageTrash } from "@/lib/reports/trash";
+import { listAllReports } from "@/lib/reports/list";
+import { listCustomFields } from "@/lib/companies/custom-fields";
+import {
+  DEFAULT_PHOTO_LINK_TTL,
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  expandCustomFieldColumns,
+  MAX_PHOTO_LINK_TTL,
+  parseExportColumns,
+  toExportRow,
+  type ExportFormat,
+} from "@/lib/reports/export";
+
+const ROWS_PER_CHUNK = 200;
+
+type ExportRow = ReturnType<typeof toExportRow>;
+
+/**
+ * Emit the body as the chunks are produced, so rows reach the client while later pages are still
+ * being read. `onDone` runs once the body is finished, has failed or the client went away.
+ */
+function streamChunks(chunks: AsyncGenerator<string>, onDone: () => void) {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const next = await chunks.next();
+        if (next.done) {
+          controller.close();
+          onDone();
+        } else {
+          controller.enqueue(encoder.encode(next.value));
+        }
+      } catch (error) {
+        console.error("Error streaming incident report export:", error);
+        controller.error(error);
+        onDone();
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+      onDone();
+    },
+  });
+}
+
+/**
+ * Reports in export order, a batch at a time. Index queries come back ordered and are passed on
+ * page by page; table scans are only sorted within a page, so they are read in full and sorted first.
+ */
+async function* reportBatches(pages: AsyncGenerator<{ reports: Record<string, any>[]; ordered: boolean }>, query: ReportListQuery) {
+  const first = await pages.next();
+  if (first.done) return;
+
+  if (first.value.ordered) {
+    yield first.value.reports;
+    for await (const page of pages) yield page.reports;
+    return;
+  }
+
+  const reports = [...first.value.reports];
+  for await (const page of pages) reports.push(...page.reports);
+  const sorted = sortReports(reports, query.sort, query.order);
+  for (let i = 0; i < sorted.length; i += ROWS_PER_CHUNK) yield sorted.slice(i, i + ROWS_PER_CHUNK);
+}
+
+async function* csvChunks(batches: AsyncIterable<ExportRow[]>, keys: string[], labels: Record<string, string>) {
+  yield toCsv([], keys, { labels });
+  for await (const rows of batches) {
+    if (rows.length > 0) yield "\r\n" + toCsv(rows, keys, { header: false });
+  }
+}
+
+// The count is only known at the end, so it follows the reports
+async function* jsonChunks(batches: AsyncIterable<ExportRow[]>, meta: Record<string, any>) {
+  let count = 0;
+  yield `{"meta":${JSON.stringify(meta)},"reports":[`;
+  for await (const rows of batches) {
+    if (rows.length === 0) continue;
+    yield (count > 0 ? "," : "") + rows.map((row) => JSON.stringify(row)).join(",");
+    count += rows.length;
+  }
+  yield `],"count":${count}}`;
+}
+
+// Companies whose reports the export can include: the caller's or the requested one, else all of them
+async function exportCompanyIds(client: ReturnType<typeof createApiClient>, contextSpec: any, scope: ReportScope, query: ReportListQuery) {
+  const companyId = scope.companyId || query.companyId;
+  if (companyId) return [companyId];
+
+  const ids: string[] = [];
+  let nextToken: string | null | undefined = undefined;
+  do {
+    const page: { data: { id: string }[]; nextToken?: string | null; errors?: { message: string }[] } =
+      await client.models.Company.list(contextSpec, { selectionSet: ["id"], nextToken });
+    if (page.errors) {
+      throw new Error(`Failed to list companies: ${page.errors[0].message}`);
+    }
+    ids.push(...page.data.map((c) => c.id));
+    nextToken = page.nextToken;
+  } while (nextToken);
+  return ids;
+}
+
+/**
+ * Export every report matching the reports page filters as CSV, XLSX or JSON.
+ * Accepts the same filter/sort parameters as `GET /api/incident-reports` plus
+ * `format`, `columns` (comma-separated keys) and `linkExpiresIn` (seconds).
+ */
+export async function GET(request: NextRequest) {
+  const response = NextResponse.next();
+  // Errors are returned by the operation; a streamed export is handed over through `respond`
+  // while the operation is still running
+  return new Promise<Response>((respond, reject) => {
+    runWithAmplifyServerContext({
+      nextServerContext: { request, response },
+      operation: async (contextSpec): Promise<NextResponse | null> => {
+        try {
+          const caller = await getServerCaller(contextSpec);
+          if (!caller) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+          }
+
+          if (caller.role === "HomeOwner") {
+            return NextResponse.json({ error: "You are not allowed to export reports" }, { status: 403 });
+          }
+
+          const params = new URLSearchParams(request.nextUrl.searchParams);
+          const format = (params.get("format") || "csv") as ExportFormat;
+          if (!EXPORT_FORMATS.includes(format)) {
+            return NextResponse.json({ error: `format must be one of: ${EXPORT_FORMATS.join(", ")}` }, { status: 400 });
+          }
+
+          const { columns: selectedColumns, error: columnsError } = parseExportColumns(params.get("columns"));
+          if (!selectedColumns) {
+            return NextResponse.json({ error: columnsError }, { status: 400 });
+          }
+
+          const linkExpiresIn = params.get("linkExpiresIn") ? parseInt(params.get("linkExpiresIn")!, 10) : DEFAULT_PHOTO_LINK_TTL;
+          if (isNaN(linkExpiresIn) || linkExpiresIn < 60 || linkExpiresIn > MAX_PHOTO_LINK_TTL) {
+            return NextResponse.json({ error: `linkExpiresIn must be between 60 and ${MAX_PHOTO_LINK_TTL} seconds` }, { status: 400 });
+          }
+
+          ["format", "columns", "linkExpiresIn", "limit", "nextToken"].forEach((key) => params.delete(key));
+
+          const { query, error: queryError } = parseReportListQuery(params);
+          if (!query) {
+            return NextResponse.json({ error: queryError }, { status: 400 });
+          }
+          if (query.deleted && !canManageTrash(caller.role)) {
+            return NextResponse.json({ error: "You are not allowed to view the Trash" }, { status: 403 });
+          }
+
+          const scope = await getReportScope(contextSpec, caller);
+          // API key auth reads across owners; the scope filter is what limits the caller to their tenant
+          const client = createApiClient(contextSpec, 'apiKey');
+
+          // Custom fields differ per company, so there is a column for each field of the companies the
+          // export can include; the reports themselves are only read while the body is written
+          let columns = selectedColumns;
+          if (columns.some((c) => c.key === "customFields")) {
+            const companyIds = scope ? await exportCompanyIds(client, contextSpec, scope, query) : [];
+            const fields = (await Promise.all(companyIds.map((id) => listCustomFields(client, contextSpec, id)))).flat();
+            columns = expandCustomFieldColumns(columns, fields);
+            if (columns.length === 0) {
+              return NextResponse.json({ error: "None of the exported companies have custom fields" }, { status: 400 });
+            }
+          }
+
+          const withLinks = columns.some((c) => c.key === "photoLinks");
+          const toRows = (reports: Record<string, any>[]) => Promise.all(reports.map(async (report) => {
+            const links = withLinks
+              ? await Promise.all((report.photoUrls || []).filter(Boolean).map(async (path: string) => {
+                try {
+                  const { url } = await getUrl(contextSpec, { path, options: { expiresIn: linkExpiresIn } });
+                  return url.toString();
+                } catch (error) {
+                  console.warn("Failed to sign photo link for export:", path, error);
+                  return "";
+                }
+              }))
+              : [];
+            return toExportRow(report, columns, links.filter(Boolean));
+          }));
+
+          const listQuery = query;
+          async function* rowBatches() {
+            if (!scope) return;
+            for await (const reports of reportBatches(listAllReports(client, contextSpec, scope, listQuery), listQuery)) {
+              yield await toRows(reports);
+            }
+          }
+
+          console.log(`Exporting incident reports as ${format} for ${caller.role} ${caller.email}`);
+
+          const exportedAt = new Date().toISOString();
+          const headers = {
+            "Content-Type": EXPORT_CONTENT_TYPES[format],
+            "Content-Disposition": `attachment; filename="incident-reports-${exportedAt.slice(0, 10)}.${format}"`,
+            "Cache-Control": "private, no-store",
+          };
+          const keys = columns.map((c) => c.key);
+
+          // An XLSX file is a zip archive written as a whole, so its rows are collected first
+          if (format === "xlsx") {
+            const rows: ExportRow[] = [];
+            for await (const batch of rowBatches()) rows.push(...batch);
+            return new NextResponse(new Uint8Array(toXlsx(rows, columns, "Incident Reports")), {
+              headers: { ...headers, "X-Export-Row-Count": String(rows.length) },
+            });
+          }
+
+          const chunks = format === "csv"
+            ? csvChunks(rowBatches(), keys, Object.fromEntries(columns.map((c) => [c.key, c.label])))
+            : jsonChunks(rowBatches(), {
+              exportedAt,
+              exportedBy: caller.email || caller.username,
+              columns: keys,
+              ...(withLinks ? { photoLinksExpireAt: new Date(Date.now() + linkExpiresIn * 1000).toISOString() } : {}),
+            });
+
+          // Reading pages and signing links needs the server context, which ends when this operation
+          // returns, so the operation waits until the body has been written
+          await new Promise<void>((finish) => {
+            respond(new NextResponse(streamChunks(chunks, finish), { headers }));
+          });
+          return null;
+        } catch (error: any) {
+          console.error("Error exporting incident reports:", error);
+          return NextResponse.json(
+            { error: "Failed to export incident reports", details: error.message },
+            { status: 500 }
+          );
+        }
+      },
+    }).then((result) => result && respond(result), reject);
+  });
+}
@@ -1,80 +1,60 @@
 import { NextRequest, NextResponse } from "next/server";
 import { runWithAmplifyServerContext, createApiClient } from "@/lib/amplify-server-utils";
+import { getServerCaller } from "@/lib/auth/server-caller";
+import { listCustomFields, parseCustomFieldValues } from "@/lib/companies/custom-fields";
+import { getCompanySettings, missingRequiredFields } from "@/lib/companies/settings";
+import { getReportScope } from "@/lib/reports/scope";
+import { parseReportListQuery } from "@/lib/reports/query";
+import { canManageTrash } from "@/lib/reports/trash";
+import { claimNumberExists, listReportPage } from "@/lib/reports/list";
+import { isReportId, photosBelongToReport } from "@/lib/reports/photos";
+import { verifySavedReportPhotos } from "@/lib/reports/photo-verification";
+import { recordStatusEvent } from "@/lib/reports/status-events";
 
 export async function GET(request: NextRequest) {
-  try {
-    console.log("Fetching incident reports from Amplify Data (API Key auth)...");
-
-    // Read AppSync endpoint and API key from amplify outputs
-    const amplifyOutputs = require("@/amplify_outputs.json");
-    const appsyncUrl = amplifyOutputs.data.url;
-    const apiKey = amplifyOutputs.data.api_key;
-
-    const listQuery = `
-      query ListIncidentReports {
-        listIncidentReports(limit: 1000) {
-          items {
-            id
-            claimNumber
-            companyId
-            companyName
-            firstName
-            lastName
-            phone
-            email
-            address
-            apartment
-            city
-            state
-            zip
-            incidentDate
-            description
-            shingleExposure
-            photoUrls
-            status
-            submittedAt
-            submittedBy
-            createdAt
-            updatedAt
-            aiAnalysis
-            weatherReport
-          }
+  const response = NextResponse.next();
+  return await runWithAmplifyServerContext({
+    nextServerContext: { request, response },
+    operation: async (contextSpec) => {
+      try {
+        const caller = await getServerCaller(contextSpec);
+        if (!caller) {
+          return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const { query, error: queryError } = parseReportListQuery(request.nextUrl.searchParams);
+        if (!query) {
+          return NextResponse.json({ error: queryError }, { status: 400 });
+        }
+        if (query.deleted && !canManageTrash(caller.role)) {
+          return NextResponse.json({ error: "You are not allowed to view the Trash" }, { status: 403 });
+        }
+
+        const scope = await getReportScope(contextSpec, caller);
+        if (!scope) {
+          console.log(`No reports visible to ${caller.role} ${caller.email}`);
+          return NextResponse.json({ reports: [], nextToken: null });
         }
+
+        console.log(`Fetching incident reports for ${caller.role} (company: ${caller.companyId || "n/a"})...`);
+
+        // API key auth reads across owners; the scope filter is what limits the caller to their tenant.
+        // Pages are ordered across each other only when an index serves the sort (see listReports).
+        const client = createApiClient(contextSpec, 'apiKey');
+        const { reports, nextToken, ordered } = await listReportPage(client, contextSpec, scope, query);
+
+        console.log(`Found ${reports.length} incident reports (more: ${!!nextToken})`);
+        return NextResponse.json({ reports, nextToken, sortedWithinPage: !ordered });
+      } catch (error: any) {
+        console.error("Exception fetching incident reports:", error);
+        console.error("Error stack:", error.stack);
+        return NextResponse.json(
+          { error: "Failed to fetch incident reports", details: error.message },
+          { status: 500 }
+        );
       }
-    `;
-
-    // Use direct fetch with API key header to bypass user-pool auth restrictions
-    const appsyncResponse = await fetch(appsyncUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "x-api-key": apiKey,
-      },
-      body: JSON.stringify({ query: listQuery }),
-    });
-
-    const result = await appsyncResponse.json();
-
-    if (result.errors) {
-      console.error("Errors fetching incident reports:", result.errors);
-      return NextResponse.json(
-        { error: "Failed to fetch incident reports", details: result.errors },
-        { status: 500 }
-      );
-    }
-
-    const reports = result.data?.listIncidentReports?.items || [];
-
-    console.log(`Found ${reports.length} incident reports`);
-    return NextResponse.json({ reports });
-  } catch (error: any) {
-    console.error("Exception fetching incident reports:", error);
-    console.error("Error stack:", error.stack);
-    return NextResponse.json(
-      { error: "Failed to fetch incident reports", details: error.message },
-      { status: 500 }
-    );
-  }
+    },
+  });
 }
 
 export async function POST(request: NextRequest) {
@@ -99,10 +79,13 @@ export async function POST(request: NextRequest) {
           description,
           shingleExposure,
           photoUrls,
+          photoMetadata,
           companyId,
           companyName,
           submittedBy,
           weatherReport,
+          customFieldValues,
+          reportId,
         } = body;
 
         // Validate required fields
@@ -113,9 +96,46 @@ export async function POST(request: NextRequest) {
           );
         }
 
+        // The company decides which of the optional fields its reports must have
+        const missing = missingRequiredFields(
+          await getCompanySettings(createApiClient(contextSpec, 'apiKey'), contextSpec, companyId),
+          { apartment, shingleExposure, weatherReport, photoUrls }
+        );
+        if (missing.length > 0) {
+          return NextResponse.json(
+            { error: `Missing required fields: ${missing.join(", ")}` },
+            { status: 400 }
+          );
+        }
+
+        // Checked against the company's custom fields and stored with their types
+        const { values: customValues, error: customFieldError } = parseCustomFieldValues(
+          await listCustomFields(createApiClient(contextSpec, 'apiKey'), contextSpec, companyId),
+          customFieldValues
+        );
+        if (customFieldError) {
+          return NextResponse.json({ error: customFieldError }, { status: 400 });
+        }
+
+        // Photos are uploaded before the report exists, under the id it is about to be created with
+        if (photoUrls?.length && !(companyId && isReportId(reportId) && photosBelongToReport(photoUrls, companyId, reportId))) {
+          return NextResponse.json(
+            { error: "Photos must be uploaded through /api/upload/photos for this report" },
+            { status: 400 }
+          );
+        }
+
+        if (companyId && await claimNumberExists(createApiClient(contextSpec, 'apiKey'), contextSpec, claimNumber, companyId)) {
+          return NextResponse.json(
+            { error: `A report with claim number ${claimNumber} already exists for this company` },
+            { status: 409 }
+          );
+        }
+
         const client = createApiClient(contextSpec);
 
         const { data: report, errors } = await client.models.IncidentReport.create(contextSpec, {
+          ...(isReportId(reportId) ? { id: reportId } : {}),
           claimNumber,
           firstName,
           lastName,
@@ -130,13 +150,14 @@ export async function POST(request: NextRequest) {
           description,
           shingleExposure: shingleExposure || undefined,
           photoUrls: photoUrls || undefined,
+          photoMetadata: photoMetadata || undefined,
           status: "submitted",
           submittedAt: new Date().toISOString(),
           companyId: companyId || undefined,
           companyName: companyName || undefined,
           submittedBy: submittedBy || undefined,
-          aiAnalysis: JSON.stringify({ status: 'pending' }),
           weatherReport: weatherReport || undefined,
+          customFieldValues: JSON.stringify(customValues),
         });
 
         if (errors) {
@@ -148,6 +169,22 @@ export async function POST(request: NextRequest) {
         }
 
         console.log("Incident report created:", report?.id);
+
+        if (report) {
+          const caller = await getServerCaller(contextSpec);
+          try {
+            await recordStatusEvent({
+              reportId: report.id,
+              companyId: report.companyId,
+              toStatus: "submitted",
+              actor: caller?.email || submittedBy || "unknown",
+              actorRole: caller?.role,
+            });
+          } catch (eventError) {
+            console.error("Failed to record status event:", eventError);
+          }
+          await verifySavedReportPhotos(report);
+        }
         return NextResponse.json({ report }, { status: 201 });
       } catch (error: any) {
         console.error("Error creating incident report:", error);
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { runWithAmplifyServerContext, createApiClient } from "@/lib/amplify-server-utils";
+import { listCustomFields } from "@/lib/companies/custom-fields";
+import { parseCompanySettings, publicCompanySettings } from "@/lib/companies/settings";
 
 /**
  * Public endpoint to fetch company information.
@@ -21,7 +23,7 @@ export async function GET(
                 const client = createApiClient(contextSpec, 'apiKey');
 
                 const { data: company, errors } = await client.models.Company.get(contextSpec, { id }, {
-                    selectionSet: ['id', 'name', 'logoUrl', 'isActive'],
+                    selectionSet: ['id', 'name', 'logoUrl', 'isActive', 'settings'],
                 });
 
                 if (errors) {
@@ -36,7 +38,15 @@ export async function GET(
                     return NextResponse.json({ error: "Company not found" }, { status: 404 });
                 }
 
-                return NextResponse.json({ company });
+                // Only what the form needs; recipients and retention rules stay internal
+                const { settings, ...info } = company;
+                return NextResponse.json({
+                    company: {
+                        ...info,
+                        settings: publicCompanySettings(parseCompanySettings(settings)),
+                        customFields: await listCustomFields(client, contextSpec, id),
+                    },
+                });
             } catch (error: any) {
                 console.error("Error in public company fetch:", error);
                 return NextResponse.json(
@@ -1,5 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { runWithAmplifyServerContext, createApiClient } from "@/lib/amplify-server-utils";
+import { listCustomFields, parseCustomFieldValues } from "@/lib/companies/custom-fields";
+import { missingRequiredFields, parseCompanySettings } from "@/lib/companies/settings";
+import { claimNumberExists } from "@/lib/reports/list";
+import { isReportId, photosBelongToReport } from "@/lib/reports/photos";
+import { verifySavedReportPhotos } from "@/lib/reports/photo-verification";
+import { recordStatusEvent } from "@/lib/reports/status-events";
 
 export async function POST(request: NextRequest) {
   const response = NextResponse.next();
@@ -8,7 +14,26 @@ export async function POST(request: NextRequest) {
     operation: async (contextSpec) => {
       try {
         const body = await request.json();
-        const { companyId, ...reportData } = body;
+        const { companyId, reportId, customFieldValues } = body;
+        // Only the form's own fields: status, analysis, legal hold and retention fields are never taken from anonymous callers
+        const reportData = {
+          claimNumber: body.claimNumber,
+          firstName: body.firstName,
+          lastName: body.lastName,
+          phone: body.phone,
+          email: body.email,
+          address: body.address,
+          apartment: body.apartment || undefined,
+          city: body.city,
+          state: body.state,
+          zip: body.zip,
+          incidentDate: body.incidentDate,
+          description: body.description,
+          shingleExposure: body.shingleExposure || undefined,
+          weatherReport: body.weatherReport || undefined,
+          photoUrls: body.photoUrls || undefined,
+          photoMetadata: body.photoMetadata || undefined,
+        };
 
         // Validate company exists and is active
         if (!companyId) {
@@ -22,7 +47,7 @@ export async function POST(request: NextRequest) {
 
         // Fetch company to validate it exists and is active
         const { data: company, errors: companyErrors } = await client.models.Company.get(contextSpec, { id: companyId }, {
-          selectionSet: ['id', 'name', 'isActive'],
+          selectionSet: ['id', 'name', 'isActive', 'settings'],
         });
 
         if (companyErrors) {
@@ -47,9 +72,42 @@ export async function POST(request: NextRequest) {
           );
         }
 
+        const missing = missingRequiredFields(parseCompanySettings(company.settings), reportData);
+        if (missing.length > 0) {
+          return NextResponse.json(
+            { error: `Missing required fields: ${missing.join(", ")}` },
+            { status: 400 }
+          );
+        }
+
+        const { values: customValues, error: customFieldError } = parseCustomFieldValues(
+          await listCustomFields(client, contextSpec, companyId),
+          customFieldValues
+        );
+        if (customFieldError) {
+          return NextResponse.json({ error: customFieldError }, { status: 400 });
+        }
+
+        // Photos are uploaded before the report exists, under the id it is about to be created with
+        if (reportData.photoUrls?.length && !(isReportId(reportId) && photosBelongToReport(reportData.photoUrls, companyId, reportId))) {
+          return NextResponse.json(
+            { error: "Photos must be uploaded through /api/upload/photos for this report" },
+            { status: 400 }
+          );
+        }
+
+        if (reportData.claimNumber && await claimNumberExists(client, contextSpec, reportData.claimNumber, companyId)) {
+          return NextResponse.json(
+            { error: `A report with claim number ${reportData.claimNumber} already exists for this company` },
+            { status: 409 }
+          );
+        }
+
         // Create incident report
         const { data: report, errors } = await client.models.IncidentReport.create(contextSpec, {
           ...reportData,
+          ...(isReportId(reportId) ? { id: reportId } : {}),
+          customFieldValues: JSON.stringify(customValues),
           companyId,
           companyName: company.name,
           status: "submitted",
@@ -65,6 +123,20 @@ export async function POST(request: NextRequest) {
           );
         }
 
+        if (report) {
+          try {
+            await recordStatusEvent({
+              reportId: report.id,
+              companyId,
+              toStatus: "submitted",
+              actor: reportData.email || "Public Form Submission",
+            });
+          } catch (eventError) {
+            console.error("Failed to record status event:", eventError);
+          }
+          await verifySavedReportPhotos({ ...reportData, id: report.id, companyId });
+        }
+
         return NextResponse.json(
           {
             success: true,
@@ -1,83 +1,102 @@
+import { randomUUID } from "crypto";
 import { NextRequest, NextResponse } from "next/server";
-import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
-import { fetchAuthSession } from "aws-amplify/auth/server";
-import { runWithAmplifyServerContext } from "@/lib/amplify-server-utils";
-import outputs from "@/amplify_outputs.json";
+import { createPresignedPost } from "@aws-sdk/s3-presigned-post";
+import { runWithAmplifyServerContext, createApiClient } from "@/lib/amplify-server-utils";
+import { getServerCaller } from "@/lib/auth/server-caller";
+import { PHOTO_UPLOAD_EXTENSIONS, PHOTO_UPLOAD_MAX_BYTES, isReportId, reportPhotoPrefix } from "@/lib/reports/photos";
+import { canReadReport, getReportScope } from "@/lib/reports/scope";
+import { STORAGE_BUCKET, createServerS3Client, createServiceS3Client } from "@/lib/storage/server-s3";
 
+// Long enough for a slow field connection to finish one photo
+const UPLOAD_EXPIRES_SECONDS = 300;
+
+/**
+ * Issue a presigned POST for one incident photo. The key is chosen here, under the report's
+ * prefix, and the policy pins the content type and caps the size. Staff POSTs are signed with
+ * their own credentials, so the storage access rules still apply. Guests and homeowners have no
+ * storage write access of their own; theirs are signed by the server, and the policy conditions
+ * are all they can upload with.
+ *
+ * Body: { companyId, reportId, contentType, size }. `reportId` is the id the report has, or will
+ * be created with for a new report; guests and homeowners may only upload for new reports.
+ */
 export async function POST(request: NextRequest) {
   const response = NextResponse.next();
   return await runWithAmplifyServerContext({
     nextServerContext: { request, response },
     operation: async (contextSpec) => {
       try {
-        console.log("=== PHOTO UPLOAD START (S3 + AMPLIFY CONTEXT) ===");
+        const { companyId, reportId, contentType, size } = await request.json();
 
-        // 1. Get credentials from Amplify Server Context
-        const session = await fetchAuthSession(contextSpec);
-        const credentials = session.credentials;
+        if (typeof companyId !== "string" || !companyId) {
+          return NextResponse.json({ error: "A company is required to upload photos" }, { status: 400 });
+        }
+        if (!isReportId(reportId)) {
+          return NextResponse.json({ error: "reportId must be a UUID" }, { status: 400 });
+        }
 
-        if (!credentials) {
-          console.error("❌ No credentials returned from fetchAuthSession");
+        const extension = PHOTO_UPLOAD_EXTENSIONS[contentType];
+        if (!extension) {
+          return NextResponse.json({ error: `Unsupported photo type: ${contentType || "unknown"}` }, { status: 400 });
+        }
+        if (typeof size !== "number" || size <= 0 || size > PHOTO_UPLOAD_MAX_BYTES) {
           return NextResponse.json(
-            { error: "Internal Server Error", details: "Failed to load authentication context" },
-            { status: 500 }
+            { error: `Photos must be smaller than ${PHOTO_UPLOAD_MAX_BYTES / (1024 * 1024)} MB` },
+            { status: 400 }
           );
         }
 
-        console.log("✅ Credentials obtained from session");
-
-        // 2. Initialize S3 client with these credentials
-        const bucket = outputs.storage.bucket_name;
-        const region = outputs.storage.aws_region;
+        const caller = await getServerCaller(contextSpec);
+        const client = createApiClient(contextSpec, 'apiKey');
 
-        const s3Client = new S3Client({
-          region,
-          credentials: {
-            accessKeyId: credentials.accessKeyId,
-            secretAccessKey: credentials.secretAccessKey,
-            sessionToken: credentials.sessionToken || "",
-          },
+        const { data: company } = await client.models.Company.get(contextSpec, { id: companyId }, {
+          selectionSet: ['id', 'isActive'],
         });
-
-        // 3. Process form data
-        const formData = await request.formData();
-        const file = formData.get("file") as File;
-        const path = formData.get("path") as string;
-
-        if (!file || !path) {
-          return NextResponse.json(
-            { error: "File and path are required" },
-            { status: 400 }
-          );
+        if (!company) {
+          return NextResponse.json({ error: "Invalid company" }, { status: 404 });
         }
 
-        console.log(`Uploading file: ${file.name} to bucket: ${bucket}, path: ${path}`);
-        const bytes = await file.arrayBuffer();
+        const isStaff = caller && caller.role !== "HomeOwner";
+        if (isStaff && caller.role !== "SuperAdmin" && caller.companyId !== companyId) {
+          return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+        }
+        if (!isStaff && company.isActive === false) {
+          return NextResponse.json({ error: "This company is not currently accepting incident reports" }, { status: 403 });
+        }
 
-        // 4. Upload to S3
-        const command = new PutObjectCommand({
-          Bucket: bucket,
-          Key: path,
-          Body: Buffer.from(bytes),
-          ContentType: file.type,
+        // An existing report only takes photos from staff who can see it, and only under its own company
+        const { data: existing } = await client.models.IncidentReport.get(contextSpec, { id: reportId }, {
+          selectionSet: ['id', 'companyId', 'address', 'city', 'state', 'zip'],
         });
+        if (existing) {
+          const allowed = isStaff
+            && existing.companyId === companyId
+            && canReadReport(await getReportScope(contextSpec, caller), existing);
+          if (!allowed) {
+            return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+          }
+        }
 
-        await s3Client.send(command);
-        console.log("✅ Successfully uploaded to S3");
-
-        return NextResponse.json({
-          success: true,
-          path: path,
-          url: `https://${bucket}.s3.${region}.amazonaws.com/${path}`,
+        const key = `${reportPhotoPrefix(companyId, reportId)}${randomUUID()}.${extension}`;
+        const s3Client = isStaff ? await createServerS3Client(contextSpec) : createServiceS3Client();
+        const { url, fields } = await createPresignedPost(s3Client, {
+          Bucket: STORAGE_BUCKET,
+          Key: key,
+          Conditions: [
+            ["content-length-range", 1, PHOTO_UPLOAD_MAX_BYTES],
+            ["eq", "$Content-Type", contentType],
+          ],
+          Fields: { "Content-Type": contentType },
+          Expires: UPLOAD_EXPIRES_SECONDS,
         });
+
+        return NextResponse.json({ url, fields, path: key, reportId });
       } catch (error: any) {
-        console.error("❌ Error uploading photo to S3:", error);
+        console.error("Error issuing photo upload:", error);
         return NextResponse.json(
-          { error: "Failed to upload photo", details: error.message },
+          { error: "Failed to start photo upload", details: error.message },
           { status: 500 }
         );
-      } finally {
-        console.log("=== PHOTO UPLOAD END ===");
       }
     },
   });
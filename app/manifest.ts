@@ -0,0 +1,19 @@
+import type { MetadataRoute } from "next";
+
+// Installing the app opens straight into the incident form for field work
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "ClaimVerifAI",
+    short_name: "ClaimVerifAI",
+    description: "Submit and review roof incident reports, even without a connection.",
+    start_url: "/Dashboard/incident-form",
+    scope: "/",
+    display: "standalone",
+    background_color: "#ffffff",
+    theme_color: "#1d4ed8",
+    icons: [
+      { src: "/icons/icon.svg", sizes: "any", type: "image/svg+xml", purpose: "any" },
+      { src: "/icons/icon.svg", sizes: "any", type: "image/svg+xml", purpose: "maskable" },
+    ],
+  };
+}
@@ -5,12 +5,16 @@ import { useParams } from "next/navigation";
 import { CheckCircle, AlertCircle, Loader2 } from "@/components/Icons";
 import { IncidentReportForm } from "@/components/forms/IncidentReportForm";
 import { Button } from "@/components/ui/Button";
+import type { PublicCompanySettings } from "@/lib/companies/settings";
+import type { CustomFieldDefinition } from "@/lib/companies/custom-fields";
 
 interface CompanyInfo {
   id: string;
   name: string;
   logoUrl?: string;
   isActive: boolean;
+  settings: PublicCompanySettings;
+  customFields: CustomFieldDefinition[];
 }
 
 export default function PublicIncidentFormPage() {
@@ -94,11 +98,16 @@ export default function PublicIncidentFormPage() {
     );
   }
 
+  const { primaryColor } = company.settings.branding;
+
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-8 px-4">
       <div className="max-w-3xl mx-auto">
         {/* Company Header */}
-        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6 text-center">
+        <div
+          className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6 text-center"
+          style={primaryColor ? { borderTop: `4px solid ${primaryColor}` } : undefined}
+        >
           {company.logoUrl && (
             <img
               src={company.logoUrl}
@@ -106,7 +115,9 @@ export default function PublicIncidentFormPage() {
               className="h-16 mx-auto mb-4 object-contain"
             />
           )}
-          <h1 className="text-3xl font-bold mb-2">{company.name}</h1>
+          <h1 className="text-3xl font-bold mb-2" style={primaryColor ? { color: primaryColor } : undefined}>
+            {company.name}
+          </h1>
           <p className="text-gray-600 dark:text-gray-400">Incident Report Form</p>
         </div>
 
@@ -116,6 +127,8 @@ export default function PublicIncidentFormPage() {
             publicMode={true}
             companyId={companyId}
             companyName={company.name}
+            settings={company.settings}
+            customFields={company.customFields}
             onSuccess={() => setSubmitSuccess(true)}
           />
         </div>
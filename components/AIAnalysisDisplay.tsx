@@ -1,19 +1,14 @@
 "use client";
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { getUrl } from 'aws-amplify/storage';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/Card";
 import { Badge } from "@/components/ui/Badge";
-import { CheckCircle2, AlertTriangle, Info, ShieldCheck, ShieldAlert, Zap, ImageIcon } from "@/components/Icons";
-
-interface AIDetection {
-    label: string;
-    confidence: number;
-    bbox: number[];
-    image_reference: string;
-    notes: string;
-    local_output_path?: string;
-}
+import { Button } from "@/components/ui/Button";
+import { CheckCircle2, AlertTriangle, Info, ShieldCheck, ShieldAlert, Zap, ImageIcon, XCircle } from "@/components/Icons";
+import { DetectionViewer, type ViewerPhoto } from "@/components/DetectionViewer";
+import { groupDetectionsByPhoto, isAnalysisActive, SEVERITY_LEVEL_LABELS, type AIDetection, type AnalysisRollup, type AnalysisRun, type ImageResult } from "@/lib/reports/analysis";
+import { duplicatePhotoSignals, photoEvidenceSignals, type PhotoDuplicate, type PhotoEvidenceEntry } from "@/lib/reports/photo-evidence";
 
 interface AIAnalysisData {
     image_id: string;
@@ -21,7 +16,7 @@ interface AIAnalysisData {
     detections: AIDetection[];
     peril_match: {
         reported_peril: string;
-        match: "match" | "partial_match" | "no_match";
+        match: "match" | "partial_match" | "no_match" | "unknown";
         reason: string;
     };
     fraud_signals: string[];
@@ -29,19 +24,31 @@ interface AIAnalysisData {
     final_assessment: string;
     local_output_path?: string;
     all_local_paths?: string[];
+    images?: ImageResult[]; // Per-photo outcome, in photo order
+    rollup?: AnalysisRollup; // Report-level summary of the per-photo results
     status?: string; // pending, completed, failed
 }
 
 interface AIAnalysisDisplayProps {
     analysis: string | AIAnalysisData | null;
+    analysisRun?: AnalysisRun | null;
     reportId?: string;
+    photoUrls?: (string | null)[] | null; // Original uploads, for drawing boxes over the source photos
+    incidentDate?: string | null; // For explaining photos flagged as taken before the incident
+    // Called once a polled run finishes so the parent can refresh its copy of the report
+    onAnalysisUpdate?: (update: { aiAnalysis: any; analysisRun: AnalysisRun | null }) => void;
 }
 
-export function AIAnalysisDisplay({ analysis, reportId }: AIAnalysisDisplayProps) {
+export function AIAnalysisDisplay({ analysis, analysisRun, reportId, photoUrls, incidentDate, onAnalysisUpdate }: AIAnalysisDisplayProps) {
     const [imageUrls, setImageUrls] = useState<Map<string, string>>(new Map());
+    const [originalUrls, setOriginalUrls] = useState<Map<string, string>>(new Map());
     const [analysisData, setAnalysisData] = useState<AIAnalysisData | null>(null);
+    const [run, setRun] = useState<AnalysisRun | null>(analysisRun || null);
+    const [isRetrying, setIsRetrying] = useState(false);
     const [loadErrors, setLoadErrors] = useState<string[]>([]);
     const [selectedImage, setSelectedImage] = useState<{ path: string, url: string } | null>(null);
+    const [photoEvidence, setPhotoEvidence] = useState<PhotoEvidenceEntry[]>([]);
+    const [duplicates, setDuplicates] = useState<PhotoDuplicate[]>([]);
 
     // Initialize state from props
     useEffect(() => {
@@ -52,13 +59,22 @@ export function AIAnalysisDisplay({ analysis, reportId }: AIAnalysisDisplayProps
             } catch (e) {
                 console.error("Failed to parse initial AI analysis:", e);
             }
+        } else {
+            setAnalysisData(null);
         }
     }, [analysis]);
 
-    // Polling logic for pending OR analyzing status
     useEffect(() => {
-        // Poll if status is 'pending' OR 'analyzing' AND we have a reportId
-        if (analysisData && (analysisData.status === 'pending' || analysisData.status === 'analyzing') && reportId) {
+        setRun(analysisRun || null);
+    }, [analysisRun]);
+
+    // Reports analyzed before analysisRun existed kept their progress in aiAnalysis.status
+    const legacyInProgress = !run && (analysisData?.status === 'pending' || analysisData?.status === 'analyzing');
+    const inProgress = isAnalysisActive(run) || legacyInProgress;
+
+    // Poll while the run is queued or running
+    useEffect(() => {
+        if (inProgress && reportId) {
             console.log(`Polling for report ${reportId}...`);
             const interval = setInterval(async () => {
                 try {
@@ -74,19 +90,21 @@ export function AIAnalysisDisplay({ analysis, reportId }: AIAnalysisDisplayProps
                     if (res.ok) {
                         const json = await res.json();
                         const updatedReport = json.report; // Single report response
+                        const updatedRun: AnalysisRun | null = updatedReport?.analysisRun || null;
 
+                        setRun(updatedRun);
                         if (updatedReport?.aiAnalysis) {
                             try {
-                                const newAnalysis = JSON.parse(updatedReport.aiAnalysis);
-                                // If status changed from pending/analyzing to something else (or just has valid detections)
-                                if ((newAnalysis.status !== 'pending' && newAnalysis.status !== 'analyzing') || newAnalysis.detections) {
-                                    console.log("Analysis completed! Updating UI...", newAnalysis);
-                                    setAnalysisData(newAnalysis);
-                                }
+                                setAnalysisData(JSON.parse(updatedReport.aiAnalysis));
                             } catch (err) {
                                 console.error("Error parsing polled analysis:", err);
                             }
                         }
+
+                        if (updatedRun && !isAnalysisActive(updatedRun)) {
+                            console.log(`Analysis ${updatedRun.status}! Updating UI...`);
+                            onAnalysisUpdate?.({ aiAnalysis: updatedReport.aiAnalysis, analysisRun: updatedRun });
+                        }
                     }
                 } catch (e) {
                     console.error("Polling fetch error:", e);
@@ -95,7 +113,32 @@ export function AIAnalysisDisplay({ analysis, reportId }: AIAnalysisDisplayProps
 
             return () => clearInterval(interval);
         }
-    }, [analysisData, reportId]);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [inProgress, reportId]);
+
+    // Capture time, location and duplicate checks; re-read when a run finishes, since starting one re-checks the photos
+    useEffect(() => {
+        if (!reportId || inProgress) return;
+
+        const fetchEvidence = async () => {
+            try {
+                const res = await fetch(`/api/incident-reports/${reportId}/photo-evidence`);
+                if (!res.ok) throw new Error(`Failed to fetch photo evidence (${res.status})`);
+                const json = await res.json();
+                setPhotoEvidence(json.evidence || []);
+                setDuplicates(json.duplicates || []);
+            } catch (err) {
+                console.error("Error fetching photo evidence:", err);
+            }
+        };
+
+        fetchEvidence();
+    }, [reportId, inProgress]);
+
+    const photoSignals = useMemo(
+        () => [...photoEvidenceSignals(photoEvidence, incidentDate), ...duplicatePhotoSignals(duplicates)],
+        [photoEvidence, duplicates, incidentDate]
+    );
 
     // Fetch image URLs when analysisData updates (and is valid)
     useEffect(() => {
@@ -135,10 +178,68 @@ export function AIAnalysisDisplay({ analysis, reportId }: AIAnalysisDisplayProps
         fetchUrls();
     }, [analysisData]);
 
-    if (!analysisData) return null;
+    // Detections grouped by the original photo they were found in
+    const detectionsByPhoto = useMemo(
+        () => groupDetectionsByPhoto(analysisData?.detections ? analysisData : null, photoUrls),
+        [analysisData, photoUrls]
+    );
+
+    useEffect(() => {
+        if (detectionsByPhoto.size === 0) return;
+
+        const fetchOriginals = async () => {
+            const newUrlMap = new Map<string, string>();
+            await Promise.all(Array.from(detectionsByPhoto.keys()).map(async (path) => {
+                try {
+                    const res = await getUrl({ path });
+                    newUrlMap.set(path, res.url.toString());
+                } catch (err) {
+                    console.error("Error fetching original photo URL:", path, err);
+                }
+            }));
+            setOriginalUrls(newUrlMap);
+        };
+
+        fetchOriginals();
+    }, [detectionsByPhoto]);
+
+    const viewerPhotos: ViewerPhoto[] = Array.from(detectionsByPhoto.entries())
+        .filter(([path]) => originalUrls.has(path))
+        .map(([path, detections]) => ({ path, url: originalUrls.get(path)!, detections }));
+
+    const retryFailedPhotos = async () => {
+        if (!reportId) return;
+        setIsRetrying(true);
+        try {
+            const res = await fetch(`/api/incident-reports/${reportId}/analyze`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ retryFailed: true })
+            });
+            const json = await res.json();
+            if (!res.ok) {
+                throw new Error(json.error || "Failed to start retry");
+            }
+            // A queued run switches the view to progress and starts polling
+            setRun(json.analysisRun);
+        } catch (err: any) {
+            console.error("Error retrying failed photos:", err);
+            alert(`Retry failed: ${err?.message || "Unknown error"}`);
+        } finally {
+            setIsRetrying(false);
+        }
+    };
+
+    if (inProgress) {
+        const total = run?.photosTotal || 0;
+        const processed = run?.photosProcessed || 0;
+        const failed = run?.photosFailed || 0;
+        const progressText = run?.status === 'queued'
+            ? "Queued, waiting for the analysis worker to start..."
+            : total > 0
+                ? `${processed - failed} of ${total} photos analyzed${failed > 0 ? ` (${failed} failed)` : ""}`
+                : "Processing images and generating damage assessment...";
 
-    // Check for pending OR analyzing status
-    if (analysisData.status === 'pending' || analysisData.status === 'analyzing') {
         return (
             <Card className="mt-8 border-blue-100 bg-blue-50/10 dark:bg-blue-900/10 overflow-hidden shadow-sm animate-pulse">
                 <CardContent className="p-8 flex flex-col items-center justify-center text-center space-y-4">
@@ -147,17 +248,42 @@ export function AIAnalysisDisplay({ analysis, reportId }: AIAnalysisDisplayProps
                     </div>
                     <div>
                         <h3 className="text-lg font-bold text-gray-900 dark:text-gray-100">AI Analysis in Progress</h3>
-                        <p className="text-sm text-gray-500 dark:text-gray-400">Processing images and generating damage assessment...</p>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">{progressText}</p>
                     </div>
                     <div className="w-full max-w-xs h-2 bg-gray-100 dark:bg-gray-800 rounded-full overflow-hidden">
-                        <div className="h-full bg-blue-500 animate-[progress_2s_ease-in-out_infinite]" style={{ width: '50%' }}></div>
+                        {total > 0 ? (
+                            <div className="h-full bg-blue-500 transition-all" style={{ width: `${Math.round((processed / total) * 100)}%` }}></div>
+                        ) : (
+                            <div className="h-full bg-blue-500 animate-[progress_2s_ease-in-out_infinite]" style={{ width: '50%' }}></div>
+                        )}
+                    </div>
+                </CardContent>
+            </Card>
+        );
+    }
+
+    if (run?.status === 'failed' && !analysisData?.detections) {
+        return (
+            <Card className="mt-8 border-red-100 dark:border-red-900/50 bg-red-50/20 dark:bg-red-900/10 overflow-hidden shadow-sm">
+                <CardContent className="p-6 flex items-start gap-3">
+                    <XCircle className="w-5 h-5 text-red-600 dark:text-red-400 shrink-0 mt-0.5" />
+                    <div>
+                        <h3 className="text-sm font-bold text-red-800 dark:text-red-300">AI Analysis Failed</h3>
+                        <p className="text-sm text-red-700 dark:text-red-400">{run.error || "The analysis could not be completed."}</p>
+                        {run.completedAt && (
+                            <p className="text-xs text-red-700/70 dark:text-red-400/70 mt-1">
+                                {new Date(run.completedAt).toLocaleString("en-US")}
+                            </p>
+                        )}
                     </div>
                 </CardContent>
             </Card>
         );
     }
 
-    if (!analysisData.detections) return null;
+    if (!analysisData?.detections) return null;
+
+    const unanalyzedImages = analysisData.images?.filter(img => img.status !== 'ok') || [];
 
     const getMatchColor = (match: string) => {
         switch (match) {
@@ -168,6 +294,18 @@ export function AIAnalysisDisplay({ analysis, reportId }: AIAnalysisDisplayProps
         }
     };
 
+    const getSeverityColor = (level: string) => {
+        switch (level) {
+            case 'severe': return 'bg-red-600';
+            case 'high': return 'bg-orange-500';
+            case 'moderate': return 'bg-yellow-500';
+            case 'low': return 'bg-green-500';
+            default: return 'bg-gray-400';
+        }
+    };
+
+    const rollup = analysisData.rollup;
+
     // Filter detections for the selected image
     const selectedDetections = analysisData.detections?.filter(d =>
         d.local_output_path === selectedImage?.path ||
@@ -191,12 +329,55 @@ export function AIAnalysisDisplay({ analysis, reportId }: AIAnalysisDisplayProps
                             </div>
                         </div>
                         <Badge variant="outline" className="w-fit text-white border-white/40 bg-blue-700/40 px-3 py-1 font-semibold text-xs whitespace-nowrap">
-                            {analysisData.total_images_analyzed || imageUrls.size || 0} Images Analyzed
+                            {analysisData.images
+                                ? `${analysisData.total_images_analyzed} of ${analysisData.images.length} Photos Analyzed`
+                                : `${analysisData.total_images_analyzed || imageUrls.size || 0} Images Analyzed`}
                         </Badge>
                     </div>
                 </CardHeader>
 
                 <CardContent className="p-6 space-y-8">
+                    {unanalyzedImages.length > 0 && (
+                        <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md p-4 space-y-2">
+                            <div className="flex items-center justify-between gap-4">
+                                <h4 className="text-yellow-800 dark:text-yellow-300 font-bold text-sm flex items-center gap-2">
+                                    <AlertTriangle className="w-4 h-4" /> Partial Analysis
+                                </h4>
+                                {reportId && (
+                                    <Button
+                                        onClick={retryFailedPhotos}
+                                        disabled={isRetrying}
+                                        variant="outline"
+                                        size="sm"
+                                        className="h-7 text-xs border-yellow-300 dark:border-yellow-700"
+                                    >
+                                        {isRetrying ? "Starting..." : `Retry ${unanalyzedImages.length} failed photo${unanalyzedImages.length > 1 ? "s" : ""}`}
+                                    </Button>
+                                )}
+                            </div>
+                            <p className="text-xs text-yellow-700 dark:text-yellow-400">
+                                Results below cover the photos that were analyzed.
+                            </p>
+                            <ul className="text-xs text-yellow-700 dark:text-yellow-400 list-disc pl-5">
+                                {unanalyzedImages.map((img) => (
+                                    <li key={img.path}>
+                                        <span className="font-semibold">Photo {(analysisData.images?.indexOf(img) ?? 0) + 1} {img.status}:</span> {img.reason || "No reason recorded"}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                    {unanalyzedImages.length === 0 && run?.status === 'partial' && (
+                        <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md p-4">
+                            <h4 className="text-yellow-800 dark:text-yellow-300 font-bold text-sm flex items-center gap-2">
+                                <AlertTriangle className="w-4 h-4" /> Partial Analysis
+                            </h4>
+                            <p className="text-xs text-yellow-700 dark:text-yellow-400">
+                                {run.error || "Some photos could not be analyzed."} Results below cover the photos that were analyzed.
+                            </p>
+                        </div>
+                    )}
+
                     {/* Debugging Alerts */}
                     {(analysisData as any).copy_warnings && (analysisData as any).copy_warnings.length > 0 && (
                         <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md p-4 space-y-2">
@@ -241,6 +422,11 @@ export function AIAnalysisDisplay({ analysis, reportId }: AIAnalysisDisplayProps
                             <p className="text-sm text-muted-foreground leading-relaxed font-medium">
                                 Primary damage identified as <span className="text-blue-700 dark:text-blue-400 font-bold">{analysisData.final_assessment}</span>.
                             </p>
+                            {rollup && (
+                                <p className="text-xs text-muted-foreground mt-2">
+                                    <span className="font-bold text-foreground">{Math.round(rollup.assessment.confidence * 100)}% confidence</span> — {rollup.assessment.summary}
+                                </p>
+                            )}
                         </div>
 
                         <div className="bg-card p-5 rounded-xl border border-blue-100 dark:border-blue-900/30 shadow-sm transition-all hover:border-blue-300 dark:hover:border-blue-700">
@@ -257,9 +443,85 @@ export function AIAnalysisDisplay({ analysis, reportId }: AIAnalysisDisplayProps
                             <p className="text-xs text-muted-foreground italic leading-normal border-l-2 border-blue-200 dark:border-blue-800 pl-3">
                                 "{analysisData.peril_match.reason}"
                             </p>
+                            {rollup && (
+                                <div className="flex flex-wrap gap-2 mt-3">
+                                    {(['match', 'partial_match', 'no_match'] as const).filter(m => rollup.peril.votes[m] > 0).map(m => (
+                                        <Badge key={m} variant="outline" className={`${getMatchColor(m)} border px-2 py-0.5 text-[10px]`}>
+                                            {m.replace('_', ' ')}: {rollup.peril.votes[m].toFixed(2)}
+                                        </Badge>
+                                    ))}
+                                    <span className="text-[10px] text-muted-foreground self-center">confidence-weighted votes</span>
+                                </div>
+                            )}
                         </div>
                     </div>
 
+                    {/* Report Rollup: Severity & Detection Summary */}
+                    {rollup && (
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                            <div className="bg-card p-5 rounded-xl border border-blue-100 dark:border-blue-900/30 shadow-sm">
+                                <h4 className="text-[10px] font-black text-blue-600 dark:text-blue-400 uppercase tracking-[0.2em] mb-3">Overall Severity</h4>
+                                <div className="flex items-baseline gap-2 mb-3">
+                                    <span className="text-3xl font-black text-foreground tracking-tighter">{rollup.severity.score}</span>
+                                    <span className="text-xs text-muted-foreground">/ 100</span>
+                                    <Badge variant="outline" className="ml-auto text-[10px] font-bold">
+                                        {SEVERITY_LEVEL_LABELS[rollup.severity.level].toUpperCase()}
+                                    </Badge>
+                                </div>
+                                <div className="h-2 rounded-full bg-muted overflow-hidden">
+                                    <div
+                                        className={`h-full ${getSeverityColor(rollup.severity.level)}`}
+                                        style={{ width: `${rollup.severity.score}%` }}
+                                    />
+                                </div>
+                                <p className="text-[10px] text-muted-foreground mt-2">
+                                    Based on {rollup.images_analyzed} analyzed photo{rollup.images_analyzed === 1 ? "" : "s"}
+                                </p>
+                            </div>
+
+                            <div className="md:col-span-2 bg-card p-5 rounded-xl border border-blue-100 dark:border-blue-900/30 shadow-sm">
+                                <h4 className="text-[10px] font-black text-blue-600 dark:text-blue-400 uppercase tracking-[0.2em] mb-3">Detections by Label</h4>
+                                {rollup.labels.length > 0 ? (
+                                    <table className="w-full text-xs">
+                                        <thead>
+                                            <tr className="text-[10px] text-muted-foreground uppercase text-left">
+                                                <th className="font-bold pb-2">Label</th>
+                                                <th className="font-bold pb-2 text-right">Count</th>
+                                                <th className="font-bold pb-2 text-right">Photos</th>
+                                                <th className="font-bold pb-2 text-right">Max Conf.</th>
+                                                <th className="font-bold pb-2 text-right">Mean Conf.</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {rollup.labels.map((l) => (
+                                                <tr key={l.label} className="border-t border-border">
+                                                    <td className="py-1.5 font-medium text-foreground">{l.label}</td>
+                                                    <td className="py-1.5 text-right">{l.count}</td>
+                                                    <td className="py-1.5 text-right">{l.images}</td>
+                                                    <td className="py-1.5 text-right">{Math.round(l.max_confidence * 100)}%</td>
+                                                    <td className="py-1.5 text-right">{Math.round(l.mean_confidence * 100)}%</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                ) : (
+                                    <p className="text-[10px] text-muted-foreground italic">No damage detected in the analyzed photos.</p>
+                                )}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Detection Review over the original photos */}
+                    {viewerPhotos.length > 0 && (
+                        <div className="bg-card p-5 rounded-xl border border-blue-100 dark:border-blue-900/30 shadow-sm">
+                            <h4 className="text-xs font-black text-muted-foreground uppercase tracking-widest mb-4 flex items-center gap-2">
+                                <ImageIcon className="w-4 h-4 text-blue-500" />
+                                Detection Review
+                            </h4>
+                            <DetectionViewer photos={viewerPhotos} reportId={reportId} />
+                        </div>
+                    )}
+
                     {/* Analyzed Image Gallery */}
                     {imageUrls.size > 0 && (
                         <div className="bg-card p-5 rounded-xl border border-blue-100 dark:border-blue-900/30 shadow-sm">
@@ -401,7 +663,16 @@ export function AIAnalysisDisplay({ analysis, reportId }: AIAnalysisDisplayProps
                                                     </span>
                                                 </div>
                                             ))}
-                                            {displaySignals.length === 0 && (
+                                            {photoSignals.map((signal, idx) => (
+                                                <div key={`photo-${idx}`} className="text-[10px] text-red-700 dark:text-red-300 font-bold flex items-start gap-3 bg-white/40 dark:bg-black/20 p-2 rounded-lg border border-red-200/30 dark:border-red-800/30">
+                                                    <ImageIcon className="w-3 h-3 mt-0.5 flex-shrink-0 text-red-500" />
+                                                    <span className="leading-snug">
+                                                        {signal}
+                                                        <span className="ml-2 px-1.5 py-0.5 bg-red-100 dark:bg-red-900/50 text-red-800 dark:text-red-200 rounded-full text-[9px]">Photo metadata</span>
+                                                    </span>
+                                                </div>
+                                            ))}
+                                            {displaySignals.length === 0 && photoSignals.length === 0 && (
                                                 <p className="text-xs text-green-700 dark:text-green-400 italic font-medium">No fraud signals identified by current model params.</p>
                                             )}
                                         </>
@@ -18,6 +18,9 @@ import {
   Users,
   Building,
   MessageSquare,
+  Upload,
+  List,
+  Clock,
 } from "@/components/Icons";
 import { useUserRole } from "@/lib/auth/useUserRole";
 import {
@@ -230,7 +233,7 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
     if (isLoading) return [];
 
     if (isSuperAdmin) {
-      // SuperAdmin: Dashboard, Incident Form, Reports, Companies, Users
+      // SuperAdmin: Dashboard, Incident Form, Reports, Import, Custom Fields, Retention, Companies, Users
       return [
         {
           label: "Dashboard",
@@ -250,6 +253,24 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
           href: "/Dashboard/reports",
           active: pathname === "/Dashboard/reports",
         },
+        {
+          label: "Import Claims",
+          icon: Upload,
+          href: "/Dashboard/import",
+          active: pathname === "/Dashboard/import",
+        },
+        {
+          label: "Custom Fields",
+          icon: List,
+          href: "/Dashboard/custom-fields",
+          active: pathname === "/Dashboard/custom-fields",
+        },
+        {
+          label: "Retention",
+          icon: Clock,
+          href: "/Dashboard/retention",
+          active: pathname === "/Dashboard/retention",
+        },
         {
           label: "Companies",
           icon: Building,
@@ -266,7 +287,7 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
     }
 
     if (isAdmin) {
-      // Admin: Dashboard, Incident Form, Reports, Users (company-scoped)
+      // Admin: Dashboard, Incident Form, Reports, Import, Custom Fields, Retention, Users (company-scoped)
       return [
         {
           label: "Dashboard",
@@ -286,6 +307,24 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
           href: "/Dashboard/reports",
           active: pathname === "/Dashboard/reports",
         },
+        {
+          label: "Import Claims",
+          icon: Upload,
+          href: "/Dashboard/import",
+          active: pathname === "/Dashboard/import",
+        },
+        {
+          label: "Custom Fields",
+          icon: List,
+          href: "/Dashboard/custom-fields",
+          active: pathname === "/Dashboard/custom-fields",
+        },
+        {
+          label: "Retention",
+          icon: Clock,
+          href: "/Dashboard/retention",
+          active: pathname === "/Dashboard/retention",
+        },
         {
           label: "Users",
           icon: Users,
@@ -0,0 +1,607 @@
+"use client";
+
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Badge } from "@/components/ui/Badge";
+import { Button } from "@/components/ui/Button";
+import { Checkbox } from "@/components/ui/Checkbox";
+import { Input } from "@/components/ui/Input";
+import { ChevronLeft, ChevronRight, Info, Plus, RefreshCcw, Trash2, ZoomIn, ZoomOut } from "@/components/Icons";
+import type { AIDetection } from "@/lib/reports/analysis";
+import {
+    currentFeedback,
+    detectionKey,
+    DETECTION_VERDICT_LABELS,
+    type DetectionFeedbackEntry,
+    type DetectionVerdict,
+} from "@/lib/reports/detection-feedback";
+
+export interface ViewerPhoto {
+    path: string; // Original upload path
+    url: string; // Signed URL for the original
+    detections: AIDetection[];
+}
+
+interface DetectionViewerProps {
+    photos: ViewerPhoto[];
+    // When set, reviewers can record verdicts and draw missed damage for this report
+    reportId?: string;
+}
+
+type Selection = { kind: 'model', index: number } | { kind: 'missed', id: string };
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 8;
+
+// Fixed colors for the labels the model emits; anything else falls back to the palette by hash
+const LABEL_COLORS: Record<string, string> = {
+    hail_impact: '#ef4444',
+    wind_crease: '#3b82f6',
+    missing_shingle: '#f97316',
+    granule_loss: '#eab308',
+    blistering: '#a855f7',
+};
+const FALLBACK_COLORS = ['#14b8a6', '#ec4899', '#84cc16', '#06b6d4', '#f43f5e'];
+
+export const getLabelColor = (label: string) => {
+    if (LABEL_COLORS[label]) return LABEL_COLORS[label];
+    let h = 0;
+    for (let i = 0; i < label.length; i++) h = (h * 31 + label.charCodeAt(i)) | 0;
+    return FALLBACK_COLORS[Math.abs(h) % FALLBACK_COLORS.length];
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const VERDICT_BADGE_COLORS: Record<DetectionVerdict, string> = {
+    confirmed: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+    false_positive: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+    mislabeled: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+    missed: 'bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300',
+};
+
+// Drawn boxes smaller than this (in photo pixels) are treated as stray clicks
+const MIN_DRAWN_BOX = 8;
+
+/**
+ * Draws the model's bounding boxes over the original uploaded photos, so each hit can be
+ * checked against the source image rather than the flattened annotated copy.
+ * With a reportId, reviewers can also mark each detection and outline missed damage;
+ * the AI output itself is never changed.
+ */
+export function DetectionViewer({ photos, reportId }: DetectionViewerProps) {
+    const [photoIndex, setPhotoIndex] = useState(0);
+    const [hiddenLabels, setHiddenLabels] = useState<Set<string>>(new Set());
+    const [minConfidence, setMinConfidence] = useState(0);
+    const [zoom, setZoom] = useState(1);
+    const [pan, setPan] = useState({ x: 0, y: 0 });
+    const [naturalSize, setNaturalSize] = useState<{ width: number, height: number } | null>(null);
+    const [selected, setSelected] = useState<Selection | null>(null);
+    const [feedback, setFeedback] = useState<DetectionFeedbackEntry[]>([]);
+    const [drawMode, setDrawMode] = useState(false);
+    const [draftBox, setDraftBox] = useState<number[] | null>(null);
+    const [labelInput, setLabelInput] = useState('');
+    const [isMislabeling, setIsMislabeling] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const viewportRef = useRef<HTMLDivElement>(null);
+    const contentRef = useRef<HTMLDivElement>(null);
+    const drawStartRef = useRef<number[] | null>(null);
+    const dragRef = useRef<{ startX: number, startY: number, panX: number, panY: number, moved: boolean } | null>(null);
+    const justDraggedRef = useRef(false);
+
+    const photo = photos[Math.min(photoIndex, photos.length - 1)];
+    const canReview = !!reportId;
+
+    useEffect(() => {
+        if (!reportId) return;
+
+        const fetchFeedback = async () => {
+            try {
+                const res = await fetch(`/api/incident-reports/${reportId}/detection-feedback`);
+                if (!res.ok) throw new Error(`Failed to fetch detection feedback (${res.status})`);
+                const json = await res.json();
+                setFeedback(json.feedback || []);
+            } catch (err) {
+                console.error("Error fetching detection feedback:", err);
+            }
+        };
+
+        fetchFeedback();
+    }, [reportId]);
+
+    const { byDetection, missed } = useMemo(() => currentFeedback(feedback), [feedback]);
+    const photoMissed = photo ? missed.filter(m => m.photoPath === photo.path) : [];
+
+    // Labels across all photos, so toggles don't jump around when switching photos
+    const labels = useMemo(() => {
+        const counts = new Map<string, number>();
+        photos.forEach(p => p.detections.forEach(d => counts.set(d.label, (counts.get(d.label) || 0) + 1)));
+        missed.forEach(m => m.correctedLabel && counts.set(m.correctedLabel, (counts.get(m.correctedLabel) || 0) + 1));
+        return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+    }, [photos, missed]);
+
+    const isVisible = (d: AIDetection) => !hiddenLabels.has(d.label) && d.confidence >= minConfidence;
+    const visibleCount = photo ? photo.detections.filter(isVisible).length : 0;
+
+    const resetView = () => {
+        setZoom(1);
+        setPan({ x: 0, y: 0 });
+    };
+
+    useEffect(() => {
+        resetView();
+        setSelected(null);
+        setNaturalSize(null);
+        setDraftBox(null);
+    }, [photoIndex]);
+
+    useEffect(() => {
+        setIsMislabeling(false);
+        setLabelInput('');
+    }, [selected]);
+
+    // Keep the content edge inside the viewport at any zoom
+    const clampPan = (x: number, y: number, z: number) => {
+        const rect = viewportRef.current?.getBoundingClientRect();
+        if (!rect) return { x, y };
+        return {
+            x: clamp(x, rect.width * (1 - z), 0),
+            y: clamp(y, rect.height * (1 - z), 0),
+        };
+    };
+
+    // Zoom around a point in viewport coordinates so the spot under the cursor stays put
+    const zoomAt = (nextZoom: number, originX: number, originY: number) => {
+        const z = clamp(nextZoom, MIN_ZOOM, MAX_ZOOM);
+        const scale = z / zoom;
+        setPan(clampPan(originX - (originX - pan.x) * scale, originY - (originY - pan.y) * scale, z));
+        setZoom(z);
+    };
+
+    const zoomAtCenter = (nextZoom: number) => {
+        const rect = viewportRef.current?.getBoundingClientRect();
+        zoomAt(nextZoom, (rect?.width || 0) / 2, (rect?.height || 0) / 2);
+    };
+
+    // React registers wheel listeners as passive, so preventDefault needs a native listener
+    useEffect(() => {
+        const el = viewportRef.current;
+        if (!el) return;
+        const onWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            const rect = el.getBoundingClientRect();
+            zoomAt(zoom * (e.deltaY < 0 ? 1.2 : 1 / 1.2), e.clientX - rect.left, e.clientY - rect.top);
+        };
+        el.addEventListener('wheel', onWheel, { passive: false });
+        return () => el.removeEventListener('wheel', onWheel);
+    });
+
+    // Pointer position in original photo pixels, accounting for zoom and pan
+    const toPhotoPoint = (clientX: number, clientY: number) => {
+        const rect = contentRef.current?.getBoundingClientRect();
+        if (!rect || !naturalSize) return null;
+        return [
+            clamp(((clientX - rect.left) / rect.width) * naturalSize.width, 0, naturalSize.width),
+            clamp(((clientY - rect.top) / rect.height) * naturalSize.height, 0, naturalSize.height),
+        ];
+    };
+
+    const onPointerDown = (e: React.PointerEvent) => {
+        if (drawMode) {
+            const point = toPhotoPoint(e.clientX, e.clientY);
+            if (!point) return;
+            drawStartRef.current = point;
+            setDraftBox([...point, ...point]);
+            (e.currentTarget as HTMLElement).setPointerCapture?.(e.pointerId);
+            return;
+        }
+        dragRef.current = { startX: e.clientX, startY: e.clientY, panX: pan.x, panY: pan.y, moved: false };
+    };
+
+    const onPointerMove = (e: React.PointerEvent) => {
+        if (drawMode) {
+            const start = drawStartRef.current;
+            const point = toPhotoPoint(e.clientX, e.clientY);
+            if (start && point) setDraftBox([Math.min(start[0], point[0]), Math.min(start[1], point[1]), Math.max(start[0], point[0]), Math.max(start[1], point[1])]);
+            return;
+        }
+        const drag = dragRef.current;
+        if (!drag) return;
+        const dx = e.clientX - drag.startX;
+        const dy = e.clientY - drag.startY;
+        if (Math.abs(dx) + Math.abs(dy) > 3) {
+            drag.moved = true;
+            (e.currentTarget as HTMLElement).setPointerCapture?.(e.pointerId);
+        }
+        if (drag.moved && zoom > 1) {
+            setPan(clampPan(drag.panX + dx, drag.panY + dy, zoom));
+        }
+    };
+
+    const onPointerUp = () => {
+        if (drawMode) {
+            drawStartRef.current = null;
+            // Keep the box for labeling unless it was just a click
+            setDraftBox(box => (box && box[2] - box[0] >= MIN_DRAWN_BOX && box[3] - box[1] >= MIN_DRAWN_BOX ? box.map(Math.round) : null));
+            setSelected(null);
+            setLabelInput('');
+            return;
+        }
+        // A drag should not also count as a click on whatever box it ended over
+        justDraggedRef.current = !!dragRef.current?.moved;
+        dragRef.current = null;
+    };
+
+    const toggleLabel = (label: string) => {
+        setHiddenLabels(prev => {
+            const next = new Set(prev);
+            if (next.has(label)) next.delete(label); else next.add(label);
+            return next;
+        });
+    };
+
+    const submitFeedback = async (body: Record<string, any>) => {
+        if (!reportId) return;
+        setIsSaving(true);
+        try {
+            const res = await fetch(`/api/incident-reports/${reportId}/detection-feedback`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ photoPath: photo.path, ...body })
+            });
+            const json = await res.json();
+            if (!res.ok) throw new Error(json.error || "Failed to save feedback");
+            setFeedback(prev => [...prev, json.feedback]);
+            return json.feedback as DetectionFeedbackEntry;
+        } catch (err: any) {
+            console.error("Error saving detection feedback:", err);
+            alert(`Could not save feedback: ${err?.message || "Unknown error"}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const reviewDetection = async (index: number, verdict: DetectionVerdict, correctedLabel?: string) => {
+        const saved = await submitFeedback({ detectionIndex: index, verdict, correctedLabel });
+        if (saved) setIsMislabeling(false);
+    };
+
+    const saveMissedBox = async () => {
+        if (!draftBox || !labelInput.trim()) return;
+        const saved = await submitFeedback({ verdict: 'missed', bbox: draftBox, correctedLabel: labelInput.trim() });
+        if (saved) {
+            setDraftBox(null);
+            setDrawMode(false);
+            setSelected({ kind: 'missed', id: saved.id });
+        }
+    };
+
+    const removeMissedBox = async (id: string) => {
+        if (!reportId) return;
+        setIsSaving(true);
+        try {
+            const res = await fetch(`/api/incident-reports/${reportId}/detection-feedback?feedbackId=${encodeURIComponent(id)}`, { method: 'DELETE' });
+            const json = await res.json();
+            if (!res.ok) throw new Error(json.error || "Failed to remove box");
+            setFeedback(prev => prev.filter(f => f.id !== id));
+            setSelected(null);
+        } catch (err: any) {
+            console.error("Error removing missed box:", err);
+            alert(`Could not remove box: ${err?.message || "Unknown error"}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (!photo) return null;
+
+    const selectedDetection = selected?.kind === 'model' ? photo.detections[selected.index] : null;
+    const selectedReview = selected?.kind === 'model' ? byDetection.get(detectionKey(photo.path, selected.index)) : undefined;
+    const selectedMissed = selected?.kind === 'missed' ? photoMissed.find(m => m.id === selected.id) : undefined;
+
+    const renderReviewer = (entry: DetectionFeedbackEntry) => (
+        <p className="text-[10px] text-muted-foreground">
+            {entry.reviewer} · {new Date(entry.reviewedAt).toLocaleString("en-US")}
+        </p>
+    );
+
+    return (
+        <div className="flex flex-col lg:flex-row gap-4">
+            {/* Image Side */}
+            <div className="flex-1 min-w-0 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-1">
+                        <Button variant="outline" size="sm" className="h-7 w-7 p-0" onClick={() => zoomAtCenter(zoom / 1.5)} disabled={zoom <= MIN_ZOOM}>
+                            <ZoomOut className="w-4 h-4" />
+                        </Button>
+                        <span className="text-[10px] font-mono text-muted-foreground w-10 text-center">{Math.round(zoom * 100)}%</span>
+                        <Button variant="outline" size="sm" className="h-7 w-7 p-0" onClick={() => zoomAtCenter(zoom * 1.5)} disabled={zoom >= MAX_ZOOM}>
+                            <ZoomIn className="w-4 h-4" />
+                        </Button>
+                        <Button variant="outline" size="sm" className="h-7 w-7 p-0" onClick={resetView} title="Reset view">
+                            <RefreshCcw className="w-3.5 h-3.5" />
+                        </Button>
+                        {canReview && (
+                            <Button
+                                variant={drawMode ? "default" : "outline"}
+                                size="sm"
+                                className="h-7 text-xs ml-2"
+                                onClick={() => { setDrawMode(m => !m); setDraftBox(null); }}
+                            >
+                                <Plus className="w-3.5 h-3.5 mr-1" />
+                                {drawMode ? "Drawing..." : "Add Missed Damage"}
+                            </Button>
+                        )}
+                    </div>
+                    {photos.length > 1 && (
+                        <div className="flex items-center gap-1">
+                            <Button variant="outline" size="sm" className="h-7 w-7 p-0" onClick={() => setPhotoIndex(i => (i > 0 ? i - 1 : photos.length - 1))}>
+                                <ChevronLeft className="w-4 h-4" />
+                            </Button>
+                            <span className="text-[10px] text-muted-foreground">Photo {photoIndex + 1} of {photos.length}</span>
+                            <Button variant="outline" size="sm" className="h-7 w-7 p-0" onClick={() => setPhotoIndex(i => (i < photos.length - 1 ? i + 1 : 0))}>
+                                <ChevronRight className="w-4 h-4" />
+                            </Button>
+                        </div>
+                    )}
+                </div>
+
+                <div
+                    ref={viewportRef}
+                    className={`relative overflow-hidden rounded-lg border border-border bg-muted/20 select-none touch-none ${drawMode ? 'cursor-crosshair' : zoom > 1 ? 'cursor-grab active:cursor-grabbing' : ''}`}
+                    onPointerDown={onPointerDown}
+                    onPointerMove={onPointerMove}
+                    onPointerUp={onPointerUp}
+                    onPointerLeave={() => { dragRef.current = null; }}
+                    onDoubleClick={() => !drawMode && resetView()}
+                >
+                    <div
+                        ref={contentRef}
+                        className="relative origin-top-left"
+                        style={{ transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom})` }}
+                    >
+                        <img
+                            src={photo.url}
+                            alt={`Original photo ${photoIndex + 1}`}
+                            className="w-full h-auto block pointer-events-none"
+                            draggable={false}
+                            onLoad={(e) => setNaturalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                        />
+                        {naturalSize && (
+                            <svg
+                                className="absolute inset-0 w-full h-full"
+                                viewBox={`0 0 ${naturalSize.width} ${naturalSize.height}`}
+                                preserveAspectRatio="none"
+                            >
+                                {photo.detections.map((d, i) => {
+                                    if (!isVisible(d) || !d.bbox || d.bbox.length < 4) return null;
+                                    const [x1, y1, x2, y2] = d.bbox;
+                                    const color = getLabelColor(d.label);
+                                    const isSelected = selected?.kind === 'model' && selected.index === i;
+                                    const verdict = byDetection.get(detectionKey(photo.path, i))?.verdict;
+                                    return (
+                                        <rect
+                                            key={i}
+                                            x={Math.min(x1, x2)}
+                                            y={Math.min(y1, y2)}
+                                            width={Math.abs(x2 - x1)}
+                                            height={Math.abs(y2 - y1)}
+                                            fill={isSelected ? `${color}33` : 'transparent'}
+                                            stroke={color}
+                                            strokeWidth={isSelected ? 3 : 2}
+                                            strokeOpacity={verdict === 'false_positive' ? 0.4 : 1}
+                                            strokeDasharray={verdict === 'false_positive' ? '2 4' : undefined}
+                                            vectorEffect="non-scaling-stroke"
+                                            className={drawMode ? 'pointer-events-none' : 'cursor-pointer'}
+                                            onClick={(e) => {
+                                                e.stopPropagation();
+                                                if (justDraggedRef.current) return;
+                                                setSelected(isSelected ? null : { kind: 'model', index: i });
+                                            }}
+                                        >
+                                            <title>{`${d.label} ${Math.round(d.confidence * 100)}%${verdict ? ` (${DETECTION_VERDICT_LABELS[verdict]})` : ''}`}</title>
+                                        </rect>
+                                    );
+                                })}
+                                {photoMissed.map((m) => {
+                                    const label = m.correctedLabel || '';
+                                    if (hiddenLabels.has(label) || !m.bbox || m.bbox.length < 4) return null;
+                                    const [x1, y1, x2, y2] = m.bbox.map(n => n || 0);
+                                    const color = getLabelColor(label);
+                                    const isSelected = selected?.kind === 'missed' && selected.id === m.id;
+                                    return (
+                                        <rect
+                                            key={m.id}
+                                            x={x1}
+                                            y={y1}
+                                            width={x2 - x1}
+                                            height={y2 - y1}
+                                            fill={isSelected ? `${color}33` : 'transparent'}
+                                            stroke={color}
+                                            strokeWidth={isSelected ? 3 : 2}
+                                            strokeDasharray="8 4"
+                                            vectorEffect="non-scaling-stroke"
+                                            className={drawMode ? 'pointer-events-none' : 'cursor-pointer'}
+                                            onClick={(e) => {
+                                                e.stopPropagation();
+                                                if (justDraggedRef.current) return;
+                                                setSelected(isSelected ? null : { kind: 'missed', id: m.id });
+                                            }}
+                                        >
+                                            <title>{`${label} (added by reviewer)`}</title>
+                                        </rect>
+                                    );
+                                })}
+                                {draftBox && (
+                                    <rect
+                                        x={draftBox[0]}
+                                        y={draftBox[1]}
+                                        width={draftBox[2] - draftBox[0]}
+                                        height={draftBox[3] - draftBox[1]}
+                                        fill="#ffffff22"
+                                        stroke="#ffffff"
+                                        strokeWidth={2}
+                                        strokeDasharray="4 4"
+                                        vectorEffect="non-scaling-stroke"
+                                        className="pointer-events-none"
+                                    />
+                                )}
+                            </svg>
+                        )}
+                    </div>
+                </div>
+                <p className="text-[10px] text-muted-foreground">
+                    {drawMode
+                        ? "Drag on the photo to outline damage the model missed."
+                        : `Showing ${visibleCount} of ${photo.detections.length} detections${photoMissed.length > 0 ? ` and ${photoMissed.length} reviewer-added` : ''}. Scroll to zoom, drag to pan, double-click to reset, click a box for details.`}
+                </p>
+            </div>
+
+            {/* Controls & Notes Side */}
+            <div className="w-full lg:w-72 space-y-4">
+                <div className="bg-muted/30 rounded-md p-3 border border-border space-y-2">
+                    <h5 className="text-[10px] font-bold text-muted-foreground uppercase tracking-wider">Labels</h5>
+                    {labels.length > 0 ? labels.map(([label, count]) => (
+                        <label key={label} className="flex items-center gap-2 text-xs cursor-pointer">
+                            <Checkbox checked={!hiddenLabels.has(label)} onCheckedChange={() => toggleLabel(label)} />
+                            <span className="w-3 h-3 rounded-sm shrink-0" style={{ backgroundColor: getLabelColor(label) }} />
+                            <span className="font-medium text-foreground flex-1">{label}</span>
+                            <span className="text-muted-foreground">{count}</span>
+                        </label>
+                    )) : (
+                        <p className="text-[10px] text-muted-foreground italic">No detections.</p>
+                    )}
+                </div>
+
+                <div className="bg-muted/30 rounded-md p-3 border border-border space-y-2">
+                    <div className="flex items-center justify-between">
+                        <h5 className="text-[10px] font-bold text-muted-foreground uppercase tracking-wider">Min. Confidence</h5>
+                        <span className="text-xs font-mono text-foreground">{Math.round(minConfidence * 100)}%</span>
+                    </div>
+                    <input
+                        type="range"
+                        min={0}
+                        max={100}
+                        step={5}
+                        value={Math.round(minConfidence * 100)}
+                        onChange={(e) => setMinConfidence(Number(e.target.value) / 100)}
+                        className="w-full accent-blue-600"
+                    />
+                </div>
+
+                <div className="bg-card rounded-md p-3 border border-border">
+                    <h5 className="text-[10px] font-bold text-muted-foreground uppercase tracking-wider mb-2 flex items-center gap-1">
+                        <Info className="w-3 h-3 text-blue-500" /> Detection Details
+                    </h5>
+                    {draftBox && !drawStartRef.current ? (
+                        <div className="space-y-2">
+                            <p className="text-xs font-bold text-foreground">New missed damage</p>
+                            <Input
+                                value={labelInput}
+                                onChange={(e) => setLabelInput(e.target.value)}
+                                placeholder="Label, e.g. hail_impact"
+                                list="detection-labels"
+                                className="h-8 text-xs"
+                                autoFocus
+                            />
+                            <div className="flex gap-2">
+                                <Button size="sm" className="h-7 text-xs" onClick={saveMissedBox} disabled={isSaving || !labelInput.trim()}>
+                                    {isSaving ? "Saving..." : "Save Box"}
+                                </Button>
+                                <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => setDraftBox(null)}>
+                                    Cancel
+                                </Button>
+                            </div>
+                        </div>
+                    ) : selectedMissed ? (
+                        <div className="space-y-2">
+                            <div className="flex items-center justify-between">
+                                <span className="flex items-center gap-2 text-sm font-bold text-foreground">
+                                    <span className="w-2 h-6 rounded-full" style={{ backgroundColor: getLabelColor(selectedMissed.correctedLabel || '') }} />
+                                    {selectedMissed.correctedLabel}
+                                </span>
+                                <Badge className={`${VERDICT_BADGE_COLORS.missed} border-none`}>{DETECTION_VERDICT_LABELS.missed}</Badge>
+                            </div>
+                            {renderReviewer(selectedMissed)}
+                            {canReview && (
+                                <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => removeMissedBox(selectedMissed.id)} disabled={isSaving}>
+                                    <Trash2 className="w-3.5 h-3.5 mr-1" /> Remove Box
+                                </Button>
+                            )}
+                        </div>
+                    ) : selectedDetection && selected?.kind === 'model' ? (
+                        <div className="space-y-2">
+                            <div className="flex items-center justify-between">
+                                <span className="flex items-center gap-2 text-sm font-bold text-foreground">
+                                    <span className="w-2 h-6 rounded-full" style={{ backgroundColor: getLabelColor(selectedDetection.label) }} />
+                                    {selectedDetection.label}
+                                </span>
+                                <Badge className="bg-blue-600 text-white border-none">
+                                    {Math.round(selectedDetection.confidence * 100)}%
+                                </Badge>
+                            </div>
+                            <p className="text-xs text-muted-foreground italic bg-muted/30 p-2 rounded border border-border leading-relaxed">
+                                {selectedDetection.notes ? `"${selectedDetection.notes}"` : "No notes from the model."}
+                            </p>
+                            {selectedDetection.bbox && (
+                                <div className="text-[9px] text-muted-foreground font-mono bg-muted/50 p-1.5 rounded w-fit">
+                                    Region: [{selectedDetection.bbox.map(n => Math.round(n)).join(', ')}]
+                                </div>
+                            )}
+
+                            {selectedReview && (
+                                <div className="space-y-1 pt-2 border-t border-border">
+                                    <Badge className={`${VERDICT_BADGE_COLORS[selectedReview.verdict]} border-none`}>
+                                        {DETECTION_VERDICT_LABELS[selectedReview.verdict]}
+                                        {selectedReview.verdict === 'mislabeled' && selectedReview.correctedLabel ? `: ${selectedReview.correctedLabel}` : ''}
+                                    </Badge>
+                                    {renderReviewer(selectedReview)}
+                                </div>
+                            )}
+
+                            {canReview && (
+                                <div className="space-y-2 pt-2 border-t border-border">
+                                    <div className="flex flex-wrap gap-1">
+                                        <Button size="sm" variant="outline" className="h-7 text-xs" disabled={isSaving} onClick={() => reviewDetection(selected.index, 'confirmed')}>
+                                            Confirm
+                                        </Button>
+                                        <Button size="sm" variant="outline" className="h-7 text-xs" disabled={isSaving} onClick={() => reviewDetection(selected.index, 'false_positive')}>
+                                            False Positive
+                                        </Button>
+                                        <Button size="sm" variant="outline" className="h-7 text-xs" disabled={isSaving} onClick={() => setIsMislabeling(m => !m)}>
+                                            Mislabeled
+                                        </Button>
+                                    </div>
+                                    {isMislabeling && (
+                                        <div className="flex gap-2">
+                                            <Input
+                                                value={labelInput}
+                                                onChange={(e) => setLabelInput(e.target.value)}
+                                                placeholder="Correct label"
+                                                list="detection-labels"
+                                                className="h-7 text-xs"
+                                                autoFocus
+                                            />
+                                            <Button
+                                                size="sm"
+                                                className="h-7 text-xs"
+                                                disabled={isSaving || !labelInput.trim() || labelInput.trim() === selectedDetection.label}
+                                                onClick={() => reviewDetection(selected.index, 'mislabeled', labelInput.trim())}
+                                            >
+                                                Save
+                                            </Button>
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    ) : (
+                        <p className="text-[10px] text-muted-foreground italic">Click a box on the photo to see the model's notes.</p>
+                    )}
+                    <datalist id="detection-labels">
+                        {labels.map(([label]) => <option key={label} value={label} />)}
+                    </datalist>
+                </div>
+            </div>
+        </div>
+    );
+}
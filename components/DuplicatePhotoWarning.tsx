@@ -0,0 +1,75 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { AlertTriangle } from "@/components/Icons";
+import type { PhotoDuplicate } from "@/lib/reports/photo-evidence";
+
+interface DuplicatePhotoWarningProps {
+    reportId: string;
+    photoUrls?: (string | null)[] | null; // To name photos the same way as the photo grid
+    // SuperAdmin can widen the search to every company
+    canSearchAllCompanies?: boolean;
+}
+
+/** Warns when a photo of this report also appears on another claim. Hidden when there are no matches. */
+export function DuplicatePhotoWarning({ reportId, photoUrls, canSearchAllCompanies = false }: DuplicatePhotoWarningProps) {
+    const [duplicates, setDuplicates] = useState<PhotoDuplicate[]>([]);
+    const [allCompanies, setAllCompanies] = useState(false);
+
+    useEffect(() => {
+        const fetchDuplicates = async () => {
+            try {
+                const query = allCompanies ? '?allCompanies=true' : '';
+                const res = await fetch(`/api/incident-reports/${reportId}/photo-evidence${query}`);
+                if (!res.ok) throw new Error(`Failed to fetch photo evidence (${res.status})`);
+                const json = await res.json();
+                setDuplicates(json.duplicates || []);
+            } catch (err) {
+                console.error("Error fetching duplicate photos:", err);
+            }
+        };
+
+        fetchDuplicates();
+    }, [reportId, allCompanies]);
+
+    if (duplicates.length === 0 && !allCompanies) return null;
+
+    const photoLabel = (path: string) => {
+        const index = (photoUrls || []).indexOf(path);
+        return index >= 0 ? `Photo ${index + 1}` : path.split('/').pop();
+    };
+
+    return (
+        <div className="mb-4 rounded-lg border border-amber-200 dark:border-amber-900/50 bg-amber-50 dark:bg-amber-900/20 p-3">
+            <div className="flex items-center justify-between gap-3 mb-2">
+                <p className="text-sm font-semibold text-amber-800 dark:text-amber-300 flex items-center gap-2">
+                    <AlertTriangle className="w-4 h-4" />
+                    Photos also used on other claims
+                </p>
+                {canSearchAllCompanies && (
+                    <label className="flex items-center gap-1.5 text-xs text-amber-800 dark:text-amber-300 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={allCompanies}
+                            onChange={(e) => setAllCompanies(e.target.checked)}
+                        />
+                        All companies
+                    </label>
+                )}
+            </div>
+            {duplicates.length === 0 ? (
+                <p className="text-xs text-amber-800 dark:text-amber-300">No matches in any company.</p>
+            ) : (
+                <ul className="space-y-1">
+                    {duplicates.map((d) => (
+                        <li key={`${d.photoPath}#${d.matchReportId}`} className="text-xs text-amber-900 dark:text-amber-200">
+                            {photoLabel(d.photoPath)}: {d.distance === 0 ? 'this image' : 'a near-identical image'} appears in claim{' '}
+                            <span className="font-mono font-semibold">{d.matchClaimNumber}</span> — {d.matchAddress}
+                            {allCompanies && d.matchCompanyName && <span className="text-amber-700 dark:text-amber-400"> ({d.matchCompanyName})</span>}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
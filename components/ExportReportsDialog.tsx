@@ -0,0 +1,201 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/Dialog";
+import { Button } from "@/components/ui/Button";
+import { Checkbox } from "@/components/ui/Checkbox";
+import { Label } from "@/components/ui/Label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/Select";
+import { AlertCircle, Download, Loader2 } from "@/components/Icons";
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  DEFAULT_PHOTO_LINK_TTL,
+  EXPORT_COLUMNS,
+  type ExportColumnGroup,
+  type ExportFormat,
+} from "@/lib/reports/export";
+
+interface ExportReportsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Query string with the reports page's current filters and sort
+  filterQuery: string;
+}
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV (.csv)",
+  xlsx: "Excel (.xlsx)",
+  json: "JSON (.json)",
+};
+
+const LINK_EXPIRY_OPTIONS = [
+  { value: String(DEFAULT_PHOTO_LINK_TTL), label: "1 hour" },
+  { value: String(24 * 60 * 60), label: "24 hours" },
+  { value: String(7 * 24 * 60 * 60), label: "7 days" },
+];
+
+const GROUPS: ExportColumnGroup[] = ["Claim", "Claimant", "Location", "AI", "Photos", "Custom"];
+
+export function ExportReportsDialog({ open, onOpenChange, filterQuery }: ExportReportsDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [columns, setColumns] = useState<string[]>(DEFAULT_EXPORT_COLUMNS);
+  const [linkExpiresIn, setLinkExpiresIn] = useState(String(DEFAULT_PHOTO_LINK_TTL));
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleColumn = (key: string, checked: boolean) => {
+    // Keep the catalogue order so exports are stable regardless of click order
+    const next = checked ? [...columns, key] : columns.filter((c) => c !== key);
+    setColumns(EXPORT_COLUMNS.map((c) => c.key).filter((k) => next.includes(k)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setLoading(true);
+
+    try {
+      const params = new URLSearchParams(filterQuery);
+      params.set("format", format);
+      params.set("columns", columns.join(","));
+      if (columns.includes("photoLinks")) params.set("linkExpiresIn", linkExpiresIn);
+
+      const response = await fetch(`/api/incident-reports/export?${params.toString()}`);
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to export reports");
+      }
+
+      const disposition = response.headers.get("Content-Disposition") || "";
+      const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `incident-reports.${format}`;
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      onOpenChange(false);
+    } catch (err: any) {
+      setError(err.message || "An error occurred while exporting reports");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>Export Reports</DialogTitle>
+          <DialogDescription>
+            Exports every report matching the current filters, not just the page on screen.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="exportFormat">Format</Label>
+                <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)} disabled={loading}>
+                  <SelectTrigger id="exportFormat">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map((f) => (
+                      <SelectItem key={f} value={f}>{FORMAT_LABELS[f]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="linkExpiry">Photo links expire after</Label>
+                <Select
+                  value={linkExpiresIn}
+                  onValueChange={setLinkExpiresIn}
+                  disabled={loading || !columns.includes("photoLinks")}
+                >
+                  <SelectTrigger id="linkExpiry">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LINK_EXPIRY_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid gap-2">
+              <div className="flex items-center justify-between">
+                <Label>Columns</Label>
+                <div className="flex gap-2">
+                  <Button type="button" variant="ghost" size="sm" onClick={() => setColumns(EXPORT_COLUMNS.map((c) => c.key))}>
+                    All
+                  </Button>
+                  <Button type="button" variant="ghost" size="sm" onClick={() => setColumns(DEFAULT_EXPORT_COLUMNS)}>
+                    Defaults
+                  </Button>
+                </div>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 max-h-[320px] overflow-y-auto rounded-md border p-3">
+                {GROUPS.map((group) => (
+                  <div key={group} className="space-y-2">
+                    <p className="text-xs font-semibold uppercase text-muted-foreground">{group}</p>
+                    {EXPORT_COLUMNS.filter((c) => c.group === group).map((column) => (
+                      <div key={column.key} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`export-${column.key}`}
+                          checked={columns.includes(column.key)}
+                          onCheckedChange={(checked) => toggleColumn(column.key, checked === true)}
+                          disabled={loading}
+                        />
+                        <Label htmlFor={`export-${column.key}`} className="text-sm font-normal">
+                          {column.label}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {error && (
+              <div className="flex items-center gap-2 text-sm text-red-600 bg-red-50 dark:bg-red-900/20 p-3 rounded-md">
+                <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                <p>{error}</p>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading || columns.length === 0}>
+              {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+              {loading ? "Exporting..." : "Export"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -24,6 +24,8 @@ import {
   useSidebar,
 } from "@/components/ui/Sidebar";
 import { EditProfileModal } from "@/components/forms/EditProfileModal";
+import { SyncStatus } from "@/components/SyncStatus";
+import { clearOfflineCaches } from "@/lib/offline/service-worker";
 
 export function NavUser() {
   const { isMobile } = useSidebar();
@@ -51,6 +53,7 @@ export function NavUser() {
       await signOut({ global: true });
       localStorage.clear();
       sessionStorage.clear();
+      await clearOfflineCaches();
 
       // Restore theme preference so the login page doesn't flash dark mode
       if (savedTheme) {
@@ -112,7 +115,8 @@ export function NavUser() {
 
   return (
     <SidebarMenu>
-      <SidebarMenuItem className="min-h-[32px]">
+      <SidebarMenuItem className="min-h-[32px] flex items-center gap-3">
+        <SyncStatus />
         {isLoading ? (
           <div className="relative overflow-hidden">
             {/* Base blue circle */}
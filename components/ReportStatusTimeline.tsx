@@ -0,0 +1,106 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { Clock, RefreshCw, ChevronRight } from "@/components/Icons";
+import { REPORT_STATUS_LABELS, isReportStatus } from "@/lib/reports/workflow";
+
+interface StatusEvent {
+    id: string;
+    fromStatus?: string | null;
+    toStatus: string;
+    actor: string;
+    actorRole?: string | null;
+    note?: string | null;
+    changedAt: string;
+}
+
+interface ReportStatusTimelineProps {
+    reportId: string;
+    // Bump to reload the timeline after a status change
+    refreshKey?: number;
+}
+
+const statusLabel = (status?: string | null) =>
+    isReportStatus(status) ? REPORT_STATUS_LABELS[status] : status || "—";
+
+export function ReportStatusTimeline({ reportId, refreshKey = 0 }: ReportStatusTimelineProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const [events, setEvents] = useState<StatusEvent[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+
+        const fetchEvents = async () => {
+            setIsLoading(true);
+            setError(null);
+            try {
+                const res = await fetch(`/api/incident-reports/${reportId}/status-events`, { cache: 'no-store' });
+                const json = await res.json();
+                if (!res.ok) {
+                    throw new Error(json.error || "Failed to load status history");
+                }
+                setEvents(json.events || []);
+            } catch (err: any) {
+                console.error("Error fetching status history:", err);
+                setError(err?.message || "Failed to load status history");
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        fetchEvents();
+    }, [isOpen, reportId, refreshKey]);
+
+    return (
+        <div className="mb-4">
+            <button
+                type="button"
+                onClick={() => setIsOpen(!isOpen)}
+                className="flex items-center gap-1 text-xs font-medium text-muted-foreground uppercase hover:text-foreground transition-colors"
+            >
+                <ChevronRight className={`w-3 h-3 transition-transform ${isOpen ? 'rotate-90' : ''}`} />
+                Status History
+            </button>
+
+            {isOpen && (
+                <div className="mt-3 pl-2">
+                    {isLoading && (
+                        <p className="text-sm text-muted-foreground flex items-center gap-2">
+                            <RefreshCw className="w-3 h-3 animate-spin" /> Loading history...
+                        </p>
+                    )}
+                    {!isLoading && error && (
+                        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+                    )}
+                    {!isLoading && !error && events.length === 0 && (
+                        <p className="text-sm text-muted-foreground">No status changes recorded yet.</p>
+                    )}
+                    {!isLoading && !error && events.length > 0 && (
+                        <ol className="relative border-l border-gray-200 dark:border-gray-700 space-y-4">
+                            {events.map((event) => (
+                                <li key={event.id} className="ml-4">
+                                    <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-blue-500 border-2 border-white dark:border-gray-900"></span>
+                                    <p className="text-sm text-foreground">
+                                        {event.fromStatus
+                                            ? <>{statusLabel(event.fromStatus)} → <span className="font-semibold">{statusLabel(event.toStatus)}</span></>
+                                            : <span className="font-semibold">{statusLabel(event.toStatus)}</span>}
+                                    </p>
+                                    <p className="text-xs text-muted-foreground flex items-center gap-1">
+                                        <Clock className="w-3 h-3" />
+                                        {new Date(event.changedAt).toLocaleString("en-US")} · {event.actor}
+                                        {event.actorRole && ` (${event.actorRole})`}
+                                    </p>
+                                    {event.note && (
+                                        <p className="text-sm text-foreground italic mt-1 whitespace-pre-wrap">"{event.note}"</p>
+                                    )}
+                                </li>
+                            ))}
+                        </ol>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
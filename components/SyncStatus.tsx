@@ -0,0 +1,158 @@
+"use client";
+
+import {
+  AlertCircle,
+  CloudOff,
+  Loader2,
+  RefreshCw,
+  UploadCloud,
+} from "@/components/Icons";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/DropdownMenu";
+import { cn } from "@/lib/utils";
+import { useUserRole } from "@/lib/auth/useUserRole";
+import { dashboardDraftKey } from "@/lib/drafts/useIncidentDraft";
+import { removeOutboxEntry, type OutboxEntry } from "@/lib/offline/outbox";
+import { reopenOutboxEntry, retryOutboxEntry } from "@/lib/offline/sync";
+import { useOutbox } from "@/lib/offline/useOutbox";
+
+const STATUS_LABELS: Record<OutboxEntry["status"], string> = {
+  queued: "Waiting to sync",
+  syncing: "Syncing…",
+  conflict: "Conflict",
+  failed: "Sync failed",
+};
+
+const itemClassName =
+  "cursor-pointer hover:bg-accent hover:text-accent-foreground focus:bg-accent focus:text-accent-foreground";
+
+/**
+ * Offline queue indicator for the top bar. It stays hidden while online with nothing queued,
+ * and drives syncing for the dashboard whenever the connection comes back.
+ */
+export function SyncStatus() {
+  const { userEmail } = useUserRole();
+  const { entries, online, syncing, waiting, needsAttention, sync } = useOutbox(userEmail, { autoSync: true });
+
+  if (online && entries.length === 0) return null;
+
+  const handleReopen = async (entry: OutboxEntry) => {
+    if (!userEmail) return;
+    try {
+      await reopenOutboxEntry(entry, dashboardDraftKey(userEmail));
+      window.location.href = "/Dashboard/incident-form";
+    } catch (error: any) {
+      alert(error.message || "Could not reopen the report");
+    }
+  };
+
+  const handleDiscard = async (entry: OutboxEntry) => {
+    if (!confirm(`Discard the queued report for claim ${entry.claimNumber}? It has not been saved to the server.`)) {
+      return;
+    }
+    await removeOutboxEntry(entry.id);
+  };
+
+  const handleRetry = async (entry: OutboxEntry) => {
+    await retryOutboxEntry(entry);
+    sync();
+  };
+
+  let icon = <UploadCloud className="h-4 w-4" />;
+  let label = `${waiting} queued`;
+  let tone = "text-blue-700 dark:text-blue-300";
+  if (!online) {
+    icon = <CloudOff className="h-4 w-4" />;
+    label = waiting > 0 ? `Offline · ${waiting} queued` : "Offline";
+    tone = "text-amber-700 dark:text-amber-300";
+  } else if (syncing) {
+    icon = <Loader2 className="h-4 w-4 animate-spin" />;
+    label = "Syncing";
+  } else if (needsAttention > 0) {
+    icon = <AlertCircle className="h-4 w-4" />;
+    label = `${needsAttention} need${needsAttention === 1 ? "s" : ""} attention`;
+    tone = "text-red-700 dark:text-red-300";
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          className={cn(
+            "flex items-center gap-1.5 rounded-full border border-border px-2.5 py-1 text-xs font-medium hover:bg-accent",
+            tone
+          )}
+          title={online ? "Offline queue" : "You are offline; new reports are queued on this device"}
+        >
+          {icon}
+          <span>{label}</span>
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent
+        className="w-80 rounded-lg bg-popover text-popover-foreground shadow-lg border border-border z-[9000]"
+        align="end"
+        sideOffset={4}
+      >
+        <DropdownMenuLabel className="text-sm">
+          {online ? "Reports queued on this device" : "Offline — reports will sync when you reconnect"}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator className="bg-border" />
+        {entries.length === 0 ? (
+          <p className="px-2 py-3 text-sm text-muted-foreground">Nothing waiting to sync.</p>
+        ) : (
+          entries.map((entry) => (
+            <div key={entry.id} className="px-2 py-2 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium truncate">Claim {entry.claimNumber}</span>
+                <span
+                  className={cn(
+                    "text-xs",
+                    entry.status === "conflict" || entry.status === "failed" ? "text-red-600" : "text-muted-foreground"
+                  )}
+                >
+                  {STATUS_LABELS[entry.status]}
+                </span>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Queued {new Date(entry.queuedAt).toLocaleString()}
+                {entry.photos.length > 0 ? ` · ${entry.photos.filter((p) => p.uploadedPath).length}/${entry.photos.length} photos uploaded` : ""}
+              </p>
+              {entry.error && <p className="mt-1 text-xs text-red-600">{entry.error}</p>}
+              {(entry.status === "conflict" || entry.status === "failed") && (
+                <div className="mt-2 flex gap-3 text-xs">
+                  {entry.status === "conflict" ? (
+                    <button className="text-primary hover:underline" onClick={() => handleReopen(entry)}>
+                      Open in form
+                    </button>
+                  ) : (
+                    <button className="text-primary hover:underline" onClick={() => handleRetry(entry)}>
+                      Retry
+                    </button>
+                  )}
+                  <button className="text-red-600 hover:underline" onClick={() => handleDiscard(entry)}>
+                    Discard
+                  </button>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+        {online && waiting > 0 && (
+          <>
+            <DropdownMenuSeparator className="bg-border" />
+            <DropdownMenuItem className={itemClassName} onClick={sync} disabled={syncing}>
+              <RefreshCw className={cn("mr-2 h-4 w-4", syncing && "animate-spin")} />
+              <span>{syncing ? "Syncing..." : "Sync now"}</span>
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
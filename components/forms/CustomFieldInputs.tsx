@@ -0,0 +1,92 @@
+"use client";
+
+import React from "react";
+import type { Control } from "react-hook-form";
+
+import { Input } from "@/components/ui/Input";
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/Form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/Select";
+import type { CustomFieldDefinition } from "@/lib/companies/custom-fields";
+
+interface CustomFieldInputsProps {
+  // A form with a `customFieldValues` record of strings, keyed by field key
+  control: Control<any>;
+  fields: CustomFieldDefinition[];
+  disabled?: boolean;
+  labelClassName?: string;
+}
+
+/**
+ * Inputs for a company's custom fields, shared by the incident form and the edit modal.
+ * Values are edited as strings; yes/no fields hold "true" or "false".
+ */
+export function CustomFieldInputs({ control, fields, disabled, labelClassName }: CustomFieldInputsProps) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {fields.map((custom) => (
+        <FormField
+          key={custom.key}
+          control={control}
+          name={`customFieldValues.${custom.key}`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className={labelClassName}>
+                {custom.required ? `${custom.label} *` : `${custom.label} (Optional)`}
+              </FormLabel>
+              {custom.type === "select" || custom.type === "boolean" ? (
+                <Select onValueChange={field.onChange} value={field.value || ""} disabled={disabled}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select..." />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {custom.type === "boolean" ? (
+                      <>
+                        <SelectItem value="true">Yes</SelectItem>
+                        <SelectItem value="false">No</SelectItem>
+                      </>
+                    ) : (
+                      custom.options.map((option) => (
+                        <SelectItem key={option} value={option}>
+                          {option}
+                        </SelectItem>
+                      ))
+                    )}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <FormControl>
+                  <Input
+                    type={custom.type === "number" ? "number" : custom.type === "date" ? "date" : "text"}
+                    step={custom.type === "number" ? "any" : undefined}
+                    min={custom.type === "number" ? custom.min ?? undefined : undefined}
+                    max={custom.type === "number" ? custom.max ?? undefined : undefined}
+                    maxLength={custom.type === "text" ? custom.max ?? undefined : undefined}
+                    disabled={disabled}
+                    {...field}
+                    value={field.value ?? ""}
+                  />
+                </FormControl>
+              )}
+              {custom.helpText && <p className="text-xs text-gray-500">{custom.helpText}</p>}
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      ))}
+    </div>
+  );
+}
@@ -1,18 +1,19 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
 import { generateClient } from "aws-amplify/data";
 import { type Schema } from "@/amplify/data/resource";
-import { uploadData, getUrl, remove } from "aws-amplify/storage";
+import { getUrl, remove } from "aws-amplify/storage";
 import {
   X,
   Upload,
   Trash2,
   Calendar as CalendarIcon,
   CheckCircle2,
+  Lock,
 } from "@/components/Icons";
 import {
   Form,
@@ -25,13 +26,6 @@ import {
 import { Input } from "@/components/ui/Input";
 import { Button } from "@/components/ui/Button";
 import { Textarea } from "@/components/ui/Textarea";
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/Select";
 import {
   Popover,
   PopoverContent,
@@ -39,6 +33,16 @@ import {
 } from "@/components/ui/Popover";
 import { Calendar } from "@/components/ui/Calendar";
 import { cn } from "@/lib/utils";
+import { parsePhotoMetadata, type PhotoMetadata } from "@/lib/reports/photos";
+import { uploadReportPhoto } from "@/lib/storage/photo-upload";
+import { isAcceptedPhoto, PHOTO_INPUT_ACCEPT, PhotoProcessingError, processPhoto } from "@/lib/images/pipeline";
+import {
+  customFieldErrors,
+  customFieldFormValue,
+  readCustomFieldValues,
+  type CustomFieldDefinition,
+} from "@/lib/companies/custom-fields";
+import { CustomFieldInputs } from "@/components/forms/CustomFieldInputs";
 
 const client = generateClient<Schema>();
 
@@ -58,10 +62,16 @@ const formSchema = z.object({
   hailSize: z.string().optional(),
   weatherDate: z.date().optional(),
   weatherDescription: z.string().optional(),
-  status: z.enum(["submitted", "in_review", "resolved"]).optional(),
   claimNumber: z.string().optional(),
+  customFieldValues: z.record(z.string()).optional(),
 });
 
+interface NewPhoto {
+  file: File;
+  preview: string;
+  metadata: PhotoMetadata;
+}
+
 interface EditIncidentReportModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -79,11 +89,23 @@ export function EditIncidentReportModal({
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [existingPhotos, setExistingPhotos] = useState<string[]>([]);
   const [photoSignedUrls, setPhotoSignedUrls] = useState<string[]>([]);
-  const [newPhotos, setNewPhotos] = useState<File[]>([]);
+  const [newPhotos, setNewPhotos] = useState<NewPhoto[]>([]);
+  const [processingCount, setProcessingCount] = useState(0);
   const [photosToDelete, setPhotosToDelete] = useState<string[]>([]);
+  const [photoMetadata, setPhotoMetadata] = useState<PhotoMetadata[]>([]);
+  const [companyId, setCompanyId] = useState<string | null>(null);
+  // Reason of the legal hold on the report, if any; held reports are read-only
+  const [legalHoldReason, setLegalHoldReason] = useState<string | null>(null);
+  // The company's custom fields, validated like on the incident form
+  const [customFields, setCustomFields] = useState<CustomFieldDefinition[]>([]);
+  const schema = useMemo(() => formSchema.superRefine((data, ctx) => {
+    customFieldErrors(customFields, data.customFieldValues).forEach(({ key, message }) => {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["customFieldValues", key], message });
+    });
+  }), [customFields]);
 
   const form = useForm<z.infer<typeof formSchema>>({
-    resolver: zodResolver(formSchema),
+    resolver: zodResolver(schema),
     defaultValues: {
       firstName: "",
       lastName: "",
@@ -98,8 +120,8 @@ export function EditIncidentReportModal({
       shingleExposure: "",
       hailSize: "",
       weatherDescription: "",
-      status: "submitted",
       claimNumber: "",
+      customFieldValues: {},
     },
   });
 
@@ -119,6 +141,20 @@ export function EditIncidentReportModal({
 
         const parsedPhotos = report.photoUrls?.filter((url): url is string => !!url) || [];
         setExistingPhotos(parsedPhotos);
+        setPhotoMetadata(parsePhotoMetadata(report.photoMetadata));
+        setCompanyId(report.companyId || null);
+        setLegalHoldReason(report.legalHold ? report.legalHoldReason || "" : null);
+
+        let fields: CustomFieldDefinition[] = [];
+        if (report.companyId) {
+          try {
+            const res = await fetch(`/api/public/companies/${report.companyId}`);
+            fields = res.ok ? (await res.json()).company?.customFields || [] : [];
+          } catch (e) {
+            console.error("Failed to load custom fields", e);
+          }
+        }
+        setCustomFields(fields);
 
         // Fetch signed URLs for existing photos
         const signedUrls = await Promise.all(
@@ -156,8 +192,10 @@ export function EditIncidentReportModal({
           hailSize: weatherData.reported_hail_size_inches?.toString() || "",
           weatherDate: weatherData.weather_date ? new Date(weatherData.weather_date) : undefined,
           weatherDescription: weatherData.weather_description || "",
-          status: (report.status as "submitted" | "in_review" | "resolved") || "submitted",
           claimNumber: report.claimNumber || "",
+          customFieldValues: Object.fromEntries(
+            Object.entries(readCustomFieldValues(report.customFieldValues)).map(([key, value]) => [key, customFieldFormValue(value)])
+          ),
         });
       } catch (error) {
         console.error("Error fetching report:", error);
@@ -169,27 +207,45 @@ export function EditIncidentReportModal({
     fetchReport();
   }, [isOpen, reportId, form]);
 
-  const handleAddNewPhotos = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleAddNewPhotos = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
       const filesArray = Array.from(e.target.files);
-      const validFiles = filesArray.filter((file) => {
-        const isValidType = ["image/jpeg", "image/png", "image/gif"].includes(
-          file.type
-        );
-        return isValidType;
-      });
+      const validFiles = filesArray.filter(isAcceptedPhoto);
 
-      if (existingPhotos.length + newPhotos.length + validFiles.length > 20) {
+      if (existingPhotos.length + newPhotos.length + processingCount + validFiles.length > 20) {
         alert("Maximum 20 photos allowed.");
         return;
       }
 
-      setNewPhotos((prev) => [...prev, ...validFiles]);
+      // Same pipeline as the incident form: HEIC to JPEG, upright, downscaled, with metadata kept
+      setProcessingCount((count) => count + validFiles.length);
+      const failures: string[] = [];
+      for (const file of validFiles) {
+        try {
+          const processed = await processPhoto(file);
+          setNewPhotos((prev) => [
+            ...prev,
+            { file: processed.file, preview: URL.createObjectURL(processed.thumbnail), metadata: processed.metadata },
+          ]);
+        } catch (error) {
+          console.error("Error processing photo:", error);
+          failures.push(`${file.name}: ${error instanceof PhotoProcessingError ? error.message : "could not be processed"}`);
+        } finally {
+          setProcessingCount((count) => count - 1);
+        }
+      }
+
+      if (failures.length > 0) {
+        alert(`Some photos were not added:\n${failures.join("\n")}`);
+      }
     }
   };
 
   const handleRemoveNewPhoto = (index: number) => {
-    setNewPhotos((prev) => prev.filter((_, i) => i !== index));
+    setNewPhotos((prev) => {
+      URL.revokeObjectURL(prev[index].preview);
+      return prev.filter((_, i) => i !== index);
+    });
   };
 
   const handleDeleteExistingPhoto = (path: string, index: number) => {
@@ -199,6 +255,7 @@ export function EditIncidentReportModal({
   };
 
   const onSubmit = async (values: z.infer<typeof formSchema>) => {
+    if (legalHoldReason !== null) return;
     setIsSubmitting(true);
     try {
       // 1. Delete removed photos from S3
@@ -214,59 +271,70 @@ export function EditIncidentReportModal({
 
       // 2. Upload new photos
       const uploadedPhotoPaths: string[] = [];
+      const uploadedMetadata: PhotoMetadata[] = [];
       const limitedNewPhotos = newPhotos.slice(
         0,
         20 - existingPhotos.length
       );
 
-      for (const file of limitedNewPhotos) {
+      if (limitedNewPhotos.length > 0 && !companyId) {
+        throw new Error("Photos can only be added to reports that belong to a company");
+      }
+
+      for (const { file, metadata } of limitedNewPhotos) {
         try {
-          const timestamp = Date.now();
-          const cleanFileName = file.name.replace(/[^a-zA-Z0-9.]/g, "_");
-          const key = `incident-photos/${timestamp}-${cleanFileName}`;
-
-          await uploadData({
-            path: key,
-            data: file,
-            options: {
-              contentType: file.type,
-            },
-          }).result;
-
-          uploadedPhotoPaths.push(key);
+          const { path } = await uploadReportPhoto(file, { companyId: companyId!, reportId });
+          uploadedPhotoPaths.push(path);
+          uploadedMetadata.push({ ...metadata, path });
         } catch (error) {
           console.error(`Error uploading ${file.name}:`, error);
         }
       }
 
       const finalPhotos = [...existingPhotos, ...uploadedPhotoPaths];
-
-      // 3. Update IncidentReport record
-      await client.models.IncidentReport.update({
-        id: reportId,
-        firstName: values.firstName,
-        lastName: values.lastName,
-        phone: values.phone,
-        email: values.email,
-        address: values.address,
-        apartment: values.apartment,
-        city: values.city,
-        state: values.state,
-        zip: values.zip,
-        incidentDate: values.incidentDate.toISOString().split("T")[0],
-        description: values.description,
-        photoUrls: finalPhotos,
-        shingleExposure: values.shingleExposure ? parseFloat(values.shingleExposure) : null,
-        weatherReport: JSON.stringify({
-          reported_hail_size_inches: values.hailSize ? parseFloat(values.hailSize) : undefined,
-          weather_date: values.weatherDate
-            ? values.weatherDate.toISOString().split("T")[0]
-            : undefined,
-          weather_description: values.weatherDescription,
+      const finalMetadata = [
+        ...photoMetadata.filter((m) => m.path && existingPhotos.includes(m.path)),
+        ...uploadedMetadata,
+      ];
+
+      // 3. Update IncidentReport record; through the API so a legal hold placed meanwhile still blocks it
+      const response = await fetch(`/api/incident-reports/${reportId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          firstName: values.firstName,
+          lastName: values.lastName,
+          phone: values.phone,
+          email: values.email,
+          address: values.address,
+          apartment: values.apartment,
+          city: values.city,
+          state: values.state,
+          zip: values.zip,
+          incidentDate: values.incidentDate.toISOString().split("T")[0],
+          description: values.description,
+          photoUrls: finalPhotos,
+          photoMetadata: JSON.stringify(finalMetadata),
+          shingleExposure: values.shingleExposure ? parseFloat(values.shingleExposure) : null,
+          weatherReport: JSON.stringify({
+            reported_hail_size_inches: values.hailSize ? parseFloat(values.hailSize) : undefined,
+            weather_date: values.weatherDate
+              ? values.weatherDate.toISOString().split("T")[0]
+              : undefined,
+            weather_description: values.weatherDescription,
+          }),
+          claimNumber: values.claimNumber,
+          customFieldValues: values.customFieldValues || {},
         }),
-        status: values.status,
-        claimNumber: values.claimNumber,
       });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to update report");
+      }
+
+      // Photos, address or incident date may have changed, so their capture checks are stale
+      fetch(`/api/incident-reports/${reportId}/photo-evidence`, { method: "POST" })
+        .catch((err) => console.error("Photo evidence check failed:", err));
 
       onUpdate();
       onClose();
@@ -301,6 +369,16 @@ export function EditIncidentReportModal({
           </button>
         </div>
 
+        {legalHoldReason !== null && (
+          <div className="mx-6 mt-6 flex items-start gap-2 text-sm text-amber-700 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20 p-3 rounded-md">
+            <Lock className="w-4 h-4 flex-shrink-0 mt-0.5" />
+            <p>
+              This report is on legal hold and cannot be edited.
+              {legalHoldReason && ` Reason: ${legalHoldReason}`}
+            </p>
+          </div>
+        )}
+
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="p-6 space-y-6">
             {/* Claim Number */}
@@ -509,29 +587,6 @@ export function EditIncidentReportModal({
                   </FormItem>
                 )}
               />
-
-              <FormField
-                control={form.control}
-                name="status"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel className="dark:text-slate-200">Status</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
-                      <FormControl>
-                        <SelectTrigger className={cn(!field.value && "text-muted-foreground", "dark:text-slate-200 dark:border-slate-700")}>
-                          <SelectValue placeholder="Select status" />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent>
-                        <SelectItem value="submitted">Submitted</SelectItem>
-                        <SelectItem value="in_review">In Review</SelectItem>
-                        <SelectItem value="resolved">Resolved</SelectItem>
-                      </SelectContent>
-                    </Select>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
             </div>
 
             <FormField
@@ -676,6 +731,13 @@ export function EditIncidentReportModal({
               />
             </div>
 
+            {customFields.length > 0 && (
+              <div className="space-y-4 border-t border-gray-200 dark:border-slate-800 pt-4">
+                <h3 className="text-sm font-medium text-gray-700 dark:text-slate-200">Additional Information</h3>
+                <CustomFieldInputs control={form.control} fields={customFields} labelClassName="dark:text-slate-200" />
+              </div>
+            )}
+
             {/* Photo Management Section */}
             <div className="space-y-4">
               <div>
@@ -715,7 +777,7 @@ export function EditIncidentReportModal({
                       {newPhotos.map((photo, index) => (
                         <div key={index} className="relative group">
                           <img
-                            src={URL.createObjectURL(photo)}
+                            src={photo.preview}
                             alt={`New photo ${index + 1}`}
                             className="w-full h-32 object-cover rounded-lg border border-blue-300"
                           />
@@ -743,14 +805,19 @@ export function EditIncidentReportModal({
                     <input
                       type="file"
                       multiple
-                      accept=".jpg,.jpeg,.png,.gif"
+                      accept={PHOTO_INPUT_ACCEPT}
                       onChange={handleAddNewPhotos}
                       className="hidden"
                     />
                   </label>
                   <p className="text-xs text-gray-500 dark:text-slate-400">
-                    *Only .JPG, .PNG, .GIF allowed &bull; Max 20 images total*
+                    *Only .JPG, .PNG, .GIF, .HEIC allowed &bull; Max 20 images total*
                   </p>
+                  {processingCount > 0 && (
+                    <p className="text-xs text-blue-600 dark:text-blue-400">
+                      Preparing {processingCount} photo(s)...
+                    </p>
+                  )}
                   <p className="text-xs text-gray-500 dark:text-slate-400">
                     {photoSignedUrls.length + newPhotos.length} photo(s) total
                   </p>
@@ -767,7 +834,7 @@ export function EditIncidentReportModal({
               >
                 Cancel
               </Button>
-              <Button type="submit" disabled={isSubmitting}>
+              <Button type="submit" disabled={isSubmitting || processingCount > 0 || legalHoldReason !== null}>
                 {isSubmitting ? "Saving..." : "Save Changes"}
               </Button>
             </div>
@@ -1,12 +1,12 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
 
-import { CalendarIcon, Upload, X, CheckCircle, AlertCircle } from "@/components/Icons";
-import { uploadData } from "aws-amplify/storage";
+import { CalendarIcon, Upload, X, CheckCircle, AlertCircle, Clock } from "@/components/Icons";
+import { getUrl } from "aws-amplify/storage";
 import { fetchAuthSession, getCurrentUser } from "aws-amplify/auth";
 
 import { Button } from "@/components/ui/Button";
@@ -36,86 +36,136 @@ import {
 } from "@/components/ui/Select";
 import { cn } from "@/lib/utils";
 import { useUserRole } from "@/lib/auth/useUserRole";
+import { reportFieldRules } from "@/lib/reports/validation";
+import {
+  DEFAULT_COMPANY_SETTINGS,
+  OPTIONAL_FORM_FIELD_LABELS,
+  type OptionalFormField,
+  type PublicCompanySettings,
+} from "@/lib/companies/settings";
+import { customFieldErrors, type CustomFieldDefinition } from "@/lib/companies/custom-fields";
+import { collectPhotoMetadata, reportIdFromPhotoPath, reportPhotoPrefix, type PhotoMetadata } from "@/lib/reports/photos";
+import { uploadReportPhoto } from "@/lib/storage/photo-upload";
+import { isAcceptedPhoto, PHOTO_INPUT_ACCEPT, PhotoProcessingError, processPhoto } from "@/lib/images/pipeline";
+import { enqueueReport } from "@/lib/offline/outbox";
+import { dashboardDraftKey, useIncidentDraft, type PendingDraft } from "@/lib/drafts/useIncidentDraft";
+import { CustomFieldInputs } from "@/components/forms/CustomFieldInputs";
 
 // Form validation schema
 const formSchema = z.object({
   companyId: z.string().optional(), // For SuperAdmin company selection
-  claimNumber: z.string()
-    .min(1, "Claim number is required")
-    .max(50, "Claim number must be 50 characters or less")
-    .regex(/^[a-zA-Z0-9\-_]+$/, "Claim number can only contain letters, numbers, hyphens, and underscores"),
-  firstName: z.string()
-    .min(1, "First name is required")
-    .max(50, "First name must be 50 characters or less")
-    .regex(/^[a-zA-Z\s'-]+$/, "First name can only contain letters, spaces, hyphens, and apostrophes"),
-  lastName: z.string()
-    .min(1, "Last name is required")
-    .max(50, "Last name must be 50 characters or less")
-    .regex(/^[a-zA-Z\s'-]+$/, "Last name can only contain letters, spaces, hyphens, and apostrophes"),
-  phone: z.string()
-    .min(10, "Phone number must be at least 10 digits")
-    .max(20, "Phone number must be 20 characters or less")
-    .regex(/^[\d\s\-\(\)\+\.]+$/, "Phone number can only contain digits, spaces, hyphens, parentheses, plus signs, and periods")
-    .transform((val) => val.replace(/\D/g, ''))
-    .refine((val) => val.length >= 10 && val.length <= 15, "Phone number must be between 10 and 15 digits"),
-  email: z.string()
-    .min(1, "Email is required")
-    .max(100, "Email must be 100 characters or less")
-    .email("Invalid email address"),
-  address: z.string()
-    .min(1, "Street address is required")
-    .max(200, "Street address must be 200 characters or less"),
-  apartment: z.string()
-    .max(20, "Apartment/Suite must be 20 characters or less")
-    .optional(),
-  city: z.string()
-    .min(1, "City is required")
-    .max(100, "City must be 100 characters or less")
-    .regex(/^[a-zA-Z\s'-]+$/, "City can only contain letters, spaces, hyphens, and apostrophes"),
-  state: z.string()
-    .min(2, "State is required")
-    .max(2, "Use 2-letter state code")
-    .regex(/^[A-Z]{2}$/, "State must be 2 uppercase letters"),
-  zip: z.string()
-    .regex(/^\d{5}(-\d{4})?$/, "Invalid ZIP code (use format: 12345 or 12345-6789)"),
-  incidentDate: z.date({
-    required_error: "Incident date is required",
-  }).refine((date) => date <= new Date(), "Incident date cannot be in the future"),
-  description: z.string()
-    .min(10, "Description must be at least 10 characters")
-    .max(2000, "Description must be 2000 characters or less"),
-
-  // Weather Information
-  weatherHailSize: z.string()
-    .optional()
-    .refine((val) => {
-      if (!val || val === "") return true;
-      const num = parseFloat(val);
-      return !isNaN(num) && num >= 0 && num <= 10;
-    }, "Hail size must be between 0 and 10 inches"),
-  weatherDate: z.date().optional().refine((date) => !date || date <= new Date(), "Weather date cannot be in the future"),
-  weatherDescription: z.string().max(500, "Weather description must be 500 characters or less").optional(),
-
-  shingleExposure: z.string()
-    .optional()
-    .refine((val) => {
-      if (!val || val === "") return true;
-      const num = parseFloat(val);
-      return !isNaN(num) && num >= 0 && num <= 100;
-    }, "Shingle exposure must be between 0 and 100 inches"),
+  ...reportFieldRules,
   photos: z.array(z.instanceof(File)).optional(),
+  customFieldValues: z.record(z.string()).optional(), // Checked against the company's fields below
 });
 
+const NO_CUSTOM_FIELDS: CustomFieldDefinition[] = [];
+
 type FormData = z.infer<typeof formSchema>;
 
 interface FileWithPreview extends File {
   preview: string;
+  draftId: string; // Key of the photo in the saved draft
+  uploadedPath?: string; // Set once a submit attempt has uploaded it
+  metadata?: PhotoMetadata; // From the image pipeline; missing for photos restored from storage
 }
 
+const DATE_FIELDS = ["incidentDate", "weatherDate"] as const;
+
+const toDateOnly = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+// Drafts are stored as JSON: dates become YYYY-MM-DD and photos are saved separately
+const serializeDraftValues = (values: Partial<FormData>) => {
+  const { photos: _photos, ...rest } = values;
+  const serialized: Record<string, unknown> = { ...rest };
+  DATE_FIELDS.forEach((field) => {
+    const value = values[field];
+    serialized[field] = value instanceof Date && !isNaN(value.getTime()) ? toDateOnly(value) : undefined;
+  });
+  return serialized;
+};
+
+const deserializeDraftValues = (values: Record<string, unknown>): Partial<FormData> => {
+  const restored: Record<string, unknown> = { ...values };
+  DATE_FIELDS.forEach((field) => {
+    const match = typeof values[field] === "string" ? (values[field] as string).match(/^(\d{4})-(\d{2})-(\d{2})$/) : null;
+    restored[field] = match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : undefined;
+  });
+  return restored as Partial<FormData>;
+};
+
+// Whether a field a company can make required has a value
+const hasFieldValue = (data: FormData, field: OptionalFormField) => {
+  if (field === "photos") return (data.photos?.length || 0) > 0;
+  if (field === "weatherDate") return !!data.weatherDate;
+  return !!data[field]?.trim();
+};
+
+// Request body for POST /api/incident-reports, without photoUrls
+const toIncidentRequest = (
+  data: FormData,
+  companyId: string | null,
+  companyName: string | null,
+  submittedBy: string | undefined,
+  defaultShingleExposure: number | null = null
+) => {
+  // Construct Weather Report JSON
+  const weatherReport = {
+    reported_hail_size_inches: data.weatherHailSize ? parseFloat(data.weatherHailSize) : undefined,
+    weather_date: data.weatherDate ? data.weatherDate.toISOString().split('T')[0] : undefined,
+    weather_description: data.weatherDescription,
+  };
+
+  return {
+    claimNumber: data.claimNumber,
+    firstName: data.firstName,
+    lastName: data.lastName,
+    phone: data.phone.replace(/\D/g, ''),
+    email: data.email,
+    address: data.address,
+    apartment: data.apartment || "",
+    city: data.city,
+    state: data.state,
+    zip: data.zip,
+    incidentDate: data.incidentDate.toISOString().split('T')[0],
+    description: data.description,
+    shingleExposure: data.shingleExposure ? parseFloat(data.shingleExposure) : (defaultShingleExposure ?? undefined),
+    companyId,
+    companyName,
+    submittedBy,
+    weatherReport: JSON.stringify(weatherReport), // Pass as JSON string
+    customFieldValues: data.customFieldValues || {}, // Typed by the API from the company's fields
+  };
+};
+
+const defaultValues: Partial<FormData> = {
+  companyId: "",
+  claimNumber: "",
+  firstName: "",
+  lastName: "",
+  phone: "",
+  email: "",
+  address: "",
+  apartment: "",
+  city: "",
+  state: "",
+  zip: "",
+  description: "",
+  weatherHailSize: "",
+  weatherDescription: "",
+  shingleExposure: "",
+  photos: [],
+  customFieldValues: {},
+};
+
 interface IncidentReportFormProps {
   publicMode?: boolean;
   companyId?: string;
   companyName?: string;
+  // Public mode: the company's settings and custom fields, already loaded by the page
+  settings?: PublicCompanySettings;
+  customFields?: CustomFieldDefinition[];
   onSuccess?: () => void;
 }
 
@@ -123,6 +173,8 @@ export function IncidentReportForm({
   publicMode = false,
   companyId: propCompanyId,
   companyName: propCompanyName,
+  settings: propSettings,
+  customFields: propCustomFields,
   onSuccess,
 }: IncidentReportFormProps = {}) {
   const { companyId: userCompanyId, companyName: userCompanyName, userEmail, isSuperAdmin } = useUserRole();
@@ -131,6 +183,7 @@ export function IncidentReportForm({
   const companyId = publicMode ? propCompanyId : userCompanyId;
   const companyName = publicMode ? propCompanyName : userCompanyName;
   const [files, setFiles] = useState<FileWithPreview[]>([]);
+  const [processingCount, setProcessingCount] = useState(0);
   const [dragActive, setDragActive] = useState(false);
   const [datePickerOpen, setDatePickerOpen] = useState(false);
   const [weatherDatePickerOpen, setWeatherDatePickerOpen] = useState(false);
@@ -166,73 +219,172 @@ export function IncidentReportForm({
     }
   }, [isSuperAdmin, publicMode]);
 
+  const [loadedCompany, setLoadedCompany] = useState<{
+    settings: PublicCompanySettings;
+    customFields: CustomFieldDefinition[];
+  } | null>(null);
+
+  // The company's required fields and custom fields are checked on top of the standard rules
+  const [requiredFields, setRequiredFields] = useState<OptionalFormField[]>([]);
+  const [defaultShingleExposure, setDefaultShingleExposure] = useState<number | null>(null);
+  const [customFieldRules, setCustomFieldRules] = useState<CustomFieldDefinition[]>([]);
+  const schema = useMemo(() => formSchema.superRefine((data, ctx) => {
+    requiredFields.forEach((field) => {
+      if (field === "shingleExposure" && defaultShingleExposure !== null) return;
+      if (!hasFieldValue(data, field)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: `${OPTIONAL_FORM_FIELD_LABELS[field]} is required` });
+      }
+    });
+    customFieldErrors(customFieldRules, data.customFieldValues).forEach(({ key, message }) => {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["customFieldValues", key], message });
+    });
+  }), [requiredFields, defaultShingleExposure, customFieldRules]);
+
   const form = useForm<FormData>({
-    resolver: zodResolver(formSchema),
-    defaultValues: {
-      companyId: "",
-      claimNumber: "",
-      firstName: "",
-      lastName: "",
-      phone: "",
-      email: "",
-      address: "",
-      apartment: "",
-      city: "",
-      state: "",
-      zip: "",
-      description: "",
-      weatherHailSize: "",
-      weatherDescription: "",
-      shingleExposure: "",
-      photos: [],
-    },
+    resolver: zodResolver(schema),
+    defaultValues,
   });
 
-  const uploadPhotos = async (photos: FileWithPreview[], claimNumber: string, companyNameForPath: string): Promise<string[]> => {
-    // Sanitize company name for use in file path (remove special characters, spaces)
-    const sanitizedCompanyName = companyNameForPath.replace(/[^a-zA-Z0-9]/g, '_');
+  // Settings of the company the report is for: the link's company, the one a SuperAdmin picked, or the user's own
+  const selectedCompanyId = form.watch("companyId");
+  const settingsCompanyId = publicMode ? propCompanyId : (isSuperAdmin ? selectedCompanyId : userCompanyId);
+  useEffect(() => {
+    setLoadedCompany(null);
+    if (propSettings || !settingsCompanyId) return;
+
+    let cancelled = false;
+    fetch(`/api/public/companies/${settingsCompanyId}`)
+      .then(res => res.json())
+      .then(data => {
+        if (!cancelled && data.company?.settings) {
+          setLoadedCompany({ settings: data.company.settings, customFields: data.company.customFields || [] });
+        }
+      })
+      .catch(error => console.error("Error fetching company settings:", error));
+    return () => { cancelled = true; };
+  }, [propSettings, settingsCompanyId]);
+
+  const settings: PublicCompanySettings = propSettings || loadedCompany?.settings || DEFAULT_COMPANY_SETTINGS;
+  const customFields = propCustomFields || loadedCompany?.customFields || NO_CUSTOM_FIELDS;
+  const isRequired = (field: OptionalFormField) => settings.form.requiredFields.includes(field);
+  const fieldLabel = (label: string, field: OptionalFormField) => isRequired(field) ? `${label} *` : label;
 
-    const uploadPromises = photos.map(async (photo, index) => {
-      const timestamp = Date.now();
-      const path = `incident-photos/${sanitizedCompanyName}/${claimNumber}/${timestamp}-${index}-${photo.name}`;
+  useEffect(() => {
+    setRequiredFields(settings.form.requiredFields);
+    setDefaultShingleExposure(settings.form.defaultShingleExposure);
+  }, [settings]);
+
+  useEffect(() => {
+    setCustomFieldRules(customFields);
+  }, [customFields]);
 
+  // Public forms keep one draft per company link; signed-in users keep one per account
+  const draftKey = publicMode
+    ? (propCompanyId ? `public:${propCompanyId}` : null)
+    : (userEmail ? dashboardDraftKey(userEmail) : null);
+  const draft = useIncidentDraft({ draftKey, serverSync: !publicMode, companyId });
+  const { saveValues } = draft;
+
+  // Autosave whenever a field changes
+  useEffect(() => {
+    const subscription = form.watch((values) => saveValues(serializeDraftValues(values as Partial<FormData>)));
+    return () => subscription.unsubscribe();
+  }, [form, saveValues]);
+
+  const resumeDraft = async () => {
+    const saved = draft.resume();
+    if (!saved) return;
+
+    form.reset({ ...defaultValues, ...deserializeDraftValues(saved.values) });
+
+    const restored: FileWithPreview[] = saved.photos.map((photo) =>
+      Object.assign(photo.file, {
+        preview: URL.createObjectURL(photo.file),
+        draftId: photo.id,
+        uploadedPath: photo.uploadedPath,
+        metadata: photo.metadata,
+      })
+    );
+
+    // Photos recorded only in the server draft exist in storage alone; preview them from there
+    const remote = await Promise.all(saved.remotePhotoPaths.map(async (path) => {
+      let preview = "";
       try {
-        // Use server-side upload for public mode (unauthenticated users)
-        if (publicMode) {
-          const formData = new FormData();
-          formData.append("file", photo);
-          formData.append("path", path);
-
-          const response = await fetch("/api/upload/photos", {
-            method: "POST",
-            body: formData,
-          });
-
-          if (!response.ok) {
-            const error = await response.json();
-            throw new Error(error.error || "Upload failed");
-          }
+        preview = (await getUrl({ path })).url.toString();
+      } catch (error) {
+        console.error("Error loading draft photo preview:", error);
+      }
+      return Object.assign(new File([], path.split("/").pop() || "photo", { type: "image/jpeg" }), {
+        preview,
+        draftId: `remote:${path}`,
+        uploadedPath: path,
+      });
+    }));
 
-          const result = await response.json();
-          return result.path;
-        } else {
-          // Use Amplify Storage for authenticated users
-          const result = await uploadData({
-            path,
-            data: photo,
-            options: {
-              contentType: photo.type,
-            },
-          }).result;
-          return result.path;
-        }
+    const all = [...restored, ...remote];
+    setFiles(all);
+    form.setValue("photos", all);
+  };
+
+  const discardDraft = async () => {
+    await draft.discard();
+  };
+
+  /**
+   * Upload the photos that have not reached storage yet, straight to S3 under the new report's
+   * prefix, and return every photo's path in order. Each success is recorded in the draft, so
+   * when some uploads fail a retried submit reuses the same report id and only sends the rest.
+   */
+  const uploadPhotos = async (photos: FileWithPreview[], companyIdForPath: string) => {
+    const reportId = photos.map((p) => reportIdFromPhotoPath(p.uploadedPath)).find(Boolean) || crypto.randomUUID();
+    const prefix = reportPhotoPrefix(companyIdForPath, reportId);
+
+    const uploadPromises = photos.map(async (photo) => {
+      // Paths from before the per-report layout, or for another company, are uploaded again
+      if (photo.uploadedPath?.startsWith(prefix)) return photo.uploadedPath;
+
+      try {
+        const { path } = await uploadReportPhoto(photo, { companyId: companyIdForPath, reportId });
+        photo.uploadedPath = path;
+        await draft.markUploaded(photo.draftId, path);
+        return path;
       } catch (error) {
         console.error("Error uploading photo:", error);
         throw error;
       }
     });
 
-    return Promise.all(uploadPromises);
+    const results = await Promise.allSettled(uploadPromises);
+    const failed = results.filter((r) => r.status === "rejected").length;
+    if (failed > 0) {
+      throw new Error(`${failed} of ${photos.length} photo(s) could not be uploaded`);
+    }
+    return { reportId, paths: results.map((r) => (r as PromiseFulfilledResult<string>).value) };
+  };
+
+  // Offline submissions go to the outbox with their photos; the top bar syncs them on reconnect
+  const queueOffline = async (data: FormData, companyIdForReport: string | null, companyNameForReport: string | null) => {
+    await enqueueReport({
+      owner: userEmail!,
+      claimNumber: data.claimNumber,
+      companyName: companyNameForReport || "UnknownCompany",
+      report: toIncidentRequest(data, companyIdForReport, companyNameForReport, userEmail!, settings.form.defaultShingleExposure),
+      draftValues: serializeDraftValues(data),
+      photos: files.map((file) => ({
+        id: file.draftId,
+        name: file.name,
+        type: file.type,
+        lastModified: file.lastModified,
+        blob: file,
+        uploadedPath: file.uploadedPath,
+        metadata: file.metadata,
+      })),
+    });
+
+    await draft.clear();
+    form.reset();
+    setFiles([]);
+    showNotification('success', "You're offline. The report was saved on this device and will sync when you reconnect.");
   };
 
   const onSubmit = async (data: FormData) => {
@@ -252,20 +404,6 @@ export function IncidentReportForm({
         return;
       }
 
-      // Verify authentication only if not in public mode
-      let currentUser;
-      if (!publicMode) {
-        console.log("Checking authentication...");
-        try {
-          await fetchAuthSession();
-          currentUser = await getCurrentUser();
-          console.log("✅ Authentication verified");
-        } catch (authError) {
-          console.error("❌ Authentication check failed:", authError);
-          throw new Error("You must be signed in to submit an incident report. Please sign in and try again.");
-        }
-      }
-
       // Determine company ID and name based on context
       let finalCompanyId: string | null;
       let finalCompanyName: string | null;
@@ -282,45 +420,57 @@ export function IncidentReportForm({
         finalCompanyName = userCompanyName || null;
       }
 
-      // 1. Upload photos first (if any)
+      // Field mode: without a connection, queue the report on this device and sync it later
+      if (!publicMode && !navigator.onLine && userEmail) {
+        await queueOffline(data, finalCompanyId, finalCompanyName);
+        return;
+      }
+
+      // Verify authentication only if not in public mode
+      let currentUser;
+      if (!publicMode) {
+        console.log("Checking authentication...");
+        try {
+          await fetchAuthSession();
+          currentUser = await getCurrentUser();
+          console.log("✅ Authentication verified");
+        } catch (authError) {
+          console.error("❌ Authentication check failed:", authError);
+          throw new Error("You must be signed in to submit an incident report. Please sign in and try again.");
+        }
+      }
+
+      // 1. Upload photos first (if any); photos already uploaded by an earlier attempt are skipped
+      let reportId: string | undefined;
       if (files.length > 0) {
+        if (!finalCompanyId) {
+          showNotification('error', 'Photos can only be attached to reports for a company');
+          return;
+        }
         try {
           console.log("Uploading photos before report creation...");
-          finalPhotoUrls = await uploadPhotos(files, data.claimNumber, finalCompanyName || "UnknownCompany");
+          ({ reportId, paths: finalPhotoUrls } = await uploadPhotos(files, finalCompanyId));
           console.log("✅ Photos uploaded successfully! URLs:", finalPhotoUrls);
         } catch (storageError: any) {
-          console.error("❌ Photo upload failed during pre-submission phase!");
-          showNotification('error', "Photos could not be uploaded, but we will try to submit the report anyway.");
+          console.error("❌ Photo upload failed during pre-submission phase!", storageError);
+          setFiles((prev) => [...prev]); // Show which photos made it
+          showNotification('error', `${storageError.message}. Your draft is saved; submit again to upload only the remaining photos.`);
+          return;
         }
       }
 
-      // Construct Weather Report JSON
-      const weatherReport = {
-        reported_hail_size_inches: data.weatherHailSize ? parseFloat(data.weatherHailSize) : undefined,
-        weather_date: data.weatherDate ? data.weatherDate.toISOString().split('T')[0] : undefined,
-        weather_description: data.weatherDescription,
-      };
-
       // 2. Create incident report with photo URLs included
       const incidentData = {
-        claimNumber: data.claimNumber,
-        firstName: data.firstName,
-        lastName: data.lastName,
-        phone: data.phone.replace(/\D/g, ''),
-        email: data.email,
-        address: data.address,
-        apartment: data.apartment || "",
-        city: data.city,
-        state: data.state,
-        zip: data.zip,
-        incidentDate: data.incidentDate.toISOString().split('T')[0],
-        description: data.description,
-        shingleExposure: data.shingleExposure ? parseFloat(data.shingleExposure) : undefined,
+        ...toIncidentRequest(
+          data,
+          finalCompanyId,
+          finalCompanyName,
+          publicMode ? data.email : (userEmail || currentUser?.username),
+          settings.form.defaultShingleExposure
+        ),
+        reportId,
         photoUrls: finalPhotoUrls,
-        companyId: finalCompanyId,
-        companyName: finalCompanyName,
-        submittedBy: publicMode ? data.email : (userEmail || currentUser?.username),
-        weatherReport: JSON.stringify(weatherReport), // Pass as JSON string
+        photoMetadata: collectPhotoMetadata(files),
       };
 
       console.log("Calling API to create incident report...");
@@ -339,20 +489,19 @@ export function IncidentReportForm({
       createdReportId = result.report?.id || result.reportId;
       console.log("✅ Success! Created incident report with ID:", createdReportId);
 
-      // Trigger AI Analysis in the background (fire and forget)
-      if (createdReportId) {
+      // Trigger AI Analysis in the background (fire and forget), unless the company turned it off
+      if (createdReportId && settings.analysis.autoRunOnSubmit) {
         console.log("Triggering auto-analysis for:", createdReportId);
         fetch(`/api/incident-reports/${createdReportId}/analyze`, {
           method: "POST",
-          headers: { "Content-Type": "application/json" }
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ trigger: "submit" })
         }).catch(err => console.error("Auto-analysis trigger failed:", err));
       }
 
-      const successMessage = files.length > 0 && finalPhotoUrls.length === 0
-        ? "Incident report submitted successfully! (Photos could not be uploaded)"
-        : files.length > 0 && finalPhotoUrls.length > 0
-          ? `Incident report submitted successfully with ${finalPhotoUrls.length} photo(s)!`
-          : `Incident report submitted successfully!`;
+      const successMessage = finalPhotoUrls.length > 0
+        ? `Incident report submitted successfully with ${finalPhotoUrls.length} photo(s)!`
+        : `Incident report submitted successfully!`;
 
       if (onSuccess) {
         onSuccess();
@@ -360,6 +509,7 @@ export function IncidentReportForm({
         showNotification('success', successMessage);
       }
 
+      await draft.clear();
       form.reset();
       setFiles([]);
     } catch (error: any) {
@@ -387,9 +537,9 @@ export function IncidentReportForm({
     }
   };
 
-  const handleFiles = (fileList: FileList) => {
+  const handleFiles = async (fileList: FileList) => {
     const MAX_FILES = 20;
-    const remainingSlots = MAX_FILES - files.length;
+    const remainingSlots = MAX_FILES - files.length - processingCount;
 
     if (remainingSlots <= 0) {
       alert("Maximum limit of 20 images reached.");
@@ -397,28 +547,48 @@ export function IncidentReportForm({
     }
 
     const validFiles: FileWithPreview[] = [];
-    const filesArray = Array.from(fileList).slice(0, remainingSlots);
+    const failures: string[] = [];
+    // Check file type: JPEG, PNG, GIF, HEIC
+    const filesArray = Array.from(fileList).slice(0, remainingSlots).filter(isAcceptedPhoto);
 
     if (fileList.length > remainingSlots) {
       alert(`Only the first ${remainingSlots} valid files were added. Maximum limit is 20 images.`);
     }
 
-    filesArray.forEach((file) => {
-      // Check file type: JPEG, PNG, GIF
-      const allowedTypes = ["image/jpeg", "image/png", "image/gif"];
-      if (allowedTypes.includes(file.type)) {
-        const fileWithPreview = Object.assign(file, {
-          preview: URL.createObjectURL(file),
+    // Convert, rotate and downscale one at a time; decoding many phone photos at once can run a device out of memory
+    setProcessingCount((count) => count + filesArray.length);
+    const firstOrder = files.length;
+    for (const original of filesArray) {
+      try {
+        const processed = await processPhoto(original);
+        const fileWithPreview = Object.assign(processed.file, {
+          preview: URL.createObjectURL(processed.thumbnail),
+          draftId: crypto.randomUUID(),
+          metadata: processed.metadata,
         });
         validFiles.push(fileWithPreview);
+        draft.addPhoto(
+          { id: fileWithPreview.draftId, file: processed.file, metadata: processed.metadata },
+          firstOrder + validFiles.length - 1
+        );
+      } catch (error) {
+        console.error("Error processing photo:", error);
+        failures.push(`${original.name}: ${error instanceof PhotoProcessingError ? error.message : "could not be processed"}`);
+      } finally {
+        setProcessingCount((count) => count - 1);
       }
-    });
+    }
 
     setFiles((prev) => [...prev, ...validFiles]);
-    form.setValue("photos", [...files, ...validFiles]);
+    form.setValue("photos", [...(form.getValues("photos") || []), ...validFiles]);
+
+    if (failures.length > 0) {
+      alert(`Some photos were not added:\n${failures.join("\n")}`);
+    }
   };
 
   const removeFile = (index: number) => {
+    draft.removePhoto(files[index].draftId);
     const newFiles = files.filter((_, i) => i !== index);
     setFiles(newFiles);
     form.setValue("photos", newFiles);
@@ -473,6 +643,11 @@ export function IncidentReportForm({
         </div>
       )}
 
+      {/* Saved draft waiting for a decision */}
+      {draft.pending && (
+        <DraftBanner pending={draft.pending} onResume={resumeDraft} onDiscard={discardDraft} />
+      )}
+
       <Form {...form}>
         <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
           {/* Company Selection - Only for SuperAdmin */}
@@ -626,7 +801,7 @@ export function IncidentReportForm({
               name="apartment"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Apartment, Suite (Optional)</FormLabel>
+                  <FormLabel>{isRequired("apartment") ? "Apartment, Suite *" : "Apartment, Suite (Optional)"}</FormLabel>
                   <FormControl>
                     <Input placeholder="Apt, Suite, Unit, etc." {...field} />
                   </FormControl>
@@ -771,7 +946,7 @@ export function IncidentReportForm({
                 name="weatherHailSize"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Hail Size (Inches)</FormLabel>
+                    <FormLabel>{fieldLabel("Hail Size (Inches)", "weatherHailSize")}</FormLabel>
                     <FormControl>
                       <div className="relative">
                         <Input
@@ -799,7 +974,7 @@ export function IncidentReportForm({
                 name="weatherDate"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Weather Date</FormLabel>
+                    <FormLabel>{fieldLabel("Weather Date", "weatherDate")}</FormLabel>
                     <Popover open={weatherDatePickerOpen} onOpenChange={setWeatherDatePickerOpen}>
                       <PopoverTrigger asChild>
                         <FormControl>
@@ -846,7 +1021,7 @@ export function IncidentReportForm({
               name="weatherDescription"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Weather Description</FormLabel>
+                  <FormLabel>{fieldLabel("Weather Description", "weatherDescription")}</FormLabel>
                   <FormControl>
                     <Input
                       placeholder="e.g. Severe thunderstorm with hail reported"
@@ -865,7 +1040,11 @@ export function IncidentReportForm({
             name="shingleExposure"
             render={({ field }) => (
               <FormItem>
-                <FormLabel>Shingle Exposure (Optional)</FormLabel>
+                <FormLabel>
+                  {isRequired("shingleExposure") && settings.form.defaultShingleExposure === null
+                    ? "Shingle Exposure *"
+                    : "Shingle Exposure (Optional)"}
+                </FormLabel>
                 <FormControl>
                   <div className="relative">
                     <Input
@@ -873,7 +1052,9 @@ export function IncidentReportForm({
                       step="0.25"
                       min="0"
                       max="12"
-                      placeholder="Enter measurement"
+                      placeholder={settings.form.defaultShingleExposure !== null
+                        ? `Default: ${settings.form.defaultShingleExposure}`
+                        : "Enter measurement"}
                       {...field}
                       className="pr-16"
                     />
@@ -884,16 +1065,25 @@ export function IncidentReportForm({
                 </FormControl>
                 <p className="text-xs text-gray-500">
                   Height from top to bottom of shingle (0-12 inches)
+                  {settings.form.defaultShingleExposure !== null && "; leave blank to use the company default"}
                 </p>
                 <FormMessage />
               </FormItem>
             )}
           />
 
+          {/* Company Custom Fields */}
+          {customFields.length > 0 && (
+            <div className="space-y-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+              <h3 className="text-lg font-medium">Additional Information</h3>
+              <CustomFieldInputs control={form.control} fields={customFields} />
+            </div>
+          )}
+
           {/* File Upload */}
           <div className="space-y-4">
             <label className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70">
-              Upload Photos
+              {fieldLabel("Upload Photos", "photos")}
             </label>
 
             <div
@@ -916,7 +1106,7 @@ export function IncidentReportForm({
                   <input
                     type="file"
                     multiple
-                    accept=".jpg,.jpeg,.png,.gif"
+                    accept={PHOTO_INPUT_ACCEPT}
                     className="hidden"
                     onChange={(e) => {
                       if (e.target.files) {
@@ -927,20 +1117,31 @@ export function IncidentReportForm({
                 </label>
               </p>
               <p className="text-xs text-muted-foreground">
-                *Note: We only accept .JPG, .PNG, .GIF file formats &bull; Max 20 images*
+                *Note: We only accept .JPG, .PNG, .GIF, .HEIC file formats &bull; Max 20 images*
               </p>
+              {processingCount > 0 && (
+                <p className="text-xs text-primary mt-2">
+                  Preparing {processingCount} photo(s)...
+                </p>
+              )}
             </div>
 
             {/* File Previews */}
             {files.length > 0 && (
               <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                 {files.map((file, index) => (
-                  <div key={index} className="relative group">
+                  <div key={file.draftId} className="relative group">
                     <img
                       src={file.preview}
                       alt={`Preview ${index + 1}`}
                       className="w-full h-24 object-cover rounded-lg border"
                     />
+                    {file.uploadedPath && (
+                      <span className="absolute bottom-7 left-1 flex items-center gap-1 rounded bg-green-600/90 px-1.5 py-0.5 text-[10px] font-medium text-white">
+                        <CheckCircle className="h-3 w-3" />
+                        Uploaded
+                      </span>
+                    )}
                     <button
                       type="button"
                       onClick={() => removeFile(index)}
@@ -957,12 +1158,65 @@ export function IncidentReportForm({
             )}
           </div>
 
+          {form.formState.errors.photos?.message && (
+            <p className="text-sm font-medium text-destructive">{form.formState.errors.photos.message}</p>
+          )}
+
           {/* Submit Button */}
-          <Button type="submit" className="w-full" disabled={isSubmitting}>
+          <Button
+            type="submit"
+            className="w-full"
+            style={settings.branding.accentColor ? { backgroundColor: settings.branding.accentColor } : undefined}
+            disabled={isSubmitting || processingCount > 0}
+          >
             {isSubmitting ? "Submitting..." : "Submit Report"}
           </Button>
+          {draft.lastSavedAt && (
+            <p className="text-xs text-muted-foreground text-center">
+              Draft saved at {new Date(draft.lastSavedAt).toLocaleTimeString()}
+            </p>
+          )}
         </form>
       </Form>
     </div>
   );
+}
+
+function DraftBanner({
+  pending,
+  onResume,
+  onDiscard,
+}: {
+  pending: PendingDraft;
+  onResume: () => void;
+  onDiscard: () => void;
+}) {
+  const photoCount = pending.photos.length + pending.remotePhotoPaths.length;
+  const claimNumber = typeof pending.values.claimNumber === "string" ? pending.values.claimNumber : "";
+
+  return (
+    <div className="mb-6 flex flex-col gap-3 rounded-lg border border-blue-200 bg-blue-50 p-4 text-blue-900 sm:flex-row sm:items-center sm:justify-between">
+      <div className="flex items-start gap-3">
+        <Clock className="mt-0.5 h-5 w-5 text-blue-600" />
+        <div className="text-sm">
+          <p className="font-medium">
+            You have an unfinished report{claimNumber ? ` for claim ${claimNumber}` : ""}.
+          </p>
+          <p className="text-blue-800">
+            Saved {new Date(pending.savedAt).toLocaleString()}
+            {pending.source === "server" ? " to your account" : ""}
+            {photoCount > 0 ? ` with ${photoCount} photo(s)` : ""}.
+          </p>
+        </div>
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={onDiscard}>
+          Discard
+        </Button>
+        <Button type="button" size="sm" onClick={onResume}>
+          Resume
+        </Button>
+      </div>
+    </div>
+  );
 }
\ No newline at end of file
@@ -1,5 +1,8 @@
 import { createServerRunner } from "@aws-amplify/adapter-nextjs";
 import { generateServerClientUsingCookies, generateServerClientUsingReqRes } from "@aws-amplify/adapter-nextjs/data";
+import { S3Client } from "@aws-sdk/client-s3";
+import { runWithAmplifyServerContext as runWithAmplifyContext, type AmplifyServer } from "aws-amplify/adapter-core";
+import { parseAmplifyConfig } from "aws-amplify/utils";
 import { cookies } from "next/headers";
 import type { Schema } from "@/amplify/data/resource";
 import outputs from "@/amplify_outputs.json";
@@ -25,3 +28,28 @@ export function createApiClient(contextSpec: any, authMode?: 'userPool' | 'ident
     ...contextSpec,
   });
 }
+
+// The server's own AWS credentials (the hosting compute role, or your profile in development),
+// from the SDK's default provider chain
+const serverCredentials = new S3Client({ region: outputs.storage.aws_region }).config.credentials;
+
+/**
+ * Run an operation as the server itself rather than the caller. Inside it, `createApiClient(serverSpec, 'iam')`
+ * signs with the compute role, which amplify/backend.ts grants AppSync access; use it for the
+ * models only the server may write, which have no public write rule (e.g. the deletion queue).
+ * Check the caller's access first.
+ */
+export function runWithServerRole<Result>(operation: (serverSpec: AmplifyServer.ContextSpec) => Promise<Result>) {
+  return runWithAmplifyContext(
+    parseAmplifyConfig(outputs),
+    {
+      Auth: {
+        credentialsProvider: {
+          getCredentialsAndIdentityId: async () => ({ credentials: await serverCredentials() }),
+          clearCredentialsAndIdentityId: () => {},
+        },
+      },
+    },
+    operation
+  );
+}
@@ -0,0 +1,41 @@
+import { fetchAuthSession } from "aws-amplify/auth/server";
+import type { UserRole } from "@/lib/auth/useUserRole";
+
+export interface ServerCaller {
+  role: Exclude<UserRole, null>;
+  groups: string[];
+  username: string | null;
+  email: string | null;
+  companyId: string | null;
+  companyName: string | null;
+}
+
+/**
+ * Resolve the signed-in caller from the Amplify server context.
+ *
+ * Mirrors the role priority used by `useUserRole` on the client
+ * (SuperAdmin > Admin > IncidentReporter > HomeOwner) so that API routes
+ * and the UI agree on what a user may see. Returns null for guests.
+ */
+export async function getServerCaller(contextSpec: any): Promise<ServerCaller | null> {
+  const session = await fetchAuthSession(contextSpec);
+  const idToken = session.tokens?.idToken?.payload;
+
+  if (!idToken) return null;
+
+  const groups = (idToken["cognito:groups"] as string[] | undefined) || [];
+
+  let role: ServerCaller["role"] = "HomeOwner";
+  if (groups.includes("SuperAdmin")) role = "SuperAdmin";
+  else if (groups.includes("Admin")) role = "Admin";
+  else if (groups.includes("IncidentReporter")) role = "IncidentReporter";
+
+  return {
+    role,
+    groups,
+    username: (idToken["cognito:username"] as string | undefined) || null,
+    email: (idToken.email as string | undefined) || null,
+    companyId: (idToken["custom:companyId"] as string | undefined) || null,
+    companyName: (idToken["custom:companyName"] as string | undefined) || null,
+  };
+}
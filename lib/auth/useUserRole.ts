@@ -5,6 +5,18 @@ import { fetchAuthSession, fetchUserAttributes, getCurrentUser } from "aws-ampli
 
 export type UserRole = "SuperAdmin" | "Admin" | "IncidentReporter" | "HomeOwner" | null;
 
+// Last identity seen online, so field mode still knows who is signed in without a connection.
+// Sign-out clears localStorage, which removes it.
+const IDENTITY_KEY = "claimverifai:identity";
+
+interface CachedIdentity {
+  role: UserRole;
+  userEmail: string | null;
+  companyId: string | null;
+  companyName: string | null;
+  username: string | null;
+}
+
 interface UseUserRoleReturn {
   role: UserRole;
   isLoading: boolean;
@@ -44,26 +56,47 @@ export function useUserRole(): UseUserRoleReturn {
         // Get groups from Cognito token
         const groups = session.tokens?.accessToken?.payload["cognito:groups"] as string[] | undefined;
 
+        let resolvedRole: UserRole;
         if (groups && groups.length > 0) {
           // Priority: SuperAdmin > Admin > IncidentReporter > HomeOwner
           if (groups.includes("SuperAdmin")) {
-            setRole("SuperAdmin");
+            resolvedRole = "SuperAdmin";
           } else if (groups.includes("Admin")) {
-            setRole("Admin");
+            resolvedRole = "Admin";
           } else if (groups.includes("IncidentReporter")) {
-            setRole("IncidentReporter");
+            resolvedRole = "IncidentReporter";
           } else if (groups.includes("HomeOwner")) {
-            setRole("HomeOwner");
+            resolvedRole = "HomeOwner";
           } else {
-            setRole(null);
+            resolvedRole = null;
           }
         } else {
           // Default to HomeOwner if no group assigned
-          setRole("HomeOwner");
+          resolvedRole = "HomeOwner";
         }
+        setRole(resolvedRole);
+
+        const identity: CachedIdentity = {
+          role: resolvedRole,
+          userEmail: attributes.email || null,
+          companyId: attributes["custom:companyId"] || null,
+          companyName: attributes["custom:companyName"] || null,
+          username: currentUser?.username || null,
+        };
+        localStorage.setItem(IDENTITY_KEY, JSON.stringify(identity));
       } catch (error) {
-        console.error("Error fetching user role:", error);
-        setRole(null);
+        const cached = !navigator.onLine ? localStorage.getItem(IDENTITY_KEY) : null;
+        if (cached) {
+          const identity: CachedIdentity = JSON.parse(cached);
+          setRole(identity.role);
+          setUserEmail(identity.userEmail);
+          setCompanyId(identity.companyId);
+          setCompanyName(identity.companyName);
+          setUsername(identity.username);
+        } else {
+          console.error("Error fetching user role:", error);
+          setRole(null);
+        }
       } finally {
         setIsLoading(false);
       }
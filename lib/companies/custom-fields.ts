@@ -0,0 +1,399 @@
+import * as z from "zod";
+import type { createApiClient } from "@/lib/amplify-server-utils";
+
+type ApiClient = ReturnType<typeof createApiClient>;
+
+export const CUSTOM_FIELD_TYPES = ["text", "number", "date", "select", "boolean"] as const;
+export type CustomFieldType = (typeof CUSTOM_FIELD_TYPES)[number];
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: "Text",
+  number: "Number",
+  date: "Date",
+  select: "Select",
+  boolean: "Yes / No",
+};
+
+export const MAX_CUSTOM_FIELDS = 30;
+export const MAX_CUSTOM_FIELD_OPTIONS = 50;
+export const MAX_PATTERN_LENGTH = 100;
+// Longer text isn't tested against a pattern; patterns are meant for short codes
+export const MAX_PATTERN_VALUE_LENGTH = 200;
+
+// Keys are stored as property names in report values; derived keys are camelCase labels
+const KEY_PATTERN = /^[a-z][a-zA-Z0-9]{0,47}$/;
+
+export interface CustomFieldDefinition {
+  id?: string;
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  required: boolean;
+  helpText: string | null;
+  options: string[]; // Select only
+  min: number | null; // Number: smallest value; text: shortest length
+  max: number | null;
+  pattern: string | null; // Text only
+}
+
+// Stored values: text, select and date (YYYY-MM-DD) as strings, numbers and yes/no as themselves
+export type CustomFieldValue = string | number | boolean;
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+// Quantifiers that let an atom match a varying number of times; only an exact `{n}` is fixed
+const QUANTIFIER = /^(?:[*+?]|\{\d+(?:,\d*)?\})\??/;
+const isVariable = (quantifier: string) => !/^\{\d+\}/.test(quantifier);
+
+/**
+ * Why a field pattern can't be used, or null when it can. Patterns run on public submissions, so
+ * only a subset that can't backtrack for long is accepted: no backreferences or lookarounds, and
+ * no repeated group that itself contains a repeat or a choice (`(a+)+`, `(a|ab)*`).
+ */
+export function patternProblem(pattern: string): string | null {
+  if (pattern.length > MAX_PATTERN_LENGTH) return `must be ${MAX_PATTERN_LENGTH} characters or less`;
+  try {
+    new RegExp(pattern);
+  } catch {
+    return "is not a valid regular expression";
+  }
+
+  // Per open group: whether it contains a variable repeat or a choice
+  const groups: boolean[] = [];
+  const markGroup = () => {
+    if (groups.length > 0) groups[groups.length - 1] = true;
+  };
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === "\\") {
+      if (!inClass && /[1-9k]/.test(pattern[i + 1] || "")) return "can't use backreferences";
+      i++;
+    } else if (inClass) {
+      if (c === "]") inClass = false;
+    } else if (c === "[") {
+      inClass = true;
+    } else if (c === "(") {
+      if (/^\(\?<?[=!]/.test(pattern.slice(i))) return "can't use lookaheads or lookbehinds";
+      groups.push(false);
+      i += (pattern.slice(i).match(/^\(\?(?::|<[A-Za-z_$][\w$]*>)/)?.[0].length || 1) - 1;
+    } else if (c === "|") {
+      markGroup();
+    } else if (c === ")") {
+      const risky = groups.pop();
+      const quantifier = pattern.slice(i + 1).match(QUANTIFIER)?.[0];
+      if (risky && quantifier && quantifier[0] !== "?") {
+        return "can't repeat a group that contains a repeat or a choice (|)";
+      }
+      if (risky || (quantifier && isVariable(quantifier))) markGroup();
+      i += quantifier?.length || 0;
+    } else {
+      const quantifier = pattern.slice(i).match(QUANTIFIER)?.[0];
+      if (quantifier) {
+        if (isVariable(quantifier)) markGroup();
+        i += quantifier.length - 1;
+      }
+    }
+  }
+  return null;
+}
+
+const definitionSchema = z.object({
+  id: z.string().optional(),
+  key: z.string().regex(KEY_PATTERN, "Keys are a lowercase letter followed by up to 47 letters or digits").optional(), // Assigned by the server for new fields
+  label: z.string().trim().min(1, "Every field needs a label").max(80, "Labels must be 80 characters or less"),
+  type: z.enum(CUSTOM_FIELD_TYPES),
+  required: z.boolean().default(false),
+  helpText: z.string().trim().max(200, "Help text must be 200 characters or less").nullable().default(null),
+  options: z.array(z.string().trim().min(1).max(100)).max(MAX_CUSTOM_FIELD_OPTIONS).default([]),
+  min: z.number().nullable().default(null),
+  max: z.number().nullable().default(null),
+  pattern: z.string().max(200).nullable().default(null),
+}).superRefine((field, ctx) => {
+  if (field.type === "select" && field.options.length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["options"], message: `"${field.label}" needs at least one option` });
+  }
+  if (field.min !== null && field.max !== null && field.min > field.max) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["min"], message: `"${field.label}" has a minimum above its maximum` });
+  }
+  const problem = field.pattern ? patternProblem(field.pattern) : null;
+  if (problem) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["pattern"], message: `The pattern of "${field.label}" ${problem}` });
+  }
+});
+
+export type CustomFieldInput = z.input<typeof definitionSchema>;
+
+const toKey = (label: string) => {
+  const words = label.normalize("NFKD").replace(/[^a-zA-Z0-9 ]/g, " ").trim().toLowerCase().split(/\s+/).filter(Boolean);
+  // Leaves room for the number added to a taken key
+  const key = words.map((w, i) => (i === 0 ? w : w[0].toUpperCase() + w.slice(1))).join("").slice(0, 40);
+  return /^[a-z]/.test(key) ? key : `field${key}`;
+};
+
+/**
+ * Validate the field list sent by the custom fields editor. Options, limits and patterns that
+ * don't apply to a field's type are dropped. Fields without a key get one from their label.
+ * Returns an error message instead of throwing so the route can answer with a 400.
+ */
+export function validateCustomFieldDefinitions(input: unknown): { fields?: CustomFieldDefinition[]; error?: string } {
+  const result = z.array(definitionSchema).max(MAX_CUSTOM_FIELDS, `A company can have at most ${MAX_CUSTOM_FIELDS} custom fields`).safeParse(input);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return { error: issue.path.length > 0 ? `fields.${issue.path.join(".")}: ${issue.message}` : issue.message };
+  }
+
+  const used = new Set(result.data.map((f) => f.key).filter((key): key is string => !!key));
+  const fields = result.data.map((field): CustomFieldDefinition => {
+    let key = field.key;
+    if (!key) {
+      const base = toKey(field.label);
+      key = base;
+      for (let n = 2; used.has(key); n++) key = `${base}${n}`;
+      used.add(key);
+    }
+    return {
+      ...(field.id ? { id: field.id } : {}),
+      key,
+      label: field.label,
+      type: field.type,
+      required: field.required,
+      helpText: field.helpText || null,
+      options: field.type === "select" ? Array.from(new Set(field.options)) : [],
+      min: field.type === "text" || field.type === "number" ? field.min : null,
+      max: field.type === "text" || field.type === "number" ? field.max : null,
+      pattern: field.type === "text" ? field.pattern || null : null,
+    };
+  });
+
+  const keys = fields.map((f) => f.key);
+  const duplicate = keys.find((key, i) => keys.indexOf(key) !== i);
+  if (duplicate) {
+    return { error: `Two fields use the key "${duplicate}"` };
+  }
+  return { fields };
+}
+
+const isBlank = (value: unknown) =>
+  value === undefined || value === null || (typeof value === "string" && value.trim() === "");
+
+/**
+ * Convert one submitted value to its stored type. Forms send everything as strings, API clients
+ * may send numbers and booleans. Blank values are null, or an error when the field is required.
+ */
+export function parseCustomFieldValue(
+  field: CustomFieldDefinition,
+  raw: unknown
+): { value?: CustomFieldValue | null; error?: string } {
+  if (isBlank(raw)) {
+    return field.required ? { error: `${field.label} is required` } : { value: null };
+  }
+
+  switch (field.type) {
+    case "text": {
+      if (typeof raw !== "string") return { error: `${field.label} must be text` };
+      const text = raw.trim();
+      if (field.min !== null && text.length < field.min) return { error: `${field.label} must be at least ${field.min} characters` };
+      if (field.max !== null && text.length > field.max) return { error: `${field.label} must be ${field.max} characters or less` };
+      // A stored pattern that is invalid, or was saved before the safety checks, doesn't block the report
+      if (field.pattern && !patternProblem(field.pattern)) {
+        if (text.length > MAX_PATTERN_VALUE_LENGTH) {
+          return { error: `${field.label} must be ${MAX_PATTERN_VALUE_LENGTH} characters or less` };
+        }
+        if (!new RegExp(field.pattern).test(text)) return { error: `${field.label} is not in the expected format` };
+      }
+      return { value: text };
+    }
+    case "number": {
+      const n = typeof raw === "number" ? raw : typeof raw === "string" ? Number(raw) : NaN;
+      if (!Number.isFinite(n)) return { error: `${field.label} must be a number` };
+      if (field.min !== null && n < field.min) return { error: `${field.label} must be at least ${field.min}` };
+      if (field.max !== null && n > field.max) return { error: `${field.label} must be ${field.max} or less` };
+      return { value: n };
+    }
+    case "date": {
+      const match = typeof raw === "string" ? raw.match(/^(\d{4})-(\d{2})-(\d{2})$/) : null;
+      const date = match ? new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))) : null;
+      if (!date || date.toISOString().slice(0, 10) !== raw) return { error: `${field.label} must be a date (YYYY-MM-DD)` };
+      return { value: raw as string };
+    }
+    case "select":
+      if (typeof raw !== "string" || !field.options.includes(raw)) {
+        return { error: `${field.label} must be one of: ${field.options.join(", ")}` };
+      }
+      return { value: raw };
+    case "boolean":
+      if (raw === true || raw === "true") return { value: true };
+      if (raw === false || raw === "false") return { value: false };
+      return { error: `${field.label} must be yes or no` };
+  }
+}
+
+/** Per-field errors for a set of submitted values, for the forms' zod schemas. */
+export function customFieldErrors(fields: CustomFieldDefinition[], raw: Record<string, unknown> | undefined) {
+  return fields.flatMap((field) => {
+    const { error } = parseCustomFieldValue(field, raw?.[field.key]);
+    return error ? [{ key: field.key, message: error }] : [];
+  });
+}
+
+/** Stored `customFieldValues`, whatever its encoding. */
+export function readCustomFieldValues(raw: unknown): CustomFieldValues {
+  try {
+    const value = typeof raw === "string" ? JSON.parse(raw) : raw;
+    return value && typeof value === "object" && !Array.isArray(value) ? value : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Check a report's submitted values against the company's fields and convert them for storage.
+ * Values for keys the company doesn't define are dropped. Pass `previous` when updating, so
+ * values of fields that have since been removed are kept.
+ */
+export function parseCustomFieldValues(
+  fields: CustomFieldDefinition[],
+  raw: unknown,
+  previous?: unknown
+): { values?: CustomFieldValues; error?: string } {
+  const submitted = readCustomFieldValues(raw);
+  const defined = new Set(fields.map((f) => f.key));
+  const values: CustomFieldValues = Object.fromEntries(
+    Object.entries(readCustomFieldValues(previous)).filter(([key]) => !defined.has(key))
+  );
+
+  for (const field of fields) {
+    const { value, error } = parseCustomFieldValue(field, submitted[field.key]);
+    if (error) return { error };
+    if (value !== null && value !== undefined) values[field.key] = value;
+  }
+  return { values };
+}
+
+/** A stored value as shown in exports and the PDF. */
+export function formatCustomFieldValue(field: Pick<CustomFieldDefinition, "type">, value: CustomFieldValue | undefined) {
+  if (value === undefined || value === null || value === "") return "";
+  if (field.type === "boolean") return value === true ? "Yes" : "No";
+  return String(value);
+}
+
+/** A stored value as the forms edit it: everything is a string, yes/no is "true" or "false". */
+export const customFieldFormValue = (value: CustomFieldValue | undefined) =>
+  value === undefined || value === null ? "" : String(value);
+
+type CustomFieldRecord = {
+  id: string;
+  key: string;
+  label: string;
+  type?: string | null;
+  required?: boolean | null;
+  helpText?: string | null;
+  options?: (string | null)[] | null;
+  min?: number | null;
+  max?: number | null;
+  pattern?: string | null;
+};
+
+const toDefinition = (record: CustomFieldRecord): CustomFieldDefinition => ({
+  id: record.id,
+  key: record.key,
+  label: record.label,
+  type: (CUSTOM_FIELD_TYPES as readonly string[]).includes(record.type || "") ? (record.type as CustomFieldType) : "text",
+  required: !!record.required,
+  helpText: record.helpText || null,
+  options: (record.options || []).filter((o): o is string => !!o),
+  min: record.min ?? null,
+  max: record.max ?? null,
+  pattern: record.pattern || null,
+});
+
+/** A company's custom fields in form order; none for reports without a company. */
+export async function listCustomFields(
+  client: ApiClient,
+  contextSpec: any,
+  companyId: string | null | undefined
+): Promise<CustomFieldDefinition[]> {
+  if (!companyId) return [];
+
+  const fields: CustomFieldDefinition[] = [];
+  let nextToken: string | null | undefined = undefined;
+
+  do {
+    const page: Awaited<ReturnType<ApiClient["models"]["CustomField"]["listCustomFieldsByCompany"]>> =
+      await client.models.CustomField.listCustomFieldsByCompany(
+        contextSpec,
+        { companyId },
+        { sortDirection: "ASC", nextToken }
+      );
+
+    if (page.errors) {
+      throw new Error(`Failed to load custom fields: ${page.errors[0].message}`);
+    }
+
+    fields.push(...page.data.map(toDefinition));
+    nextToken = page.nextToken;
+  } while (nextToken);
+
+  return fields;
+}
+
+/**
+ * Replace a company's custom fields with `fields`, in that order. Fields keep their key, so
+ * values already stored on reports stay attached when a field is renamed; values of removed
+ * fields stay on the reports but are no longer shown or exported.
+ * CustomField has no public write rule, so pass a client for the server role.
+ */
+export async function saveCustomFields(
+  client: ApiClient,
+  contextSpec: any,
+  companyId: string,
+  fields: CustomFieldDefinition[]
+): Promise<CustomFieldDefinition[]> {
+  const existing = await listCustomFields(client, contextSpec, companyId);
+  const existingById = new Map(existing.map((f) => [f.id!, f]));
+  // New fields never take over a key a report may still hold a value for
+  const taken = new Set(existing.map((f) => f.key));
+
+  const saved: CustomFieldDefinition[] = [];
+  for (const [position, field] of fields.entries()) {
+    const current = field.id ? existingById.get(field.id) : undefined;
+    let key = current?.key || field.key;
+    if (!current) {
+      for (let n = 2; taken.has(key); n++) key = `${field.key}${n}`;
+      taken.add(key);
+    }
+    const input = {
+      companyId,
+      key,
+      label: field.label,
+      type: field.type,
+      required: field.required,
+      helpText: field.helpText,
+      options: field.options,
+      min: field.min,
+      max: field.max,
+      pattern: field.pattern,
+      position,
+    };
+
+    const { data, errors } = current
+      ? await client.models.CustomField.update(contextSpec, { id: current.id!, ...input })
+      : await client.models.CustomField.create(contextSpec, input);
+    if (errors || !data) {
+      throw new Error(`Failed to save custom field "${field.label}": ${errors?.[0].message || "no data returned"}`);
+    }
+    saved.push(toDefinition(data));
+  }
+
+  const kept = new Set(saved.map((f) => f.id));
+  for (const field of existing) {
+    if (kept.has(field.id)) continue;
+    const { errors } = await client.models.CustomField.delete(contextSpec, { id: field.id! });
+    if (errors) {
+      throw new Error(`Failed to remove custom field "${field.label}": ${errors[0].message}`);
+    }
+  }
+
+  return saved;
+}
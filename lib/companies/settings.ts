@@ -0,0 +1,135 @@
+import * as z from "zod";
+import {
+  COMPANY_SETTINGS_VERSION,
+  DEFAULT_COMPANY_SETTINGS,
+  OPTIONAL_FORM_FIELDS,
+  parseCompanySettings,
+  type CompanySettings,
+  type OptionalFormField,
+} from "@/amplify/data/company-settings";
+import type { createApiClient } from "@/lib/amplify-server-utils";
+import { REPORT_STATUSES } from "@/lib/reports/workflow";
+
+type ApiClient = ReturnType<typeof createApiClient>;
+
+// The shape and the lenient reader live with the data schema so the Lambdas can use them too
+export {
+  COMPANY_SETTINGS_VERSION,
+  DEFAULT_COMPANY_SETTINGS,
+  OPTIONAL_FORM_FIELDS,
+  parseCompanySettings,
+  type CompanySettings,
+  type OptionalFormField,
+} from "@/amplify/data/company-settings";
+
+export const MAX_TRASH_RETENTION_DAYS = 365;
+export const MAX_RETENTION_YEARS = 100;
+export const MAX_NOTIFICATION_RECIPIENTS = 20;
+
+export const OPTIONAL_FORM_FIELD_LABELS: Record<OptionalFormField, string> = {
+  apartment: "Apartment/Suite",
+  shingleExposure: "Shingle exposure",
+  weatherHailSize: "Reported hail size",
+  weatherDate: "Weather event date",
+  weatherDescription: "Weather description",
+  photos: "Photos",
+};
+
+const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Colors must be in #RRGGBB format").nullable();
+const retentionYears = z.number().int().min(1).max(MAX_RETENTION_YEARS).nullable();
+
+/** Strict schema for writes; stored settings are read with `parseCompanySettings`. */
+export const companySettingsSchema = z.object({
+  version: z.literal(COMPANY_SETTINGS_VERSION),
+  form: z.object({
+    defaultShingleExposure: z.number().gt(0).max(100).nullable(),
+    requiredFields: z.array(z.enum(OPTIONAL_FORM_FIELDS)),
+  }),
+  workflow: z.object({
+    // "submitted" is where every report starts, so it can't be turned off
+    allowedStatuses: z.array(z.enum(REPORT_STATUSES))
+      .refine((statuses) => statuses.includes("submitted"), "Allowed statuses must include Submitted")
+      .nullable(),
+  }),
+  branding: z.object({
+    primaryColor: hexColor,
+    accentColor: hexColor,
+  }),
+  notifications: z.object({
+    recipients: z.array(z.string().email("Notification recipients must be email addresses")).max(MAX_NOTIFICATION_RECIPIENTS),
+  }),
+  analysis: z.object({
+    autoRunOnSubmit: z.boolean(),
+  }),
+  retention: z.object({
+    trashRetentionDays: z.number().int().min(1).max(MAX_TRASH_RETENTION_DAYS),
+    piiPurgeYears: retentionYears,
+    reportPurgeYears: retentionYears,
+  }),
+}) satisfies z.ZodType<CompanySettings>;
+
+/**
+ * Validate settings sent by the settings editor. Returns an error message instead of throwing so
+ * the route can answer with a 400.
+ */
+export function validateCompanySettings(input: unknown): { settings?: CompanySettings; error?: string } {
+  const result = companySettingsSchema.safeParse(input);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return { error: `settings.${issue.path.join(".")}: ${issue.message}` };
+  }
+  return { settings: result.data };
+}
+
+/** A company's settings, or the defaults for reports without a company. */
+export async function getCompanySettings(
+  client: ApiClient,
+  contextSpec: any,
+  companyId: string | null | undefined
+): Promise<CompanySettings> {
+  if (!companyId) return DEFAULT_COMPANY_SETTINGS;
+
+  const { data: company, errors } = await client.models.Company.get(contextSpec, { id: companyId }, {
+    selectionSet: ["id", "settings"],
+  });
+  if (errors) {
+    throw new Error(`Failed to load company settings: ${errors[0].message}`);
+  }
+  return parseCompanySettings(company?.settings);
+}
+
+/** The part of the settings the public form may see; recipients and retention stay internal. */
+export function publicCompanySettings(settings: CompanySettings) {
+  const { version, form, branding, analysis } = settings;
+  return { version, form, branding, analysis };
+}
+export type PublicCompanySettings = ReturnType<typeof publicCompanySettings>;
+
+interface SubmittedReport {
+  apartment?: string | null;
+  shingleExposure?: number | string | null;
+  weatherReport?: unknown;
+  photoUrls?: unknown[] | null;
+}
+
+/** Labels of the company's required fields that a submitted report leaves empty. */
+export function missingRequiredFields(settings: Pick<CompanySettings, "form">, report: SubmittedReport): string[] {
+  let weather: Record<string, unknown> = {};
+  try {
+    const parsed = typeof report.weatherReport === "string" ? JSON.parse(report.weatherReport) : report.weatherReport;
+    if (parsed && typeof parsed === "object") weather = parsed;
+  } catch {
+    // Treated as no weather details
+  }
+
+  const present: Record<OptionalFormField, boolean> = {
+    apartment: !!report.apartment?.trim(),
+    shingleExposure: report.shingleExposure !== null && report.shingleExposure !== undefined && report.shingleExposure !== "",
+    weatherHailSize: weather.reported_hail_size_inches !== undefined && weather.reported_hail_size_inches !== null,
+    weatherDate: !!weather.weather_date,
+    weatherDescription: typeof weather.weather_description === "string" && !!weather.weather_description.trim(),
+    photos: (report.photoUrls?.length || 0) > 0,
+  };
+
+  return settings.form.requiredFields.filter((field) => !present[field]).map((field) => OPTIONAL_FORM_FIELD_LABELS[field]);
+}
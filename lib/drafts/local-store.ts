@@ -0,0 +1,94 @@
+/**
+ * Browser-side draft storage for the incident form, backed by IndexedDB so photos
+ * (as Blobs) survive a refresh or a dropped connection along with the field values.
+ */
+
+import { openDatabase, runTransaction } from "@/lib/offline/idb";
+import type { PhotoMetadata } from "@/lib/reports/photos";
+
+const DB_NAME = "claimverifai-drafts";
+const DB_VERSION = 1;
+const DRAFTS = "drafts";
+const PHOTOS = "photos";
+
+export interface LocalDraft {
+  key: string;
+  values: Record<string, unknown>;
+  savedAt: string;
+}
+
+export interface LocalDraftPhoto {
+  id: string;
+  draftKey: string;
+  order: number;
+  name: string;
+  type: string;
+  lastModified: number;
+  blob: Blob;
+  // Storage path once the photo has been uploaded by a submit attempt
+  uploadedPath?: string;
+  metadata?: PhotoMetadata;
+}
+
+const openDb = openDatabase(DB_NAME, DB_VERSION, (db) => {
+  if (!db.objectStoreNames.contains(DRAFTS)) db.createObjectStore(DRAFTS, { keyPath: "key" });
+  if (!db.objectStoreNames.contains(PHOTOS)) {
+    db.createObjectStore(PHOTOS, { keyPath: "id" }).createIndex("draftKey", "draftKey");
+  }
+});
+
+const run = <T>(stores: string[], mode: IDBTransactionMode, body: (tx: IDBTransaction) => IDBRequest<T> | void) =>
+  runTransaction<T>(openDb, stores, mode, body);
+
+export async function saveLocalDraft(key: string, values: Record<string, unknown>) {
+  const draft: LocalDraft = { key, values, savedAt: new Date().toISOString() };
+  await run([DRAFTS], "readwrite", (tx) => tx.objectStore(DRAFTS).put(draft));
+  return draft;
+}
+
+/** The draft and its photos in the order they were added, or null when there is none. */
+export async function loadLocalDraft(key: string) {
+  const draft = await run<LocalDraft>([DRAFTS], "readonly", (tx) => tx.objectStore(DRAFTS).get(key));
+  const photos = await run<LocalDraftPhoto[]>([PHOTOS], "readonly", (tx) =>
+    tx.objectStore(PHOTOS).index("draftKey").getAll(key));
+
+  if (!draft && (!photos || photos.length === 0)) return null;
+  return {
+    draft: draft || null,
+    photos: (photos || []).sort((a, b) => a.order - b.order),
+  };
+}
+
+export async function putLocalDraftPhoto(photo: LocalDraftPhoto) {
+  await run([PHOTOS], "readwrite", (tx) => tx.objectStore(PHOTOS).put(photo));
+}
+
+export async function deleteLocalDraftPhoto(id: string) {
+  await run([PHOTOS], "readwrite", (tx) => tx.objectStore(PHOTOS).delete(id));
+}
+
+/** Remember that a photo reached storage, so a retried submit skips it. */
+export async function markLocalDraftPhotoUploaded(id: string, uploadedPath: string) {
+  await run([PHOTOS], "readwrite", (tx) => {
+    const store = tx.objectStore(PHOTOS);
+    const request = store.get(id);
+    request.onsuccess = () => {
+      if (request.result) store.put({ ...request.result, uploadedPath });
+    };
+  });
+}
+
+export async function clearLocalDraft(key: string) {
+  await run([DRAFTS, PHOTOS], "readwrite", (tx) => {
+    tx.objectStore(DRAFTS).delete(key);
+    const photos = tx.objectStore(PHOTOS);
+    const request = photos.index("draftKey").openKeyCursor(IDBKeyRange.only(key));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        photos.delete(cursor.primaryKey);
+        cursor.continue();
+      }
+    };
+  });
+}
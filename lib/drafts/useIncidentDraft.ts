@@ -0,0 +1,250 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useDebouncedCallback } from "use-debounce";
+import { generateClient } from "aws-amplify/data";
+import type { Schema } from "@/amplify/data/resource";
+import {
+  clearLocalDraft,
+  deleteLocalDraftPhoto,
+  loadLocalDraft,
+  markLocalDraftPhotoUploaded,
+  putLocalDraftPhoto,
+  saveLocalDraft,
+} from "@/lib/drafts/local-store";
+import type { PhotoMetadata } from "@/lib/reports/photos";
+
+const client = generateClient<Schema>();
+
+const LOCAL_SAVE_DELAY_MS = 800;
+const SERVER_SAVE_DELAY_MS = 5000;
+
+export interface DraftPhoto {
+  id: string;
+  file: File;
+  uploadedPath?: string;
+  metadata?: PhotoMetadata;
+}
+
+/** A draft found when the form opened, waiting for the user to resume or discard it. */
+export interface PendingDraft {
+  source: "local" | "server";
+  savedAt: string;
+  values: Record<string, unknown>;
+  photos: DraftPhoto[];
+  // Uploaded by an earlier submit on another device; there is no local copy
+  remotePhotoPaths: string[];
+}
+
+interface UseIncidentDraftOptions {
+  draftKey: string | null; // null until the form knows whose draft it is
+  serverSync: boolean; // Signed-in users also keep a copy on the server
+  companyId?: string | null;
+}
+
+/** Draft key for a signed-in user's dashboard form; offline reports reopen into it too. */
+export const dashboardDraftKey = (email: string) => `dashboard:${email}`;
+
+const hasContent = (values: Record<string, unknown>) =>
+  Object.values(values).some((v) => v !== undefined && v !== null && v !== "");
+
+/**
+ * Autosave for the incident form: values and photos go to IndexedDB, and for signed-in users
+ * the values (plus any uploaded photo paths) also go to an IncidentReportDraft record.
+ * Saving starts once any existing draft has been resumed or discarded, so an empty form
+ * never overwrites it.
+ */
+export function useIncidentDraft({ draftKey, serverSync, companyId }: UseIncidentDraftOptions) {
+  const [pending, setPending] = useState<PendingDraft | null>(null);
+  const [ready, setReady] = useState(false);
+  const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
+  const serverDraftId = useRef<string | null>(null);
+  const uploadedPaths = useRef<Map<string, string>>(new Map());
+  const latestValues = useRef<Record<string, unknown>>({});
+
+  // Look for a saved draft; the newer of the local and server copies wins
+  useEffect(() => {
+    if (!draftKey) return;
+    let cancelled = false;
+
+    const load = async () => {
+      let local: Awaited<ReturnType<typeof loadLocalDraft>> = null;
+      try {
+        local = await loadLocalDraft(draftKey);
+      } catch (error) {
+        console.warn("Could not read the local draft:", error);
+      }
+
+      let server: { id: string; values: unknown; uploadedPhotoPaths?: (string | null)[] | null; savedAt: string } | null = null;
+      if (serverSync) {
+        try {
+          const { data } = await client.models.IncidentReportDraft.list({ filter: { draftKey: { eq: draftKey } } });
+          server = [...(data || [])].sort((a, b) => b.savedAt.localeCompare(a.savedAt))[0] || null;
+          serverDraftId.current = server?.id || null;
+        } catch (error) {
+          console.warn("Could not read the server draft:", error);
+        }
+      }
+      if (cancelled) return;
+
+      const localPhotos: DraftPhoto[] = (local?.photos || []).map((p) => ({
+        id: p.id,
+        file: new File([p.blob], p.name, { type: p.type, lastModified: p.lastModified }),
+        uploadedPath: p.uploadedPath,
+        metadata: p.metadata,
+      }));
+      const localSavedAt = local?.draft?.savedAt || "";
+      const serverValues = server?.values
+        ? (typeof server.values === "string" ? JSON.parse(server.values) : server.values) as Record<string, unknown>
+        : null;
+
+      const serverPaths = (server?.uploadedPhotoPaths || []).filter((p): p is string => !!p);
+
+      let found: PendingDraft | null = null;
+      if (server && serverValues && (hasContent(serverValues) || serverPaths.length > 0) && server.savedAt > localSavedAt) {
+        const localUploaded = new Set(localPhotos.map((p) => p.uploadedPath).filter(Boolean));
+        found = {
+          source: "server",
+          savedAt: server.savedAt,
+          values: serverValues,
+          photos: localPhotos,
+          remotePhotoPaths: serverPaths.filter((p) => !localUploaded.has(p)),
+        };
+      } else if (local && (hasContent(local.draft?.values || {}) || localPhotos.length > 0)) {
+        found = {
+          source: "local",
+          savedAt: localSavedAt || new Date().toISOString(),
+          values: local.draft?.values || {},
+          photos: localPhotos,
+          remotePhotoPaths: [],
+        };
+      }
+
+      if (found) setPending(found);
+      else setReady(true);
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [draftKey, serverSync]);
+
+  const saveServer = useDebouncedCallback(async () => {
+    if (!draftKey || !serverSync) return;
+    const input = {
+      draftKey,
+      companyId: companyId || undefined,
+      values: JSON.stringify(latestValues.current),
+      uploadedPhotoPaths: Array.from(uploadedPaths.current.values()),
+      savedAt: new Date().toISOString(),
+    };
+    try {
+      if (serverDraftId.current) {
+        await client.models.IncidentReportDraft.update({ id: serverDraftId.current, ...input });
+      } else {
+        const { data } = await client.models.IncidentReportDraft.create(input);
+        serverDraftId.current = data?.id || null;
+      }
+    } catch (error) {
+      console.warn("Could not save the server draft:", error);
+    }
+  }, SERVER_SAVE_DELAY_MS);
+
+  const saveLocal = useDebouncedCallback(async () => {
+    if (!draftKey) return;
+    try {
+      const draft = await saveLocalDraft(draftKey, latestValues.current);
+      setLastSavedAt(draft.savedAt);
+    } catch (error) {
+      console.warn("Could not save the local draft:", error);
+    }
+  }, LOCAL_SAVE_DELAY_MS);
+
+  const saveValues = useCallback((values: Record<string, unknown>) => {
+    if (!ready) return;
+    latestValues.current = values;
+    saveLocal();
+    // An empty form only needs to overwrite a server draft that already exists
+    if (hasContent(values) || serverDraftId.current) saveServer();
+  }, [ready, saveLocal, saveServer]);
+
+  const addPhoto = useCallback(async (photo: DraftPhoto, order: number) => {
+    if (!draftKey || !ready) return;
+    try {
+      await putLocalDraftPhoto({
+        id: photo.id,
+        draftKey,
+        order,
+        name: photo.file.name,
+        type: photo.file.type,
+        lastModified: photo.file.lastModified,
+        blob: photo.file,
+        uploadedPath: photo.uploadedPath,
+        metadata: photo.metadata,
+      });
+    } catch (error) {
+      console.warn("Could not save the photo to the local draft:", error);
+    }
+  }, [draftKey, ready]);
+
+  const removePhoto = useCallback(async (id: string) => {
+    uploadedPaths.current.delete(id);
+    try {
+      await deleteLocalDraftPhoto(id);
+    } catch (error) {
+      console.warn("Could not remove the photo from the local draft:", error);
+    }
+    saveServer();
+  }, [saveServer]);
+
+  const markUploaded = useCallback(async (id: string, path: string) => {
+    uploadedPaths.current.set(id, path);
+    try {
+      await markLocalDraftPhotoUploaded(id, path);
+    } catch (error) {
+      console.warn("Could not record the uploaded photo in the local draft:", error);
+    }
+    saveServer();
+  }, [saveServer]);
+
+  /** Accept the pending draft; the caller restores the returned values and photos into the form. */
+  const resume = useCallback(() => {
+    const draft = pending;
+    if (draft) {
+      latestValues.current = draft.values;
+      draft.photos.forEach((p) => p.uploadedPath && uploadedPaths.current.set(p.id, p.uploadedPath));
+      draft.remotePhotoPaths.forEach((path) => uploadedPaths.current.set(`remote:${path}`, path));
+    }
+    setPending(null);
+    setReady(true);
+    return draft;
+  }, [pending]);
+
+  /** Delete the saved draft everywhere, e.g. after a successful submit or when the user discards it. */
+  const clear = useCallback(async () => {
+    saveLocal.cancel();
+    saveServer.cancel();
+    latestValues.current = {};
+    uploadedPaths.current.clear();
+    setPending(null);
+    setReady(true);
+    setLastSavedAt(null);
+
+    if (!draftKey) return;
+    try {
+      await clearLocalDraft(draftKey);
+    } catch (error) {
+      console.warn("Could not clear the local draft:", error);
+    }
+    if (serverSync && serverDraftId.current) {
+      const id = serverDraftId.current;
+      serverDraftId.current = null;
+      try {
+        await client.models.IncidentReportDraft.delete({ id });
+      } catch (error) {
+        console.warn("Could not delete the server draft:", error);
+      }
+    }
+  }, [draftKey, serverSync, saveLocal, saveServer]);
+
+  return { pending, ready, lastSavedAt, saveValues, addPhoto, removePhoto, markUploaded, resume, discard: clear, clear };
+}
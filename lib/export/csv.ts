@@ -0,0 +1,72 @@
+type CsvValue = string | number | boolean | null | undefined;
+
+// Quote per RFC 4180 and neutralize leading formula characters so spreadsheets don't evaluate cells
+const escapeCell = (value: CsvValue) => {
+  if (value === null || value === undefined) return "";
+  let text = String(value);
+  if (/^[=+\-@]/.test(text) && typeof value === "string") text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serialize rows to CSV. Columns default to the keys of the first row; `labels` renames header
+ * cells, and `header: false` omits the header line (for appending to an earlier chunk).
+ */
+export function toCsv<T extends Record<string, CsvValue>>(
+  rows: T[],
+  columns?: (keyof T & string)[],
+  options: { labels?: Partial<Record<keyof T & string, string>>, header?: boolean } = {}
+): string {
+  const keys = columns || (rows[0] ? (Object.keys(rows[0]) as (keyof T & string)[]) : []);
+  const lines = options.header === false ? [] : [keys.map((key) => escapeCell(options.labels?.[key] ?? key)).join(",")];
+  for (const row of rows) {
+    lines.push(keys.map((column) => escapeCell(row[column])).join(","));
+  }
+  return lines.join("\r\n");
+}
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, doubled quotes, CRLF or LF line ends) into rows of cells.
+ * A leading byte-order mark is dropped and blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) endRow();
+
+  return rows;
+}
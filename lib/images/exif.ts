@@ -0,0 +1,337 @@
+/**
+ * Minimal EXIF support for incident photos: read orientation, capture time, camera and GPS
+ * from JPEG or HEIC bytes, and write those fields back into a re-encoded JPEG.
+ * Runs in the browser and on the server; there is no DOM or Node dependency.
+ */
+
+export interface ExifGps {
+  latitude: number;
+  longitude: number;
+  altitude?: number; // Meters above sea level
+}
+
+export interface ExifData {
+  orientation?: number;
+  // Camera-local time as YYYY-MM-DDTHH:mm:ss, with the UTC offset appended when the camera recorded one
+  capturedAt?: string;
+  make?: string;
+  model?: string;
+  gps?: ExifGps;
+}
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+
+const TAG = {
+  make: 0x010f,
+  model: 0x0110,
+  orientation: 0x0112,
+  exifIfd: 0x8769,
+  gpsIfd: 0x8825,
+  dateTimeOriginal: 0x9003,
+  offsetTimeOriginal: 0x9011,
+  gpsVersion: 0x0000,
+  gpsLatitudeRef: 0x0001,
+  gpsLatitude: 0x0002,
+  gpsLongitudeRef: 0x0003,
+  gpsLongitude: 0x0004,
+  gpsAltitudeRef: 0x0005,
+  gpsAltitude: 0x0006,
+} as const;
+
+// TIFF field types used here and their sizes in bytes
+type FieldType = 1 | 2 | 3 | 4 | 5 | 7 | 9 | 10;
+const TYPE_SIZES: Record<FieldType, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+const matchesAt = (bytes: Uint8Array, offset: number, pattern: number[]) =>
+  pattern.every((b, i) => bytes[offset + i] === b);
+
+const isTiffHeader = (bytes: Uint8Array, offset: number) =>
+  matchesAt(bytes, offset, [0x49, 0x49, 0x2a, 0x00]) || matchesAt(bytes, offset, [0x4d, 0x4d, 0x00, 0x2a]);
+
+// Offset of the TIFF header inside the file, or -1
+function findTiffStart(bytes: Uint8Array): number {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1];
+      if (marker === 0xda || marker === 0xd9) break; // Image data starts; no more metadata
+      const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+      if (marker === 0xe1 && matchesAt(bytes, offset + 4, EXIF_HEADER) && isTiffHeader(bytes, offset + 10)) {
+        return offset + 10;
+      }
+      offset += 2 + length;
+    }
+    return -1;
+  }
+
+  // HEIC keeps the same "Exif\0\0" + TIFF block in an item inside the container
+  for (let i = 0; i + 10 < bytes.length; i++) {
+    if (bytes[i] === 0x45 && matchesAt(bytes, i, EXIF_HEADER) && isTiffHeader(bytes, i + 6)) return i + 6;
+  }
+  return -1;
+}
+
+interface IfdField {
+  type: FieldType;
+  count: number;
+  valueOffset: number; // Relative to the TIFF start
+}
+
+class TiffReader {
+  private view: DataView;
+  private little: boolean;
+
+  constructor(bytes: Uint8Array, start: number) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset + start, bytes.length - start);
+    this.little = this.view.getUint16(0) === 0x4949;
+  }
+
+  get firstIfd() {
+    return this.view.getUint32(4, this.little);
+  }
+
+  readIfd(offset: number): Map<number, IfdField> {
+    const fields = new Map<number, IfdField>();
+    if (offset <= 0 || offset + 2 > this.view.byteLength) return fields;
+
+    const count = this.view.getUint16(offset, this.little);
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      if (entry + 12 > this.view.byteLength) break;
+      const type = this.view.getUint16(entry + 2, this.little) as FieldType;
+      if (!TYPE_SIZES[type]) continue;
+      const valueCount = this.view.getUint32(entry + 4, this.little);
+      const size = TYPE_SIZES[type] * valueCount;
+      const valueOffset = size > 4 ? this.view.getUint32(entry + 8, this.little) : entry + 8;
+      if (valueOffset + size > this.view.byteLength) continue;
+      fields.set(this.view.getUint16(entry, this.little), { type, count: valueCount, valueOffset });
+    }
+    return fields;
+  }
+
+  string(field?: IfdField) {
+    if (!field || field.type !== 2) return undefined;
+    let text = "";
+    for (let i = 0; i < field.count; i++) {
+      const code = this.view.getUint8(field.valueOffset + i);
+      if (code === 0) break;
+      text += String.fromCharCode(code);
+    }
+    return text.trim() || undefined;
+  }
+
+  numbers(field?: IfdField): number[] {
+    if (!field) return [];
+    const values: number[] = [];
+    for (let i = 0; i < field.count; i++) {
+      const at = field.valueOffset + i * TYPE_SIZES[field.type];
+      switch (field.type) {
+        case 1:
+        case 7:
+          values.push(this.view.getUint8(at));
+          break;
+        case 3:
+          values.push(this.view.getUint16(at, this.little));
+          break;
+        case 4:
+          values.push(this.view.getUint32(at, this.little));
+          break;
+        case 9:
+          values.push(this.view.getInt32(at, this.little));
+          break;
+        case 5:
+        case 10: {
+          const read = field.type === 5 ? "getUint32" : "getInt32";
+          const denominator = this.view[read](at + 4, this.little);
+          values.push(denominator ? this.view[read](at, this.little) / denominator : 0);
+          break;
+        }
+      }
+    }
+    return values;
+  }
+}
+
+const toDecimalDegrees = ([degrees = 0, minutes = 0, seconds = 0]: number[], ref?: string) => {
+  const value = degrees + minutes / 60 + seconds / 3600;
+  return ref === "S" || ref === "W" ? -value : value;
+};
+
+/** Read the fields we use from a JPEG or HEIC file. Returns null when there is no EXIF block. */
+export function readExif(bytes: Uint8Array): ExifData | null {
+  const start = findTiffStart(bytes);
+  if (start < 0) return null;
+
+  try {
+    const tiff = new TiffReader(bytes, start);
+    const ifd0 = tiff.readIfd(tiff.firstIfd);
+    const exifIfd = tiff.readIfd(tiff.numbers(ifd0.get(TAG.exifIfd))[0] ?? 0);
+    const gpsIfd = tiff.readIfd(tiff.numbers(ifd0.get(TAG.gpsIfd))[0] ?? 0);
+
+    const data: ExifData = {
+      orientation: tiff.numbers(ifd0.get(TAG.orientation))[0],
+      make: tiff.string(ifd0.get(TAG.make)),
+      model: tiff.string(ifd0.get(TAG.model)),
+    };
+
+    const taken = tiff.string(exifIfd.get(TAG.dateTimeOriginal));
+    const match = taken?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+    if (match && match[1] !== "0000") {
+      const offset = tiff.string(exifIfd.get(TAG.offsetTimeOriginal));
+      data.capturedAt = `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}`
+        + (offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : "");
+    }
+
+    const latitude = tiff.numbers(gpsIfd.get(TAG.gpsLatitude));
+    const longitude = tiff.numbers(gpsIfd.get(TAG.gpsLongitude));
+    if (latitude.length === 3 && longitude.length === 3) {
+      const gps: ExifGps = {
+        latitude: toDecimalDegrees(latitude, tiff.string(gpsIfd.get(TAG.gpsLatitudeRef))),
+        longitude: toDecimalDegrees(longitude, tiff.string(gpsIfd.get(TAG.gpsLongitudeRef))),
+      };
+      const altitude = tiff.numbers(gpsIfd.get(TAG.gpsAltitude))[0];
+      if (altitude !== undefined) {
+        gps.altitude = tiff.numbers(gpsIfd.get(TAG.gpsAltitudeRef))[0] === 1 ? -altitude : altitude;
+      }
+      // 0,0 is what some phones write when they had no fix
+      if (gps.latitude !== 0 || gps.longitude !== 0) data.gps = gps;
+    }
+
+    return data;
+  } catch (error) {
+    console.warn("Could not parse EXIF data:", error);
+    return null;
+  }
+}
+
+interface WriteEntry {
+  tag: number;
+  type: 1 | 2 | 3 | 4 | 5;
+  // ASCII: character codes including the trailing NUL; RATIONAL: numerator/denominator pairs
+  values: number[];
+}
+
+const entryCount = (entry: WriteEntry) => (entry.type === 5 ? entry.values.length / 2 : entry.values.length);
+const entryDataSize = (entry: WriteEntry) => entryCount(entry) * TYPE_SIZES[entry.type];
+const ifdByteLength = (entries: WriteEntry[]) =>
+  entries.reduce((size, e) => {
+    const data = entryDataSize(e);
+    return size + (data > 4 ? data + (data % 2) : 0);
+  }, 2 + entries.length * 12 + 4);
+
+const ascii = (text: string) => [...Array.from(text, (c) => c.charCodeAt(0) & 0x7f), 0];
+
+const toRationals = (value: number, denominator: number) => [Math.round(Math.abs(value) * denominator), denominator];
+
+const toDms = (decimal: number) => {
+  const abs = Math.abs(decimal);
+  const degrees = Math.floor(abs);
+  const minutes = Math.floor((abs - degrees) * 60);
+  const seconds = (abs - degrees - minutes / 60) * 3600;
+  return [degrees, 1, minutes, 1, ...toRationals(seconds, 1000)];
+};
+
+function writeIfd(view: DataView, offset: number, entries: WriteEntry[]) {
+  const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+  view.setUint16(offset, sorted.length, true);
+  let dataOffset = offset + 2 + sorted.length * 12 + 4;
+
+  sorted.forEach((entry, i) => {
+    const at = offset + 2 + i * 12;
+    view.setUint16(at, entry.tag, true);
+    view.setUint16(at + 2, entry.type, true);
+    view.setUint32(at + 4, entryCount(entry), true);
+
+    const size = entryDataSize(entry);
+    let target = at + 8;
+    if (size > 4) {
+      view.setUint32(at + 8, dataOffset, true);
+      target = dataOffset;
+      dataOffset += size + (size % 2);
+    }
+
+    entry.values.forEach((value, j) => {
+      if (entry.type === 1 || entry.type === 2) view.setUint8(target + j, value);
+      else if (entry.type === 3) view.setUint16(target + j * 2, value, true);
+      else view.setUint32(target + j * 4, value, true);
+    });
+  });
+
+  view.setUint32(offset + 2 + sorted.length * 12, 0, true); // No further IFDs
+}
+
+/**
+ * Build a JPEG APP1 segment holding the given fields. Orientation is always written as 1
+ * because callers store pixels already rotated upright.
+ */
+export function buildExifSegment(data: ExifData): Uint8Array {
+  const ifd0: WriteEntry[] = [{ tag: TAG.orientation, type: 3, values: [1] }];
+  if (data.make) ifd0.push({ tag: TAG.make, type: 2, values: ascii(data.make) });
+  if (data.model) ifd0.push({ tag: TAG.model, type: 2, values: ascii(data.model) });
+
+  const exifIfd: WriteEntry[] = [];
+  const captured = data.capturedAt?.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})([+-]\d{2}:\d{2})?/);
+  if (captured) {
+    const [, y, mo, d, h, mi, s, offset] = captured;
+    exifIfd.push({ tag: TAG.dateTimeOriginal, type: 2, values: ascii(`${y}:${mo}:${d} ${h}:${mi}:${s}`) });
+    if (offset) exifIfd.push({ tag: TAG.offsetTimeOriginal, type: 2, values: ascii(offset) });
+  }
+
+  const gpsIfd: WriteEntry[] = [];
+  if (data.gps) {
+    gpsIfd.push(
+      { tag: TAG.gpsVersion, type: 1, values: [2, 3, 0, 0] },
+      { tag: TAG.gpsLatitudeRef, type: 2, values: ascii(data.gps.latitude < 0 ? "S" : "N") },
+      { tag: TAG.gpsLatitude, type: 5, values: toDms(data.gps.latitude) },
+      { tag: TAG.gpsLongitudeRef, type: 2, values: ascii(data.gps.longitude < 0 ? "W" : "E") },
+      { tag: TAG.gpsLongitude, type: 5, values: toDms(data.gps.longitude) },
+    );
+    if (data.gps.altitude !== undefined) {
+      gpsIfd.push(
+        { tag: TAG.gpsAltitudeRef, type: 1, values: [data.gps.altitude < 0 ? 1 : 0] },
+        { tag: TAG.gpsAltitude, type: 5, values: toRationals(data.gps.altitude, 100) },
+      );
+    }
+  }
+
+  // Pointer entries are fixed-size, so every IFD's length is known before the offsets are
+  if (exifIfd.length) ifd0.push({ tag: TAG.exifIfd, type: 4, values: [0] });
+  if (gpsIfd.length) ifd0.push({ tag: TAG.gpsIfd, type: 4, values: [0] });
+
+  const ifd0Offset = 8;
+  const exifOffset = ifd0Offset + ifdByteLength(ifd0);
+  const gpsOffset = exifOffset + (exifIfd.length ? ifdByteLength(exifIfd) : 0);
+  const tiffLength = gpsOffset + (gpsIfd.length ? ifdByteLength(gpsIfd) : 0);
+
+  ifd0.forEach((entry) => {
+    if (entry.tag === TAG.exifIfd) entry.values = [exifOffset];
+    if (entry.tag === TAG.gpsIfd) entry.values = [gpsOffset];
+  });
+
+  const segment = new Uint8Array(4 + EXIF_HEADER.length + tiffLength);
+  const segmentLength = segment.length - 2;
+  segment.set([0xff, 0xe1, segmentLength >> 8, segmentLength & 0xff, ...EXIF_HEADER]);
+
+  const tiff = new DataView(segment.buffer, 4 + EXIF_HEADER.length);
+  tiff.setUint16(0, 0x4949); // "II": little-endian
+  tiff.setUint16(2, 42, true);
+  tiff.setUint32(4, ifd0Offset, true);
+  writeIfd(tiff, ifd0Offset, ifd0);
+  if (exifIfd.length) writeIfd(tiff, exifOffset, exifIfd);
+  if (gpsIfd.length) writeIfd(tiff, gpsOffset, gpsIfd);
+
+  return segment;
+}
+
+/** Insert an APP1 segment into a JPEG right after its SOI/JFIF header. */
+export function insertExifSegment(jpeg: Uint8Array, segment: Uint8Array): Uint8Array {
+  let insertAt = 2;
+  // Keep APP0 (JFIF) first, as readers expect
+  if (jpeg[2] === 0xff && jpeg[3] === 0xe0) insertAt = 4 + ((jpeg[4] << 8) | jpeg[5]);
+
+  const result = new Uint8Array(jpeg.length + segment.length);
+  result.set(jpeg.subarray(0, insertAt), 0);
+  result.set(segment, insertAt);
+  result.set(jpeg.subarray(insertAt), insertAt + segment.length);
+  return result;
+}
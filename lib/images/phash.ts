@@ -0,0 +1,80 @@
+/**
+ * Perceptual hash (pHash) for spotting the same photo across claims, even after it was
+ * resized, recompressed or lightly edited. The server hashes each stored photo when it checks
+ * the report's photos (lib/reports/photo-verification.ts); there is no DOM or Node dependency here.
+ */
+
+/** Side of the grayscale square the hash is computed from. */
+export const PHASH_SAMPLE_SIZE = 32;
+
+// Low-frequency block kept from the DCT; 8x8 less the DC term gives 63 hash bits
+const HASH_SIZE = 8;
+
+let cosines: Float64Array | null = null;
+
+// cos((2x + 1) * u * pi / 2N) for every x, u < N
+function cosineTable() {
+  if (!cosines) {
+    const n = PHASH_SAMPLE_SIZE;
+    cosines = new Float64Array(n * n);
+    for (let u = 0; u < n; u++) {
+      for (let x = 0; x < n; x++) {
+        cosines[u * n + x] = Math.cos(((2 * x + 1) * u * Math.PI) / (2 * n));
+      }
+    }
+  }
+  return cosines;
+}
+
+/**
+ * Hash a PHASH_SAMPLE_SIZE x PHASH_SAMPLE_SIZE grayscale image (row-major luminance, any scale)
+ * into a 16-character hex string.
+ */
+export function perceptualHash(luminance: ArrayLike<number>): string {
+  const n = PHASH_SAMPLE_SIZE;
+  if (luminance.length !== n * n) {
+    throw new Error(`Expected ${n * n} luminance values, got ${luminance.length}`);
+  }
+
+  const table = cosineTable();
+  const coefficients: number[] = [];
+  for (let u = 0; u < HASH_SIZE; u++) {
+    for (let v = 0; v < HASH_SIZE; v++) {
+      let sum = 0;
+      for (let y = 0; y < n; y++) {
+        const cy = table[u * n + y];
+        for (let x = 0; x < n; x++) {
+          sum += luminance[y * n + x] * cy * table[v * n + x];
+        }
+      }
+      coefficients.push(sum);
+    }
+  }
+
+  // The DC term is the overall brightness, so it is left out of both the median and the bits:
+  // the 63 AC terms give bits 1-63 and bit 0 is always clear, keeping the 16-character length
+  const ac = coefficients.slice(1);
+  const median = [...ac].sort((a, b) => a - b)[(ac.length - 1) / 2];
+  const bits = [0, ...ac.map((c) => (c > median ? 1 : 0))];
+
+  let hex = "";
+  for (let i = 0; i < bits.length; i += 4) {
+    hex += ((bits[i] << 3) | (bits[i + 1] << 2) | (bits[i + 2] << 1) | bits[i + 3]).toString(16);
+  }
+  return hex;
+}
+
+/** Number of differing bits between two hashes; 0 is the same image, up to ~8 is usually a near-duplicate. */
+export function hashDistance(a: string, b: string): number {
+  if (a.length !== b.length) return Infinity;
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
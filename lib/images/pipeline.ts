@@ -0,0 +1,166 @@
+import { buildExifSegment, insertExifSegment, readExif, type ExifData } from "@/lib/images/exif";
+import type { PhotoMetadata } from "@/lib/reports/photos";
+
+export interface PhotoPipelineOptions {
+  maxDimension: number; // Longest edge in pixels after downscaling
+  quality: number; // JPEG quality, 0-1
+  stripGps: boolean; // Remove location from the uploaded file; it is still kept on the report
+  thumbnailSize: number;
+}
+
+// Deployments can tune these without a code change
+export const PHOTO_PIPELINE_DEFAULTS: PhotoPipelineOptions = {
+  maxDimension: Number(process.env.NEXT_PUBLIC_PHOTO_MAX_DIMENSION) || 2560,
+  quality: 0.88,
+  stripGps: process.env.NEXT_PUBLIC_PHOTO_STRIP_GPS !== "false",
+  thumbnailSize: 320,
+};
+
+/** Value for file inputs; HEIC is converted to JPEG before upload. */
+export const PHOTO_INPUT_ACCEPT = ".jpg,.jpeg,.png,.gif,.heic,.heif";
+
+const ACCEPTED_TYPES = ["image/jpeg", "image/png", "image/gif", "image/heic", "image/heif"];
+
+// Some browsers report HEIC with an empty type, so fall back to the extension
+const isHeic = (file: File) => /image\/hei[cf]/.test(file.type) || /\.hei[cf]$/i.test(file.name);
+
+export const isAcceptedPhoto = (file: File) => ACCEPTED_TYPES.includes(file.type) || isHeic(file);
+
+export class PhotoProcessingError extends Error {
+  constructor(public fileName: string, message: string) {
+    super(message);
+    this.name = "PhotoProcessingError";
+  }
+}
+
+export interface ProcessedPhoto {
+  file: File; // Upload-ready JPEG (or the original when it needed no changes)
+  thumbnail: Blob;
+  metadata: PhotoMetadata;
+}
+
+async function decode(file: File): Promise<ImageBitmap | HTMLImageElement> {
+  // Only Safari decodes HEIC natively, so it goes through the bundled libheif build, which applies the
+  // HEIF rotation itself. The decoder is a few MB and loaded on first use. Files named .heic that
+  // turn out to be something else fall through.
+  if (isHeic(file)) {
+    try {
+      const { heicTo } = await import("heic-to/next");
+      return await heicTo({ blob: file, type: "bitmap" });
+    } catch (error) {
+      console.warn(`HEIC decoder could not read ${file.name}:`, error);
+    }
+  }
+
+  // Both paths apply EXIF orientation, so the pixels come out upright
+  if (typeof createImageBitmap === "function") {
+    try {
+      return await createImageBitmap(file, { imageOrientation: "from-image" });
+    } catch {
+      // Fall through to <img>, which can decode formats createImageBitmap rejects
+    }
+  }
+
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    return img;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+type Drawable = ImageBitmap | HTMLImageElement | HTMLCanvasElement;
+
+const sizeOf = (source: Drawable) => source instanceof HTMLImageElement
+  ? { width: source.naturalWidth, height: source.naturalHeight }
+  : { width: source.width, height: source.height };
+
+function render(source: Drawable, maxDimension: number) {
+  const { width, height } = sizeOf(source);
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const ctx = canvas.getContext("2d")!;
+  // JPEG has no transparency; flatten PNG/GIF onto white instead of black
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+const toJpeg = (canvas: HTMLCanvasElement, quality: number) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Could not encode JPEG"))), "image/jpeg", quality)
+  );
+
+const jpegName = (name: string) => name.replace(/\.[^.]+$/, "") + ".jpg";
+
+/**
+ * Prepare one photo for upload: decode (including HEIC, in every browser),
+ * rotate upright, downscale, re-encode as JPEG and make a thumbnail. Capture time, camera
+ * and GPS are returned as metadata and written back into the JPEG, minus GPS when stripping.
+ */
+export async function processPhoto(file: File, overrides: Partial<PhotoPipelineOptions> = {}): Promise<ProcessedPhoto> {
+  const options = { ...PHOTO_PIPELINE_DEFAULTS, ...overrides };
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const exif: ExifData = readExif(bytes) || {};
+
+  let source: ImageBitmap | HTMLImageElement;
+  try {
+    source = await decode(file);
+  } catch {
+    throw new PhotoProcessingError(
+      file.name,
+      isHeic(file)
+        ? "The HEIC photo could not be converted. Export it as a JPEG and try again."
+        : "The image could not be read."
+    );
+  }
+
+  try {
+    const canvas = render(source, options.maxDimension);
+    const metadata: PhotoMetadata = {
+      originalName: file.name,
+      originalType: file.type || (isHeic(file) ? "image/heic" : ""),
+      originalSize: file.size,
+      width: canvas.width,
+      height: canvas.height,
+      capturedAt: exif.capturedAt,
+      latitude: exif.gps?.latitude,
+      longitude: exif.gps?.longitude,
+      altitude: exif.gps?.altitude,
+      make: exif.make,
+      model: exif.model,
+    };
+
+    const thumbnail = await toJpeg(render(canvas, options.thumbnailSize), 0.7);
+
+    // A JPEG that is already upright, small enough and has nothing to strip is uploaded as-is
+    const untouched = file.type === "image/jpeg"
+      && (exif.orientation ?? 1) === 1
+      && canvas.width === sizeOf(source).width
+      && !(options.stripGps && exif.gps);
+    if (untouched) {
+      return { file, thumbnail, metadata };
+    }
+
+    const encoded = new Uint8Array(await (await toJpeg(canvas, options.quality)).arrayBuffer());
+    const withExif = insertExifSegment(encoded, buildExifSegment({
+      ...exif,
+      gps: options.stripGps ? undefined : exif.gps,
+    }));
+
+    return {
+      file: new File([withExif], jpegName(file.name), { type: "image/jpeg", lastModified: file.lastModified }),
+      thumbnail,
+      metadata,
+    };
+  } finally {
+    if ("close" in source) source.close();
+  }
+}
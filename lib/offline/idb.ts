@@ -0,0 +1,44 @@
+/**
+ * Small promise wrappers over IndexedDB, shared by the draft store and the offline outbox.
+ */
+
+/** Returns an opener that connects once and reuses the connection afterwards. */
+export function openDatabase(name: string, version: number, upgrade: (db: IDBDatabase) => void) {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  return (): Promise<IDBDatabase> => {
+    if (typeof indexedDB === "undefined") {
+      return Promise.reject(new Error("IndexedDB is not available"));
+    }
+
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(name, version);
+        request.onupgradeneeded = () => upgrade(request.result);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return dbPromise;
+  };
+}
+
+// Run one transaction and resolve with the request's result once it commits
+export async function runTransaction<T>(
+  open: () => Promise<IDBDatabase>,
+  stores: string[],
+  mode: IDBTransactionMode,
+  body: (tx: IDBTransaction) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await open();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(stores, mode);
+    const request = body(tx);
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
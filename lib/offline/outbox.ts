@@ -0,0 +1,84 @@
+/**
+ * Outbox for reports submitted while offline. Each entry keeps the request body the form
+ * would have sent plus the photo Blobs, and is synced in the order it was queued.
+ */
+
+import { openDatabase, runTransaction } from "@/lib/offline/idb";
+import type { PhotoMetadata } from "@/lib/reports/photos";
+
+const DB_NAME = "claimverifai-outbox";
+const DB_VERSION = 1;
+const ENTRIES = "entries";
+
+/** Fired on window whenever the outbox changes, so every indicator can refresh. */
+export const OUTBOX_CHANGE_EVENT = "claimverifai:outbox-change";
+
+export type OutboxStatus = "queued" | "syncing" | "conflict" | "failed";
+
+export interface OutboxPhoto {
+  id: string;
+  name: string;
+  type: string;
+  lastModified: number;
+  blob: Blob;
+  uploadedPath?: string;
+  metadata?: PhotoMetadata;
+}
+
+export interface OutboxEntry {
+  id: string;
+  owner: string; // Email of the user who queued it; only they can sync it
+  queuedAt: string;
+  claimNumber: string;
+  companyName: string;
+  // POST /api/incident-reports body without photoUrls, which are filled in at sync time
+  report: Record<string, unknown>;
+  // The form values as saved in drafts, so a conflicted entry can be reopened in the form
+  draftValues: Record<string, unknown>;
+  photos: OutboxPhoto[];
+  status: OutboxStatus;
+  error?: string;
+  attempts: number;
+}
+
+const openDb = openDatabase(DB_NAME, DB_VERSION, (db) => {
+  if (!db.objectStoreNames.contains(ENTRIES)) {
+    db.createObjectStore(ENTRIES, { keyPath: "id" }).createIndex("owner", "owner");
+  }
+});
+
+const run = <T>(mode: IDBTransactionMode, body: (store: IDBObjectStore) => IDBRequest<T> | void) =>
+  runTransaction<T>(openDb, [ENTRIES], mode, (tx) => body(tx.objectStore(ENTRIES)));
+
+const notifyChange = () => {
+  if (typeof window !== "undefined") window.dispatchEvent(new Event(OUTBOX_CHANGE_EVENT));
+};
+
+/** A user's queued entries, oldest first. */
+export async function listOutbox(owner: string) {
+  const entries = await run<OutboxEntry[]>("readonly", (store) => store.index("owner").getAll(owner));
+  return (entries || []).sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+}
+
+export async function enqueueReport(entry: Omit<OutboxEntry, "id" | "queuedAt" | "status" | "attempts">) {
+  const queued: OutboxEntry = {
+    ...entry,
+    id: crypto.randomUUID(),
+    queuedAt: new Date().toISOString(),
+    status: "queued",
+    attempts: 0,
+  };
+  await run("readwrite", (store) => store.put(queued));
+  notifyChange();
+  return queued;
+}
+
+export async function updateOutboxEntry(entry: OutboxEntry) {
+  await run("readwrite", (store) => store.put(entry));
+  notifyChange();
+}
+
+export async function removeOutboxEntry(id: string) {
+  await run("readwrite", (store) => store.delete(id));
+  notifyChange();
+}
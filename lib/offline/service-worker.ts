@@ -0,0 +1,22 @@
+// Must match API_CACHE in public/sw.js
+const API_CACHE = "claimverifai-api";
+
+/** Register the field-mode service worker. Skipped in development, where chunks are not hashed. */
+export async function registerServiceWorker() {
+  if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+  try {
+    await navigator.serviceWorker.register("/sw.js");
+  } catch (error) {
+    console.error("Service worker registration failed:", error);
+  }
+}
+
+/** Drop cached report data so the next person on this device can't read it offline. */
+export async function clearOfflineCaches() {
+  if (typeof caches === "undefined") return;
+  try {
+    await caches.delete(API_CACHE);
+  } catch (error) {
+    console.warn("Could not clear the offline cache:", error);
+  }
+}
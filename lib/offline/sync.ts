@@ -0,0 +1,179 @@
+import { collectPhotoMetadata, reportIdFromPhotoPath, reportPhotoPrefix } from "@/lib/reports/photos";
+import { PhotoUploadError, uploadReportPhoto } from "@/lib/storage/photo-upload";
+import { loadLocalDraft, putLocalDraftPhoto, saveLocalDraft } from "@/lib/drafts/local-store";
+import {
+  listOutbox,
+  removeOutboxEntry,
+  updateOutboxEntry,
+  type OutboxEntry,
+} from "@/lib/offline/outbox";
+
+const SYNC_LOCK = "claimverifai-outbox-sync";
+
+export interface SyncResult {
+  synced: number;
+  conflicts: number;
+  failed: number;
+  // Sync stopped early because the connection dropped or the session expired
+  interrupted: boolean;
+}
+
+type EntryOutcome = "synced" | "conflict" | "failed" | "offline" | "unauthorized";
+
+class SyncRequestError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const readError = async (response: Response, fallback: string) => {
+  const body = await response.json().catch(() => null);
+  return body?.error || fallback;
+};
+
+async function syncEntry(queued: OutboxEntry): Promise<EntryOutcome> {
+  const entry: OutboxEntry = { ...queued, status: "syncing", error: undefined, attempts: queued.attempts + 1 };
+  await updateOutboxEntry(entry);
+
+  // Photos land under the id the report will be created with; a resumed sync keeps the id it started with
+  const companyId = entry.report.companyId as string | null | undefined;
+  const reportId = entry.photos.map((p) => reportIdFromPhotoPath(p.uploadedPath)).find(Boolean) || crypto.randomUUID();
+
+  try {
+    if (entry.photos.length > 0 && !companyId) {
+      throw new SyncRequestError(400, "Photos can only be attached to reports for a company");
+    }
+
+    // Photos first, one at a time, recording each so an interrupted sync resumes where it stopped
+    for (const photo of entry.photos) {
+      if (photo.uploadedPath?.startsWith(reportPhotoPrefix(companyId!, reportId))) continue;
+
+      try {
+        const file = new File([photo.blob], photo.name, { type: photo.type, lastModified: photo.lastModified });
+        photo.uploadedPath = (await uploadReportPhoto(file, { companyId: companyId!, reportId })).path;
+      } catch (error) {
+        if (error instanceof PhotoUploadError) throw new SyncRequestError(error.status, error.message);
+        throw error;
+      }
+      await updateOutboxEntry(entry);
+    }
+
+    const response = await fetch("/api/incident-reports", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        ...entry.report,
+        reportId,
+        photoUrls: entry.photos.map((p) => p.uploadedPath),
+        photoMetadata: collectPhotoMetadata(entry.photos),
+      }),
+    });
+
+    // A report with this claim number reached the server while we were offline
+    if (response.status === 409) {
+      await updateOutboxEntry({
+        ...entry,
+        status: "conflict",
+        error: await readError(response, "This claim already exists on the server"),
+      });
+      return "conflict";
+    }
+    if (!response.ok) {
+      throw new SyncRequestError(response.status, await readError(response, "Failed to create incident report"));
+    }
+
+    const result = await response.json();
+    await removeOutboxEntry(entry.id);
+
+    const createdId = result.report?.id;
+    // Same automatic run as an online submit; the server skips it when the company turned it off
+    if (createdId) {
+      fetch(`/api/incident-reports/${createdId}/analyze`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ trigger: "submit" }),
+      }).catch((err) => console.error("Auto-analysis trigger failed:", err));
+    }
+    return "synced";
+  } catch (error: any) {
+    // fetch rejects with a TypeError when the request never reached the server
+    if (error instanceof TypeError) {
+      await updateOutboxEntry({ ...entry, status: "queued" });
+      return "offline";
+    }
+    if (error instanceof SyncRequestError && (error.status === 401 || error.status === 403)) {
+      await updateOutboxEntry({ ...entry, status: "queued", error: "Sign in again to finish syncing" });
+      return "unauthorized";
+    }
+
+    console.error(`Failed to sync queued report ${entry.claimNumber}:`, error);
+    await updateOutboxEntry({ ...entry, status: "failed", error: error?.message || "Sync failed" });
+    return "failed";
+  }
+}
+
+async function syncQueued(owner: string): Promise<SyncResult> {
+  const result: SyncResult = { synced: 0, conflicts: 0, failed: 0, interrupted: false };
+
+  for (const entry of await listOutbox(owner)) {
+    // Conflicts and failures wait for the user; "syncing" means an earlier run was cut off
+    if (entry.status === "conflict" || entry.status === "failed") continue;
+    if (!navigator.onLine) {
+      result.interrupted = true;
+      break;
+    }
+
+    const outcome = await syncEntry(entry);
+    if (outcome === "offline" || outcome === "unauthorized") {
+      result.interrupted = true;
+      break;
+    }
+    if (outcome === "synced") result.synced++;
+    if (outcome === "conflict") result.conflicts++;
+    if (outcome === "failed") result.failed++;
+  }
+
+  return result;
+}
+
+let inFlight: Promise<SyncResult> | null = null;
+
+/**
+ * Send a user's queued reports in the order they were queued. Only one sync runs at a time,
+ * across tabs where the browser supports Web Locks, so a report is never created twice.
+ */
+export async function syncOutbox(owner: string): Promise<SyncResult | null> {
+  if (typeof navigator !== "undefined" && navigator.locks) {
+    return navigator.locks.request(SYNC_LOCK, { ifAvailable: true }, (lock) => (lock ? syncQueued(owner) : null));
+  }
+
+  if (!inFlight) {
+    inFlight = syncQueued(owner).finally(() => {
+      inFlight = null;
+    });
+  }
+  return inFlight;
+}
+
+/** Put a failed entry back in the queue; the next sync tries it again. */
+export async function retryOutboxEntry(entry: OutboxEntry) {
+  await updateOutboxEntry({ ...entry, status: "queued", error: undefined });
+}
+
+/**
+ * Move a conflicted entry back into the incident form's draft so the user can change the
+ * claim or merge it with the existing report. Photos that already uploaded are kept.
+ */
+export async function reopenOutboxEntry(entry: OutboxEntry, draftKey: string) {
+  const existing = await loadLocalDraft(draftKey);
+  const hasDraft = existing?.photos.length || Object.values(existing?.draft?.values || {}).some((v) => v);
+  if (hasDraft) {
+    throw new Error("Submit or discard the draft in the incident form first");
+  }
+
+  await saveLocalDraft(draftKey, entry.draftValues);
+  for (const [order, photo] of entry.photos.entries()) {
+    await putLocalDraftPhoto({ ...photo, draftKey, order });
+  }
+  await removeOutboxEntry(entry.id);
+}
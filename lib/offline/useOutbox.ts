@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useState } from "react";
+import { listOutbox, OUTBOX_CHANGE_EVENT, type OutboxEntry } from "@/lib/offline/outbox";
+import { syncOutbox } from "@/lib/offline/sync";
+
+interface UseOutboxOptions {
+  // Sync when mounted and whenever the connection comes back; one component per page should do this
+  autoSync?: boolean;
+}
+
+/** The signed-in user's offline queue, the connection state, and a way to sync now. */
+export function useOutbox(owner: string | null, { autoSync = false }: UseOutboxOptions = {}) {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [online, setOnline] = useState(typeof navigator === "undefined" ? true : navigator.onLine);
+  const [syncing, setSyncing] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!owner) return;
+    try {
+      setEntries(await listOutbox(owner));
+    } catch (error) {
+      console.warn("Could not read the offline queue:", error);
+    }
+  }, [owner]);
+
+  const sync = useCallback(async () => {
+    if (!owner || !navigator.onLine) return;
+    setSyncing(true);
+    try {
+      const result = await syncOutbox(owner);
+      if (result) console.log("Offline queue synced:", result);
+    } catch (error) {
+      console.error("Error syncing the offline queue:", error);
+    } finally {
+      setSyncing(false);
+      refresh();
+    }
+  }, [owner, refresh]);
+
+  useEffect(() => {
+    refresh();
+    if (autoSync && navigator.onLine) sync();
+
+    const handleOnline = () => {
+      setOnline(true);
+      if (autoSync) sync();
+    };
+    const handleOffline = () => setOnline(false);
+
+    window.addEventListener(OUTBOX_CHANGE_EVENT, refresh);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener(OUTBOX_CHANGE_EVENT, refresh);
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [autoSync, refresh, sync]);
+
+  const waiting = entries.filter((e) => e.status === "queued" || e.status === "syncing").length;
+  const needsAttention = entries.filter((e) => e.status === "conflict" || e.status === "failed").length;
+
+  return { entries, online, syncing, waiting, needsAttention, sync, refresh };
+}
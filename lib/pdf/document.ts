@@ -0,0 +1,324 @@
+import { deflateSync } from "zlib";
+import type { PdfImage } from "@/lib/pdf/images";
+
+// A4 in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+
+export type RGB = [number, number, number];
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  italic?: boolean;
+  color?: RGB;
+  x?: number; // Left edge; defaults to the margin
+  width?: number; // Wrap width; defaults to the remaining line width
+  lineHeight?: number; // Multiple of size
+  align?: "left" | "right" | "center";
+}
+
+// Standard Helvetica glyph widths (per 1000 em) for ASCII 32-126, from the Adobe AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Characters outside Latin-1 that WinAnsiEncoding still has a slot for
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 128, "‚": 130, "„": 132, "…": 133, "‘": 145, "’": 146, "“": 147, "”": 148,
+  "•": 149, "–": 150, "—": 151, "™": 153,
+};
+
+const toWinAnsi = (ch: string) => {
+  const code = ch.charCodeAt(0);
+  if (code >= 32 && code <= 126) return code;
+  if (code >= 160 && code <= 255) return code;
+  return WIN_ANSI_EXTRAS[ch] ?? 63; // "?"
+};
+
+const glyphWidth = (code: number, bold: boolean) => {
+  if (code >= 32 && code <= 126) return (bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS)[code - 32];
+  return 556;
+};
+
+export const measureText = (text: string, size: number, bold = false) =>
+  Array.from(text).reduce((w, ch) => w + glyphWidth(toWinAnsi(ch), bold), 0) * size / 1000;
+
+// PDF string literal in WinAnsi, with the delimiters and non-ASCII bytes escaped
+const pdfString = (text: string) =>
+  "(" + Array.from(text).map((ch) => {
+    const code = toWinAnsi(ch);
+    if (code === 40 || code === 41 || code === 92) return "\\" + String.fromCharCode(code);
+    if (code > 126) return "\\" + code.toString(8).padStart(3, "0");
+    return String.fromCharCode(code);
+  }).join("") + ")";
+
+const num = (n: number) => (Math.round(n * 100) / 100).toString();
+
+/** Break text into lines no wider than `width`, honouring explicit newlines. Long words are split. */
+export function wrapText(text: string, width: number, size: number, bold = false): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.replace(/\r\n?/g, "\n").split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measureText(candidate, size, bold) <= width) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      // Split words that don't fit on a line of their own
+      let rest = word;
+      while (measureText(rest, size, bold) > width && rest.length > 1) {
+        let cut = rest.length - 1;
+        while (cut > 1 && measureText(rest.slice(0, cut), size, bold) > width) cut--;
+        lines.push(rest.slice(0, cut));
+        rest = rest.slice(cut);
+      }
+      line = rest;
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+interface Page {
+  content: string[];
+  images: Set<number>;
+}
+
+/**
+ * Minimal single-column PDF writer for server-side reports: Helvetica text with wrapping,
+ * rules, boxes and JPEG/PNG images, flowing onto new pages automatically.
+ * Coordinates passed in are measured from the top-left of the page.
+ */
+export function createPdfDocument(options: { margin?: number, footer?: string } = {}) {
+  const margin = options.margin ?? 36;
+  const contentWidth = PAGE_WIDTH - margin * 2;
+  const pages: Page[] = [];
+  const images: PdfImage[] = [];
+  let page: Page;
+  let cursorY = margin; // Distance from the top of the page
+
+  const bottomLimit = () => PAGE_HEIGHT - margin - (options.footer ? 16 : 0);
+
+  const addPage = () => {
+    page = { content: [], images: new Set() };
+    pages.push(page);
+    cursorY = margin;
+  };
+  addPage();
+
+  /** Start a new page when less than `height` points are left. */
+  const ensureSpace = (height: number) => {
+    if (cursorY + height > bottomLimit()) addPage();
+  };
+
+  const setFill = (color: RGB) => `${color.map((c) => num(c / 255)).join(" ")} rg`;
+  const setStroke = (color: RGB) => `${color.map((c) => num(c / 255)).join(" ")} RG`;
+
+  const textOp = (text: string, x: number, top: number, size: number, bold: boolean, italic: boolean, color: RGB) => {
+    const font = bold ? (italic ? "F4" : "F2") : italic ? "F3" : "F1";
+    const baseline = PAGE_HEIGHT - top - size * 0.8;
+    return `BT ${setFill(color)} /${font} ${num(size)} Tf ${num(x)} ${num(baseline)} Td ${pdfString(text)} Tj ET`;
+  };
+
+  const drawTextLine = (text: string, x: number, top: number, size: number, bold: boolean, italic: boolean, color: RGB) => {
+    page.content.push(textOp(text, x, top, size, bold, italic, color));
+  };
+
+  const doc = {
+    contentWidth,
+    margin,
+
+    get y() {
+      return cursorY;
+    },
+
+    ensureSpace,
+    addPage,
+
+    moveDown(points: number) {
+      cursorY += points;
+    },
+
+    /** Wrapped text at the cursor; advances the cursor past it. */
+    text(value: string, opts: TextOptions = {}) {
+      const size = opts.size ?? 10;
+      const bold = !!opts.bold;
+      const x = opts.x ?? margin;
+      const width = opts.width ?? margin + contentWidth - x;
+      const lineHeight = size * (opts.lineHeight ?? 1.35);
+
+      for (const line of wrapText(value, width, size, bold)) {
+        ensureSpace(lineHeight);
+        let lineX = x;
+        if (opts.align === "right") lineX = x + width - measureText(line, size, bold);
+        if (opts.align === "center") lineX = x + (width - measureText(line, size, bold)) / 2;
+        drawTextLine(line, lineX, cursorY, size, bold, !!opts.italic, opts.color ?? [26, 26, 26]);
+        cursorY += lineHeight;
+      }
+    },
+
+    /** Text placed at an absolute position without moving the cursor; returns its height. */
+    textAt(value: string, x: number, top: number, opts: TextOptions = {}) {
+      const size = opts.size ?? 10;
+      const bold = !!opts.bold;
+      const width = opts.width ?? margin + contentWidth - x;
+      const lineHeight = size * (opts.lineHeight ?? 1.35);
+      const lines = wrapText(value, width, size, bold);
+      lines.forEach((line, i) => {
+        let lineX = x;
+        if (opts.align === "right") lineX = x + width - measureText(line, size, bold);
+        if (opts.align === "center") lineX = x + (width - measureText(line, size, bold)) / 2;
+        drawTextLine(line, lineX, top + i * lineHeight, size, bold, !!opts.italic, opts.color ?? [26, 26, 26]);
+      });
+      return lines.length * lineHeight;
+    },
+
+    /** Height the text would take when wrapped to `width`. */
+    measureHeight(value: string, width: number, opts: TextOptions = {}) {
+      const size = opts.size ?? 10;
+      return wrapText(value, width, size, !!opts.bold).length * size * (opts.lineHeight ?? 1.35);
+    },
+
+    /** Horizontal rule across the content width. */
+    rule(color: RGB = [220, 220, 220], thickness = 0.75) {
+      ensureSpace(thickness + 4);
+      const y = PAGE_HEIGHT - cursorY;
+      page.content.push(`${setStroke(color)} ${num(thickness)} w ${num(margin)} ${num(y)} m ${num(margin + contentWidth)} ${num(y)} l S`);
+      cursorY += thickness + 4;
+    },
+
+    /** Filled and/or stroked rectangle at an absolute position. */
+    rect(x: number, top: number, width: number, height: number, style: { fill?: RGB, stroke?: RGB, lineWidth?: number }) {
+      const ops = [];
+      if (style.fill) ops.push(setFill(style.fill));
+      if (style.stroke) ops.push(setStroke(style.stroke), `${num(style.lineWidth ?? 0.75)} w`);
+      ops.push(`${num(x)} ${num(PAGE_HEIGHT - top - height)} ${num(width)} ${num(height)} re`);
+      ops.push(style.fill && style.stroke ? "B" : style.fill ? "f" : "S");
+      page.content.push(ops.join(" "));
+    },
+
+    /**
+     * Draw an image scaled to fit inside the box, centred, at an absolute position.
+     * Returns the drawn size.
+     */
+    imageAt(image: PdfImage, x: number, top: number, maxWidth: number, maxHeight: number) {
+      let index = images.indexOf(image);
+      if (index === -1) {
+        images.push(image);
+        index = images.length - 1;
+      }
+      page.images.add(index);
+
+      const scale = Math.min(maxWidth / image.width, maxHeight / image.height);
+      const width = image.width * scale;
+      const height = image.height * scale;
+      const left = x + (maxWidth - width) / 2;
+      const bottom = PAGE_HEIGHT - top - (maxHeight + height) / 2;
+      page.content.push(`q ${num(width)} 0 0 ${num(height)} ${num(left)} ${num(bottom)} cm /Im${index} Do Q`);
+      return { width, height };
+    },
+
+    /** Serialize the document. */
+    toBuffer(): Buffer {
+      const objects: (string | Buffer)[] = [];
+      const reserve = () => objects.push("");
+      const set = (id: number, body: string | Buffer) => { objects[id - 1] = body; };
+      const stream = (dict: string, data: Buffer) =>
+        Buffer.concat([Buffer.from(`<< ${dict} /Length ${data.length} >>\nstream\n`, "latin1"), data, Buffer.from("\nendstream", "latin1")]);
+
+      const catalogId = reserve();
+      const pagesId = reserve();
+      const fontIds = ["Helvetica", "Helvetica-Bold", "Helvetica-Oblique", "Helvetica-BoldOblique"].map((name) => {
+        const id = reserve();
+        set(id, `<< /Type /Font /Subtype /Type1 /BaseFont /${name} /Encoding /WinAnsiEncoding >>`);
+        return id;
+      });
+
+      const imageIds = images.map((image) => {
+        let smask = "";
+        if (image.alpha) {
+          const maskId = reserve();
+          set(maskId, stream(`/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceGray /BitsPerComponent 8 /Filter /FlateDecode`, image.alpha));
+          smask = ` /SMask ${maskId} 0 R`;
+        }
+        const id = reserve();
+        const parms = image.decodeParms ? ` /DecodeParms ${image.decodeParms}` : "";
+        const decode = image.decode ? ` /Decode ${image.decode}` : "";
+        set(id, stream(
+          `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace ${image.colorSpace} /BitsPerComponent ${image.bitsPerComponent} /Filter /${image.filter}${parms}${decode}${smask}`,
+          image.data
+        ));
+        return id;
+      });
+
+      const fontResources = `/Font << ${fontIds.map((id, i) => `/F${i + 1} ${id} 0 R`).join(" ")} >>`;
+
+      const pageIds = pages.map((p, i) => {
+        const content = [...p.content];
+        if (options.footer) {
+          const footer = `${options.footer} — Page ${i + 1} of ${pages.length}`;
+          content.push(textOp(footer, margin + (contentWidth - measureText(footer, 7)) / 2, PAGE_HEIGHT - margin + 4, 7, false, false, [150, 150, 150]));
+        }
+        const contentId = reserve();
+        set(contentId, stream("/Filter /FlateDecode", deflateSync(Buffer.from(content.join("\n"), "latin1"))));
+
+        const xobjects = Array.from(p.images).map((index) => `/Im${index} ${imageIds[index]} 0 R`).join(" ");
+        const id = reserve();
+        set(id, `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${num(PAGE_WIDTH)} ${num(PAGE_HEIGHT)}] /Resources << ${fontResources}${xobjects ? ` /XObject << ${xobjects} >>` : ""} >> /Contents ${contentId} 0 R >>`);
+        return id;
+      });
+
+      set(pagesId, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`);
+      set(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R >>`);
+
+      const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+      let length = chunks[0].length;
+      const offsets: number[] = [];
+      objects.forEach((body, i) => {
+        offsets.push(length);
+        const chunk = Buffer.concat([
+          Buffer.from(`${i + 1} 0 obj\n`, "latin1"),
+          typeof body === "string" ? Buffer.from(body, "latin1") : body,
+          Buffer.from("\nendobj\n", "latin1"),
+        ]);
+        chunks.push(chunk);
+        length += chunk.length;
+      });
+
+      const xref = [
+        "xref",
+        `0 ${objects.length + 1}`,
+        "0000000000 65535 f ",
+        ...offsets.map((offset) => `${offset.toString().padStart(10, "0")} 00000 n `),
+        "trailer",
+        `<< /Size ${objects.length + 1} /Root ${catalogId} 0 R >>`,
+        "startxref",
+        length.toString(),
+        "%%EOF",
+      ].join("\n");
+      chunks.push(Buffer.from(xref, "latin1"));
+
+      return Buffer.concat(chunks);
+    },
+  };
+
+  return doc;
+}
+
+export type PdfDocument = ReturnType<typeof createPdfDocument>;
@@ -0,0 +1,169 @@
+import { deflateSync, inflateSync } from "zlib";
+
+/** An image ready to embed as a PDF XObject. */
+export interface PdfImage {
+  width: number;
+  height: number;
+  colorSpace: string; // PDF colour space expression, e.g. "/DeviceRGB"
+  bitsPerComponent: number;
+  filter: "DCTDecode" | "FlateDecode";
+  decodeParms?: string;
+  decode?: string;
+  data: Buffer;
+  alpha?: Buffer; // Deflated 8-bit soft mask for PNGs with transparency
+}
+
+const JPEG_SOF_MARKERS = new Set([0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf]);
+
+// JPEGs embed as-is; we only need the frame size and component count from the SOF segment
+function parseJpeg(bytes: Buffer): PdfImage | null {
+  let offset = 2;
+  while (offset + 4 < bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    // Fill bytes and standalone markers carry no length
+    if (marker === 0xff) { offset++; continue; }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) { offset += 2; continue; }
+    const length = bytes.readUInt16BE(offset + 2);
+
+    if (JPEG_SOF_MARKERS.has(marker)) {
+      const height = bytes.readUInt16BE(offset + 5);
+      const width = bytes.readUInt16BE(offset + 7);
+      const components = bytes[offset + 9];
+      const colorSpace = components === 1 ? "/DeviceGray" : components === 4 ? "/DeviceCMYK" : "/DeviceRGB";
+      return {
+        width,
+        height,
+        colorSpace,
+        bitsPerComponent: 8,
+        filter: "DCTDecode",
+        // Adobe CMYK JPEGs are stored inverted
+        decode: components === 4 ? "[1 0 1 0 1 0 1 0]" : undefined,
+        data: bytes,
+      };
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+const paeth = (a: number, b: number, c: number) => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+};
+
+// Undo PNG scanline filters (8-bit samples only)
+function unfilterPng(data: Buffer, width: number, height: number, bpp: number): Buffer {
+  const stride = width * bpp;
+  const out = Buffer.alloc(stride * height);
+  let src = 0;
+
+  for (let y = 0; y < height; y++) {
+    const filter = data[src++];
+    const row = y * stride;
+    const prev = row - stride;
+    for (let x = 0; x < stride; x++) {
+      const raw = data[src++];
+      const left = x >= bpp ? out[row + x - bpp] : 0;
+      const up = y > 0 ? out[prev + x] : 0;
+      const upLeft = y > 0 && x >= bpp ? out[prev + x - bpp] : 0;
+      let value = raw;
+      if (filter === 1) value = raw + left;
+      else if (filter === 2) value = raw + up;
+      else if (filter === 3) value = raw + ((left + up) >> 1);
+      else if (filter === 4) value = raw + paeth(left, up, upLeft);
+      out[row + x] = value & 0xff;
+    }
+  }
+  return out;
+}
+
+// 8-bit, non-interlaced PNGs. Opaque images keep their zlib stream (PDF understands PNG predictors);
+// images with alpha are decoded so the alpha channel can become a soft mask.
+function parsePng(bytes: Buffer): PdfImage | null {
+  let offset = 8;
+  let width = 0, height = 0, bitDepth = 0, colorType = 0, interlace = 0;
+  let palette: Buffer | null = null;
+  const idat: Buffer[] = [];
+
+  while (offset + 8 <= bytes.length) {
+    const length = bytes.readUInt32BE(offset);
+    const type = bytes.toString("latin1", offset + 4, offset + 8);
+    const chunk = bytes.subarray(offset + 8, offset + 8 + length);
+    if (type === "IHDR") {
+      width = chunk.readUInt32BE(0);
+      height = chunk.readUInt32BE(4);
+      bitDepth = chunk[8];
+      colorType = chunk[9];
+      interlace = chunk[12];
+    } else if (type === "PLTE") {
+      palette = chunk;
+    } else if (type === "IDAT") {
+      idat.push(chunk);
+    } else if (type === "IEND") {
+      break;
+    }
+    offset += 12 + length;
+  }
+
+  if (!width || !height || bitDepth !== 8 || interlace !== 0 || idat.length === 0) return null;
+  const compressed = Buffer.concat(idat);
+
+  if (colorType === 0 || colorType === 2 || colorType === 3) {
+    const colors = colorType === 2 ? 3 : 1;
+    let colorSpace = colorType === 2 ? "/DeviceRGB" : "/DeviceGray";
+    if (colorType === 3) {
+      if (!palette) return null;
+      colorSpace = `[/Indexed /DeviceRGB ${palette.length / 3 - 1} <${palette.toString("hex")}>]`;
+    }
+    return {
+      width,
+      height,
+      colorSpace,
+      bitsPerComponent: 8,
+      filter: "FlateDecode",
+      decodeParms: `<< /Predictor 15 /Colors ${colors} /BitsPerComponent 8 /Columns ${width} >>`,
+      data: compressed,
+    };
+  }
+
+  if (colorType === 4 || colorType === 6) {
+    const channels = colorType === 6 ? 4 : 2;
+    const colorChannels = channels - 1;
+    const pixels = unfilterPng(inflateSync(compressed), width, height, channels);
+    const color = Buffer.alloc(width * height * colorChannels);
+    const alpha = Buffer.alloc(width * height);
+    for (let i = 0; i < width * height; i++) {
+      for (let c = 0; c < colorChannels; c++) color[i * colorChannels + c] = pixels[i * channels + c];
+      alpha[i] = pixels[i * channels + colorChannels];
+    }
+    return {
+      width,
+      height,
+      colorSpace: colorType === 6 ? "/DeviceRGB" : "/DeviceGray",
+      bitsPerComponent: 8,
+      filter: "FlateDecode",
+      data: deflateSync(color),
+      alpha: deflateSync(alpha),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Prepare JPEG or PNG bytes for embedding. Returns null for other formats
+ * (WebP, GIF, HEIC, 16-bit or interlaced PNG) so callers can show a placeholder instead.
+ */
+export function loadPdfImage(bytes: Buffer): PdfImage | null {
+  try {
+    if (bytes.length > 3 && bytes[0] === 0xff && bytes[1] === 0xd8) return parseJpeg(bytes);
+    if (bytes.length > 8 && bytes.readUInt32BE(0) === 0x89504e47) return parsePng(bytes);
+  } catch (error) {
+    console.warn("Failed to parse image for PDF:", error);
+  }
+  return null;
+}
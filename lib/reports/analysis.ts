@@ -0,0 +1,135 @@
+import type { SeverityLevel } from "@/amplify/functions/analyze-report/aggregate";
+
+// The rollup is computed by the analyze worker; re-exported here for the UI
+export type { AnalysisRollup, LabelSummary, SeverityLevel } from "@/amplify/functions/analyze-report/aggregate";
+
+export type AnalysisStatus = "queued" | "running" | "completed" | "partial" | "failed";
+
+export interface AnalysisRun {
+  status: AnalysisStatus;
+  photosTotal?: number | null;
+  photosProcessed?: number | null;
+  photosFailed?: number | null;
+  queuedAt?: string | null;
+  startedAt?: string | null;
+  completedAt?: string | null;
+  error?: string | null;
+}
+
+/** One bounding box from the model. bbox is [x1, y1, x2, y2] in pixels of the original photo. */
+export interface AIDetection {
+  label: string;
+  confidence: number;
+  bbox: number[];
+  image_reference: string;
+  notes: string;
+  local_output_path?: string;
+}
+
+export type ImageResultStatus = "ok" | "failed" | "skipped";
+
+/** Per-photo outcome stored in `aiAnalysis.images` by the analyze worker. */
+export interface ImageResult {
+  path: string;
+  status: ImageResultStatus;
+  reason?: string;
+  analyzedAt: string;
+  detections?: AIDetection[];
+}
+
+export const SEVERITY_LEVEL_LABELS: Record<SeverityLevel, string> = {
+  none: "No Damage",
+  low: "Low",
+  moderate: "Moderate",
+  high: "High",
+  severe: "Severe",
+};
+
+export const ANALYSIS_STATUS_LABELS: Record<AnalysisStatus, string> = {
+  queued: "Queued",
+  running: "Running",
+  completed: "Completed",
+  partial: "Partially Completed",
+  failed: "Failed",
+};
+
+// The analyze Lambda times out after 5 minutes, so a run still "active" after this is stale
+const STALE_RUN_MS = 15 * 60 * 1000;
+
+export function isAnalysisActive(run?: AnalysisRun | null): boolean {
+  if (!run || (run.status !== "queued" && run.status !== "running")) return false;
+
+  const since = run.startedAt || run.queuedAt;
+  if (!since) return true;
+  return Date.now() - new Date(since).getTime() < STALE_RUN_MS;
+}
+
+/**
+ * Number of current photos a "retry failed" run would analyze: photos whose last result
+ * was failed or skipped, plus photos added since. 0 when there is nothing to retry or the
+ * analysis predates per-photo results.
+ */
+export function countPhotosToRetry(aiAnalysis: unknown, photoUrls?: (string | null)[] | null): number {
+  if (!aiAnalysis || !photoUrls) return 0;
+  try {
+    const analysis = typeof aiAnalysis === "string" ? JSON.parse(aiAnalysis) : aiAnalysis;
+    const images: ImageResult[] | undefined = (analysis as any)?.images;
+    if (!Array.isArray(images)) return 0;
+
+    const ok = new Set(images.filter((img) => img.status === "ok").map((img) => img.path));
+    return photoUrls.filter((path) => path && !ok.has(path)).length;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Which set of detections each photo currently has: the time its result was produced. Reviewer
+ * verdicts record it, since a new run renumbers the detections. Empty for analyses that predate
+ * per-photo results.
+ */
+export function detectionSetsByPhoto(aiAnalysis: unknown): Map<string, string> {
+  const sets = new Map<string, string>();
+  try {
+    const analysis = typeof aiAnalysis === "string" ? JSON.parse(aiAnalysis) : aiAnalysis;
+    if (Array.isArray(analysis?.images)) {
+      (analysis.images as ImageResult[])
+        .filter((img) => img.status === "ok" && img.analyzedAt)
+        .forEach((img) => sets.set(img.path, img.analyzedAt));
+    }
+  } catch {
+    // No parsable analysis, no detections
+  }
+  return sets;
+}
+
+/**
+ * Detections grouped by the original photo they were found in, in photo order.
+ * Analyses with per-photo results use those; older ones only have the flat list, where
+ * image_reference ends with the photo index. The position within each group is the
+ * detection index that reviewer feedback refers to.
+ */
+export function groupDetectionsByPhoto(aiAnalysis: unknown, photoUrls?: (string | null)[] | null): Map<string, AIDetection[]> {
+  const grouped = new Map<string, AIDetection[]>();
+  if (!aiAnalysis) return grouped;
+
+  let analysis: any;
+  try {
+    analysis = typeof aiAnalysis === "string" ? JSON.parse(aiAnalysis) : aiAnalysis;
+  } catch {
+    return grouped;
+  }
+
+  if (Array.isArray(analysis?.images)) {
+    (analysis.images as ImageResult[])
+      .filter((img) => img.status === "ok")
+      .forEach((img) => grouped.set(img.path, img.detections || []));
+  } else if (Array.isArray(analysis?.detections) && photoUrls) {
+    (analysis.detections as AIDetection[]).forEach((d) => {
+      const index = Number(d.image_reference?.split("_").pop());
+      const path = Number.isInteger(index) ? photoUrls[index] : null;
+      if (path) grouped.set(path, [...(grouped.get(path) || []), d]);
+    });
+  }
+  return grouped;
+}
@@ -0,0 +1,156 @@
+import { DeleteObjectCommand, ListObjectsV2Command, type ListObjectsV2CommandOutput, type S3Client } from "@aws-sdk/client-s3";
+import { reportObjectPrefix, reportPdfPrefix, reportPhotoObjects } from "@/amplify/functions/deletion-worker/artifacts";
+import {
+  isAlreadyDeleted,
+  nextDeletionAttemptAt,
+  type DeletionRecordModel,
+  type DeletionResource,
+} from "@/amplify/functions/deletion-worker/retry";
+import type { createApiClient } from "@/lib/amplify-server-utils";
+import { listDetectionFeedback } from "@/lib/reports/detection-feedback";
+import { listPhotoEvidence } from "@/lib/reports/photo-evidence";
+import { listStatusEvents } from "@/lib/reports/status-events";
+import { STORAGE_BUCKET } from "@/lib/storage/server-s3";
+
+type ApiClient = ReturnType<typeof createApiClient>;
+
+export type DeletionCategory = "photo" | "analyzed" | "pdf" | "record";
+
+/** One thing removed along with a report: an object in S3 or a related record. */
+export interface DeletionTarget {
+  resource: DeletionResource;
+  bucket?: string; // S3 only
+  key: string; // Object key, or the record id
+  category: DeletionCategory;
+}
+
+// planned: dry run. queued: failed now, handed to the deletion worker. failed: could not even be queued.
+export type DeletionOutcome = "planned" | "deleted" | "queued" | "failed";
+
+export interface DeletionResult extends DeletionTarget {
+  status: DeletionOutcome;
+  error?: string;
+}
+
+export interface DeletableReport {
+  id: string;
+  companyId?: string | null;
+  aiAnalysis?: unknown;
+}
+
+async function listObjectKeys(s3Client: S3Client, prefix: string) {
+  const keys: string[] = [];
+  let continuationToken: string | undefined = undefined;
+
+  do {
+    const page: ListObjectsV2CommandOutput = await s3Client.send(
+      new ListObjectsV2Command({ Bucket: STORAGE_BUCKET, Prefix: prefix, ContinuationToken: continuationToken })
+    );
+    keys.push(...(page.Contents || []).map((o) => o.Key).filter((k): k is string => !!k));
+    continuationToken = page.NextContinuationToken;
+  } while (continuationToken);
+
+  return keys;
+}
+
+/**
+ * Everything that goes when a report is deleted: original photos, analyzed copies, archived PDFs,
+ * and the report's detection feedback, photo evidence and status timeline. Every object under the
+ * report's own storage prefixes is included, referenced by the report or not. Nothing is deleted here; this is also the dry-run listing.
+ */
+export async function planReportDeletion(
+  client: ApiClient,
+  s3Client: S3Client,
+  contextSpec: any,
+  report: DeletableReport
+): Promise<DeletionTarget[]> {
+  const objects = new Map<string, DeletionCategory>(
+    reportPhotoObjects(report, await listObjectKeys(s3Client, reportObjectPrefix(report.companyId, report.id)))
+  );
+  (await listObjectKeys(s3Client, reportPdfPrefix(report.id))).forEach((key) => objects.set(key, "pdf"));
+
+  const [feedback, evidence, events] = await Promise.all([
+    listDetectionFeedback(client, contextSpec, report.id),
+    listPhotoEvidence(client, contextSpec, report.id),
+    listStatusEvents(client, contextSpec, report.id),
+  ]);
+  const records = (resource: DeletionRecordModel, items: { id: string }[]): DeletionTarget[] =>
+    items.map((item) => ({ resource, key: item.id, category: "record" }));
+
+  return [
+    ...Array.from(objects, ([key, category]): DeletionTarget => ({ resource: "s3", bucket: STORAGE_BUCKET, key, category })),
+    ...records("DetectionFeedback", feedback),
+    ...records("PhotoEvidence", evidence),
+    ...records("ReportStatusEvent", events),
+  ];
+}
+
+async function deleteTarget(client: ApiClient, s3Client: S3Client, contextSpec: any, target: DeletionTarget) {
+  if (target.resource === "s3") {
+    await s3Client.send(new DeleteObjectCommand({ Bucket: target.bucket, Key: target.key }));
+    return;
+  }
+
+  const deletes: Record<DeletionRecordModel, () => Promise<{ errors?: { message: string }[] }>> = {
+    DetectionFeedback: () => client.models.DetectionFeedback.delete(contextSpec, { id: target.key }),
+    PhotoEvidence: () => client.models.PhotoEvidence.delete(contextSpec, { id: target.key }),
+    ReportStatusEvent: () => client.models.ReportStatusEvent.delete(contextSpec, { id: target.key }),
+  };
+  const { errors } = await deletes[target.resource]();
+  if (errors && !isAlreadyDeleted(errors[0].message)) {
+    throw new Error(errors[0].message);
+  }
+}
+
+/**
+ * Delete each target and report the outcome per target. Failures are queued as DeletionTasks
+ * for the deletion worker, which retries with its own permissions. Pass server clients
+ * (`runWithServerRole` and `createServiceS3Client`): the queue and the archived PDFs are only
+ * reachable by the server.
+ */
+export async function executeReportDeletion(
+  client: ApiClient,
+  s3Client: S3Client,
+  contextSpec: any,
+  report: DeletableReport,
+  targets: DeletionTarget[],
+  requestedBy: string
+): Promise<DeletionResult[]> {
+  return Promise.all(
+    targets.map(async (target): Promise<DeletionResult> => {
+      try {
+        await deleteTarget(client, s3Client, contextSpec, target);
+        return { ...target, status: "deleted" };
+      } catch (error: any) {
+        const message = String(error?.message || error);
+        try {
+          const { errors } = await client.models.DeletionTask.create(contextSpec, {
+            reportId: report.id,
+            companyId: report.companyId || undefined,
+            resource: target.resource,
+            bucket: target.bucket,
+            key: target.key,
+            category: target.category,
+            status: "pending",
+            attempts: 1,
+            lastError: message.slice(0, 1000),
+            nextAttemptAt: nextDeletionAttemptAt(1),
+            requestedBy,
+          });
+          if (errors) throw new Error(errors[0].message);
+          return { ...target, status: "queued", error: message };
+        } catch (queueError: any) {
+          console.error(`Failed to queue deletion of ${target.resource} ${target.key}:`, queueError);
+          return { ...target, status: "failed", error: message };
+        }
+      }
+    })
+  );
+}
+
+/** Count of results per outcome, for logs and the API response. */
+export function summarizeDeletion(results: DeletionResult[]) {
+  const summary: Record<DeletionOutcome, number> = { planned: 0, deleted: 0, queued: 0, failed: 0 };
+  results.forEach((r) => summary[r.status]++);
+  return summary;
+}
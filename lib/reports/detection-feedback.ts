@@ -0,0 +1,226 @@
+import type { createApiClient } from "@/lib/amplify-server-utils";
+
+type ApiClient = ReturnType<typeof createApiClient>;
+
+export const DETECTION_VERDICTS = ["confirmed", "false_positive", "mislabeled", "missed"] as const;
+
+export type DetectionVerdict = (typeof DETECTION_VERDICTS)[number];
+
+export const DETECTION_VERDICT_LABELS: Record<DetectionVerdict, string> = {
+  confirmed: "Confirmed",
+  false_positive: "False Positive",
+  mislabeled: "Mislabeled",
+  missed: "Missed Damage",
+};
+
+export function isDetectionVerdict(value: unknown): value is DetectionVerdict {
+  return typeof value === "string" && (DETECTION_VERDICTS as readonly string[]).includes(value);
+}
+
+export interface DetectionFeedbackInput {
+  reportId: string;
+  companyId?: string | null;
+  photoPath: string;
+  detectionIndex?: number | null;
+  detectionSet?: string | null; // See detectionSetsByPhoto; empty for missed damage
+  verdict: DetectionVerdict;
+  originalLabel?: string | null;
+  originalConfidence?: number | null;
+  correctedLabel?: string | null;
+  bbox?: number[] | null;
+  reviewer: string;
+  reviewerRole?: string | null;
+}
+
+/** A stored feedback entry, as returned by the API. */
+export interface DetectionFeedbackEntry {
+  id: string;
+  reportId: string;
+  companyId?: string | null;
+  photoPath: string;
+  detectionIndex?: number | null;
+  detectionSet?: string | null;
+  verdict: DetectionVerdict;
+  originalLabel?: string | null;
+  originalConfidence?: number | null;
+  correctedLabel?: string | null;
+  bbox?: (number | null)[] | null;
+  reviewer: string;
+  reviewerRole?: string | null;
+  reviewedAt: string;
+}
+
+/** Key identifying one model detection across feedback entries. */
+export const detectionKey = (photoPath: string, detectionIndex: number) => `${photoPath}#${detectionIndex}`;
+
+/**
+ * Store a reviewer verdict. Entries are appended, never updated, so the review history stays intact.
+ * DetectionFeedback is only writable by the server, so pass a server role client (see `runWithServerRole`).
+ */
+export async function recordDetectionFeedback(client: ApiClient, contextSpec: any, input: DetectionFeedbackInput) {
+  const { data, errors } = await client.models.DetectionFeedback.create(contextSpec, {
+    reportId: input.reportId,
+    companyId: input.companyId || undefined,
+    photoPath: input.photoPath,
+    detectionIndex: input.detectionIndex ?? undefined,
+    detectionSet: input.detectionSet || undefined,
+    verdict: input.verdict,
+    originalLabel: input.originalLabel || undefined,
+    originalConfidence: input.originalConfidence ?? undefined,
+    correctedLabel: input.correctedLabel || undefined,
+    bbox: input.bbox || undefined,
+    reviewer: input.reviewer,
+    reviewerRole: input.reviewerRole || undefined,
+    reviewedAt: new Date().toISOString(),
+  });
+
+  if (errors) {
+    throw new Error(`Failed to record detection feedback: ${errors[0].message}`);
+  }
+
+  return data;
+}
+
+/** All feedback for a report, oldest first. */
+export async function listDetectionFeedback(client: ApiClient, contextSpec: any, reportId: string) {
+  const entries = [];
+  let nextToken: string | null | undefined = undefined;
+
+  do {
+    const page: Awaited<ReturnType<ApiClient["models"]["DetectionFeedback"]["listDetectionFeedbackByReport"]>> =
+      await client.models.DetectionFeedback.listDetectionFeedbackByReport(
+        contextSpec,
+        { reportId },
+        { sortDirection: "ASC", nextToken }
+      );
+
+    if (page.errors) {
+      throw new Error(`Failed to load detection feedback: ${page.errors[0].message}`);
+    }
+
+    entries.push(...page.data);
+    nextToken = page.nextToken;
+  } while (nextToken);
+
+  return entries;
+}
+
+/**
+ * The entries that apply to the photos' current detections (see `detectionSetsByPhoto`).
+ * Verdicts on earlier runs point at detections by a position the next run renumbered, so they
+ * are kept for the record but left out here. Missed-damage boxes are in photo pixels and always apply.
+ */
+export function feedbackForCurrentRun<T extends Pick<DetectionFeedbackEntry, "photoPath" | "detectionSet" | "verdict">>(
+  entries: T[],
+  detectionSets: Map<string, string>
+) {
+  return entries.filter((entry) =>
+    entry.verdict === "missed" || (entry.detectionSet || null) === (detectionSets.get(entry.photoPath) || null)
+  );
+}
+
+/**
+ * All feedback for one company, or for every company when companyId is omitted (SuperAdmin),
+ * oldest first within each company.
+ */
+export async function listCompanyDetectionFeedback(client: ApiClient, contextSpec: any, companyId?: string) {
+  const entries = [];
+  let nextToken: string | null | undefined = undefined;
+
+  do {
+    const page: Awaited<ReturnType<ApiClient["models"]["DetectionFeedback"]["listDetectionFeedbackByCompany"]>> =
+      companyId
+        ? await client.models.DetectionFeedback.listDetectionFeedbackByCompany(
+          contextSpec,
+          { companyId },
+          { sortDirection: "ASC", nextToken }
+        )
+        : await client.models.DetectionFeedback.list(contextSpec, { limit: 1000, nextToken });
+
+    if (page.errors) {
+      throw new Error(`Failed to load detection feedback: ${page.errors[0].message}`);
+    }
+
+    entries.push(...page.data);
+    nextToken = page.nextToken;
+  } while (nextToken);
+
+  return entries;
+}
+
+/**
+ * Reduce the review history to the current state: the latest verdict per model detection,
+ * plus every missed-damage box that is still present.
+ */
+export function currentFeedback<T extends Pick<DetectionFeedbackEntry, "photoPath" | "detectionIndex" | "verdict" | "reviewedAt">>(entries: T[]) {
+  const byDetection = new Map<string, T>();
+  const missed: T[] = [];
+
+  const sorted = [...entries].sort((a, b) => a.reviewedAt.localeCompare(b.reviewedAt));
+  for (const entry of sorted) {
+    if (entry.verdict === "missed") {
+      missed.push(entry);
+    } else if (entry.detectionIndex !== null && entry.detectionIndex !== undefined) {
+      byDetection.set(detectionKey(entry.photoPath, entry.detectionIndex), entry);
+    }
+  }
+
+  return { byDetection, missed };
+}
+
+export interface PrecisionSummary {
+  companyId: string | null;
+  reviewed: number;
+  confirmed: number;
+  falsePositive: number;
+  mislabeled: number;
+  missed: number;
+  // Share of reviewed detections the model got fully right; null until something is reviewed
+  precision: number | null;
+}
+
+/** Per-company precision over the current verdicts. */
+export function summarizePrecision(entries: Pick<DetectionFeedbackEntry, "companyId" | "verdict">[]): PrecisionSummary[] {
+  const byCompany = new Map<string | null, PrecisionSummary>();
+
+  for (const entry of entries) {
+    const companyId = entry.companyId || null;
+    const summary = byCompany.get(companyId) || {
+      companyId, reviewed: 0, confirmed: 0, falsePositive: 0, mislabeled: 0, missed: 0, precision: null,
+    };
+
+    if (entry.verdict === "missed") summary.missed++;
+    else {
+      summary.reviewed++;
+      if (entry.verdict === "confirmed") summary.confirmed++;
+      if (entry.verdict === "false_positive") summary.falsePositive++;
+      if (entry.verdict === "mislabeled") summary.mislabeled++;
+    }
+    summary.precision = summary.reviewed > 0 ? Math.round((summary.confirmed / summary.reviewed) * 1000) / 1000 : null;
+    byCompany.set(companyId, summary);
+  }
+
+  return Array.from(byCompany.values());
+}
+
+/**
+ * One row per labeled box, ready to send to the model team. `label` is the reviewed
+ * ground truth; false positives keep the model label with verdict "false_positive".
+ */
+export function toLabeledRows(entries: DetectionFeedbackEntry[]) {
+  return entries.map((entry) => ({
+    reportId: entry.reportId,
+    companyId: entry.companyId || "",
+    photoPath: entry.photoPath,
+    detectionIndex: entry.detectionIndex ?? "",
+    detectionSet: entry.detectionSet || "",
+    source: entry.verdict === "missed" ? "reviewer" : "model",
+    verdict: entry.verdict,
+    modelLabel: entry.originalLabel || "",
+    modelConfidence: entry.originalConfidence ?? "",
+    label: entry.correctedLabel || entry.originalLabel || "",
+    bbox: (entry.bbox || []).join(" "),
+    reviewer: entry.reviewer,
+    reviewedAt: entry.reviewedAt,
+  }));
+}
@@ -0,0 +1,172 @@
+import type { AIDetection, AnalysisRollup } from "@/lib/reports/analysis";
+import { REPORT_STATUS_LABELS, isReportStatus } from "@/lib/reports/workflow";
+import { readCustomFieldValues, type CustomFieldDefinition } from "@/lib/companies/custom-fields";
+
+export const EXPORT_FORMATS = ["csv", "xlsx", "json"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  json: "application/json; charset=utf-8",
+};
+
+// Signed photo links default to an hour; S3 refuses presigned URLs valid for more than 7 days
+export const DEFAULT_PHOTO_LINK_TTL = 60 * 60;
+export const MAX_PHOTO_LINK_TTL = 7 * 24 * 60 * 60;
+
+export type ExportValue = string | number | boolean | null;
+
+export type ExportColumnGroup = "Claim" | "Claimant" | "Location" | "AI" | "Photos" | "Custom";
+
+/** The AI fields an export can include, flattened from `aiAnalysis`. */
+export interface FlatAnalysis {
+  finalAssessment: string | null;
+  perilMatch: string | null;
+  reportedPeril: string | null;
+  topDetectionLabel: string | null;
+  detectionCount: number | null;
+  fraudSignalCount: number | null;
+  severityScore: number | null;
+  severityLevel: string | null;
+  assessmentConfidence: number | null;
+}
+
+interface ExportContext {
+  analysis: FlatAnalysis;
+  photoLinks: string[];
+}
+
+export interface ExportColumn {
+  key: string;
+  label: string;
+  group: ExportColumnGroup;
+  value: (report: Record<string, any>, context: ExportContext) => ExportValue;
+}
+
+const field = (key: string) => (report: Record<string, any>) => report[key] ?? null;
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { key: "id", label: "Report ID", group: "Claim", value: field("id") },
+  { key: "claimNumber", label: "Claim Number", group: "Claim", value: field("claimNumber") },
+  {
+    key: "status", label: "Status", group: "Claim",
+    value: (r) => (isReportStatus(r.status) ? REPORT_STATUS_LABELS[r.status] : r.status || null),
+  },
+  { key: "companyName", label: "Company", group: "Claim", value: field("companyName") },
+  { key: "incidentDate", label: "Date of Loss", group: "Claim", value: field("incidentDate") },
+  { key: "submittedAt", label: "Submitted At", group: "Claim", value: (r) => r.submittedAt || r.createdAt || null },
+  { key: "submittedBy", label: "Submitted By", group: "Claim", value: field("submittedBy") },
+  { key: "description", label: "Description", group: "Claim", value: field("description") },
+  { key: "shingleExposure", label: "Shingle Exposure (in)", group: "Claim", value: field("shingleExposure") },
+  { key: "firstName", label: "First Name", group: "Claimant", value: field("firstName") },
+  { key: "lastName", label: "Last Name", group: "Claimant", value: field("lastName") },
+  { key: "email", label: "Email", group: "Claimant", value: field("email") },
+  { key: "phone", label: "Phone", group: "Claimant", value: field("phone") },
+  { key: "address", label: "Address", group: "Location", value: field("address") },
+  { key: "apartment", label: "Apartment", group: "Location", value: field("apartment") },
+  { key: "city", label: "City", group: "Location", value: field("city") },
+  { key: "state", label: "State", group: "Location", value: field("state") },
+  { key: "zip", label: "ZIP", group: "Location", value: field("zip") },
+  { key: "finalAssessment", label: "AI Assessment", group: "AI", value: (_, c) => c.analysis.finalAssessment },
+  { key: "perilMatch", label: "Peril Match", group: "AI", value: (_, c) => c.analysis.perilMatch },
+  { key: "reportedPeril", label: "Reported Peril", group: "AI", value: (_, c) => c.analysis.reportedPeril },
+  { key: "topDetectionLabel", label: "Top Detection Label", group: "AI", value: (_, c) => c.analysis.topDetectionLabel },
+  { key: "detectionCount", label: "Detection Count", group: "AI", value: (_, c) => c.analysis.detectionCount },
+  { key: "fraudSignalCount", label: "Fraud Signal Count", group: "AI", value: (_, c) => c.analysis.fraudSignalCount },
+  { key: "severityScore", label: "Severity Score", group: "AI", value: (_, c) => c.analysis.severityScore },
+  { key: "severityLevel", label: "Severity Level", group: "AI", value: (_, c) => c.analysis.severityLevel },
+  { key: "assessmentConfidence", label: "Assessment Confidence", group: "AI", value: (_, c) => c.analysis.assessmentConfidence },
+  { key: "photoCount", label: "Photo Count", group: "Photos", value: (r) => (r.photoUrls || []).filter(Boolean).length },
+  { key: "photoLinks", label: "Photo Links", group: "Photos", value: (_, c) => c.photoLinks.join(" ") || null },
+  // Stands for one column per custom field of the exported reports' companies; see expandCustomFieldColumns
+  { key: "customFields", label: "Custom Fields", group: "Custom", value: () => null },
+];
+
+export const DEFAULT_EXPORT_COLUMNS = [
+  "claimNumber", "status", "incidentDate", "submittedAt", "firstName", "lastName",
+  "address", "city", "state", "zip", "perilMatch", "topDetectionLabel", "fraudSignalCount",
+];
+
+/** Resolve a comma-separated `columns` parameter; unknown keys are an error so typos don't silently drop data. */
+export function parseExportColumns(param?: string | null): { columns?: ExportColumn[]; error?: string } {
+  const keys = param ? param.split(",").map((k) => k.trim()).filter(Boolean) : DEFAULT_EXPORT_COLUMNS;
+  const unknown = keys.filter((key) => !EXPORT_COLUMNS.some((c) => c.key === key));
+  if (unknown.length > 0) {
+    return { error: `Unknown export columns: ${unknown.join(", ")}` };
+  }
+  if (keys.length === 0) {
+    return { error: "Select at least one column" };
+  }
+  return { columns: keys.map((key) => EXPORT_COLUMNS.find((c) => c.key === key)!) };
+}
+
+/**
+ * Replace the `customFields` column with one column per custom field, keyed `custom.<key>`.
+ * Companies sharing a key share the column, under the first company's label.
+ */
+export function expandCustomFieldColumns(columns: ExportColumn[], fields: CustomFieldDefinition[]): ExportColumn[] {
+  const byKey = new Map<string, CustomFieldDefinition>();
+  for (const field of fields) if (!byKey.has(field.key)) byKey.set(field.key, field);
+
+  const customColumns = Array.from(byKey.values()).map((field): ExportColumn => ({
+    key: `custom.${field.key}`,
+    label: field.label,
+    group: "Custom",
+    value: (r) => {
+      const value = readCustomFieldValues(r.customFieldValues)[field.key];
+      if (value === undefined || value === null || value === "") return null;
+      return field.type === "boolean" ? (value === true ? "Yes" : "No") : value;
+    },
+  }));
+  return columns.flatMap((column) => (column.key === "customFields" ? customColumns : [column]));
+}
+
+/**
+ * Flatten the stored analysis into single values. Uses the rollup when the report has one,
+ * and falls back to counting the flat detection list for older analyses.
+ */
+export function flattenAnalysis(aiAnalysis: unknown): FlatAnalysis {
+  const empty: FlatAnalysis = {
+    finalAssessment: null, perilMatch: null, reportedPeril: null, topDetectionLabel: null, detectionCount: null,
+    fraudSignalCount: null, severityScore: null, severityLevel: null, assessmentConfidence: null,
+  };
+
+  let analysis: any;
+  try {
+    analysis = typeof aiAnalysis === "string" ? JSON.parse(aiAnalysis) : aiAnalysis;
+  } catch {
+    return empty;
+  }
+  if (!Array.isArray(analysis?.detections)) return empty;
+
+  const detections: AIDetection[] = analysis.detections;
+  const rollup: AnalysisRollup | undefined = analysis.rollup;
+
+  let topDetectionLabel = rollup?.labels[0]?.label ?? null;
+  if (!rollup) {
+    const counts = new Map<string, number>();
+    for (const d of detections) counts.set(d.label, (counts.get(d.label) || 0) + 1);
+    topDetectionLabel = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+  }
+
+  return {
+    finalAssessment: analysis.final_assessment || null,
+    perilMatch: analysis.peril_match?.match || null,
+    reportedPeril: analysis.peril_match?.reported_peril || null,
+    topDetectionLabel,
+    detectionCount: detections.length,
+    fraudSignalCount: new Set(analysis.fraud_signals || []).size,
+    severityScore: rollup?.severity.score ?? null,
+    severityLevel: rollup?.severity.level ?? null,
+    assessmentConfidence: rollup?.assessment.confidence ?? null,
+  };
+}
+
+/** One export row keyed by column key. */
+export function toExportRow(report: Record<string, any>, columns: ExportColumn[], photoLinks: string[] = []) {
+  const context = { analysis: flattenAnalysis(report.aiAnalysis), photoLinks };
+  const row: Record<string, ExportValue> = {};
+  for (const column of columns) row[column.key] = column.value(report, context);
+  return row;
+}
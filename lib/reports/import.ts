@@ -0,0 +1,202 @@
+import * as z from "zod";
+import { reportFieldRules } from "@/lib/reports/validation";
+import { REPORT_STATUSES, type ReportStatus } from "@/lib/reports/workflow";
+
+// Keep one request well inside the API route timeout; the wizard asks for larger files to be split
+export const MAX_IMPORT_ROWS = 500;
+export const MAX_IMPORT_PHOTOS = 20;
+
+export interface ImportField {
+  key: string;
+  label: string;
+  required: boolean;
+  // Header spellings recognized when mapping columns automatically
+  aliases: string[];
+}
+
+export const IMPORT_FIELDS = [
+  { key: "claimNumber", label: "Claim Number", required: true, aliases: ["claim", "claim #", "claim no", "claim id"] },
+  { key: "firstName", label: "First Name", required: true, aliases: ["first", "given name", "insured first name"] },
+  { key: "lastName", label: "Last Name", required: true, aliases: ["last", "surname", "family name", "insured last name"] },
+  { key: "phone", label: "Phone", required: true, aliases: ["phone number", "telephone", "mobile"] },
+  { key: "email", label: "Email", required: true, aliases: ["email address", "e-mail"] },
+  { key: "address", label: "Street Address", required: true, aliases: ["street", "address 1", "address line 1", "property address"] },
+  { key: "apartment", label: "Apartment/Suite", required: false, aliases: ["apt", "suite", "unit", "address 2", "address line 2"] },
+  { key: "city", label: "City", required: true, aliases: ["town"] },
+  { key: "state", label: "State", required: true, aliases: ["st", "state code"] },
+  { key: "zip", label: "ZIP Code", required: true, aliases: ["zip code", "postal code", "zipcode"] },
+  { key: "incidentDate", label: "Date of Loss", required: true, aliases: ["loss date", "incident date", "date of incident", "dol"] },
+  { key: "description", label: "Description", required: true, aliases: ["loss description", "notes", "details"] },
+  { key: "shingleExposure", label: "Shingle Exposure (in)", required: false, aliases: ["exposure", "shingle exposure"] },
+  { key: "weatherHailSize", label: "Hail Size (in)", required: false, aliases: ["hail size", "hail"] },
+  { key: "weatherDate", label: "Weather Date", required: false, aliases: ["storm date"] },
+  { key: "weatherDescription", label: "Weather Description", required: false, aliases: ["weather", "storm description"] },
+  { key: "status", label: "Status", required: false, aliases: ["claim status"] },
+  { key: "resolvedAt", label: "Resolved Date", required: false, aliases: ["date resolved", "closed date", "date closed", "resolution date"] },
+  { key: "photoUrls", label: "Photo References", required: false, aliases: ["photos", "photo paths", "photo urls", "images"] },
+] as const satisfies readonly ImportField[];
+
+export type ImportFieldKey = (typeof IMPORT_FIELDS)[number]["key"];
+
+/** Which CSV header feeds each report field; null leaves the field empty. */
+export type ColumnMapping = Record<ImportFieldKey, string | null>;
+
+/** One CSV row after mapping: raw cell text per report field. */
+export type MappedRow = Partial<Record<ImportFieldKey, string>>;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9#]/g, "");
+
+/** Guess the mapping from header names; each header is used at most once. */
+export function autoMapColumns(headers: string[]): ColumnMapping {
+  const used = new Set<string>();
+  const mapping = {} as ColumnMapping;
+
+  for (const field of IMPORT_FIELDS) {
+    const candidates = [field.key, field.label, ...field.aliases].map(normalizeHeader);
+    const header = headers.find((h) => !used.has(h) && candidates.includes(normalizeHeader(h)));
+    mapping[field.key] = header ?? null;
+    if (header) used.add(header);
+  }
+
+  return mapping;
+}
+
+/** Turn parsed CSV rows (first row = headers) into mapped rows. */
+export function applyColumnMapping(headers: string[], rows: string[][], mapping: ColumnMapping): MappedRow[] {
+  return rows.map((cells) => {
+    const row: MappedRow = {};
+    for (const field of IMPORT_FIELDS) {
+      const header = mapping[field.key];
+      const index = header ? headers.indexOf(header) : -1;
+      if (index >= 0) row[field.key] = cells[index] ?? "";
+    }
+    return row;
+  });
+}
+
+// Accepts YYYY-MM-DD and US-style M/D/YYYY; anything else is left for the date rule to reject
+const parseDate = (value: unknown) => {
+  if (typeof value !== "string" || value.trim() === "") return undefined;
+  const text = value.trim();
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (match) return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (match) return new Date(Number(match[3]), Number(match[1]) - 1, Number(match[2]));
+  return new Date(NaN);
+};
+
+const trimmed = (value: unknown) => (typeof value === "string" ? value.trim() : value);
+
+/** The form's rules, with string-to-date parsing and the import-only status and photo columns. */
+export const importRowSchema = z.object({
+  ...reportFieldRules,
+  claimNumber: z.preprocess(trimmed, reportFieldRules.claimNumber),
+  state: z.preprocess((v) => (typeof v === "string" ? v.trim().toUpperCase() : v), reportFieldRules.state),
+  zip: z.preprocess(trimmed, reportFieldRules.zip),
+  incidentDate: z.preprocess(parseDate, reportFieldRules.incidentDate),
+  weatherDate: z.preprocess(parseDate, reportFieldRules.weatherDate),
+  status: z.preprocess(
+    (v) => (typeof v === "string" && v.trim() ? v.trim().toLowerCase().replace(/\s+/g, "_") : undefined),
+    z.enum(REPORT_STATUSES, { errorMap: () => ({ message: `Status must be one of: ${REPORT_STATUSES.join(", ")}` }) }).optional()
+  ),
+  resolvedAt: z.preprocess(
+    parseDate,
+    z.date().optional().refine((date) => !date || date <= new Date(), "Resolved date cannot be in the future")
+  ),
+  photoUrls: z.preprocess(
+    (v) => (typeof v === "string" ? v.split(/[;|\n]/).map((p) => p.trim()).filter(Boolean) : []),
+    z.array(z.string().regex(/^incident-photos\//, "Photo references must be storage paths under incident-photos/"))
+      .max(MAX_IMPORT_PHOTOS, `At most ${MAX_IMPORT_PHOTOS} photos per report`)
+  ),
+});
+
+export type ImportedRow = z.infer<typeof importRowSchema>;
+
+export type ImportRowStatus = "valid" | "invalid" | "duplicate" | "created" | "failed";
+
+export interface ImportRowResult {
+  row: number; // Line in the CSV file, counting the header as line 1
+  claimNumber: string;
+  status: ImportRowStatus;
+  errors: string[];
+  photoCount: number;
+  reportId?: string;
+}
+
+const fieldLabel = (key: PropertyKey) => IMPORT_FIELDS.find((f) => f.key === key)?.label || String(key);
+
+/**
+ * Validate mapped rows against the form rules and flag claim numbers repeated within the file.
+ * Checking against existing reports needs the API, so the route does that separately.
+ */
+export function validateImportRows(rows: MappedRow[]) {
+  const firstLine = new Map<string, number>();
+
+  return rows.map((raw, i) => {
+    const line = i + 2;
+    const claimNumber = (raw.claimNumber || "").trim();
+    const parsed = importRowSchema.safeParse(raw);
+    const errors = parsed.success
+      ? []
+      : parsed.error.issues.map((issue) => `${fieldLabel(issue.path[0])}: ${issue.message}`);
+
+    let status: ImportRowStatus = parsed.success ? "valid" : "invalid";
+    if (claimNumber) {
+      const earlier = firstLine.get(claimNumber);
+      if (earlier) {
+        errors.push(`Claim number ${claimNumber} already appears on line ${earlier}`);
+        status = "duplicate";
+      } else {
+        firstLine.set(claimNumber, line);
+      }
+    }
+
+    return {
+      result: {
+        row: line,
+        claimNumber,
+        status,
+        errors,
+        photoCount: parsed.success ? parsed.data.photoUrls.length : 0,
+      } as ImportRowResult,
+      values: parsed.success && status === "valid" ? parsed.data : undefined,
+    };
+  });
+}
+
+const toDateOnly = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+/**
+ * Map a validated row to the IncidentReport fields, the same way the form submits them.
+ * Resolved claims need `resolvedAt` for company retention rules; without a resolved date
+ * column the date of loss stands in, since the import date would restart their clock.
+ */
+export function toReportInput(values: ImportedRow) {
+  const weatherReport = {
+    reported_hail_size_inches: values.weatherHailSize ? parseFloat(values.weatherHailSize) : undefined,
+    weather_date: values.weatherDate ? toDateOnly(values.weatherDate) : undefined,
+    weather_description: values.weatherDescription || undefined,
+  };
+  const hasWeather = Object.values(weatherReport).some((v) => v !== undefined);
+
+  return {
+    claimNumber: values.claimNumber,
+    firstName: values.firstName,
+    lastName: values.lastName,
+    phone: values.phone,
+    email: values.email,
+    address: values.address,
+    apartment: values.apartment || undefined,
+    city: values.city,
+    state: values.state,
+    zip: values.zip,
+    incidentDate: toDateOnly(values.incidentDate),
+    description: values.description,
+    shingleExposure: values.shingleExposure ? parseFloat(values.shingleExposure) : undefined,
+    photoUrls: values.photoUrls.length > 0 ? values.photoUrls : undefined,
+    weatherReport: hasWeather ? JSON.stringify(weatherReport) : undefined,
+    status: (values.status || "submitted") as ReportStatus,
+    resolvedAt: values.status === "resolved" ? (values.resolvedAt ?? values.incidentDate).toISOString() : undefined,
+  };
+}
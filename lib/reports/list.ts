@@ -0,0 +1,157 @@
+import type { createApiClient } from "@/lib/amplify-server-utils";
+import { matchesPropertyAddress, type ReportScope } from "@/lib/reports/scope";
+import {
+  MAX_PAGE_SIZE,
+  buildReportFilter,
+  hasAnalysisResults,
+  sortReports,
+  submittedAtCondition,
+  type ReportListQuery,
+} from "@/lib/reports/query";
+
+type ApiClient = ReturnType<typeof createApiClient>;
+
+/**
+ * List one page of incident reports for the caller, using a secondary index when one fits.
+ *
+ * - Company known (Admin / IncidentReporter, or a SuperAdmin company filter) → `listIncidentReportsByCompany`
+ * - Status filter → `listIncidentReportsByStatus`
+ * - Otherwise → table scan
+ *
+ * Index queries are keyed on submittedAt, so when the requested sort is submittedAt the
+ * results are already ordered across pages and `ordered` is true. Their key attributes go in the
+ * key condition, the submitted date range included; the rest of the filters in the filter.
+ */
+export async function listReports(client: ApiClient, contextSpec: any, scope: ReportScope, query: ReportListQuery) {
+  const companyId = scope.companyId || query.companyId;
+  const indexOrdered = query.sort === "submittedAt";
+  const submittedAt = submittedAtCondition(query);
+  const options = {
+    limit: query.limit,
+    nextToken: query.nextToken,
+    sortDirection: query.order === "asc" ? ("ASC" as const) : ("DESC" as const),
+  };
+
+  if (companyId && indexOrdered) {
+    // The scope's company is the partition queried, so a different requested company matches nothing
+    if (scope.companyId && query.companyId && query.companyId !== scope.companyId) {
+      return { data: [], nextToken: null, errors: undefined, ordered: true };
+    }
+    const result = await client.models.IncidentReport.listIncidentReportsByCompany(
+      contextSpec,
+      { companyId, ...(submittedAt ? { submittedAt } : {}) },
+      { ...options, filter: buildReportFilter(scope, query, ["companyId", "submittedAt"]) }
+    );
+    return { ...result, ordered: true };
+  }
+
+  if (query.status && indexOrdered) {
+    const result = await client.models.IncidentReport.listIncidentReportsByStatus(
+      contextSpec,
+      { status: query.status, ...(submittedAt ? { submittedAt } : {}) },
+      { ...options, filter: buildReportFilter(scope, query, ["status", "submittedAt"]) }
+    );
+    return { ...result, ordered: true };
+  }
+
+  const result = await client.models.IncidentReport.list(contextSpec, {
+    filter: buildReportFilter(scope, query),
+    limit: query.limit,
+    nextToken: query.nextToken,
+  });
+  return { ...result, ordered: false };
+}
+
+/**
+ * The filters DynamoDB cannot apply for us: the HomeOwner address match, hasAnalysis and the
+ * case-insensitive street and city filters.
+ */
+export function matchesReadFilters(report: Record<string, any>, scope: ReportScope, query: ReportListQuery) {
+  const same = (value: unknown, expected: string) => String(value || "").trim().toLowerCase() === expected.toLowerCase();
+
+  if (scope.properties && !matchesPropertyAddress(report, scope.properties)) return false;
+  if (query.hasAnalysis !== undefined && hasAnalysisResults(report) !== query.hasAnalysis) return false;
+  if (query.address && !same(report.address, query.address)) return false;
+  if (query.city && !same(report.city, query.city)) return false;
+  return true;
+}
+
+/**
+ * List one page of up to `query.limit` reports after every filter has been applied.
+ *
+ * DynamoDB filters a page after reading it, so a single read can come back short or even empty
+ * while still carrying a nextToken. This keeps reading until the page is full or the results run
+ * out. Each read asks for no more items than are still missing, so nothing is skipped between
+ * pages. When `ordered` is false the page is sorted on its own, not across pages.
+ */
+export async function listReportPage(client: ApiClient, contextSpec: any, scope: ReportScope, query: ReportListQuery) {
+  const reports: Record<string, any>[] = [];
+  let nextToken = query.nextToken;
+  let ordered = true;
+
+  do {
+    const page = await listReports(client, contextSpec, scope, { ...query, limit: query.limit - reports.length, nextToken });
+    if (page.errors) {
+      throw new Error(`Failed to list incident reports: ${page.errors[0].message}`);
+    }
+
+    reports.push(...(page.data || []).filter((report) => matchesReadFilters(report, scope, query)));
+    ordered = page.ordered;
+    nextToken = page.nextToken || undefined;
+  } while (nextToken && reports.length < query.limit);
+
+  return {
+    reports: ordered ? reports : sortReports(reports, query.sort, query.order),
+    nextToken: nextToken || null,
+    ordered,
+  };
+}
+
+/**
+ * Page through every report matching the query, applying the same post-read filters as
+ * `GET /api/incident-reports`. Yields one batch per page; `ordered` has the same meaning
+ * as for `listReports`.
+ */
+export async function* listAllReports(client: ApiClient, contextSpec: any, scope: ReportScope, query: ReportListQuery) {
+  let nextToken: string | undefined = undefined;
+
+  do {
+    const page = await listReports(client, contextSpec, scope, { ...query, limit: MAX_PAGE_SIZE, nextToken });
+    if (page.errors) {
+      throw new Error(`Failed to list incident reports: ${page.errors[0].message}`);
+    }
+
+    const reports = (page.data || []).filter((report) => matchesReadFilters(report, scope, query));
+
+    yield { reports, ordered: page.ordered };
+    nextToken = page.nextToken || undefined;
+  } while (nextToken);
+}
+
+/**
+ * Returns true when the company already has a report with this claim number.
+ * Uses the claimNumber index, so the lookup reads only reports sharing the claim number.
+ * Pass an API key client so reports owned by other users are visible to the check.
+ * Reports in the Trash count too, so restoring one can never duplicate a claim number.
+ */
+export async function claimNumberExists(client: ApiClient, contextSpec: any, claimNumber: string, companyId: string) {
+  let nextToken: string | null | undefined = undefined;
+
+  do {
+    const page: { data: { id: string }[]; nextToken?: string | null; errors?: { message: string }[] } =
+      await client.models.IncidentReport.listIncidentReportsByClaimNumber(
+        contextSpec,
+        { claimNumber },
+        { filter: { companyId: { eq: companyId } }, selectionSet: ["id"], nextToken }
+      );
+
+    if (page.errors) {
+      throw new Error(`Failed to check claim number: ${page.errors[0].message}`);
+    }
+
+    if (page.data && page.data.length > 0) return true;
+    nextToken = page.nextToken;
+  } while (nextToken);
+
+  return false;
+}
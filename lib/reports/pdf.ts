@@ -0,0 +1,305 @@
+import { createPdfDocument, type PdfDocument, type RGB } from "@/lib/pdf/document";
+import type { PdfImage } from "@/lib/pdf/images";
+import { SEVERITY_LEVEL_LABELS, type AIDetection, type AnalysisRollup } from "@/lib/reports/analysis";
+import { REPORT_STATUS_LABELS, type ReportStatus } from "@/lib/reports/workflow";
+import { formatCustomFieldValue, readCustomFieldValues, type CustomFieldDefinition } from "@/lib/companies/custom-fields";
+
+// Shared with the deletion worker and the trash purge, which remove the archived versions
+export { reportPdfPrefix } from "@/amplify/functions/deletion-worker/artifacts";
+
+export interface ReportPdfPhoto {
+  path: string;
+  image: PdfImage | null; // null when the file could not be read or is not JPEG/PNG
+}
+
+export interface ReportPdfInput {
+  report: Record<string, any>;
+  companyName?: string | null;
+  logo?: PdfImage | null;
+  // The company's custom fields, in form order
+  customFields: CustomFieldDefinition[];
+  photos: ReportPdfPhoto[];
+  // Annotated copies from the analysis, with the detections drawn on each
+  annotated: (ReportPdfPhoto & { detections: AIDetection[] })[];
+  // Capture time / location mismatches from the photo evidence check, one line each
+  photoSignals: string[];
+  events: {
+    fromStatus?: string | null;
+    toStatus: string;
+    actor: string;
+    actorRole?: string | null;
+    note?: string | null;
+    changedAt: string;
+  }[];
+  generatedAt: string;
+  generatedBy: string;
+}
+
+const BLUE: RGB = [37, 99, 235];
+const GREY: RGB = [120, 120, 120];
+const DARK: RGB = [51, 51, 51];
+const RED: RGB = [185, 28, 28];
+const GREEN: RGB = [22, 101, 52];
+
+const formatDate = (value?: string | null) => (value ? new Date(value).toLocaleDateString("en-US") : "N/A");
+const formatDateTime = (value?: string | null) => (value ? new Date(value).toLocaleString("en-US") : "N/A");
+const statusLabel = (status?: string | null) =>
+  status ? REPORT_STATUS_LABELS[status as ReportStatus] || status : "Submitted";
+
+const parseJson = (value: unknown) => {
+  if (!value) return null;
+  try {
+    return typeof value === "string" ? JSON.parse(value) : value;
+  } catch {
+    return null;
+  }
+};
+
+function sectionTitle(doc: PdfDocument, title: string) {
+  doc.ensureSpace(40);
+  doc.moveDown(8);
+  doc.text(title.toUpperCase(), { size: 10, bold: true, color: DARK });
+  doc.rule([230, 230, 230]);
+}
+
+// Columns of label/value groups, laid out side by side; the cursor moves past the tallest column
+function infoColumns(doc: PdfDocument, columns: { label: string, lines: string[] }[]) {
+  const gap = 14;
+  const width = (doc.contentWidth - gap * (columns.length - 1)) / columns.length;
+  const heights = columns.map((c) =>
+    10 + c.lines.reduce((h, line) => h + doc.measureHeight(line, width, { size: 9 }), 0));
+  doc.ensureSpace(Math.max(...heights));
+
+  const top = doc.y;
+  columns.forEach((column, i) => {
+    const x = doc.margin + i * (width + gap);
+    let y = top;
+    y += doc.textAt(column.label.toUpperCase(), x, y, { size: 7, bold: true, color: GREY, width });
+    for (const line of column.lines) {
+      y += doc.textAt(line, x, y, { size: 9, width });
+    }
+  });
+  doc.moveDown(Math.max(...heights) + 4);
+}
+
+function bulletList(doc: PdfDocument, items: string[], color: RGB = DARK) {
+  for (const item of items) {
+    doc.ensureSpace(12);
+    const top = doc.y;
+    doc.textAt("•", doc.margin + 4, top, { size: 9, color });
+    doc.text(item, { size: 9, x: doc.margin + 14, color });
+  }
+}
+
+function table(doc: PdfDocument, headers: string[], rows: string[][], widths: number[]) {
+  const total = widths.reduce((a, b) => a + b, 0);
+  const cols = widths.map((w) => (w / total) * doc.contentWidth);
+  const drawRow = (cells: string[], header: boolean) => {
+    const height = Math.max(...cells.map((cell, i) => doc.measureHeight(cell, cols[i] - 6, { size: 8, bold: header }))) + 4;
+    doc.ensureSpace(height);
+    const top = doc.y;
+    let x = doc.margin;
+    cells.forEach((cell, i) => {
+      doc.textAt(cell, x + 3, top + 2, { size: 8, bold: header, color: header ? GREY : DARK, width: cols[i] - 6 });
+      x += cols[i];
+    });
+    doc.moveDown(height);
+    doc.rule(header ? [210, 210, 210] : [240, 240, 240], 0.5);
+  };
+
+  drawRow(headers, true);
+  rows.forEach((row) => drawRow(row, false));
+}
+
+// Two photos per row with a caption and optional lines underneath each
+function photoGrid(doc: PdfDocument, items: { image: PdfImage | null, caption: string, lines?: string[] }[]) {
+  const gap = 14;
+  const width = (doc.contentWidth - gap) / 2;
+  const imageHeight = width * 0.75;
+
+  for (let i = 0; i < items.length; i += 2) {
+    const row = items.slice(i, i + 2);
+    const textHeights = row.map((item) =>
+      14 + (item.lines || []).reduce((h, line) => h + doc.measureHeight(line, width, { size: 7.5 }), 0));
+    const height = imageHeight + Math.max(...textHeights) + 8;
+    doc.ensureSpace(height);
+
+    const top = doc.y;
+    row.forEach((item, j) => {
+      const x = doc.margin + j * (width + gap);
+      doc.rect(x, top, width, imageHeight, { fill: [248, 250, 252], stroke: [226, 232, 240] });
+      if (item.image) {
+        doc.imageAt(item.image, x + 2, top + 2, width - 4, imageHeight - 4);
+      } else {
+        doc.textAt("Image not available in PDF", x, top + imageHeight / 2 - 5, { size: 8, color: GREY, width, align: "center" });
+      }
+      let y = top + imageHeight + 3;
+      y += doc.textAt(item.caption, x, y, { size: 8, bold: true, color: BLUE, width });
+      for (const line of item.lines || []) {
+        y += doc.textAt(line, x, y, { size: 7.5, color: DARK, width });
+      }
+    });
+    doc.moveDown(height);
+  }
+}
+
+/**
+ * Render the claim report as a PDF: branding, claimant and loss details, weather,
+ * the AI assessment with annotated evidence, the original photos and the status timeline.
+ */
+export function renderReportPdf(input: ReportPdfInput): Buffer {
+  const { report } = input;
+  const doc = createPdfDocument({
+    footer: `Confidential • ${input.companyName || "ClaimVerifAI"} • Claim ${report.claimNumber || report.id} • Generated ${formatDateTime(input.generatedAt)}`,
+  });
+
+  // Header: company logo and title
+  const headerTop = doc.y;
+  let titleX = doc.margin;
+  if (input.logo) {
+    const { width } = doc.imageAt(input.logo, doc.margin, headerTop, 140, 40);
+    titleX = doc.margin + Math.min(140, width) + 16;
+  }
+  doc.textAt("Incident Investigation Report", titleX, headerTop + 6, { size: 16, bold: true });
+  doc.textAt(`Case ${String(report.id).slice(0, 8).toUpperCase()} • Generated by ${input.generatedBy}`, titleX, headerTop + 26, { size: 8, color: GREY });
+  doc.moveDown(46);
+  doc.rule([0, 0, 0], 1.5);
+
+  infoColumns(doc, [
+    {
+      label: "Home Owner",
+      lines: [`${report.firstName || ""} ${report.lastName || ""}`.trim() || "N/A", `Email: ${report.email || "N/A"}`, `Phone: ${report.phone || "N/A"}`],
+    },
+    {
+      label: "Loss & Claim",
+      lines: [`Date of loss: ${formatDate(report.incidentDate)}`, `Claim #: ${report.claimNumber || "N/A"}`, `Status: ${statusLabel(report.status)}`],
+    },
+    {
+      label: "Site Address",
+      lines: [
+        `${report.address || ""}${report.apartment ? `, Apt ${report.apartment}` : ""}`,
+        `${report.city || ""}, ${report.state || ""} ${report.zip || ""}`,
+      ],
+    },
+  ]);
+  infoColumns(doc, [
+    { label: "Reporting Organization", lines: [input.companyName || report.companyName || "N/A"] },
+    { label: "Date Submitted", lines: [formatDateTime(report.submittedAt || report.createdAt)] },
+    { label: "Last Updated", lines: [formatDateTime(report.updatedAt)] },
+  ]);
+
+  // Weather
+  const weather = parseJson(report.weatherReport);
+  if (weather) {
+    sectionTitle(doc, "Weather Information");
+    infoColumns(doc, [
+      { label: "Hail Size (Reported)", lines: [`${weather.reported_hail_size_inches || "N/A"} inches`] },
+      { label: "Weather Date", lines: [formatDate(weather.weather_date)] },
+      { label: "Weather Description", lines: [weather.weather_description || "No description"] },
+    ]);
+  }
+
+  // Company custom fields
+  if (input.customFields.length > 0) {
+    const values = readCustomFieldValues(report.customFieldValues);
+    sectionTitle(doc, "Additional Information");
+    table(
+      doc,
+      ["Field", "Value"],
+      input.customFields.map((field) => [field.label, formatCustomFieldValue(field, values[field.key]) || "N/A"]),
+      [1, 2]
+    );
+  }
+
+  // Description
+  sectionTitle(doc, "Incident Description");
+  doc.text(report.description || "No description provided.", { size: 9, color: DARK });
+  if (report.shingleExposure) {
+    doc.moveDown(4);
+    doc.text(`Shingle exposure: ${report.shingleExposure} inches`, { size: 9, color: GREY });
+  }
+
+  // AI assessment
+  const analysis = parseJson(report.aiAnalysis);
+  if (analysis?.detections && analysis.status !== "pending") {
+    const rollup: AnalysisRollup | undefined = analysis.rollup;
+    sectionTitle(doc, "Technical Damage Assessment");
+
+    doc.text(`Verdict: ${analysis.final_assessment || "Assessment Incomplete"}`, { size: 13, bold: true, color: BLUE });
+    if (analysis.peril_match) {
+      const match = String(analysis.peril_match.match || "unknown").replace("_", " ").toUpperCase();
+      doc.text(`Peril match: ${match}${analysis.peril_match.reported_peril ? ` (reported: ${analysis.peril_match.reported_peril})` : ""}`, { size: 9, bold: true });
+      if (analysis.peril_match.reason) doc.text(`"${analysis.peril_match.reason}"`, { size: 9, italic: true, color: DARK });
+    }
+
+    if (rollup) {
+      doc.moveDown(4);
+      infoColumns(doc, [
+        { label: "Overall Severity", lines: [`${rollup.severity.score} / 100 (${SEVERITY_LEVEL_LABELS[rollup.severity.level]})`] },
+        { label: "Assessment Confidence", lines: [`${Math.round(rollup.assessment.confidence * 100)}%`] },
+        { label: "Photos Analyzed", lines: [String(rollup.images_analyzed)] },
+      ]);
+      doc.text(rollup.assessment.summary, { size: 8.5, color: DARK });
+      if (rollup.labels.length > 0) {
+        doc.moveDown(4);
+        table(
+          doc,
+          ["Detection", "Count", "Photos", "Max Conf.", "Mean Conf."],
+          rollup.labels.map((l) => [
+            l.label, String(l.count), String(l.images),
+            `${Math.round(l.max_confidence * 100)}%`, `${Math.round(l.mean_confidence * 100)}%`,
+          ]),
+          [3, 1, 1, 1.2, 1.2]
+        );
+      }
+    }
+
+    doc.moveDown(6);
+    doc.text("KEY EVIDENCE FINDINGS", { size: 7, bold: true, color: GREY });
+    const bullets: string[] = Array.from(new Set(analysis.evidence_bullets || []));
+    bulletList(doc, bullets.length > 0 ? bullets : ["No specific evidence points flagged."]);
+
+    doc.moveDown(4);
+    doc.text("RISK CONSISTENCY INDICATORS", { size: 7, bold: true, color: GREY });
+    const signals: string[] = Array.from(new Set([...(analysis.fraud_signals || []), ...input.photoSignals]));
+    if (signals.length > 0) bulletList(doc, signals, RED);
+    else bulletList(doc, ["No risk indicators identified."], GREEN);
+
+    if (input.annotated.length > 0) {
+      sectionTitle(doc, "Visual Evidence Analysis");
+      photoGrid(doc, input.annotated.map((item, i) => ({
+        image: item.image,
+        caption: `EXHIBIT ${i + 1}`,
+        lines: item.detections.length > 0
+          ? item.detections.map((d) => `${d.label} — ${Math.round((d.confidence || 0) * 100)}%${d.notes ? `: ${d.notes}` : ""}`)
+          : ["No technical labels applied."],
+      })));
+    }
+  }
+
+  // Original photos
+  if (input.photos.length > 0) {
+    sectionTitle(doc, "On-Site Documentation");
+    photoGrid(doc, input.photos.map((photo, i) => ({ image: photo.image, caption: `Figure ${i + 1}` })));
+  }
+
+  // Status timeline
+  sectionTitle(doc, "Status Timeline");
+  if (input.events.length > 0) {
+    table(
+      doc,
+      ["Date", "Change", "By", "Note"],
+      input.events.map((e) => [
+        formatDateTime(e.changedAt),
+        e.fromStatus ? `${statusLabel(e.fromStatus)} → ${statusLabel(e.toStatus)}` : statusLabel(e.toStatus),
+        `${e.actor}${e.actorRole ? ` (${e.actorRole})` : ""}`,
+        e.note || "",
+      ]),
+      [1.6, 2, 2, 2.4]
+    );
+  } else {
+    doc.text("No status changes recorded.", { size: 9, color: GREY });
+  }
+
+  return doc.toBuffer();
+}
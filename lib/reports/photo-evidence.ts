@@ -0,0 +1,179 @@
+import type { createApiClient } from "@/lib/amplify-server-utils";
+
+type ApiClient = ReturnType<typeof createApiClient>;
+
+export const PHOTO_EVIDENCE_FLAGS = ["captured_before_incident", "far_from_address"] as const;
+
+export type PhotoEvidenceFlag = (typeof PHOTO_EVIDENCE_FLAGS)[number];
+
+export const PHOTO_EVIDENCE_FLAG_LABELS: Record<PhotoEvidenceFlag, string> = {
+  captured_before_incident: "Taken before the incident",
+  far_from_address: "Taken away from the claim address",
+};
+
+// Values the stored file lacked and were taken from the upload metadata the uploader's browser sent
+export type DeclaredPhotoValue = "capturedAt" | "location" | "camera";
+
+/** Stored capture details for one photo, as returned by the API. */
+export interface PhotoEvidenceEntry {
+  id: string;
+  reportId: string;
+  companyId?: string | null;
+  photoPath: string;
+  source: string; // "file", "upload" or "none"
+  capturedAt?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  altitude?: number | null;
+  cameraMake?: string | null;
+  cameraModel?: string | null;
+  distanceMeters?: number | null;
+  flags?: (string | null)[] | null;
+  declaredFields?: (string | null)[] | null; // DeclaredPhotoValue; unverified
+  perceptualHash?: string | null;
+  checkedAt: string;
+}
+
+/** A photo of this report whose perceptual hash matches a photo on another report. */
+export interface PhotoDuplicate {
+  photoPath: string;
+  matchReportId: string;
+  matchPhotoPath: string;
+  matchClaimNumber: string;
+  matchAddress: string;
+  matchCompanyId?: string | null;
+  matchCompanyName?: string | null;
+  distance: number; // Differing hash bits; 0 is the same image
+}
+
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+/** Great-circle distance in meters. */
+export function distanceMeters(a: LatLng, b: LatLng) {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6_371_000 * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Flags for one photo. Capture time is camera-local, so it is compared by calendar day
+ * against the incident date; a photo taken on the day of the incident is never flagged.
+ */
+export function evaluatePhotoEvidence(
+  photo: { capturedAt?: string | null; latitude?: number | null; longitude?: number | null },
+  incidentDate: string,
+  claimLocation: LatLng | null,
+  maxDistanceMeters: number
+) {
+  const flags: PhotoEvidenceFlag[] = [];
+
+  const capturedOn = photo.capturedAt?.slice(0, 10);
+  if (capturedOn && /^\d{4}-\d{2}-\d{2}$/.test(capturedOn) && capturedOn < incidentDate.slice(0, 10)) {
+    flags.push("captured_before_incident");
+  }
+
+  let distance: number | null = null;
+  if (claimLocation && typeof photo.latitude === "number" && typeof photo.longitude === "number") {
+    distance = Math.round(distanceMeters(claimLocation, { latitude: photo.latitude, longitude: photo.longitude }));
+    if (distance > maxDistanceMeters) flags.push("far_from_address");
+  }
+
+  return { flags, distanceMeters: distance };
+}
+
+const formatDistance = (meters: number) =>
+  meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${Math.round(meters)} m`;
+
+const photoName = (path: string) => path.split("/").pop() || path;
+
+const UNVERIFIED = " (reported by the uploader's browser, unverified)";
+
+/**
+ * One readable line per flag, to list next to the AI fraud signals. Flags that rest on values
+ * the stored file lacked are marked unverified.
+ */
+export function photoEvidenceSignals(entries: PhotoEvidenceEntry[], incidentDate?: string | null) {
+  const signals: string[] = [];
+
+  for (const entry of entries) {
+    const name = photoName(entry.photoPath);
+    const unverified = (value: DeclaredPhotoValue) => (entry.declaredFields?.includes(value) ? UNVERIFIED : "");
+    for (const flag of entry.flags || []) {
+      if (flag === "captured_before_incident") {
+        signals.push(
+          `${name}: taken ${entry.capturedAt?.slice(0, 10)}`
+          + (incidentDate ? `, before the incident on ${incidentDate}` : ", before the incident")
+          + unverified("capturedAt")
+        );
+      } else if (flag === "far_from_address" && typeof entry.distanceMeters === "number") {
+        signals.push(`${name}: taken ${formatDistance(entry.distanceMeters)} from the claim address${unverified("location")}`);
+      } else if (flag) {
+        signals.push(`${name}: ${PHOTO_EVIDENCE_FLAG_LABELS[flag as PhotoEvidenceFlag] || flag}`);
+      }
+    }
+  }
+
+  return signals;
+}
+
+/** One line per duplicate, to list next to the AI fraud signals. */
+export function duplicatePhotoSignals(duplicates: PhotoDuplicate[]) {
+  return duplicates.map((d) =>
+    `${photoName(d.photoPath)}: ${d.distance === 0 ? "this image" : "a near-identical image"} appears in claim ${d.matchClaimNumber} (${d.matchAddress})`
+  );
+}
+
+/** A report's photo evidence, in photo path order. */
+export async function listPhotoEvidence(client: ApiClient, contextSpec: any, reportId: string) {
+  const entries = [];
+  let nextToken: string | null | undefined = undefined;
+
+  do {
+    const page: Awaited<ReturnType<ApiClient["models"]["PhotoEvidence"]["listPhotoEvidenceByReport"]>> =
+      await client.models.PhotoEvidence.listPhotoEvidenceByReport(contextSpec, { reportId }, { nextToken });
+
+    if (page.errors) {
+      throw new Error(`Failed to load photo evidence: ${page.errors[0].message}`);
+    }
+
+    entries.push(...page.data);
+    nextToken = page.nextToken;
+  } while (nextToken);
+
+  return entries;
+}
+
+/**
+ * Photo evidence for one company, or for every company when companyId is omitted (SuperAdmin),
+ * oldest check first within each company.
+ */
+export async function listCompanyPhotoEvidence(client: ApiClient, contextSpec: any, companyId?: string) {
+  const entries = [];
+  let nextToken: string | null | undefined = undefined;
+
+  do {
+    const page: Awaited<ReturnType<ApiClient["models"]["PhotoEvidence"]["listPhotoEvidenceByCompany"]>> =
+      companyId
+        ? await client.models.PhotoEvidence.listPhotoEvidenceByCompany(
+          contextSpec,
+          { companyId },
+          { sortDirection: "ASC", nextToken }
+        )
+        : await client.models.PhotoEvidence.list(contextSpec, { limit: 1000, nextToken });
+
+    if (page.errors) {
+      throw new Error(`Failed to load photo evidence: ${page.errors[0].message}`);
+    }
+
+    entries.push(...page.data);
+    nextToken = page.nextToken;
+  } while (nextToken);
+
+  return entries;
+}
@@ -0,0 +1,247 @@
+import type { S3Client } from "@aws-sdk/client-s3";
+import sharp from "sharp";
+import { createApiClient, runWithServerRole } from "@/lib/amplify-server-utils";
+import { readExif } from "@/lib/images/exif";
+import { createServiceS3Client, getObjectBytes } from "@/lib/storage/server-s3";
+import { parsePhotoMetadata } from "@/lib/reports/photos";
+import { PHASH_SAMPLE_SIZE, hashDistance, perceptualHash } from "@/lib/images/phash";
+import {
+  evaluatePhotoEvidence,
+  listCompanyPhotoEvidence,
+  listPhotoEvidence,
+  type DeclaredPhotoValue,
+  type LatLng,
+  type PhotoDuplicate,
+  type PhotoEvidenceEntry,
+} from "@/lib/reports/photo-evidence";
+
+type ApiClient = ReturnType<typeof createApiClient>;
+
+// How far from the claim address a photo may be taken before it is flagged
+const MAX_DISTANCE_METERS = Number(process.env.PHOTO_LOCATION_MAX_DISTANCE_METERS) || 1000;
+
+// Hashes this many bits apart or fewer count as the same photo (out of 63)
+const DUPLICATE_MAX_DISTANCE = Number(process.env.PHOTO_DUPLICATE_MAX_DISTANCE) || 6;
+
+const CENSUS_GEOCODER_URL = "https://geocoding.geo.census.gov/geocoder/locations/address";
+
+interface ClaimAddress {
+  address: string;
+  city: string;
+  state: string;
+  zip: string;
+}
+
+/** Coordinates for a US street address from the Census geocoder, or null when it has no match or is unreachable. */
+export async function geocodeClaimAddress({ address, city, state, zip }: ClaimAddress): Promise<LatLng | null> {
+  const url = new URL(CENSUS_GEOCODER_URL);
+  url.search = new URLSearchParams({
+    street: address,
+    city,
+    state,
+    zip,
+    benchmark: "Public_AR_Current",
+    format: "json",
+  }).toString();
+
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(8000) });
+    if (!response.ok) {
+      console.warn(`Geocoder returned ${response.status} for ${address}, ${city}`);
+      return null;
+    }
+
+    const match = (await response.json())?.result?.addressMatches?.[0]?.coordinates;
+    if (typeof match?.x !== "number" || typeof match?.y !== "number") return null;
+    return { latitude: match.y, longitude: match.x };
+  } catch (error) {
+    console.warn(`Failed to geocode ${address}, ${city}:`, error);
+    return null;
+  }
+}
+
+/**
+ * pHash of a stored photo, upright and flattened onto white like the upload pipeline renders it.
+ * Null when the file can't be decoded here.
+ */
+async function hashPhoto(bytes: Buffer, photoPath: string): Promise<string | null> {
+  try {
+    const { data, info } = await sharp(bytes)
+      .rotate()
+      .flatten({ background: "#ffffff" })
+      .resize(PHASH_SAMPLE_SIZE, PHASH_SAMPLE_SIZE, { fit: "fill" })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    const luminance = new Float64Array(PHASH_SAMPLE_SIZE * PHASH_SAMPLE_SIZE);
+    for (let i = 0; i < luminance.length; i++) {
+      const p = i * info.channels;
+      luminance[i] = info.channels >= 3 ? 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2] : data[p];
+    }
+    return perceptualHash(luminance);
+  } catch (error) {
+    console.warn(`Could not hash ${photoPath}:`, error);
+    return null;
+  }
+}
+
+export interface VerifiableReport extends ClaimAddress {
+  id: string;
+  companyId?: string | null;
+  incidentDate: string;
+  photoUrls?: (string | null)[] | null;
+  photoMetadata?: unknown;
+  piiPurgedAt?: string | null; // Photo locations are homeowner details; none are kept once redacted
+}
+
+/**
+ * Read capture time, GPS and camera from each of the report's photos and flag the ones taken
+ * before the incident date or too far from the claim address. EXIF in the stored file wins;
+ * the upload pipeline's metadata fills in what the file lacks (GPS is stripped on upload by default).
+ * That metadata comes from the uploader's browser, so the values taken from it are recorded in
+ * `declaredFields` and shown as unverified. The perceptual hash for duplicate detection is computed
+ * from the stored file. Previous results for the report are replaced.
+ * PhotoEvidence has no public write rule, so pass a client for the server role.
+ */
+export async function verifyReportPhotos(client: ApiClient, s3Client: S3Client, contextSpec: any, report: VerifiableReport) {
+  const paths = (report.photoUrls || []).filter((p): p is string => !!p);
+  const uploadMetadata = new Map(parsePhotoMetadata(report.photoMetadata).map((m) => [m.path, m]));
+  const claimLocation = paths.length > 0 ? await geocodeClaimAddress(report) : null;
+  const checkedAt = new Date().toISOString();
+
+  const previous = await listPhotoEvidence(client, contextSpec, report.id);
+  for (const entry of previous) {
+    await client.models.PhotoEvidence.delete(contextSpec, { id: entry.id });
+  }
+
+  const entries = [];
+  for (const photoPath of paths) {
+    const bytes = await getObjectBytes(s3Client, photoPath);
+    const exif = bytes ? readExif(new Uint8Array(bytes)) : null;
+    const uploaded = uploadMetadata.get(photoPath);
+    const declaredFields: DeclaredPhotoValue[] = [];
+
+    const capturedAt = exif?.capturedAt || uploaded?.capturedAt;
+    if (!exif?.capturedAt && uploaded?.capturedAt) declaredFields.push("capturedAt");
+
+    const declaredGps = typeof uploaded?.latitude === "number" && typeof uploaded?.longitude === "number"
+      ? { latitude: uploaded.latitude, longitude: uploaded.longitude, altitude: uploaded.altitude }
+      : undefined;
+    const gps = report.piiPurgedAt ? undefined : exif?.gps || declaredGps;
+    if (gps && gps === declaredGps) declaredFields.push("location");
+
+    const cameraMake = exif?.make || uploaded?.make;
+    const cameraModel = exif?.model || uploaded?.model;
+    if ((!exif?.make && uploaded?.make) || (!exif?.model && uploaded?.model)) declaredFields.push("camera");
+
+    const hasFileData = !!(exif?.capturedAt || exif?.gps || exif?.model);
+    const source = hasFileData ? "file" : uploaded && (capturedAt || gps || cameraModel) ? "upload" : "none";
+
+    const { flags, distanceMeters } = evaluatePhotoEvidence(
+      { capturedAt, latitude: gps?.latitude, longitude: gps?.longitude },
+      report.incidentDate,
+      claimLocation,
+      MAX_DISTANCE_METERS
+    );
+
+    const { data, errors } = await client.models.PhotoEvidence.create(contextSpec, {
+      reportId: report.id,
+      companyId: report.companyId || undefined,
+      photoPath,
+      source,
+      capturedAt,
+      latitude: gps?.latitude,
+      longitude: gps?.longitude,
+      altitude: gps?.altitude,
+      cameraMake,
+      cameraModel,
+      distanceMeters: distanceMeters ?? undefined,
+      flags,
+      declaredFields,
+      perceptualHash: bytes ? await hashPhoto(bytes, photoPath) : null,
+      checkedAt,
+    });
+
+    if (errors) {
+      throw new Error(`Failed to store photo evidence for ${photoPath}: ${errors[0].message}`);
+    }
+    if (data) entries.push(data);
+  }
+
+  return { entries, addressLocated: !!claimLocation, maxDistanceMeters: MAX_DISTANCE_METERS };
+}
+
+/**
+ * Check the photos of a report that was just created or had its photos changed, so their evidence
+ * and pHashes are on file for duplicate detection whether or not the company runs analysis.
+ * Runs as the server, which can read every company's photos; only call it once the photos were
+ * checked to belong to the report. A failure is logged and never fails the save.
+ */
+export async function verifySavedReportPhotos(report: VerifiableReport) {
+  if (!report.photoUrls?.some(Boolean)) return;
+  try {
+    await runWithServerRole((serverSpec) =>
+      verifyReportPhotos(createApiClient(serverSpec, 'iam'), createServiceS3Client(), serverSpec, report)
+    );
+  } catch (error) {
+    console.error(`Photo evidence check failed for report ${report.id}:`, error);
+  }
+}
+
+/**
+ * Photos of a report that also appear, by perceptual hash, on other reports of the same company,
+ * or of every company when companyId is null (SuperAdmin). Photos the server couldn't decode
+ * have no hash and are never matched.
+ */
+export async function findDuplicatePhotos(
+  client: ApiClient,
+  contextSpec: any,
+  reportId: string,
+  evidence: Pick<PhotoEvidenceEntry, "photoPath" | "perceptualHash">[],
+  companyId: string | null
+): Promise<PhotoDuplicate[]> {
+  const hashed = evidence.filter((e) => e.perceptualHash);
+  if (hashed.length === 0) return [];
+
+  const candidates = (await listCompanyPhotoEvidence(client, contextSpec, companyId || undefined))
+    .filter((c) => c.reportId !== reportId && c.perceptualHash);
+
+  // Closest match per (photo, other report)
+  const closest = new Map<string, { photoPath: string; matchReportId: string; matchPhotoPath: string; distance: number }>();
+  for (const own of hashed) {
+    for (const candidate of candidates) {
+      const distance = hashDistance(own.perceptualHash!, candidate.perceptualHash!);
+      if (distance > DUPLICATE_MAX_DISTANCE) continue;
+
+      const key = `${own.photoPath}#${candidate.reportId}`;
+      const current = closest.get(key);
+      if (!current || distance < current.distance) {
+        closest.set(key, { photoPath: own.photoPath, matchReportId: candidate.reportId, matchPhotoPath: candidate.photoPath, distance });
+      }
+    }
+  }
+  if (closest.size === 0) return [];
+
+  const reportIds = Array.from(new Set(Array.from(closest.values()).map((m) => m.matchReportId)));
+  const reports = new Map(
+    (await Promise.all(reportIds.map(async (id) => {
+      const { data } = await client.models.IncidentReport.get(contextSpec, { id }, {
+        selectionSet: ["id", "claimNumber", "address", "city", "state", "companyId", "companyName", "deletedAt"],
+      });
+      return data;
+    }))).flatMap((r) => (r ? [[r.id, r] as const] : []))
+  );
+
+  // Evidence of a report that no longer exists, or is in the Trash, is skipped
+  return Array.from(closest.values()).flatMap((match) => {
+    const report = reports.get(match.matchReportId);
+    if (!report || report.deletedAt) return [];
+    return [{
+      ...match,
+      matchClaimNumber: report.claimNumber,
+      matchAddress: [report.address, report.city, report.state].filter(Boolean).join(", "),
+      matchCompanyId: report.companyId,
+      matchCompanyName: report.companyName,
+    }];
+  }).sort((a, b) => a.distance - b.distance);
+}
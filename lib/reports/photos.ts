@@ -0,0 +1,65 @@
+/** Largest photo the upload endpoint signs for. The browser pipeline keeps photos well under this. */
+export const PHOTO_UPLOAD_MAX_BYTES = 20 * 1024 * 1024;
+
+/** Content types the upload endpoint accepts, with the extension used in the storage key. */
+export const PHOTO_UPLOAD_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/heic": "heic",
+  "image/heif": "heif",
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const isReportId = (value: unknown): value is string => typeof value === "string" && UUID_PATTERN.test(value);
+
+/** Storage prefix for a company's photos; the storage rules limit each company's groups to it. */
+export const companyPhotoPrefix = (companyId: string) => `incident-photos/${companyId}/`;
+
+/** Storage prefix for one report's photos: incident-photos/{companyId}/{reportId}/ */
+export const reportPhotoPrefix = (companyId: string, reportId: string) => `${companyPhotoPrefix(companyId)}${reportId}/`;
+
+/** The report id encoded in a photo's storage key, or null for keys outside the per-report layout. */
+export function reportIdFromPhotoPath(path: string | null | undefined) {
+  const reportId = path?.match(/^incident-photos\/[^/]+\/([^/]+)\/[^/]+$/)?.[1];
+  return isReportId(reportId) ? reportId : null;
+}
+
+/** True when every path is under the report's prefix, i.e. was issued for this report by the upload endpoint. */
+export const photosBelongToReport = (paths: unknown[], companyId: string, reportId: string) =>
+  paths.every((path) => typeof path === "string" && path.startsWith(reportPhotoPrefix(companyId, reportId)));
+
+/** What the upload pipeline learned about one photo, stored on the report per storage path. */
+export interface PhotoMetadata {
+  path?: string; // Filled in once uploaded
+  originalName: string;
+  originalType: string;
+  originalSize: number;
+  width: number;
+  height: number;
+  capturedAt?: string; // Camera-local YYYY-MM-DDTHH:mm:ss, with UTC offset when known
+  latitude?: number;
+  longitude?: number;
+  altitude?: number;
+  make?: string;
+  model?: string;
+}
+
+/** Parse the report's photoMetadata field, which may come back as a JSON string. */
+export function parsePhotoMetadata(raw: unknown): PhotoMetadata[] {
+  try {
+    const value = typeof raw === "string" ? JSON.parse(raw) : raw;
+    return Array.isArray(value) ? value.filter((m) => m && typeof m === "object") : [];
+  } catch {
+    return [];
+  }
+}
+
+/** The photoMetadata value for a report, from uploaded photos that went through the pipeline. */
+export function collectPhotoMetadata(photos: { metadata?: PhotoMetadata; uploadedPath?: string }[]) {
+  const entries = photos.flatMap((photo) =>
+    photo.metadata && photo.uploadedPath ? [{ ...photo.metadata, path: photo.uploadedPath }] : []
+  );
+  return entries.length > 0 ? JSON.stringify(entries) : undefined;
+}
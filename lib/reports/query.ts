@@ -0,0 +1,188 @@
+import type { ReportScope } from "@/lib/reports/scope";
+import { REPORT_STATUSES, isReportStatus, type ReportStatus } from "@/lib/reports/workflow";
+
+export const REPORT_SORT_FIELDS = ["submittedAt", "incidentDate", "claimNumber", "lastName"] as const;
+export type ReportSortField = (typeof REPORT_SORT_FIELDS)[number];
+export type SortOrder = "asc" | "desc";
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 1000;
+
+export interface ReportListQuery {
+  limit: number;
+  nextToken?: string;
+  status?: ReportStatus;
+  companyId?: string;
+  incidentFrom?: string;
+  incidentTo?: string;
+  submittedFrom?: string;
+  submittedTo?: string;
+  claimNumberPrefix?: string;
+  address?: string; // street and city are compared case-insensitively after the read
+  city?: string;
+  state?: string;
+  zip?: string;
+  hasAnalysis?: boolean;
+  deleted?: boolean; // true lists the Trash; deleted reports are left out otherwise
+  sort: ReportSortField;
+  order: SortOrder;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parse and validate the query string of `GET /api/incident-reports`.
+ * Returns an error message instead of throwing so the route can answer with a 400.
+ */
+export function parseReportListQuery(params: URLSearchParams): { query?: ReportListQuery; error?: string } {
+  const get = (key: string) => params.get(key)?.trim() || undefined;
+
+  const limitParam = get("limit");
+  const limit = limitParam ? parseInt(limitParam, 10) : DEFAULT_PAGE_SIZE;
+  if (isNaN(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return { error: `limit must be between 1 and ${MAX_PAGE_SIZE}` };
+  }
+
+  for (const key of ["incidentFrom", "incidentTo", "submittedFrom", "submittedTo"]) {
+    const value = get(key);
+    if (value && !DATE_PATTERN.test(value)) {
+      return { error: `${key} must be a date in YYYY-MM-DD format` };
+    }
+  }
+
+  const sort = (get("sort") || "submittedAt") as ReportSortField;
+  if (!REPORT_SORT_FIELDS.includes(sort)) {
+    return { error: `sort must be one of: ${REPORT_SORT_FIELDS.join(", ")}` };
+  }
+
+  const order = (get("order") || "desc") as SortOrder;
+  if (order !== "asc" && order !== "desc") {
+    return { error: "order must be 'asc' or 'desc'" };
+  }
+
+  const status = get("status");
+  if (status && !isReportStatus(status)) {
+    return { error: `status must be one of: ${REPORT_STATUSES.join(", ")}` };
+  }
+
+  const hasAnalysisParam = get("hasAnalysis");
+  if (hasAnalysisParam && hasAnalysisParam !== "true" && hasAnalysisParam !== "false") {
+    return { error: "hasAnalysis must be 'true' or 'false'" };
+  }
+
+  const deletedParam = get("deleted");
+  if (deletedParam && deletedParam !== "true" && deletedParam !== "false") {
+    return { error: "deleted must be 'true' or 'false'" };
+  }
+
+  return {
+    query: {
+      limit,
+      nextToken: get("nextToken"),
+      status: status as ReportStatus | undefined,
+      companyId: get("companyId"),
+      incidentFrom: get("incidentFrom"),
+      incidentTo: get("incidentTo"),
+      submittedFrom: get("submittedFrom"),
+      submittedTo: get("submittedTo"),
+      claimNumberPrefix: get("claimNumber"),
+      address: get("address"),
+      city: get("city"),
+      state: get("state")?.toUpperCase(),
+      zip: get("zip"),
+      hasAnalysis: hasAnalysisParam ? hasAnalysisParam === "true" : undefined,
+      deleted: deletedParam === "true",
+      sort,
+      order,
+    },
+  };
+}
+
+// Key attributes of the IncidentReport indexes `listReports` queries
+export type ReportIndexKey = "companyId" | "status" | "submittedAt";
+
+/**
+ * Combine the caller's scope filter with the requested filters into a single AppSync filter.
+ * The scope is always AND-ed in, so a requested companyId can never widen what the caller sees.
+ * Street address and city are left out because AppSync `eq` is case-sensitive; `matchesReadFilters`
+ * in lib/reports/list.ts applies them.
+ *
+ * DynamoDB rejects a filter on the key attributes of the index being queried, so pass those as
+ * `indexKeys`; the caller puts them in the key condition instead (see `submittedAtCondition`).
+ */
+export function buildReportFilter(
+  scope: ReportScope,
+  query: ReportListQuery,
+  indexKeys: ReportIndexKey[] = []
+): Record<string, any> | undefined {
+  const conditions: Record<string, any>[] = [];
+  const keyed = (key: ReportIndexKey) => indexKeys.includes(key);
+
+  // A company scope is exactly the companyId partition of the company index
+  if (scope.filter && !(scope.companyId && keyed("companyId"))) conditions.push(scope.filter);
+  // Restoring a report nulls deletedAt rather than removing it, hence the type check
+  conditions.push(
+    query.deleted
+      ? { deletedAt: { attributeType: "string" } }
+      : { or: [{ deletedAt: { attributeExists: false } }, { deletedAt: { attributeType: "_null" } }] }
+  );
+  if (query.status && !keyed("status")) conditions.push({ status: { eq: query.status } });
+  if (query.companyId && !keyed("companyId")) conditions.push({ companyId: { eq: query.companyId } });
+  if (query.claimNumberPrefix) conditions.push({ claimNumber: { beginsWith: query.claimNumberPrefix } });
+  if (query.state) conditions.push({ state: { eq: query.state } });
+  if (query.zip) conditions.push({ zip: { eq: query.zip } });
+  if (query.incidentFrom) conditions.push({ incidentDate: { ge: query.incidentFrom } });
+  if (query.incidentTo) conditions.push({ incidentDate: { le: query.incidentTo } });
+  if (!keyed("submittedAt")) {
+    if (query.submittedFrom) conditions.push({ submittedAt: { ge: submittedFromValue(query.submittedFrom) } });
+    if (query.submittedTo) conditions.push({ submittedAt: { le: submittedToValue(query.submittedTo) } });
+  }
+
+  if (conditions.length === 0) return undefined;
+  if (conditions.length === 1) return conditions[0];
+  return { and: conditions };
+}
+
+const submittedFromValue = (date: string) => `${date}T00:00:00.000Z`;
+const submittedToValue = (date: string) => `${date}T23:59:59.999Z`;
+
+/** The submittedFrom/submittedTo range as a sort key condition for the submittedAt indexes. */
+export function submittedAtCondition(
+  query: ReportListQuery
+): { between: [string, string] } | { ge: string } | { le: string } | undefined {
+  if (query.submittedFrom && query.submittedTo) {
+    return { between: [submittedFromValue(query.submittedFrom), submittedToValue(query.submittedTo)] };
+  }
+  if (query.submittedFrom) return { ge: submittedFromValue(query.submittedFrom) };
+  if (query.submittedTo) return { le: submittedToValue(query.submittedTo) };
+  return undefined;
+}
+
+/**
+ * True when the report carries finished AI results (not just a pending/analyzing placeholder).
+ * aiAnalysis is stored as AWSJSON, so it can arrive either as a string or an object.
+ */
+export function hasAnalysisResults(report: { aiAnalysis?: unknown }): boolean {
+  if (!report.aiAnalysis) return false;
+  try {
+    const analysis = typeof report.aiAnalysis === "string" ? JSON.parse(report.aiAnalysis) : report.aiAnalysis;
+    return Array.isArray(analysis?.detections);
+  } catch {
+    return false;
+  }
+}
+
+export function sortReports<T extends Record<string, any>>(reports: T[], sort: ReportSortField, order: SortOrder): T[] {
+  const direction = order === "asc" ? 1 : -1;
+  const valueOf = (report: T) => {
+    if (sort === "submittedAt") return report.submittedAt || report.createdAt || "";
+    return (report[sort] || "").toString().toLowerCase();
+  };
+
+  return [...reports].sort((a, b) => {
+    const valueA = valueOf(a);
+    const valueB = valueOf(b);
+    if (valueA === valueB) return 0;
+    return valueA > valueB ? direction : -direction;
+  });
+}
@@ -0,0 +1,78 @@
+import type { createApiClient } from "@/lib/amplify-server-utils";
+import type { ServerCaller } from "@/lib/auth/server-caller";
+
+type ApiClient = ReturnType<typeof createApiClient>;
+
+// Rules are enforced by the report-purge function as well; re-exported here for the app
+export { retentionDueAt, retentionPolicy, type RetentionPolicy } from "@/amplify/functions/report-purge/retention";
+
+/** Who may place and lift legal holds. */
+export const canManageLegalHold = (role: ServerCaller["role"]) => role === "SuperAdmin" || role === "Admin";
+
+/** Error for a change to a report on legal hold, or null. */
+export function legalHoldError(report: { legalHold?: boolean | null }, action: string): string | null {
+  return report.legalHold ? `This report is on legal hold and cannot be ${action}` : null;
+}
+
+/** A report on legal hold, as listed next to the retention rules. */
+export interface LegalHold {
+  id: string;
+  claimNumber?: string | null;
+  legalHoldReason?: string | null;
+  legalHoldBy?: string | null;
+  legalHoldAt?: string | null;
+  deletedAt?: string | null;
+}
+
+/** Every report of the company on legal hold, including any in the Trash. */
+export async function listLegalHolds(client: ApiClient, contextSpec: any, companyId: string): Promise<LegalHold[]> {
+  const holds: LegalHold[] = [];
+  let nextToken: string | null | undefined = undefined;
+
+  do {
+    const page: { data: LegalHold[]; nextToken?: string | null; errors?: { message: string }[] } =
+      await client.models.IncidentReport.listIncidentReportsByCompany(
+        contextSpec,
+        { companyId },
+        {
+          filter: { legalHold: { eq: true } },
+          selectionSet: ["id", "claimNumber", "legalHoldReason", "legalHoldBy", "legalHoldAt", "deletedAt"],
+          nextToken,
+        }
+      );
+
+    if (page.errors) {
+      throw new Error(`Failed to list legal holds: ${page.errors[0].message}`);
+    }
+
+    holds.push(...page.data);
+    nextToken = page.nextToken;
+  } while (nextToken);
+
+  return holds;
+}
+
+/** One report a retention run acted on. */
+export type RetentionRef = { reportId: string; claimNumber: string };
+
+/** What one run of the retention job did, as returned by the retention route. */
+export interface RetentionRun {
+  id: string;
+  ranAt: string;
+  piiPurged?: RetentionRef[] | string | null;
+  movedToTrash?: RetentionRef[] | string | null;
+  purgedFromTrash?: RetentionRef[] | string | null;
+  heldCount?: number | null;
+  failedCount?: number | null;
+}
+
+// a.json() lists come back as strings or arrays
+export const retentionRefs = (value: RetentionRun["piiPurged"]): RetentionRef[] => {
+  if (!value) return [];
+  if (typeof value !== "string") return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return [];
+  }
+};
@@ -0,0 +1,89 @@
+import { createApiClient } from "@/lib/amplify-server-utils";
+import type { ServerCaller } from "@/lib/auth/server-caller";
+
+export interface PropertyAddress {
+  address: string;
+  city: string;
+  state: string;
+  zip: string;
+}
+
+export interface ReportScope {
+  // AppSync filter to apply to IncidentReport list queries (undefined = no restriction)
+  filter?: Record<string, any>;
+  // Admin / IncidentReporter only: the caller's company, so list queries can use the company index
+  companyId?: string;
+  // HomeOwner only: the caller's properties, used to confirm address matches case-insensitively
+  properties?: PropertyAddress[];
+}
+
+const normalize = (value?: string | null) => (value || "").trim().toLowerCase();
+
+/**
+ * Returns true when the report address matches one of the given properties.
+ * Comparison is case-insensitive because AppSync `eq` filters are not.
+ */
+export function matchesPropertyAddress(
+  report: { address?: string | null; city?: string | null; state?: string | null; zip?: string | null },
+  properties: PropertyAddress[]
+): boolean {
+  return properties.some((p) =>
+    normalize(report.address) === normalize(p.address) &&
+    normalize(report.city) === normalize(p.city) &&
+    normalize(report.state) === normalize(p.state) &&
+    normalize(report.zip) === normalize(p.zip)
+  );
+}
+
+/**
+ * Work out which incident reports the caller is allowed to read.
+ *
+ * - SuperAdmin: every report
+ * - Admin / IncidentReporter: reports for their company
+ * - HomeOwner: reports whose address matches one of their Property records
+ *
+ * Returns null when the caller may not see any report at all.
+ */
+export async function getReportScope(contextSpec: any, caller: ServerCaller): Promise<ReportScope | null> {
+  if (caller.role === "SuperAdmin") {
+    return {};
+  }
+
+  if (caller.role === "Admin" || caller.role === "IncidentReporter") {
+    if (!caller.companyId) return null;
+    return { filter: { companyId: { eq: caller.companyId } }, companyId: caller.companyId };
+  }
+
+  // HomeOwner: Property records are owner-scoped, so the user-pool client only returns the caller's own
+  const client = createApiClient(contextSpec);
+  const { data: properties, errors } = await client.models.Property.list(contextSpec, {
+    selectionSet: ["address", "city", "state", "zip"],
+  });
+
+  if (errors) {
+    throw new Error(`Failed to load properties: ${errors[0].message}`);
+  }
+
+  if (!properties || properties.length === 0) return null;
+
+  // Narrow on ZIP server-side; street/city/state are re-checked case-insensitively by the caller
+  const zips = Array.from(new Set(properties.map((p) => p.zip)));
+  return {
+    filter: { or: zips.map((zip) => ({ zip: { eq: zip } })) },
+    properties,
+  };
+}
+
+/**
+ * Returns true when a single report falls inside the caller's scope.
+ * Use this on per-report routes, which load the report directly instead of listing.
+ */
+export function canReadReport(
+  scope: ReportScope | null,
+  report: { companyId?: string | null; address?: string | null; city?: string | null; state?: string | null; zip?: string | null }
+): boolean {
+  if (!scope) return false;
+  if (scope.companyId) return report.companyId === scope.companyId;
+  if (scope.properties) return matchesPropertyAddress(report, scope.properties);
+  return true;
+}
@@ -0,0 +1,63 @@
+import { createApiClient, runWithServerRole } from "@/lib/amplify-server-utils";
+import type { ReportStatus } from "@/lib/reports/workflow";
+
+type ApiClient = ReturnType<typeof createApiClient>;
+
+export interface StatusEventInput {
+  reportId: string;
+  companyId?: string | null;
+  fromStatus?: ReportStatus | null;
+  toStatus: ReportStatus;
+  actor: string;
+  actorRole?: string | null;
+  note?: string | null;
+}
+
+/**
+ * Append an entry to a report's status timeline. ReportStatusEvent is only writable by the server,
+ * so this runs with the server role; check the caller's access to the report first.
+ */
+export async function recordStatusEvent(event: StatusEventInput) {
+  const { data, errors } = await runWithServerRole((serverSpec) =>
+    createApiClient(serverSpec, 'iam').models.ReportStatusEvent.create(serverSpec, {
+      reportId: event.reportId,
+      companyId: event.companyId || undefined,
+      fromStatus: event.fromStatus || undefined,
+      toStatus: event.toStatus,
+      actor: event.actor,
+      actorRole: event.actorRole || undefined,
+      note: event.note || undefined,
+      changedAt: new Date().toISOString(),
+    })
+  );
+
+  if (errors) {
+    throw new Error(`Failed to record status event: ${errors[0].message}`);
+  }
+
+  return data;
+}
+
+/** All status events for a report, oldest first. Pass a server role client (see `runWithServerRole`). */
+export async function listStatusEvents(client: ApiClient, contextSpec: any, reportId: string) {
+  const events = [];
+  let nextToken: string | null | undefined = undefined;
+
+  do {
+    const page: Awaited<ReturnType<ApiClient["models"]["ReportStatusEvent"]["listStatusEventsByReport"]>> =
+      await client.models.ReportStatusEvent.listStatusEventsByReport(
+        contextSpec,
+        { reportId },
+        { sortDirection: "ASC", nextToken }
+      );
+
+    if (page.errors) {
+      throw new Error(`Failed to load status events: ${page.errors[0].message}`);
+    }
+
+    events.push(...page.data);
+    nextToken = page.nextToken;
+  } while (nextToken);
+
+  return events;
+}
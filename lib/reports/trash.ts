@@ -0,0 +1,13 @@
+import type { ServerCaller } from "@/lib/auth/server-caller";
+
+// Retention is read by the trash purge Lambda as well; re-exported here for the app
+export { DEFAULT_TRASH_RETENTION_DAYS, trashPurgeAt, trashRetentionDays } from "@/amplify/functions/report-purge/retention";
+
+/**
+ * Who may move reports to the Trash: everyone who can edit them. Deleting is reversible,
+ * so it follows the edit rights rather than the stricter data rule for hard deletes.
+ */
+export const canTrashReports = (role: ServerCaller["role"]) => role !== "HomeOwner";
+
+/** Who may see the Trash, restore reports from it and delete them for good. */
+export const canManageTrash = (role: ServerCaller["role"]) => role === "SuperAdmin" || role === "Admin";
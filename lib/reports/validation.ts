@@ -0,0 +1,71 @@
+import * as z from "zod";
+
+/**
+ * Field rules for an incident report, shared by `IncidentReportForm` and the CSV import
+ * dry run so both accept exactly the same values.
+ */
+export const reportFieldRules = {
+  claimNumber: z.string()
+    .min(1, "Claim number is required")
+    .max(50, "Claim number must be 50 characters or less")
+    .regex(/^[a-zA-Z0-9\-_]+$/, "Claim number can only contain letters, numbers, hyphens, and underscores"),
+  firstName: z.string()
+    .min(1, "First name is required")
+    .max(50, "First name must be 50 characters or less")
+    .regex(/^[a-zA-Z\s'-]+$/, "First name can only contain letters, spaces, hyphens, and apostrophes"),
+  lastName: z.string()
+    .min(1, "Last name is required")
+    .max(50, "Last name must be 50 characters or less")
+    .regex(/^[a-zA-Z\s'-]+$/, "Last name can only contain letters, spaces, hyphens, and apostrophes"),
+  phone: z.string()
+    .min(10, "Phone number must be at least 10 digits")
+    .max(20, "Phone number must be 20 characters or less")
+    .regex(/^[\d\s\-\(\)\+\.]+$/, "Phone number can only contain digits, spaces, hyphens, parentheses, plus signs, and periods")
+    .transform((val) => val.replace(/\D/g, ''))
+    .refine((val) => val.length >= 10 && val.length <= 15, "Phone number must be between 10 and 15 digits"),
+  email: z.string()
+    .min(1, "Email is required")
+    .max(100, "Email must be 100 characters or less")
+    .email("Invalid email address"),
+  address: z.string()
+    .min(1, "Street address is required")
+    .max(200, "Street address must be 200 characters or less"),
+  apartment: z.string()
+    .max(20, "Apartment/Suite must be 20 characters or less")
+    .optional(),
+  city: z.string()
+    .min(1, "City is required")
+    .max(100, "City must be 100 characters or less")
+    .regex(/^[a-zA-Z\s'-]+$/, "City can only contain letters, spaces, hyphens, and apostrophes"),
+  state: z.string()
+    .min(2, "State is required")
+    .max(2, "Use 2-letter state code")
+    .regex(/^[A-Z]{2}$/, "State must be 2 uppercase letters"),
+  zip: z.string()
+    .regex(/^\d{5}(-\d{4})?$/, "Invalid ZIP code (use format: 12345 or 12345-6789)"),
+  incidentDate: z.date({
+    required_error: "Incident date is required",
+  }).refine((date) => date <= new Date(), "Incident date cannot be in the future"),
+  description: z.string()
+    .min(10, "Description must be at least 10 characters")
+    .max(2000, "Description must be 2000 characters or less"),
+
+  // Weather Information
+  weatherHailSize: z.string()
+    .optional()
+    .refine((val) => {
+      if (!val || val === "") return true;
+      const num = parseFloat(val);
+      return !isNaN(num) && num >= 0 && num <= 10;
+    }, "Hail size must be between 0 and 10 inches"),
+  weatherDate: z.date().optional().refine((date) => !date || date <= new Date(), "Weather date cannot be in the future"),
+  weatherDescription: z.string().max(500, "Weather description must be 500 characters or less").optional(),
+
+  shingleExposure: z.string()
+    .optional()
+    .refine((val) => {
+      if (!val || val === "") return true;
+      const num = parseFloat(val);
+      return !isNaN(num) && num >= 0 && num <= 100;
+    }, "Shingle exposure must be between 0 and 100 inches"),
+};
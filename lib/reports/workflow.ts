@@ -0,0 +1,69 @@
+export const REPORT_STATUSES = [
+  "submitted",
+  "triaged",
+  "inspection_scheduled",
+  "in_review",
+  "awaiting_homeowner",
+  "approved",
+  "denied",
+  "resolved",
+  "reopened",
+] as const;
+export type ReportStatus = (typeof REPORT_STATUSES)[number];
+
+export const REPORT_STATUS_LABELS: Record<ReportStatus, string> = {
+  submitted: "Submitted",
+  triaged: "Triaged",
+  inspection_scheduled: "Inspection Scheduled",
+  in_review: "In Review",
+  awaiting_homeowner: "Awaiting Homeowner",
+  approved: "Approved",
+  denied: "Denied",
+  resolved: "Resolved",
+  reopened: "Reopened",
+};
+
+// Statuses a report may move to from each status. Closed claims (resolved) can only be reopened.
+const TRANSITIONS: Record<ReportStatus, ReportStatus[]> = {
+  submitted: ["triaged", "in_review", "denied"],
+  triaged: ["inspection_scheduled", "in_review", "awaiting_homeowner", "denied"],
+  inspection_scheduled: ["triaged", "in_review", "awaiting_homeowner"],
+  in_review: ["inspection_scheduled", "awaiting_homeowner", "approved", "denied"],
+  awaiting_homeowner: ["in_review", "denied"],
+  approved: ["resolved", "reopened"],
+  denied: ["resolved", "reopened"],
+  resolved: ["reopened"],
+  reopened: ["triaged", "in_review"],
+};
+
+// Statuses still waiting on a decision; approved, denied and resolved claims are not
+export const OPEN_REPORT_STATUSES: readonly ReportStatus[] = [
+  "submitted",
+  "triaged",
+  "inspection_scheduled",
+  "in_review",
+  "awaiting_homeowner",
+  "reopened",
+];
+
+export function isReportStatus(value: unknown): value is ReportStatus {
+  return typeof value === "string" && (REPORT_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Reports created before the workflow existed may have no status; treat them as submitted.
+ * `allowedStatuses` is the company's `workflow.allowedStatuses` setting; null allows every status.
+ */
+export function getAllowedTransitions(from?: string | null, allowedStatuses?: string[] | null): ReportStatus[] {
+  const transitions = TRANSITIONS[isReportStatus(from) ? from : "submitted"];
+  return allowedStatuses ? transitions.filter((status) => allowedStatuses.includes(status)) : transitions;
+}
+
+/** Reports without a status count as submitted, so they are open. */
+export function isOpenStatus(status?: string | null): boolean {
+  return OPEN_REPORT_STATUSES.includes(isReportStatus(status) ? status : "submitted");
+}
+
+export function canTransition(from: string | null | undefined, to: ReportStatus, allowedStatuses?: string[] | null): boolean {
+  return getAllowedTransitions(from, allowedStatuses).includes(to);
+}
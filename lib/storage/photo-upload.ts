@@ -0,0 +1,53 @@
+/**
+ * Browser side of photo uploads: ask /api/upload/photos for a presigned POST, then send the
+ * file straight to S3. The server picks the key and caps the content type and size.
+ */
+
+export class PhotoUploadError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "PhotoUploadError";
+  }
+}
+
+export interface UploadedPhoto {
+  path: string;
+  reportId: string;
+}
+
+/**
+ * Upload one photo for a report. `reportId` is the id the report has or will be created with;
+ * photos of a new report share one id so they land under the same prefix.
+ */
+export async function uploadReportPhoto(file: Blob, target: { companyId: string; reportId: string }): Promise<UploadedPhoto> {
+  const response = await fetch("/api/upload/photos", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      companyId: target.companyId,
+      reportId: target.reportId,
+      contentType: file.type,
+      size: file.size,
+    }),
+  });
+
+  const upload = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new PhotoUploadError(response.status, upload?.error || "Could not start the photo upload");
+  }
+
+  const formData = new FormData();
+  for (const [name, value] of Object.entries(upload.fields as Record<string, string>)) {
+    formData.append(name, value);
+  }
+  // S3 ignores every field after the file, so it has to come last
+  formData.append("file", file);
+
+  const s3Response = await fetch(upload.url, { method: "POST", body: formData });
+  if (!s3Response.ok) {
+    const code = (await s3Response.text().catch(() => "")).match(/<Code>([^<]+)<\/Code>/)?.[1];
+    throw new PhotoUploadError(s3Response.status, code === "EntityTooLarge" ? "The photo is too large" : `Photo upload failed${code ? ` (${code})` : ""}`);
+  }
+
+  return { path: upload.path, reportId: upload.reportId };
+}
@@ -0,0 +1,65 @@
+import { S3Client, GetObjectCommand, PutObjectCommand } from "@aws-sdk/client-s3";
+import { fetchAuthSession } from "aws-amplify/auth/server";
+import outputs from "@/amplify_outputs.json";
+
+export const STORAGE_BUCKET = outputs.storage.bucket_name;
+export const STORAGE_REGION = outputs.storage.aws_region;
+
+/**
+ * S3 client for the app bucket, signed with the caller's Amplify session credentials
+ * so the storage access rules in amplify/storage/resource.ts still apply.
+ */
+export async function createServerS3Client(contextSpec: any): Promise<S3Client> {
+  const session = await fetchAuthSession(contextSpec);
+  const credentials = session.credentials;
+
+  if (!credentials) {
+    throw new Error("Failed to load authentication context");
+  }
+
+  return new S3Client({
+    region: STORAGE_REGION,
+    credentials: {
+      accessKeyId: credentials.accessKeyId,
+      secretAccessKey: credentials.secretAccessKey,
+      sessionToken: credentials.sessionToken || "",
+    },
+  });
+}
+
+/**
+ * S3 client signed with the server's own credentials (the hosting compute role). Use it only for
+ * prefixes no group may reach directly, such as archived report PDFs, and only after checking
+ * the caller's access to the report.
+ */
+export function createServiceS3Client(): S3Client {
+  return new S3Client({ region: STORAGE_REGION });
+}
+
+/** Object bytes, or null when the object is missing or unreadable. */
+export async function getObjectBytes(s3Client: S3Client, key: string, bucket = STORAGE_BUCKET): Promise<Buffer | null> {
+  try {
+    const object = await s3Client.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+    if (!object.Body) return null;
+    return Buffer.from(await object.Body.transformToByteArray());
+  } catch (error) {
+    console.warn(`Failed to read s3://${bucket}/${key}:`, error);
+    return null;
+  }
+}
+
+/** The first `length` bytes of an object, e.g. to read its headers; null when missing or unreadable. */
+export async function getObjectPrefix(s3Client: S3Client, key: string, length: number, bucket = STORAGE_BUCKET): Promise<Buffer | null> {
+  try {
+    const object = await s3Client.send(new GetObjectCommand({ Bucket: bucket, Key: key, Range: `bytes=0-${length - 1}` }));
+    if (!object.Body) return null;
+    return Buffer.from(await object.Body.transformToByteArray());
+  } catch (error) {
+    console.warn(`Failed to read s3://${bucket}/${key}:`, error);
+    return null;
+  }
+}
+
+export async function putObjectBytes(s3Client: S3Client, key: string, body: Buffer, contentType: string, bucket = STORAGE_BUCKET) {
+  await s3Client.send(new PutObjectCommand({ Bucket: bucket, Key: key, Body: body, ContentType: contentType }));
+}
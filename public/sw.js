@@ -0,0 +1,94 @@
+/**
+ * Field-mode service worker: keeps the incident form and report list usable offline.
+ *
+ * - Build assets (/_next/static) are cache-first; their names change with every build.
+ * - The field pages are network-first with the cached copy as the offline fallback.
+ * - Report list/detail API responses are network-first so the last list seen stays readable.
+ *
+ * Submissions are not handled here; the app queues them in IndexedDB and syncs them itself.
+ */
+
+const VERSION = "v1";
+const STATIC_CACHE = `claimverifai-static-${VERSION}`;
+const PAGE_CACHE = `claimverifai-pages-${VERSION}`;
+const API_CACHE = "claimverifai-api"; // Cleared on sign-out; see lib/offline/service-worker.ts
+
+const FIELD_PAGES = ["/Dashboard/incident-form", "/Dashboard/reports"];
+const REPORT_API = /^\/api\/incident-reports(\/[^/]+)?$/;
+
+// Cache a page and the build assets it references, so it can start without a connection
+async function precachePage(path) {
+  const response = await fetch(path, { credentials: "same-origin" });
+  if (!response.ok) return;
+
+  const html = await response.clone().text();
+  await (await caches.open(PAGE_CACHE)).put(path, response);
+
+  const assets = [...new Set(html.match(/\/_next\/static\/[^"'\s)\\]+/g) || [])];
+  const cache = await caches.open(STATIC_CACHE);
+  await Promise.all(assets.map((asset) => cache.add(asset).catch(() => undefined)));
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    Promise.all([
+      ...FIELD_PAGES.map((path) => precachePage(path).catch(() => undefined)),
+      caches.open(STATIC_CACHE).then((cache) => cache.addAll(["/ClaimVerifAI.png", "/icons/icon.svg"])),
+    ]).then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key.startsWith("claimverifai-") && ![STATIC_CACHE, PAGE_CACHE, API_CACHE].includes(key))
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) (await caches.open(STATIC_CACHE)).put(request, response.clone());
+  return response;
+}
+
+async function networkFirst(request, cacheName, fallbackKey) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) (await caches.open(cacheName)).put(fallbackKey || request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await caches.match(fallbackKey || request);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(cacheFirst(request));
+    return;
+  }
+
+  if (request.mode === "navigate" && FIELD_PAGES.includes(url.pathname)) {
+    event.respondWith(networkFirst(request, PAGE_CACHE, url.pathname));
+    return;
+  }
+
+  if (REPORT_API.test(url.pathname) && url.pathname !== "/api/incident-reports/export") {
+    event.respondWith(networkFirst(request, API_CACHE));
+  }
+});
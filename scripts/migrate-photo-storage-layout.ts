@@ -0,0 +1,289 @@
+/**
+ * Migration Script: Move Incident Photos to the Per-Company, Per-Report Layout
+ *
+ * Photos used to be stored under incident-photos/{CompanyName}/{claimNumber}/ and analyzed copies
+ * under incident-photos/{reportId}/. Storage access is now limited to each company's own prefix, so
+ * every object has to live under incident-photos/{companyId}/{reportId}/ (analyzed copies in its
+ * analyzed/ folder).
+ *
+ * For each report with a company, this script:
+ * 1. Copies its photos and analyzed copies to the new keys
+ * 2. Rewrites photoUrls, photoMetadata paths and every path in aiAnalysis
+ *    (local_output_path, all_local_paths, ...)
+ * 3. Re-creates its PhotoEvidence and DetectionFeedback records with the new photo paths
+ * 4. Deletes the old objects
+ *
+ * Keys already under the report's prefix are left alone, so the script can be re-run after a
+ * partial failure. Reports without a company are skipped; only SuperAdmin can reach their photos.
+ * Saved form drafts are not migrated: the form re-uploads draft photos that are outside the prefix.
+ *
+ * Usage:
+ *   npx tsx scripts/migrate-photo-storage-layout.ts --dry-run
+ *   npx tsx scripts/migrate-photo-storage-layout.ts
+ *
+ * Prerequisites:
+ *   - Backend deployed with the new storage rules (amplify/storage/resource.ts)
+ *   - AWS credentials with read, write and delete access to the storage bucket
+ */
+
+import {
+  S3Client,
+  CopyObjectCommand,
+  DeleteObjectCommand,
+} from "@aws-sdk/client-s3";
+import { Amplify } from "aws-amplify";
+import { generateClient } from "aws-amplify/data";
+import { readFileSync } from "fs";
+import { join } from "path";
+import type { Schema } from "../amplify/data/resource";
+import { reportPhotoPrefix } from "../lib/reports/photos";
+
+const dryRun = process.argv.includes("--dry-run");
+
+// Read configuration from amplify_outputs.json
+function getAmplifyOutputs() {
+  try {
+    return JSON.parse(readFileSync(join(process.cwd(), "amplify_outputs.json"), "utf-8"));
+  } catch (error) {
+    console.error("❌ Error: Could not read amplify_outputs.json");
+    console.log("\nPlease ensure your Amplify backend is deployed:");
+    console.log("  npx amplify sandbox");
+    process.exit(1);
+  }
+}
+
+const amplifyOutputs = getAmplifyOutputs();
+const bucket: string | undefined = amplifyOutputs.storage?.bucket_name;
+const region: string = amplifyOutputs.storage?.aws_region || "us-east-1";
+
+if (!bucket || !amplifyOutputs.data?.api_key) {
+  console.error("❌ storage.bucket_name or data.api_key not found in amplify_outputs.json");
+  process.exit(1);
+}
+
+Amplify.configure(amplifyOutputs);
+const client = generateClient<Schema>({ authMode: "apiKey" });
+const s3Client = new S3Client({ region });
+
+const PHOTO_KEY = /^incident-photos\//;
+const LEGACY_ANALYZED_KEY = /^incident-photos\/[^/]+\/analyzed-[^/]+$/;
+
+interface MigrationStats {
+  reportsMigrated: number;
+  reportsUnchanged: number;
+  reportsSkipped: number;
+  reportsFailed: number;
+  objectsMoved: number;
+  objectsMissing: number;
+}
+
+const stats: MigrationStats = {
+  reportsMigrated: 0,
+  reportsUnchanged: 0,
+  reportsSkipped: 0,
+  reportsFailed: 0,
+  objectsMoved: 0,
+  objectsMissing: 0,
+};
+
+type ReportRecord = Pick<
+  Schema["IncidentReport"]["type"],
+  "id" | "claimNumber" | "companyId" | "photoUrls" | "photoMetadata" | "aiAnalysis"
+>;
+
+// a.json() fields come back as strings or objects depending on how they were written
+function parseJson(value: unknown): any {
+  if (typeof value !== "string") return value ?? null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+// Every storage key in a JSON value, however deeply nested
+function collectKeys(value: unknown, keys: Set<string>) {
+  if (typeof value === "string") {
+    if (PHOTO_KEY.test(value)) keys.add(value);
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectKeys(item, keys));
+  } else if (value && typeof value === "object") {
+    Object.values(value).forEach((item) => collectKeys(item, keys));
+  }
+}
+
+function rewriteKeys(value: unknown, moves: Map<string, string>): any {
+  if (typeof value === "string") return moves.get(value) ?? value;
+  if (Array.isArray(value)) return value.map((item) => rewriteKeys(item, moves));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, rewriteKeys(v, moves)]));
+  }
+  return value;
+}
+
+// New key for every object outside the report's prefix; file names are kept where they don't collide
+function planMoves(keys: Iterable<string>, prefix: string) {
+  const moves = new Map<string, string>();
+  const taken = new Set<string>();
+
+  for (const key of keys) {
+    if (key.startsWith(prefix)) taken.add(key);
+  }
+
+  for (const key of keys) {
+    if (key.startsWith(prefix)) continue;
+    const fileName = key.split("/").pop()!;
+    const folder = LEGACY_ANALYZED_KEY.test(key) ? "analyzed/" : "";
+    const base = folder ? fileName.replace(/^analyzed-/, "") : fileName;
+
+    let target = `${prefix}${folder}${base}`;
+    for (let n = 1; taken.has(target); n++) {
+      target = `${prefix}${folder}${n}-${base}`;
+    }
+    taken.add(target);
+    moves.set(key, target);
+  }
+
+  return moves;
+}
+
+async function copyObject(from: string, to: string) {
+  await s3Client.send(
+    new CopyObjectCommand({
+      Bucket: bucket,
+      CopySource: `${bucket}/${encodeURIComponent(from).replace(/%2F/g, "/")}`,
+      Key: to,
+    })
+  );
+}
+
+// PhotoEvidence and DetectionFeedback can only be created and deleted with the API key
+async function recreateWithNewPaths(reportId: string, moves: Map<string, string>) {
+  let nextToken: string | null | undefined = undefined;
+  do {
+    const page: Awaited<ReturnType<typeof client.models.PhotoEvidence.listPhotoEvidenceByReport>> =
+      await client.models.PhotoEvidence.listPhotoEvidenceByReport({ reportId }, { nextToken });
+    for (const { id, createdAt, updatedAt, ...entry } of page.data) {
+      const photoPath = moves.get(entry.photoPath);
+      if (!photoPath) continue;
+      await client.models.PhotoEvidence.create({ ...entry, photoPath });
+      await client.models.PhotoEvidence.delete({ id });
+    }
+    nextToken = page.nextToken;
+  } while (nextToken);
+
+  do {
+    const page: Awaited<ReturnType<typeof client.models.DetectionFeedback.listDetectionFeedbackByReport>> =
+      await client.models.DetectionFeedback.listDetectionFeedbackByReport({ reportId }, { nextToken });
+    for (const { id, createdAt, updatedAt, ...feedback } of page.data) {
+      const photoPath = moves.get(feedback.photoPath);
+      if (!photoPath) continue;
+      await client.models.DetectionFeedback.create({ ...feedback, photoPath });
+      await client.models.DetectionFeedback.delete({ id });
+    }
+    nextToken = page.nextToken;
+  } while (nextToken);
+}
+
+async function migrateReport(report: ReportRecord) {
+  const label = `${report.claimNumber} (${report.id})`;
+  if (!report.companyId) {
+    console.log(`   ⏭️  ${label}: no company, skipped`);
+    stats.reportsSkipped++;
+    return;
+  }
+
+  const photoMetadata = parseJson(report.photoMetadata);
+  const aiAnalysis = parseJson(report.aiAnalysis);
+
+  const keys = new Set<string>();
+  collectKeys(report.photoUrls, keys);
+  collectKeys(photoMetadata, keys);
+  collectKeys(aiAnalysis, keys);
+
+  const moves = planMoves(keys, reportPhotoPrefix(report.companyId, report.id));
+  if (moves.size === 0) {
+    stats.reportsUnchanged++;
+    return;
+  }
+
+  console.log(`   🔄 ${label}: ${moves.size} object(s)`);
+  if (dryRun) {
+    moves.forEach((to, from) => console.log(`      ${from} → ${to}`));
+    stats.reportsMigrated++;
+    return;
+  }
+
+  // Copy first; a missing object keeps its old path so nothing points at a key that doesn't exist
+  for (const [from, to] of moves) {
+    try {
+      await copyObject(from, to);
+    } catch (error: any) {
+      if (error?.name !== "NoSuchKey") throw error;
+      console.warn(`      ⚠️  ${from} not found, left as is`);
+      moves.delete(from);
+      stats.objectsMissing++;
+    }
+  }
+  if (moves.size === 0) return;
+
+  const { errors } = await client.models.IncidentReport.update({
+    id: report.id,
+    photoUrls: rewriteKeys(report.photoUrls, moves),
+    photoMetadata: photoMetadata ? JSON.stringify(rewriteKeys(photoMetadata, moves)) : undefined,
+    aiAnalysis: aiAnalysis ? JSON.stringify(rewriteKeys(aiAnalysis, moves)) : undefined,
+  });
+  if (errors) {
+    throw new Error(`Failed to update report: ${errors[0].message}`);
+  }
+
+  await recreateWithNewPaths(report.id, moves);
+
+  for (const from of moves.keys()) {
+    await s3Client.send(new DeleteObjectCommand({ Bucket: bucket, Key: from }));
+  }
+
+  stats.objectsMoved += moves.size;
+  stats.reportsMigrated++;
+}
+
+function listReports(nextToken: string | null | undefined) {
+  return client.models.IncidentReport.list({
+    selectionSet: ["id", "claimNumber", "companyId", "photoUrls", "photoMetadata", "aiAnalysis"],
+    nextToken,
+  });
+}
+
+async function main() {
+  console.log(`🚀 Moving incident photos to incident-photos/{companyId}/{reportId}/${dryRun ? " (dry run)" : ""}`);
+  console.log(`   Bucket: ${bucket}\n`);
+
+  let nextToken: string | null | undefined = undefined;
+  do {
+    const page = await listReports(nextToken);
+
+    for (const report of page.data) {
+      try {
+        await migrateReport(report);
+      } catch (error: any) {
+        stats.reportsFailed++;
+        console.error(`   ❌ ${report.claimNumber} (${report.id}): ${error.message}`);
+      }
+    }
+    nextToken = page.nextToken;
+  } while (nextToken);
+
+  console.log(
+    `\n📊 Summary: ${stats.reportsMigrated} ${dryRun ? "to migrate" : "migrated"}, ${stats.reportsUnchanged} already migrated, ` +
+      `${stats.reportsSkipped} skipped, ${stats.reportsFailed} failed`
+  );
+  if (!dryRun) {
+    console.log(`   ${stats.objectsMoved} object(s) moved, ${stats.objectsMissing} missing\n`);
+  }
+  if (stats.reportsFailed > 0) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error("💥 Unhandled error:", error);
+  process.exit(1);
+});